@@ -8,6 +8,7 @@ export const schema = z.object({
 	CLI_AUTH_SESSION_TTL: z.coerce.number().int().positive().optional().default(600),
 	NODE_ENV: z.enum(["development", "production", "preview"]).default("development"),
 	PORT: z.coerce.number().int().positive().max(65535).optional().default(3000),
+	REGISTRY_DIR: str(),
 	REPO_CACHE_DIR: str(),
 	REPO_CACHE_TTL: z.coerce.number().int().nonnegative().optional().default(0),
 	WEB_BASE_URL: str(),
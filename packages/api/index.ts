@@ -4,6 +4,7 @@ import { env } from "@/env"
 import { accountRoutes } from "@/routes/account"
 import { authRoutes } from "@/routes/auth"
 import { gitRoutes } from "@/routes/git"
+import { registryRoutes } from "@/routes/registry"
 
 const app = new Hono()
 
@@ -11,6 +12,7 @@ app.get("/", (c) => c.text("Skills Supply API"))
 app.route("/", gitRoutes)
 app.route("/", authRoutes)
 app.route("/", accountRoutes)
+app.route("/", registryRoutes)
 
 serve({
 	fetch: app.fetch,
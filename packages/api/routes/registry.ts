@@ -0,0 +1,77 @@
+import { createReadStream } from "node:fs"
+import { Readable } from "node:stream"
+import { isValidRegistryName } from "@skills-supply/core"
+import { type Context, Hono } from "hono"
+import { buildRegistryIndex, resolveRegistryTarball } from "@/services/registry"
+
+export const registryRoutes = new Hono()
+
+registryRoutes.get("/registry/v1/packages/:name", async (c) => {
+	return serveIndex(c, c.req.param("name"), undefined)
+})
+
+registryRoutes.get("/registry/v1/orgs/:org/packages/:name", async (c) => {
+	return serveIndex(c, c.req.param("name"), c.req.param("org"))
+})
+
+registryRoutes.get("/registry/v1/packages/:name/-/:file", async (c) => {
+	return serveTarball(c, c.req.param("name"), undefined, c.req.param("file"))
+})
+
+registryRoutes.get("/registry/v1/orgs/:org/packages/:name/-/:file", async (c) => {
+	return serveTarball(c, c.req.param("name"), c.req.param("org"), c.req.param("file"))
+})
+
+async function serveIndex(
+	c: Context,
+	name: string,
+	org: string | undefined,
+): Promise<Response> {
+	if (!isValidRegistryName(name) || (org !== undefined && !isValidRegistryName(org))) {
+		return c.text("Invalid package name", 400)
+	}
+
+	try {
+		const index = await buildRegistryIndex(name, org)
+		if (!index) {
+			return c.text("Package not found", 404)
+		}
+
+		c.header("Cache-Control", "no-cache")
+		return c.json(index)
+	} catch (error) {
+		console.error("Failed to build registry index:", error)
+		return c.text("Registry not available", 500)
+	}
+}
+
+async function serveTarball(
+	c: Context,
+	name: string,
+	org: string | undefined,
+	file: string,
+): Promise<Response> {
+	if (!isValidRegistryName(name) || (org !== undefined && !isValidRegistryName(org))) {
+		return c.text("Invalid package name", 400)
+	}
+
+	try {
+		const tarballPath = await resolveRegistryTarball(name, org, file)
+		if (!tarballPath) {
+			return c.text("Release not found", 404)
+		}
+
+		const stream = Readable.toWeb(
+			createReadStream(tarballPath),
+		) as unknown as ReadableStream
+		return new Response(stream, {
+			headers: {
+				"Cache-Control": "public, max-age=31536000, immutable",
+				"Content-Type": "application/gzip",
+			},
+		})
+	} catch (error) {
+		console.error("Failed to serve registry tarball:", error)
+		return c.text("Registry not available", 500)
+	}
+}
@@ -0,0 +1,127 @@
+import { promises as fs } from "node:fs"
+import * as path from "node:path"
+import {
+	buildRegistryTarballName,
+	buildRegistryTarballPath,
+	computeIntegrity,
+	REGISTRY_API_PATH,
+	type RegistryIndex,
+	type RegistryRelease,
+} from "@skills-supply/core"
+import { env } from "@/env"
+
+/**
+ * Registry packages are stored as release tarballs on disk:
+ *
+ *   <REGISTRY_DIR>/<name>/<name>-<version>.tgz
+ *   <REGISTRY_DIR>/@<org>/<name>/<name>-<version>.tgz
+ *
+ * The index of a package is built from the tarballs present, so publishing a
+ * release means copying its tarball into place.
+ */
+
+interface IntegrityCacheEntry {
+	integrity: string
+	mtimeMs: number
+	size: number
+}
+
+const integrityCache = new Map<string, IntegrityCacheEntry>()
+
+export async function buildRegistryIndex(
+	name: string,
+	org: string | undefined,
+): Promise<RegistryIndex | null> {
+	const packageDir = resolvePackageDir(name, org)
+	let files: string[]
+	try {
+		files = await fs.readdir(packageDir)
+	} catch (error) {
+		if (isNotFound(error)) {
+			return null
+		}
+		throw error
+	}
+
+	const prefix = `${name}-`
+	const versions: RegistryRelease[] = []
+	for (const file of files.sort()) {
+		if (!file.startsWith(prefix) || !file.endsWith(".tgz")) {
+			continue
+		}
+
+		const version = file.slice(prefix.length, -".tgz".length)
+		if (file !== buildRegistryTarballName(name, version)) {
+			continue
+		}
+
+		const integrity = await readIntegrity(path.join(packageDir, file))
+		versions.push({
+			integrity,
+			tarball: `${normalizeBaseUrl(env.API_BASE_URL)}/${REGISTRY_API_PATH}/${buildRegistryTarballPath(name, version, org)}`,
+			version,
+		} as RegistryRelease)
+	}
+
+	if (versions.length === 0) {
+		return null
+	}
+
+	return { name, org, versions } as RegistryIndex
+}
+
+/**
+ * Path of a release tarball, or null when the file name does not belong to
+ * the package or the release does not exist.
+ */
+export async function resolveRegistryTarball(
+	name: string,
+	org: string | undefined,
+	file: string,
+): Promise<string | null> {
+	if (!file.startsWith(`${name}-`) || !file.endsWith(".tgz") || file.includes("/")) {
+		return null
+	}
+
+	const tarballPath = path.join(resolvePackageDir(name, org), file)
+	try {
+		const stats = await fs.stat(tarballPath)
+		return stats.isFile() ? tarballPath : null
+	} catch (error) {
+		if (isNotFound(error)) {
+			return null
+		}
+		throw error
+	}
+}
+
+function resolvePackageDir(name: string, org: string | undefined): string {
+	return org
+		? path.join(env.REGISTRY_DIR, `@${org}`, name)
+		: path.join(env.REGISTRY_DIR, name)
+}
+
+async function readIntegrity(filePath: string): Promise<string> {
+	const stats = await fs.stat(filePath)
+	const cached = integrityCache.get(filePath)
+	if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+		return cached.integrity
+	}
+
+	const integrity = computeIntegrity(await fs.readFile(filePath))
+	integrityCache.set(filePath, { integrity, mtimeMs: stats.mtimeMs, size: stats.size })
+	return integrity
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+	return baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl
+}
+
+function isNotFound(error: unknown): boolean {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		"code" in error &&
+		(error as { code?: string }).code === "ENOENT"
+	)
+}
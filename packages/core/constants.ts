@@ -23,6 +23,18 @@ export const MARKETPLACE_FILENAME = "marketplace.json"
 /** Default skills subdirectory in plugin packages */
 export const PLUGIN_SKILLS_DIR = "skills"
 
+/** Slash command markdown files in plugin packages */
+export const PLUGIN_COMMANDS_DIR = "commands"
+
+/** Subagent markdown files in plugin packages */
+export const PLUGIN_AGENTS_DIR = "agents"
+
+/** Hook configuration of plugin packages, relative to the package root */
+export const PLUGIN_HOOKS_PATH = "hooks/hooks.json"
+
+/** MCP server configuration of plugin packages */
+export const PLUGIN_MCP_FILENAME = ".mcp.json"
+
 /** Global sk configuration directory (relative to home) */
 export const SK_GLOBAL_DIR = ".sk"
 
@@ -0,0 +1,53 @@
+import type { AgentId } from "@/types/branded"
+import { coerceAgentId } from "@/types/coerce"
+import type { Result, ValidationError } from "@/types/error"
+
+type DeclarationAgentsError = Extract<ValidationError, { source: "manual" }>
+
+/**
+ * Parse the `agents` list of a dependency. A list that is present must name
+ * at least one known agent id; customAgentIds are the custom agents declared
+ * by the same manifest.
+ */
+export function parseDeclarationAgents(
+	raw: { agents?: readonly string[] },
+	customAgentIds?: ReadonlySet<string>,
+): Result<AgentId[] | undefined, DeclarationAgentsError> {
+	if (raw.agents === undefined) {
+		return { ok: true, value: undefined }
+	}
+
+	if (raw.agents.length === 0) {
+		return {
+			error: {
+				field: "agents",
+				message: "agents must list at least one agent.",
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const agents: AgentId[] = []
+	for (const value of raw.agents) {
+		const agentId =
+			typeof value === "string" ? coerceAgentId(value, customAgentIds) : null
+		if (!agentId) {
+			return {
+				error: {
+					field: "agents",
+					message: `Unknown agent id in agents: ${String(value)}.`,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+		if (!agents.includes(agentId)) {
+			agents.push(agentId)
+		}
+	}
+
+	return { ok: true, value: agents }
+}
@@ -0,0 +1,33 @@
+import type { NonEmptyString } from "@/types/branded"
+import { coerceNonEmpty } from "@/types/coerce"
+import type { Result, ValidationError } from "@/types/error"
+
+type DeclarationPrefixError = Extract<ValidationError, { source: "manual" }>
+
+/**
+ * Parse the `prefix` of a dependency, which names its installed skills in
+ * place of the alias. It becomes part of a directory name, so it must be a
+ * single path segment.
+ */
+export function parseDeclarationPrefix(raw: {
+	prefix?: string
+}): Result<NonEmptyString | undefined, DeclarationPrefixError> {
+	if (raw.prefix === undefined) {
+		return { ok: true, value: undefined }
+	}
+
+	const prefix = typeof raw.prefix === "string" ? coerceNonEmpty(raw.prefix) : null
+	if (!prefix || /[/\\]/.test(prefix) || prefix === "." || prefix === "..") {
+		return {
+			error: {
+				field: "prefix",
+				message: "prefix must be a non-empty name without path separators.",
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: prefix }
+}
@@ -0,0 +1,82 @@
+import type { NonEmptyString } from "@/types/branded"
+import { coerceNonEmpty } from "@/types/coerce"
+import type { SkillFilter } from "@/types/declaration"
+import type { Result, ValidationError } from "@/types/error"
+
+type SkillFilterError = Extract<ValidationError, { source: "manual" }>
+
+/**
+ * Build the skill filter of a dependency from its `skills` and
+ * `exclude_skills` lists. The two are mutually exclusive, and a list that is
+ * present must name at least one skill.
+ */
+export function parseSkillFilter(raw: {
+	skills?: readonly string[]
+	exclude_skills?: readonly string[]
+}): Result<SkillFilter | undefined, SkillFilterError> {
+	if (raw.skills !== undefined && raw.exclude_skills !== undefined) {
+		return {
+			error: {
+				field: "skills",
+				message: "Use either skills or exclude_skills, not both.",
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	if (raw.skills !== undefined) {
+		const names = parseSkillNames(raw.skills, "skills")
+		return names.ok
+			? { ok: true, value: { names: names.value, type: "include" } }
+			: names
+	}
+
+	if (raw.exclude_skills !== undefined) {
+		const names = parseSkillNames(raw.exclude_skills, "exclude_skills")
+		return names.ok
+			? { ok: true, value: { names: names.value, type: "exclude" } }
+			: names
+	}
+
+	return { ok: true, value: undefined }
+}
+
+function parseSkillNames(
+	values: readonly string[],
+	field: "skills" | "exclude_skills",
+): Result<NonEmptyString[], SkillFilterError> {
+	if (values.length === 0) {
+		return {
+			error: {
+				field,
+				message: `${field} must list at least one skill.`,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const names: NonEmptyString[] = []
+	for (const value of values) {
+		const name = typeof value === "string" ? coerceNonEmpty(value) : null
+		if (!name) {
+			return {
+				error: {
+					field,
+					message: `${field} must contain non-empty skill names.`,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+		if (!names.includes(name)) {
+			names.push(name)
+		}
+	}
+
+	return { ok: true, value: names }
+}
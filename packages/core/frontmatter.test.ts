@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest"
-import { parseFrontmatter } from "@/parsing/frontmatter"
+import { parseFrontmatter, parseMarkdownDocument } from "@/parsing/frontmatter"
 
 describe("parseFrontmatter", () => {
 	it("fails when frontmatter is missing", () => {
@@ -55,3 +55,37 @@ describe("parseFrontmatter", () => {
 		}
 	})
 })
+
+describe("parseMarkdownDocument", () => {
+	it("splits frontmatter attributes from the body", () => {
+		const result = parseMarkdownDocument(
+			"---\r\ndescription: Review a PR\r\nargument-hint: <number>\r\n---\r\n\nReview $ARGUMENTS\r\n",
+		)
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				attributes: { "argument-hint": "<number>", description: "Review a PR" },
+				body: "\nReview $ARGUMENTS\n",
+			},
+		})
+	})
+
+	it("accepts files without frontmatter", () => {
+		const result = parseMarkdownDocument("Explain the selected code.\n")
+
+		expect(result).toEqual({
+			ok: true,
+			value: { attributes: {}, body: "Explain the selected code.\n" },
+		})
+	})
+
+	it("fails when frontmatter is unclosed", () => {
+		const result = parseMarkdownDocument("---\ndescription: Review\n")
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.type).toBe("validation")
+		}
+	})
+})
@@ -8,18 +8,25 @@ export {
 	IGNORED_DIRS,
 	MANIFEST_FILENAME,
 	MARKETPLACE_FILENAME,
+	PLUGIN_AGENTS_DIR,
+	PLUGIN_COMMANDS_DIR,
 	PLUGIN_DIR,
 	PLUGIN_FILENAME,
+	PLUGIN_HOOKS_PATH,
+	PLUGIN_MCP_FILENAME,
 	PLUGIN_SKILLS_DIR,
 	SK_GLOBAL_DIR,
 	SKILL_FILENAME,
 } from "@/constants"
+export { parseDeclarationAgents } from "@/declaration/agents"
 export { formatSkPackageAddCommand } from "@/declaration/format"
 export { normalizeDeclarationToKey } from "@/declaration/normalize"
 export {
 	coerceValidatedDeclaration,
 	parseSerializedDeclaration,
 } from "@/declaration/parse"
+export { parseDeclarationPrefix } from "@/declaration/prefix"
+export { parseSkillFilter } from "@/declaration/skill-filter"
 export { detectStructure } from "@/detection/structure"
 export {
 	discoverSkillPathsForPlugin,
@@ -29,9 +36,19 @@ export { resolveAutoDiscoverSkills } from "@/manifest/exports"
 export { validateManifest } from "@/manifest/validate"
 export { buildClaudePluginDeclaration } from "@/marketplace/build"
 export { resolvePluginSource } from "@/marketplace/resolve"
-export { parseFrontmatter } from "@/parsing/frontmatter"
+export { parseFrontmatter, parseMarkdownDocument } from "@/parsing/frontmatter"
 export { parseMarketplace } from "@/parsing/marketplace"
 export { parsePlugin } from "@/parsing/plugin"
+export { parseRegistryIndex } from "@/parsing/registry"
+export {
+	buildRegistryIndexPath,
+	buildRegistryTarballName,
+	buildRegistryTarballPath,
+	computeIntegrity,
+	formatRegistryPackageName,
+	isValidRegistryName,
+	REGISTRY_API_PATH,
+} from "@/registry/protocol"
 export type {
 	SkillExtractionMode,
 	SkillExtractionOutput,
@@ -47,6 +64,8 @@ export type {
 	AbsolutePath,
 	AgentId,
 	Alias,
+	BuiltinAgentId,
+	CustomAgentId,
 	GithubRef,
 	GitUrl,
 	NonEmptyString,
@@ -58,6 +77,7 @@ export {
 	coerceAbsolutePathDirect,
 	coerceAgentId,
 	coerceAlias,
+	coerceCustomAgentId,
 	coerceGithubRef,
 	coerceGitRef,
 	coerceGitUrl,
@@ -66,19 +86,28 @@ export {
 	VALID_AGENT_IDS,
 } from "@/types/coerce"
 export type {
+	CustomAgentDefinition,
 	ExtractedSkill,
 	ManifestInfo,
 	ManifestPackageMetadata,
+	MarkdownDocument,
 	MarketplaceInfo,
 	MarketplacePlugin,
 	MarketplacePluginMetadata,
+	McpServerDefinition,
+	McpTransport,
 	PluginInfo,
+	RegistryIndex,
+	RegistryRelease,
+	RuleFormat,
 	SkillEntry,
 	SkillInfo,
+	SkillNaming,
 } from "@/types/content"
 export type {
 	GitRef,
 	RawDeclaration,
+	SkillFilter,
 	ValidatedDeclaration,
 } from "@/types/declaration"
 export type { DetectedStructure, DetectionTarget } from "@/types/detection"
@@ -93,3 +122,10 @@ export {
 	isRemoteMarketplaceUrl,
 } from "@/types/guards"
 export { validateDeclaration } from "@/validation/declaration"
+export {
+	findBestSemverMatch,
+	isValidSemverRange,
+	satisfiesSemverRange,
+} from "@/version/range"
+export type { SemverVersion } from "@/version/semver"
+export { compareSemver, findLatestSemverTag, parseSemver } from "@/version/semver"
@@ -3,29 +3,53 @@ import type {
 	ValidatedDependency as AgentsDependency,
 	ValidatedManifest as AgentsManifest,
 } from "@skills-supply/agents-toml"
-import type { AbsolutePath, AgentId, Alias, NonEmptyString } from "@/types/branded"
+import { parseDeclarationAgents } from "@/declaration/agents"
+import { parseDeclarationPrefix } from "@/declaration/prefix"
+import { parseSkillFilter } from "@/declaration/skill-filter"
+import type { ManifestExtensions } from "@/manifest/extensions"
+import { adaptMcpServers } from "@/manifest/mcp-servers"
+import type {
+	AbsolutePath,
+	AgentId,
+	Alias,
+	CustomAgentId,
+	NonEmptyString,
+} from "@/types/branded"
 import {
 	coerceAbsolutePath,
 	coerceAbsolutePathDirect,
 	coerceAgentId,
 	coerceAlias,
+	coerceCustomAgentId,
 	coerceGithubRef,
 	coerceGitUrl,
 	coerceNonEmpty,
 	coerceRemoteMarketplaceUrl,
 } from "@/types/coerce"
-import type { ManifestInfo } from "@/types/content"
+import type {
+	CustomAgentDefinition,
+	ManifestInfo,
+	RuleFormat,
+	SkillNaming,
+} from "@/types/content"
 import type { GitRef, ValidatedDeclaration } from "@/types/declaration"
 import type { Result } from "@/types/error"
 
 export function adaptManifest(
 	parsed: AgentsManifest,
+	extensions: ManifestExtensions,
 	manifestPath: AbsolutePath,
 ): Result<ManifestInfo> {
+	const customAgents = adaptCustomAgents(extensions.custom_agents, manifestPath)
+	if (!customAgents.ok) {
+		return customAgents
+	}
+	const customAgentIds: ReadonlySet<string> = new Set(customAgents.value?.keys())
+
 	const agents = new Map<AgentId, boolean>()
 
 	for (const [id, enabled] of parsed.agents) {
-		const agentId = coerceAgentId(id)
+		const agentId = coerceAgentId(id, customAgentIds)
 		if (!agentId) {
 			const message = `Unknown agent id: ${id}.`
 			return {
@@ -64,7 +88,28 @@ export function adaptManifest(
 			return adapted
 		}
 
-		dependencies.set(brandedAlias, adapted.value)
+		const options = extensions.dependencies.get(alias) ?? {}
+		const skillFilter = parseSkillFilter(options)
+		if (!skillFilter.ok) {
+			return dependencyOptionError(skillFilter.error, alias, manifestPath)
+		}
+
+		const targetAgents = parseDeclarationAgents(options, customAgentIds)
+		if (!targetAgents.ok) {
+			return dependencyOptionError(targetAgents.error, alias, manifestPath)
+		}
+
+		const prefix = parseDeclarationPrefix(options)
+		if (!prefix.ok) {
+			return dependencyOptionError(prefix.error, alias, manifestPath)
+		}
+
+		dependencies.set(brandedAlias, {
+			...adapted.value,
+			...(skillFilter.value && { skillFilter: skillFilter.value }),
+			...(targetAgents.value && { agents: targetAgents.value }),
+			...(prefix.value && { prefix: prefix.value }),
+		})
 	}
 
 	let pkg: ManifestInfo["package"]
@@ -183,17 +228,349 @@ export function adaptManifest(
 		}
 	}
 
+	if (extensions.instructions !== undefined) {
+		const instructions = coerceRelativePath(extensions.instructions)
+		if (!instructions) {
+			return {
+				error: {
+					field: "exports.instructions",
+					message:
+						"exports.instructions must be a file path relative to the manifest, inside the package.",
+					path: manifestPath,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+		exportsValue = { ...exportsValue, instructions }
+	}
+
+	let settings: ManifestInfo["settings"]
+	if (extensions.settings) {
+		const { apply_to_projects: applyToProjects, jobs } = extensions.settings
+		if (jobs !== undefined && (!Number.isInteger(jobs) || jobs < 1)) {
+			const message = "settings.jobs must be a positive integer."
+			return {
+				error: {
+					field: "settings.jobs",
+					message,
+					path: manifestPath,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+		const naming = adaptSkillNaming(extensions.settings, manifestPath)
+		if (!naming.ok) {
+			return naming
+		}
+		settings = { applyToProjects, jobs, naming: naming.value }
+	}
+
+	const workspace = adaptWorkspace(extensions.workspace, manifestPath)
+	if (!workspace.ok) {
+		return workspace
+	}
+
+	const mcpServers = adaptMcpServers(extensions.mcp_servers, manifestPath)
+	if (!mcpServers.ok) {
+		return mcpServers
+	}
+
 	return {
 		ok: true,
 		value: {
 			agents,
+			customAgents: customAgents.value,
 			dependencies,
 			exports: exportsValue,
+			mcpServers: mcpServers.value,
 			package: pkg,
+			settings,
+			workspace: workspace.value,
 		},
 	}
 }
 
+function adaptWorkspace(
+	raw: ManifestExtensions["workspace"],
+	manifestPath: AbsolutePath,
+): Result<ManifestInfo["workspace"]> {
+	const invalid = (message: string): Result<never> => ({
+		error: {
+			field: "workspace.members",
+			message,
+			path: manifestPath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	})
+
+	if (!raw) {
+		return { ok: true, value: undefined }
+	}
+
+	if (!raw.members || raw.members.length === 0) {
+		return invalid('[workspace] needs members, such as members = ["apps/*"].')
+	}
+
+	const members: NonEmptyString[] = []
+	for (const member of raw.members) {
+		const coerced = coerceNonEmpty(member)
+		const segments = member.split("/")
+		if (
+			!coerced ||
+			member.includes("\\") ||
+			segments.some(
+				(segment) => segment === "" || segment === "." || segment === "..",
+			)
+		) {
+			return invalid(
+				`Invalid workspace member "${member}". Members must be relative paths without empty, '.' or '..' segments.`,
+			)
+		}
+		if (segments.some((segment) => segment.includes("**"))) {
+			return invalid(
+				`Invalid workspace member "${member}". "*" matches within one path segment; "**" is not supported.`,
+			)
+		}
+		if (!members.includes(coerced)) {
+			members.push(coerced)
+		}
+	}
+
+	return { ok: true, value: { members } }
+}
+
+const NAMING_PLACEHOLDER = /\{([^}]*)\}/g
+const NAMING_PLACEHOLDERS: ReadonlySet<string> = new Set(["alias", "skill"])
+
+function adaptSkillNaming(
+	settings: NonNullable<ManifestExtensions["settings"]>,
+	manifestPath: AbsolutePath,
+): Result<SkillNaming | undefined> {
+	const invalid = (field: string, message: string): Result<never> => ({
+		error: {
+			field: `settings.${field}`,
+			message,
+			path: manifestPath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	})
+
+	const { naming, naming_template: template } = settings
+	if (naming === undefined && template === undefined) {
+		return { ok: true, value: undefined }
+	}
+
+	if (naming !== "template") {
+		if (template !== undefined) {
+			return invalid(
+				"naming_template",
+				'settings.naming_template requires naming = "template".',
+			)
+		}
+		if (naming === "prefixed" || naming === "bare") {
+			return { ok: true, value: { type: naming } }
+		}
+		return invalid(
+			"naming",
+			'settings.naming must be "prefixed", "bare" or "template".',
+		)
+	}
+
+	const coerced = template === undefined ? null : coerceNonEmpty(template)
+	if (!coerced) {
+		return invalid(
+			"naming_template",
+			'naming = "template" needs a naming_template such as "{alias}/{skill}".',
+		)
+	}
+
+	const placeholders = [...coerced.matchAll(NAMING_PLACEHOLDER)].map(
+		(match) => match[1],
+	)
+	const unknown = placeholders.find((name) => !NAMING_PLACEHOLDERS.has(name ?? ""))
+	if (unknown !== undefined) {
+		return invalid(
+			"naming_template",
+			`Unknown placeholder {${unknown}} in settings.naming_template. Use {alias} and {skill}.`,
+		)
+	}
+	if (!placeholders.includes("skill")) {
+		return invalid(
+			"naming_template",
+			"settings.naming_template must include {skill}.",
+		)
+	}
+
+	const segments = coerced.split("/")
+	if (
+		coerced.includes("\\") ||
+		segments.some((segment) => segment === "" || segment === "." || segment === "..")
+	) {
+		return invalid(
+			"naming_template",
+			"settings.naming_template must be a relative path without empty, '.' or '..' segments.",
+		)
+	}
+
+	// Agents only look one directory below their skills directory
+	if (segments.length > 2) {
+		return invalid(
+			"naming_template",
+			"settings.naming_template may nest skills at most one directory deep.",
+		)
+	}
+
+	return { ok: true, value: { template: coerced, type: "template" } }
+}
+
+const RULE_FORMATS: ReadonlySet<string> = new Set<RuleFormat>([
+	"cline",
+	"copilot",
+	"cursor",
+	"windsurf",
+])
+
+function adaptCustomAgents(
+	raw: ManifestExtensions["custom_agents"],
+	manifestPath: AbsolutePath,
+): Result<Map<CustomAgentId, CustomAgentDefinition> | undefined> {
+	if (!raw || raw.size === 0) {
+		return { ok: true, value: undefined }
+	}
+
+	const customAgents = new Map<CustomAgentId, CustomAgentDefinition>()
+	for (const [id, entry] of raw) {
+		const agentId = coerceCustomAgentId(id)
+		if (!agentId) {
+			const message = `Invalid custom agent id: ${id}. Use lowercase letters, digits and dashes, and do not reuse a built-in agent id.`
+			return {
+				error: {
+					field: "agents.custom",
+					message,
+					path: manifestPath,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+
+		const invalid = (field: string, message: string): Result<never> => ({
+			error: {
+				field: `agents.custom.${id}.${field}`,
+				message,
+				path: manifestPath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		})
+
+		const displayName = coerceNonEmpty(entry.display_name ?? id)
+		if (!displayName) {
+			return invalid(
+				"display_name",
+				`Custom agent ${id} needs a non-empty display_name.`,
+			)
+		}
+
+		const localPath = coerceRelativePath(entry.local_path)
+		if (!localPath) {
+			return invalid(
+				"local_path",
+				`Custom agent ${id} needs a local_path relative to the project root.`,
+			)
+		}
+
+		const globalPath = coerceRelativePath(entry.global_path)
+		if (!globalPath) {
+			return invalid(
+				"global_path",
+				`Custom agent ${id} needs a global_path relative to the home directory.`,
+			)
+		}
+
+		const skillsDir = coerceRelativePath(entry.skills_dir ?? "skills")
+		if (!skillsDir) {
+			return invalid(
+				"skills_dir",
+				`Custom agent ${id} needs a skills_dir relative to its agent directory.`,
+			)
+		}
+
+		let detect: NonEmptyString | undefined
+		if (entry.detect !== undefined) {
+			const command = coerceNonEmpty(entry.detect)
+			if (!command) {
+				return invalid(
+					"detect",
+					`Custom agent ${id} has an empty detect command.`,
+				)
+			}
+			detect = command
+		}
+
+		let rules: CustomAgentDefinition["rules"]
+		if (entry.rule_format !== undefined) {
+			if (!RULE_FORMATS.has(entry.rule_format)) {
+				return invalid(
+					"rule_format",
+					`Custom agent ${id} rule_format must be one of: ${[...RULE_FORMATS].join(", ")}.`,
+				)
+			}
+			const dir = coerceRelativePath(entry.rules_dir ?? "rules")
+			if (!dir) {
+				return invalid(
+					"rules_dir",
+					`Custom agent ${id} needs a rules_dir relative to its agent directory.`,
+				)
+			}
+			rules = { dir, format: entry.rule_format as RuleFormat }
+		} else if (entry.rules_dir !== undefined) {
+			return invalid(
+				"rules_dir",
+				`Custom agent ${id} sets rules_dir without a rule_format.`,
+			)
+		}
+
+		customAgents.set(agentId, {
+			detect,
+			displayName,
+			globalPath,
+			localPath,
+			skillsDir,
+			...(rules && { rules }),
+		})
+	}
+
+	return { ok: true, value: customAgents }
+}
+
+/**
+ * Agent directories are joined onto the project root or home directory, and
+ * exported files onto the package root, so they must stay relative and
+ * inside it.
+ */
+function coerceRelativePath(value: string | undefined): NonEmptyString | null {
+	const coerced = value === undefined ? null : coerceNonEmpty(value)
+	if (!coerced || path.isAbsolute(coerced)) {
+		return null
+	}
+	const normalized = path.normalize(coerced)
+	if (normalized === ".." || normalized.startsWith(`..${path.sep}`)) {
+		return null
+	}
+	return coerced
+}
+
 function adaptDependency(
 	declaration: AgentsDependency,
 	alias: string,
@@ -396,6 +773,23 @@ function adaptDependency(
 	}
 }
 
+function dependencyOptionError(
+	error: { field: string; message: string },
+	alias: string,
+	manifestPath: AbsolutePath,
+): Result<never> {
+	return {
+		error: {
+			field: `dependencies.${error.field}`,
+			message: `Invalid dependency ${alias}: ${error.message}`,
+			path: manifestPath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	}
+}
+
 function adaptGitRef(
 	ref: { type: "tag" | "branch" | "rev"; value: string } | undefined,
 	manifestPath: AbsolutePath,
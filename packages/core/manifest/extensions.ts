@@ -0,0 +1,150 @@
+import { parse as parseToml, stringify as stringifyToml } from "smol-toml"
+import { z } from "zod"
+import type { AbsolutePath } from "@/types/branded"
+import type { Result } from "@/types/error"
+
+const DEPENDENCY_OPTION_KEYS = ["agents", "exclude_skills", "prefix", "skills"] as const
+
+const toMap = <T>(record: Record<string, T>): Map<string, T> =>
+	new Map(Object.entries(record))
+
+const DependencyOptionsSchema = z.object({
+	agents: z.array(z.string()).optional(),
+	exclude_skills: z.array(z.string()).optional(),
+	prefix: z.string().optional(),
+	skills: z.array(z.string()).optional(),
+})
+
+const CustomAgentSchema = z.object({
+	detect: z.string().optional(),
+	display_name: z.string().optional(),
+	global_path: z.string().optional(),
+	local_path: z.string().optional(),
+	rule_format: z.string().optional(),
+	rules_dir: z.string().optional(),
+	skills_dir: z.string().optional(),
+})
+
+const McpServerSchema = z.object({
+	args: z.unknown().optional(),
+	command: z.string().optional(),
+	env: z.unknown().optional(),
+	transport: z.string().optional(),
+	url: z.string().optional(),
+})
+
+const ManifestExtensionsSchema = z.object({
+	custom_agents: z.record(z.string(), CustomAgentSchema).transform(toMap).optional(),
+	dependencies: z.record(z.string(), DependencyOptionsSchema).transform(toMap),
+	instructions: z.string().optional(),
+	mcp_servers: z.record(z.string(), McpServerSchema).transform(toMap).optional(),
+	settings: z
+		.object({
+			apply_to_projects: z.boolean().optional(),
+			jobs: z.number().optional(),
+			naming: z.string().optional(),
+			naming_template: z.string().optional(),
+		})
+		.optional(),
+	workspace: z.object({ members: z.array(z.string()).optional() }).optional(),
+})
+
+/**
+ * Manifest keys sk reads beyond the agents.toml schema: `[agents.custom]`,
+ * `[settings]`, `[workspace]`, `[mcp_servers]`, `exports.instructions` and
+ * the skills, exclude_skills, agents and prefix options of each dependency.
+ */
+export type ManifestExtensions = z.output<typeof ManifestExtensionsSchema>
+
+export type SplitManifest = {
+	/** The manifest without the extension keys, for the schema parser. */
+	contents: string
+	extensions: ManifestExtensions
+}
+
+/**
+ * Take the extension keys out of a manifest and validate them, so the
+ * schema parser only sees the keys it knows.
+ */
+export function splitManifestExtensions(
+	contents: string,
+	manifestPath: AbsolutePath,
+): Result<SplitManifest> {
+	let document: Record<string, unknown>
+	try {
+		document = parseToml(contents)
+	} catch (error) {
+		const rawError = error instanceof Error ? error : undefined
+		return {
+			error: {
+				message: `Invalid TOML: ${rawError?.message ?? String(error)}`,
+				path: manifestPath,
+				rawError,
+				source: "agents.toml",
+				type: "parse",
+			},
+			ok: false,
+		}
+	}
+
+	const dependencies: Record<string, Record<string, unknown>> = {}
+	if (isTable(document.dependencies)) {
+		for (const [alias, declaration] of Object.entries(document.dependencies)) {
+			if (!isTable(declaration)) {
+				continue
+			}
+			const options: Record<string, unknown> = {}
+			for (const key of DEPENDENCY_OPTION_KEYS) {
+				if (key in declaration) {
+					options[key] = takeKey(declaration, key)
+				}
+			}
+			dependencies[alias] = options
+		}
+	}
+
+	const instructions = takeKey(document.exports, "instructions")
+	if (isTable(document.exports) && Object.keys(document.exports).length === 0) {
+		delete document.exports
+	}
+
+	const parsed = ManifestExtensionsSchema.safeParse({
+		custom_agents: takeKey(document.agents, "custom"),
+		dependencies,
+		instructions,
+		mcp_servers: takeKey(document, "mcp_servers"),
+		settings: takeKey(document, "settings"),
+		workspace: takeKey(document, "workspace"),
+	})
+	if (!parsed.success) {
+		return {
+			error: {
+				field: "manifest",
+				message: "Manifest validation failed.",
+				path: manifestPath,
+				source: "zod",
+				type: "validation",
+				zodError: parsed.error,
+			},
+			ok: false,
+		}
+	}
+
+	return {
+		ok: true,
+		value: { contents: stringifyToml(document), extensions: parsed.data },
+	}
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function takeKey(table: unknown, key: string): unknown {
+	if (!isTable(table)) {
+		return undefined
+	}
+	const value = table[key]
+	delete table[key]
+	return value
+}
@@ -0,0 +1,151 @@
+import type { AbsolutePath, NonEmptyString } from "@/types/branded"
+import { coerceNonEmpty } from "@/types/coerce"
+import type { McpServerDefinition } from "@/types/content"
+import type { Result } from "@/types/error"
+
+export type RawMcpServer = {
+	transport?: string
+	command?: string
+	args?: unknown
+	env?: unknown
+	url?: string
+}
+
+// Names become table keys in every agent config, TOML ones included
+const MCP_SERVER_NAME = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Validate the servers declared under [mcp_servers.<name>]. A server runs a
+ * command over stdio or connects to a url; transport defaults to "stdio" for
+ * commands and "http" for urls.
+ */
+export function adaptMcpServers(
+	raw: ReadonlyMap<string, RawMcpServer> | undefined,
+	manifestPath: AbsolutePath,
+): Result<Map<NonEmptyString, McpServerDefinition> | undefined> {
+	if (!raw || raw.size === 0) {
+		return { ok: true, value: undefined }
+	}
+
+	const servers = new Map<NonEmptyString, McpServerDefinition>()
+	for (const [name, entry] of raw) {
+		const serverName = coerceNonEmpty(name)
+		if (!serverName || !MCP_SERVER_NAME.test(serverName)) {
+			return {
+				error: {
+					field: "mcp_servers",
+					message: `Invalid MCP server name: ${name}. Use letters, digits, dashes and underscores.`,
+					path: manifestPath,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+
+		const server = adaptMcpServer(serverName, entry, manifestPath)
+		if (!server.ok) {
+			return server
+		}
+		servers.set(serverName, server.value)
+	}
+
+	return { ok: true, value: servers }
+}
+
+function adaptMcpServer(
+	name: NonEmptyString,
+	entry: RawMcpServer,
+	manifestPath: AbsolutePath,
+): Result<McpServerDefinition> {
+	const invalid = (field: string, message: string): Result<never> => ({
+		error: {
+			field: `mcp_servers.${name}.${field}`,
+			message,
+			path: manifestPath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	})
+
+	const transport = entry.transport ?? (entry.url !== undefined ? "http" : "stdio")
+	if (transport === "stdio") {
+		if (entry.url !== undefined) {
+			return invalid(
+				"url",
+				`MCP server ${name} runs over stdio and cannot have a url. Set transport = "http" or "sse".`,
+			)
+		}
+
+		const command =
+			typeof entry.command === "string" ? coerceNonEmpty(entry.command) : null
+		if (!command) {
+			return invalid("command", `MCP server ${name} needs a command or a url.`)
+		}
+
+		const args = entry.args ?? []
+		if (!Array.isArray(args) || args.some((arg) => typeof arg !== "string")) {
+			return invalid("args", `MCP server ${name} args must be a list of strings.`)
+		}
+
+		const env = entry.env ?? {}
+		if (
+			typeof env !== "object" ||
+			env === null ||
+			Array.isArray(env) ||
+			Object.values(env).some((value) => typeof value !== "string")
+		) {
+			return invalid(
+				"env",
+				`MCP server ${name} env must be a table of string values.`,
+			)
+		}
+
+		return {
+			ok: true,
+			value: {
+				args,
+				command,
+				env: { ...(env as Record<string, string>) },
+				transport,
+			},
+		}
+	}
+
+	if (transport !== "http" && transport !== "sse") {
+		return invalid(
+			"transport",
+			`MCP server ${name} transport must be "stdio", "http" or "sse".`,
+		)
+	}
+
+	const local = (["command", "args", "env"] as const).find(
+		(field) => entry[field] !== undefined,
+	)
+	if (local) {
+		return invalid(
+			local,
+			`MCP server ${name} connects to a url and cannot have ${local}.`,
+		)
+	}
+
+	const url = typeof entry.url === "string" ? coerceNonEmpty(entry.url) : null
+	if (!url || !isHttpUrl(url)) {
+		return invalid(
+			"url",
+			`MCP server ${name} needs an http or https url for transport "${transport}".`,
+		)
+	}
+
+	return { ok: true, value: { transport, url } }
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value)
+		return url.protocol === "http:" || url.protocol === "https:"
+	} catch {
+		return false
+	}
+}
@@ -1,6 +1,7 @@
 import { parse } from "@skills-supply/agents-toml"
 import { ZodError } from "zod"
 import { adaptManifest } from "@/manifest/adapter"
+import { splitManifestExtensions } from "@/manifest/extensions"
 import type { AbsolutePath } from "@/types/branded"
 import type { ManifestInfo } from "@/types/content"
 import type { BaseError, Result } from "@/types/error"
@@ -9,7 +10,12 @@ export function validateManifest(
 	contents: string,
 	manifestPath: AbsolutePath,
 ): Result<ManifestInfo> {
-	const parsed = parse(contents)
+	const split = splitManifestExtensions(contents, manifestPath)
+	if (!split.ok) {
+		return split
+	}
+
+	const parsed = parse(split.value.contents)
 	if (!parsed.ok) {
 		const cause = coerceBaseError(parsed.error.cause)
 		if (parsed.error.type === "invalid_toml") {
@@ -63,7 +69,7 @@ export function validateManifest(
 		}
 	}
 
-	return adaptManifest(parsed.value, manifestPath)
+	return adaptManifest(parsed.value, split.value.extensions, manifestPath)
 }
 
 function coerceBaseError(value: unknown): BaseError | undefined {
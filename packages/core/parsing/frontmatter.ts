@@ -1,7 +1,7 @@
 import matter from "gray-matter"
 import { z } from "zod"
 import type { NonEmptyString } from "@/types/branded"
-import type { SkillInfo } from "@/types/content"
+import type { MarkdownDocument, SkillInfo } from "@/types/content"
 import type { Result } from "@/types/error"
 
 const NonEmptyStringSchema = z
@@ -88,3 +88,56 @@ export function parseFrontmatter(contents: string): Result<SkillInfo> {
 
 	return { ok: true, value: result.data }
 }
+
+/**
+ * Split a markdown file such as a plugin command into its frontmatter
+ * attributes and body. Unlike SKILL.md, the frontmatter is optional and its
+ * keys are not validated.
+ */
+export function parseMarkdownDocument(contents: string): Result<MarkdownDocument> {
+	const normalized = contents.replace(/\r\n/g, "\n")
+	if (!normalized.startsWith("---\n")) {
+		return { ok: true, value: { attributes: {}, body: normalized } }
+	}
+
+	if (normalized.indexOf("\n---", 3) === -1) {
+		return {
+			error: {
+				field: "frontmatter",
+				message: "Frontmatter is missing a closing --- line.",
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	let parsed: matter.GrayMatterFile<string>
+	try {
+		parsed = matter(normalized)
+	} catch (error) {
+		return {
+			error: {
+				message: "Invalid frontmatter.",
+				rawError: error instanceof Error ? error : undefined,
+				source: "frontmatter",
+				type: "parse",
+			},
+			ok: false,
+		}
+	}
+
+	if (!parsed.data || typeof parsed.data !== "object" || Array.isArray(parsed.data)) {
+		return {
+			error: {
+				field: "frontmatter",
+				message: "Frontmatter must be a key/value map.",
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: { attributes: parsed.data, body: parsed.content } }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { parseRegistryIndex } from "@/parsing/registry"
+
+describe("parseRegistryIndex", () => {
+	it("parses an index with releases", () => {
+		const result = parseRegistryIndex(
+			JSON.stringify({
+				name: "tools",
+				org: "acme",
+				versions: [
+					{
+						integrity: "sha256-abc=",
+						tarball:
+							"https://api.skills.supply/registry/v1/orgs/acme/packages/tools/-/tools-1.0.0.tgz",
+						version: "1.0.0",
+					},
+				],
+			}),
+		)
+
+		expect(result.ok).toBe(true)
+		if (result.ok) {
+			expect(result.value.org).toBe("acme")
+			expect(result.value.versions[0]?.version).toBe("1.0.0")
+		}
+	})
+
+	it("rejects releases without a semver version or sha256 integrity", () => {
+		const badVersion = parseRegistryIndex(
+			JSON.stringify({
+				name: "tools",
+				versions: [
+					{
+						integrity: "sha256-abc=",
+						tarball: "https://x/t.tgz",
+						version: "one",
+					},
+				],
+			}),
+		)
+		expect(badVersion.ok).toBe(false)
+
+		const badIntegrity = parseRegistryIndex(
+			JSON.stringify({
+				name: "tools",
+				versions: [
+					{
+						integrity: "md5-abc",
+						tarball: "https://x/t.tgz",
+						version: "1.0.0",
+					},
+				],
+			}),
+		)
+		expect(badIntegrity.ok).toBe(false)
+	})
+
+	it("reports invalid JSON as a parse error", () => {
+		const result = parseRegistryIndex("{")
+		expect(!result.ok && result.error.type).toBe("parse")
+	})
+})
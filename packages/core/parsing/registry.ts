@@ -0,0 +1,71 @@
+import { z } from "zod"
+import type { NonEmptyString } from "@/types/branded"
+import type { RegistryIndex } from "@/types/content"
+import type { Result } from "@/types/error"
+import { parseSemver } from "@/version/semver"
+
+const NonEmptyStringSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.transform((value) => value as NonEmptyString)
+
+const RegistryReleaseSchema = z.object({
+	integrity: NonEmptyStringSchema.refine((value) => value.startsWith("sha256-"), {
+		message: "Integrity must be a sha256 hash.",
+	}),
+	tarball: NonEmptyStringSchema.refine(isAbsoluteUrl, {
+		message: "Tarball must be an absolute URL.",
+	}),
+	version: NonEmptyStringSchema.refine((value) => parseSemver(value) !== null, {
+		message: "Version must be a semantic version.",
+	}),
+})
+
+const RegistryIndexSchema: z.ZodType<RegistryIndex> = z.object({
+	name: NonEmptyStringSchema,
+	org: NonEmptyStringSchema.optional(),
+	versions: z.array(RegistryReleaseSchema),
+})
+
+export function parseRegistryIndex(contents: string): Result<RegistryIndex> {
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(contents)
+	} catch (error) {
+		return {
+			error: {
+				message: "Invalid JSON in registry index.",
+				rawError: error instanceof Error ? error : undefined,
+				source: "registry",
+				type: "parse",
+			},
+			ok: false,
+		}
+	}
+
+	const result = RegistryIndexSchema.safeParse(parsed)
+	if (!result.success) {
+		return {
+			error: {
+				field: "registry",
+				message: "Registry index validation failed.",
+				source: "zod",
+				type: "validation",
+				zodError: result.error,
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: result.data }
+}
+
+function isAbsoluteUrl(value: string): boolean {
+	try {
+		new URL(value)
+		return true
+	} catch {
+		return false
+	}
+}
@@ -0,0 +1,53 @@
+import { createHash } from "node:crypto"
+
+/**
+ * Registry HTTP protocol, relative to the registry base URL:
+ *
+ *   GET packages/<name>                          index of an unscoped package
+ *   GET orgs/<org>/packages/<name>               index of an org package
+ *   GET .../packages/<name>/-/<name>-<version>.tgz   release tarball
+ *
+ * Index responses are RegistryIndex JSON. Tarballs are gzipped tar archives
+ * with the package under one top-level directory, which is stripped on
+ * extraction.
+ */
+export const REGISTRY_API_PATH = "registry/v1"
+
+const REGISTRY_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i
+
+export function isValidRegistryName(value: string): boolean {
+	return REGISTRY_NAME_PATTERN.test(value)
+}
+
+/**
+ * Display form of a registry package: "@org/name" or "name".
+ */
+export function formatRegistryPackageName(name: string, org?: string): string {
+	return org ? `@${org}/${name}` : name
+}
+
+export function buildRegistryIndexPath(name: string, org?: string): string {
+	const packagePath = `packages/${encodeURIComponent(name)}`
+	return org ? `orgs/${encodeURIComponent(org)}/${packagePath}` : packagePath
+}
+
+export function buildRegistryTarballPath(
+	name: string,
+	version: string,
+	org?: string,
+): string {
+	return `${buildRegistryIndexPath(name, org)}/-/${encodeURIComponent(
+		buildRegistryTarballName(name, version),
+	)}`
+}
+
+export function buildRegistryTarballName(name: string, version: string): string {
+	return `${name}-${version}.tgz`
+}
+
+/**
+ * Subresource-integrity string for a tarball: "sha256-<base64 digest>".
+ */
+export function computeIntegrity(data: Uint8Array): string {
+	return `sha256-${createHash("sha256").update(data).digest("base64")}`
+}
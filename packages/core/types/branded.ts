@@ -8,6 +8,7 @@ declare const AbsolutePathBrand: unique symbol
 declare const GitUrlBrand: unique symbol
 declare const GithubRefBrand: unique symbol
 declare const RemoteMarketplaceUrlBrand: unique symbol
+declare const CustomAgentIdBrand: unique symbol
 
 type Brand<T, B extends symbol> = T & { readonly [K in B]: true }
 
@@ -18,4 +19,16 @@ export type GitUrl = Brand<string, typeof GitUrlBrand>
 export type GithubRef = Brand<string, typeof GithubRefBrand>
 export type RemoteMarketplaceUrl = Brand<string, typeof RemoteMarketplaceUrlBrand>
 
-export type AgentId = "amp" | "claude-code" | "codex" | "opencode" | "factory"
+export type BuiltinAgentId =
+	| "amp"
+	| "claude-code"
+	| "codex"
+	| "opencode"
+	| "factory"
+	| "cursor"
+	| "windsurf"
+	| "cline"
+	| "copilot"
+/** Id of an agent declared under [agents.custom.<id>] in agents.toml */
+export type CustomAgentId = Brand<string, typeof CustomAgentIdBrand>
+export type AgentId = BuiltinAgentId | CustomAgentId
@@ -3,6 +3,8 @@ import type {
 	AbsolutePath,
 	AgentId,
 	Alias,
+	BuiltinAgentId,
+	CustomAgentId,
 	GithubRef,
 	GitUrl,
 	NonEmptyString,
@@ -10,20 +12,43 @@ import type {
 } from "@/types/branded"
 import type { GitRef } from "@/types/declaration"
 
-export const VALID_AGENT_IDS: ReadonlyArray<AgentId> = [
+export const VALID_AGENT_IDS: ReadonlyArray<BuiltinAgentId> = [
 	"amp",
 	"claude-code",
 	"codex",
 	"opencode",
 	"factory",
+	"cursor",
+	"windsurf",
+	"cline",
+	"copilot",
 ] as const
 
 const VALID_AGENT_IDS_SET: ReadonlySet<string> = new Set(VALID_AGENT_IDS)
 
-export function coerceAgentId(value: string): AgentId | null {
+/**
+ * Accept a built-in agent id, or one of the custom agent ids declared by the
+ * manifest being read.
+ */
+export function coerceAgentId(
+	value: string,
+	customAgentIds?: ReadonlySet<string>,
+): AgentId | null {
+	const trimmed = value.trim()
+	if (VALID_AGENT_IDS_SET.has(trimmed)) return trimmed as BuiltinAgentId
+	if (customAgentIds?.has(trimmed)) return trimmed as CustomAgentId
+	return null
+}
+
+const CUSTOM_AGENT_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+// "custom" names the [agents.custom] table itself
+const RESERVED_AGENT_IDS: ReadonlySet<string> = new Set([...VALID_AGENT_IDS, "custom"])
+
+export function coerceCustomAgentId(value: string): CustomAgentId | null {
 	const trimmed = value.trim()
-	if (!VALID_AGENT_IDS_SET.has(trimmed)) return null
-	return trimmed as AgentId
+	if (!CUSTOM_AGENT_ID_PATTERN.test(trimmed)) return null
+	if (RESERVED_AGENT_IDS.has(trimmed)) return null
+	return trimmed as CustomAgentId
 }
 
 export function coerceNonEmpty(value: string): NonEmptyString | null {
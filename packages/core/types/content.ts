@@ -1,4 +1,10 @@
-import type { AbsolutePath, AgentId, Alias, NonEmptyString } from "@/types/branded"
+import type {
+	AbsolutePath,
+	AgentId,
+	Alias,
+	CustomAgentId,
+	NonEmptyString,
+} from "@/types/branded"
 import type { ValidatedDeclaration } from "@/types/declaration"
 
 export type MarketplaceSource =
@@ -33,6 +39,23 @@ export type MarketplaceInfo = {
 	}
 }
 
+/**
+ * Registry index document: every published release of one package.
+ */
+export type RegistryIndex = {
+	name: NonEmptyString
+	org?: NonEmptyString
+	versions: RegistryRelease[]
+}
+
+export type RegistryRelease = {
+	version: NonEmptyString
+	/** Absolute URL of the release tarball (.tgz) */
+	tarball: NonEmptyString
+	/** Subresource-integrity hash of the tarball, e.g. "sha256-<base64>" */
+	integrity: NonEmptyString
+}
+
 export type PluginInfo = {
 	name: NonEmptyString
 	description?: NonEmptyString
@@ -48,12 +71,86 @@ export type ManifestInfo = {
 		org?: NonEmptyString
 	}
 	agents: Map<AgentId, boolean>
+	/** Agents declared under [agents.custom.<id>], usable like built-in agents */
+	customAgents?: Map<CustomAgentId, CustomAgentDefinition>
 	dependencies: Map<Alias, ValidatedDeclaration>
+	/** MCP servers declared under [mcp_servers.<name>], written into agent configs */
+	mcpServers?: Map<NonEmptyString, McpServerDefinition>
 	exports?: {
 		auto_discover?: { skills: NonEmptyString | false }
+		/**
+		 * Markdown file, relative to the manifest, that sync writes into the
+		 * instructions file of each agent (CLAUDE.md, AGENTS.md)
+		 */
+		instructions?: NonEmptyString
+	}
+	settings?: {
+		/**
+		 * In the global manifest: also sync its dependencies into the agent
+		 * directories of every project, as a layer below the project's own
+		 */
+		applyToProjects?: boolean
+		/** Maximum number of repositories fetched concurrently during sync */
+		jobs?: number
+		/** How installed skill directories are named; prefixed when absent */
+		naming?: SkillNaming
+	}
+	/**
+	 * Member manifests synced together with this one. Each member is a
+	 * directory pattern relative to the manifest, where `*` matches within
+	 * one path segment.
+	 */
+	workspace?: {
+		members: NonEmptyString[]
 	}
 }
 
+/**
+ * Naming of installed skill directories: `<alias>-<skill>`, the bare skill
+ * name, or a template over {alias} and {skill} whose "/" creates nested
+ * directories. A dependency's `prefix` stands in for its alias.
+ */
+export type SkillNaming =
+	| { type: "prefixed" }
+	| { type: "bare" }
+	| { type: "template"; template: NonEmptyString }
+
+/**
+ * How an agent reaches an MCP server: a process it starts and talks to over
+ * stdio, or a remote endpoint speaking streamable HTTP or server-sent events.
+ */
+export type McpTransport = "stdio" | "http" | "sse"
+
+export type McpServerDefinition =
+	| {
+			transport: "stdio"
+			command: NonEmptyString
+			args: string[]
+			env: Record<string, string>
+	  }
+	| { transport: "http" | "sse"; url: NonEmptyString }
+
+/**
+ * Single-file rule formats of agents that do not read SKILL.md directories:
+ * Cursor `.mdc` rules, Windsurf and Cline Markdown rules, and GitHub Copilot
+ * `.instructions.md` files
+ */
+export type RuleFormat = "cline" | "copilot" | "cursor" | "windsurf"
+
+export type CustomAgentDefinition = {
+	displayName: NonEmptyString
+	/** Agent directory relative to the project root */
+	localPath: NonEmptyString
+	/** Agent directory relative to the home directory */
+	globalPath: NonEmptyString
+	/** Skills directory inside the agent directory */
+	skillsDir: NonEmptyString
+	/** Command whose success means the agent is installed, e.g. "my-agent --version" */
+	detect?: NonEmptyString
+	/** Rule files rendered from each skill, in a directory inside the agent directory */
+	rules?: { format: RuleFormat; dir: NonEmptyString }
+}
+
 export type ManifestPackageMetadata = NonNullable<ManifestInfo["package"]>
 
 export type SkillInfo = {
@@ -61,6 +158,12 @@ export type SkillInfo = {
 	description?: NonEmptyString
 }
 
+/** Markdown file split into its frontmatter attributes and body */
+export type MarkdownDocument = {
+	attributes: Record<string, unknown>
+	body: string
+}
+
 export type SkillEntry = SkillInfo & {
 	relativePath: NonEmptyString
 }
@@ -1,36 +1,100 @@
 import type {
 	AbsolutePath,
+	AgentId,
 	GithubRef,
 	GitUrl,
 	NonEmptyString,
 	RemoteMarketplaceUrl,
 } from "@/types/branded"
 
+interface RawDeclarationOptions {
+	agents?: string[]
+	skills?: string[]
+	exclude_skills?: string[]
+	prefix?: string
+}
+
 export type RawDeclaration =
 	| string
-	| { gh: string; tag?: string; branch?: string; rev?: string; path?: string }
-	| { git: string; tag?: string; branch?: string; rev?: string; path?: string }
-	| { registry: string; version?: string }
-	| { path: string }
-	| { type: "claude-plugin"; plugin: string; marketplace: string }
+	| ({
+			gh: string
+			tag?: string
+			branch?: string
+			rev?: string
+			path?: string
+	  } & RawDeclarationOptions)
+	| ({
+			git: string
+			tag?: string
+			branch?: string
+			rev?: string
+			path?: string
+	  } & RawDeclarationOptions)
+	| ({ registry: string; version?: string } & RawDeclarationOptions)
+	| ({ path: string } & RawDeclarationOptions)
+	| ({
+			type: "claude-plugin"
+			plugin: string
+			marketplace: string
+	  } & RawDeclarationOptions)
 
 export type GitRef =
 	| { type: "tag"; value: NonEmptyString }
 	| { type: "branch"; value: NonEmptyString }
 	| { type: "rev"; value: NonEmptyString }
 
+/**
+ * Which of a package's skills to install, from the `skills` or
+ * `exclude_skills` key of a dependency. Absent means every skill.
+ */
+export type SkillFilter =
+	| { type: "include"; names: NonEmptyString[] }
+	| { type: "exclude"; names: NonEmptyString[] }
+
+/**
+ * `agents` on a dependency limits it to those agents; absent means every
+ * enabled agent. `prefix` replaces the alias in installed skill names.
+ */
 export type ValidatedDeclaration =
-	| { type: "github"; gh: GithubRef; ref?: GitRef; path?: NonEmptyString }
-	| { type: "git"; url: GitUrl; ref?: GitRef; path?: NonEmptyString }
+	| {
+			type: "github"
+			gh: GithubRef
+			ref?: GitRef
+			path?: NonEmptyString
+			skillFilter?: SkillFilter
+			agents?: AgentId[]
+			prefix?: NonEmptyString
+	  }
+	| {
+			type: "git"
+			url: GitUrl
+			ref?: GitRef
+			path?: NonEmptyString
+			skillFilter?: SkillFilter
+			agents?: AgentId[]
+			prefix?: NonEmptyString
+	  }
 	| {
 			type: "registry"
 			name: NonEmptyString
 			org?: NonEmptyString
 			version: NonEmptyString
+			skillFilter?: SkillFilter
+			agents?: AgentId[]
+			prefix?: NonEmptyString
+	  }
+	| {
+			type: "local"
+			path: AbsolutePath
+			skillFilter?: SkillFilter
+			agents?: AgentId[]
+			prefix?: NonEmptyString
 	  }
-	| { type: "local"; path: AbsolutePath }
 	| {
 			type: "claude-plugin"
 			plugin: NonEmptyString
 			marketplace: GithubRef | GitUrl | AbsolutePath | RemoteMarketplaceUrl
+			skillFilter?: SkillFilter
+			agents?: AgentId[]
+			prefix?: NonEmptyString
 	  }
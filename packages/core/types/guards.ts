@@ -41,6 +41,9 @@ export function isGithubRef(value: string): value is GithubRef {
 	return coerceGithubRef(value) !== null
 }
 
-export function isAgentId(value: string): value is AgentId {
-	return coerceAgentId(value) !== null
+export function isAgentId(
+	value: string,
+	customAgentIds?: ReadonlySet<string>,
+): value is AgentId {
+	return coerceAgentId(value, customAgentIds) !== null
 }
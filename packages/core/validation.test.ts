@@ -1,4 +1,11 @@
+import { parse as parseToml } from "smol-toml"
 import { describe, expect, it } from "vitest"
+import { parseDeclarationAgents } from "@/declaration/agents"
+import { parseDeclarationPrefix } from "@/declaration/prefix"
+import { splitManifestExtensions } from "@/manifest/extensions"
+import { adaptMcpServers } from "@/manifest/mcp-servers"
+import type { AbsolutePath } from "@/types/branded"
+import { coerceCustomAgentId } from "@/types/coerce"
 import { validateDeclaration } from "@/validation/declaration"
 
 describe("validateDeclaration", () => {
@@ -191,4 +198,248 @@ describe("validateDeclaration", () => {
 			})
 		}
 	})
+	it("parses skill include and exclude lists", () => {
+		const included = validateDeclaration({
+			gh: "owner/repo",
+			skills: ["writing", "review", "writing"],
+		})
+
+		expect(included.ok && included.value.skillFilter).toEqual({
+			names: ["writing", "review"],
+			type: "include",
+		})
+
+		const excluded = validateDeclaration({
+			exclude_skills: ["legacy"],
+			path: "/tmp/local-skill",
+		})
+
+		expect(excluded.ok && excluded.value.skillFilter).toEqual({
+			names: ["legacy"],
+			type: "exclude",
+		})
+	})
+
+	it("rejects combined or empty skill filters", () => {
+		const combined = validateDeclaration({
+			exclude_skills: ["legacy"],
+			gh: "owner/repo",
+			skills: ["writing"],
+		})
+
+		expect(combined.ok).toBe(false)
+		if (!combined.ok && combined.error.type === "validation") {
+			expect(combined.error.field).toBe("skills")
+		}
+
+		const empty = validateDeclaration({ gh: "owner/repo", skills: [] })
+		expect(empty.ok).toBe(false)
+	})
+	it("parses the agents a dependency is limited to", () => {
+		const result = validateDeclaration({
+			agents: ["codex", "opencode", "codex"],
+			gh: "owner/repo",
+		})
+
+		expect(result.ok && result.value.agents).toEqual(["codex", "opencode"])
+	})
+
+	it("rejects unknown or empty agent lists", () => {
+		const unknown = validateDeclaration({ agents: ["vim"], gh: "owner/repo" })
+		expect(unknown.ok).toBe(false)
+		if (!unknown.ok && unknown.error.type === "validation") {
+			expect(unknown.error.field).toBe("agents")
+		}
+
+		const empty = validateDeclaration({ agents: [], gh: "owner/repo" })
+		expect(empty.ok).toBe(false)
+	})
+})
+
+describe("parseDeclarationAgents", () => {
+	it("accepts custom agent ids declared by the manifest", () => {
+		const result = parseDeclarationAgents(
+			{ agents: ["my-agent", "codex"] },
+			new Set(["my-agent"]),
+		)
+
+		expect(result).toEqual({ ok: true, value: ["my-agent", "codex"] })
+	})
+
+	it("rejects custom agent ids the manifest does not declare", () => {
+		const result = parseDeclarationAgents({ agents: ["my-agent"] })
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.message).toContain("Unknown agent id in agents: my-agent")
+		}
+	})
+})
+
+describe("coerceCustomAgentId", () => {
+	it("accepts kebab-case ids", () => {
+		expect(coerceCustomAgentId("my-agent")).toBe("my-agent")
+	})
+
+	it("rejects built-in and reserved ids", () => {
+		expect(coerceCustomAgentId("codex")).toBeNull()
+		expect(coerceCustomAgentId("custom")).toBeNull()
+	})
+
+	it("rejects ids that are not kebab-case", () => {
+		expect(coerceCustomAgentId("My Agent")).toBeNull()
+		expect(coerceCustomAgentId("agent/../x")).toBeNull()
+	})
+})
+
+describe("parseDeclarationPrefix", () => {
+	it("accepts a prefix that replaces the alias in skill names", () => {
+		const result = validateDeclaration({ gh: "owner/repo", prefix: "tools" })
+
+		expect(result.ok).toBe(true)
+		if (result.ok) {
+			expect(result.value).toEqual({
+				gh: "owner/repo",
+				prefix: "tools",
+				type: "github",
+			})
+		}
+	})
+
+	it("rejects prefixes containing path separators", () => {
+		expect(parseDeclarationPrefix({ prefix: "a/b" }).ok).toBe(false)
+		expect(parseDeclarationPrefix({ prefix: ".." }).ok).toBe(false)
+		expect(parseDeclarationPrefix({ prefix: " " }).ok).toBe(false)
+	})
+})
+
+describe("adaptMcpServers", () => {
+	const manifestPath = "/project/agents.toml" as AbsolutePath
+
+	it("infers the transport from a command or url", () => {
+		const result = adaptMcpServers(
+			new Map([
+				["github", { args: ["-y", "server-github"], command: "npx" }],
+				["sentry", { url: "https://mcp.sentry.dev/mcp" }],
+			]),
+			manifestPath,
+		)
+
+		expect(result.ok && Object.fromEntries(result.value ?? [])).toEqual({
+			github: {
+				args: ["-y", "server-github"],
+				command: "npx",
+				env: {},
+				transport: "stdio",
+			},
+			sentry: { transport: "http", url: "https://mcp.sentry.dev/mcp" },
+		})
+	})
+
+	it("rejects servers that mix a command and a url", () => {
+		const result = adaptMcpServers(
+			new Map([
+				["docs", { command: "docs-mcp", transport: "sse", url: "https://x.dev" }],
+			]),
+			manifestPath,
+		)
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.message).toContain("cannot have command")
+		}
+	})
+
+	it("rejects names that are not usable as config keys", () => {
+		const result = adaptMcpServers(
+			new Map([["my server", { command: "x" }]]),
+			manifestPath,
+		)
+
+		expect(result.ok).toBe(false)
+	})
+
+	it("rejects env values that are not strings", () => {
+		const result = adaptMcpServers(
+			new Map([["github", { command: "npx", env: { DEBUG: 1 } }]]),
+			manifestPath,
+		)
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.message).toContain("env must be a table")
+		}
+	})
+})
+
+describe("splitManifestExtensions", () => {
+	const manifestPath = "/project/agents.toml" as AbsolutePath
+
+	it("moves extension keys out of the schema document", () => {
+		const result = splitManifestExtensions(
+			[
+				"[agents]",
+				"claude-code = true",
+				"",
+				"[agents.custom.my-agent]",
+				'local_path = ".my-agent"',
+				'global_path = ".my-agent"',
+				"",
+				"[dependencies]",
+				'tools = { gh = "owner/tools", skills = ["lint"], prefix = "t" }',
+				'docs = "owner/docs"',
+				"",
+				"[exports]",
+				'instructions = "AGENTS.md"',
+				"",
+				"[settings]",
+				"jobs = 4",
+				"",
+				"[mcp_servers.github]",
+				'command = "npx"',
+			].join("\n"),
+			manifestPath,
+		)
+
+		expect(result.ok).toBe(true)
+		if (!result.ok) {
+			return
+		}
+		expect(parseToml(result.value.contents)).toEqual({
+			agents: { "claude-code": true },
+			dependencies: { docs: "owner/docs", tools: { gh: "owner/tools" } },
+		})
+		const { extensions } = result.value
+		expect(extensions.custom_agents?.get("my-agent")).toEqual({
+			global_path: ".my-agent",
+			local_path: ".my-agent",
+		})
+		expect(Object.fromEntries(extensions.dependencies)).toEqual({
+			tools: { prefix: "t", skills: ["lint"] },
+		})
+		expect(extensions.instructions).toBe("AGENTS.md")
+		expect(extensions.settings).toEqual({ jobs: 4 })
+		expect(extensions.mcp_servers?.get("github")).toEqual({ command: "npx" })
+	})
+
+	it("rejects extension keys of the wrong type", () => {
+		const result = splitManifestExtensions(
+			'[dependencies]\ntools = { gh = "owner/tools", skills = "lint" }',
+			manifestPath,
+		)
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.type).toBe("validation")
+		}
+	})
+
+	it("reports invalid TOML as a parse error", () => {
+		const result = splitManifestExtensions("[dependencies", manifestPath)
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.type).toBe("parse")
+		}
+	})
 })
@@ -1,4 +1,7 @@
 import { z } from "zod"
+import { parseDeclarationAgents } from "@/declaration/agents"
+import { parseDeclarationPrefix } from "@/declaration/prefix"
+import { parseSkillFilter } from "@/declaration/skill-filter"
 import type { NonEmptyString } from "@/types/branded"
 import {
 	coerceAbsolutePathDirect,
@@ -12,8 +15,16 @@ import type { Result } from "@/types/error"
 
 const NonEmptySchema = z.string().trim().min(1)
 
+const DeclarationOptionsShape = {
+	agents: z.array(z.string()).optional(),
+	exclude_skills: z.array(z.string()).optional(),
+	prefix: z.string().optional(),
+	skills: z.array(z.string()).optional(),
+}
+
 const GithubDeclSchema = z
 	.object({
+		...DeclarationOptionsShape,
 		branch: NonEmptySchema.optional(),
 		gh: NonEmptySchema,
 		path: NonEmptySchema.optional(),
@@ -24,6 +35,7 @@ const GithubDeclSchema = z
 
 const GitDeclSchema = z
 	.object({
+		...DeclarationOptionsShape,
 		branch: NonEmptySchema.optional(),
 		git: NonEmptySchema,
 		path: NonEmptySchema.optional(),
@@ -34,15 +46,19 @@ const GitDeclSchema = z
 
 const RegistryDeclSchema = z
 	.object({
+		...DeclarationOptionsShape,
 		registry: NonEmptySchema,
 		version: NonEmptySchema.optional(),
 	})
 	.strict()
 
-const LocalDeclSchema = z.object({ path: NonEmptySchema }).strict()
+const LocalDeclSchema = z
+	.object({ ...DeclarationOptionsShape, path: NonEmptySchema })
+	.strict()
 
 const ClaudePluginSchema = z
 	.object({
+		...DeclarationOptionsShape,
 		marketplace: NonEmptySchema,
 		plugin: NonEmptySchema,
 		type: z.literal("claude-plugin"),
@@ -76,7 +92,40 @@ export function validateDeclaration(raw: RawDeclaration): Result<ValidatedDeclar
 		}
 	}
 
-	const value = parsed.data
+	const skillFilter = parseSkillFilter(parsed.data)
+	if (!skillFilter.ok) {
+		return skillFilter
+	}
+
+	const agents = parseDeclarationAgents(parsed.data)
+	if (!agents.ok) {
+		return agents
+	}
+
+	const prefix = parseDeclarationPrefix(parsed.data)
+	if (!prefix.ok) {
+		return prefix
+	}
+
+	const validated = parseObjectDeclaration(parsed.data)
+	if (!validated.ok) {
+		return validated
+	}
+
+	return {
+		ok: true,
+		value: {
+			...validated.value,
+			...(skillFilter.value && { skillFilter: skillFilter.value }),
+			...(agents.value && { agents: agents.value }),
+			...(prefix.value && { prefix: prefix.value }),
+		},
+	}
+}
+
+function parseObjectDeclaration(
+	value: z.infer<typeof RawDeclSchema>,
+): Result<ValidatedDeclaration> {
 	if ("gh" in value) {
 		return parseGithubDeclaration(value)
 	}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import {
+	findBestSemverMatch,
+	isValidSemverRange,
+	satisfiesSemverRange,
+} from "@/version/range"
+
+describe("satisfiesSemverRange", () => {
+	it("matches exact versions", () => {
+		expect(satisfiesSemverRange("1.2.3", "1.2.3")).toBe(true)
+		expect(satisfiesSemverRange("1.2.4", "1.2.3")).toBe(false)
+		expect(satisfiesSemverRange("1.2.3", "=1.2.3")).toBe(true)
+	})
+
+	it("applies caret ranges below and above 1.0.0", () => {
+		expect(satisfiesSemverRange("1.9.0", "^1.2.3")).toBe(true)
+		expect(satisfiesSemverRange("2.0.0", "^1.2.3")).toBe(false)
+		expect(satisfiesSemverRange("1.2.2", "^1.2.3")).toBe(false)
+		expect(satisfiesSemverRange("0.2.9", "^0.2.3")).toBe(true)
+		expect(satisfiesSemverRange("0.3.0", "^0.2.3")).toBe(false)
+		expect(satisfiesSemverRange("0.0.4", "^0.0.3")).toBe(false)
+	})
+
+	it("applies tilde ranges", () => {
+		expect(satisfiesSemverRange("1.2.9", "~1.2.3")).toBe(true)
+		expect(satisfiesSemverRange("1.3.0", "~1.2.3")).toBe(false)
+		expect(satisfiesSemverRange("1.9.0", "~1")).toBe(true)
+	})
+
+	it("supports x-ranges, comparators, hyphens and unions", () => {
+		expect(satisfiesSemverRange("1.4.0", "1.x")).toBe(true)
+		expect(satisfiesSemverRange("2.0.0", "1.x")).toBe(false)
+		expect(satisfiesSemverRange("1.2.7", "1.2.*")).toBe(true)
+		expect(satisfiesSemverRange("1.5.0", ">=1.2.0 <2.0.0")).toBe(true)
+		expect(satisfiesSemverRange("2.0.0", ">=1.2.0 <2.0.0")).toBe(false)
+		expect(satisfiesSemverRange("1.5.0", "1.0.0 - 1.5.0")).toBe(true)
+		expect(satisfiesSemverRange("3.1.0", "^1.0.0 || ^3.0.0")).toBe(true)
+		expect(satisfiesSemverRange("2.1.0", "^1.0.0 || ^3.0.0")).toBe(false)
+		expect(satisfiesSemverRange("9.9.9", "*")).toBe(true)
+	})
+
+	it("excludes prereleases unless the range names one on the same version", () => {
+		expect(satisfiesSemverRange("2.0.0-beta.1", "^1.0.0")).toBe(false)
+		expect(satisfiesSemverRange("1.3.0-beta.1", "*")).toBe(false)
+		expect(satisfiesSemverRange("1.3.0-beta.2", "^1.3.0-beta.1")).toBe(true)
+		expect(satisfiesSemverRange("1.4.0-beta.1", "^1.3.0-beta.1")).toBe(false)
+	})
+})
+
+describe("isValidSemverRange", () => {
+	it("rejects malformed ranges", () => {
+		expect(isValidSemverRange("^1.2.3")).toBe(true)
+		expect(isValidSemverRange("latest")).toBe(true)
+		expect(isValidSemverRange("banana")).toBe(false)
+		expect(isValidSemverRange("^1.2.3.4")).toBe(false)
+	})
+})
+
+describe("findBestSemverMatch", () => {
+	it("returns the highest matching version", () => {
+		const versions = ["1.0.0", "1.2.0", "1.10.0", "2.0.0", "2.1.0-beta.1"]
+		expect(findBestSemverMatch(versions, "^1.0.0")).toBe("1.10.0")
+		expect(findBestSemverMatch(versions, "*")).toBe("2.0.0")
+		expect(findBestSemverMatch(versions, "^3.0.0")).toBeNull()
+	})
+})
@@ -0,0 +1,257 @@
+import { compareSemver, parseSemver, type SemverVersion } from "@/version/semver"
+
+type Operator = "<" | "<=" | ">" | ">=" | "="
+
+interface Comparator {
+	operator: Operator
+	version: SemverVersion
+}
+
+interface ComparatorSet {
+	comparators: Comparator[]
+	/** major.minor.patch tuples whose prereleases the set opts into */
+	prereleaseTuples: Set<string>
+}
+
+interface PartialVersion {
+	major?: number
+	minor?: number
+	patch?: number
+	prerelease: string[]
+}
+
+const PARTIAL_PATTERN =
+	/^v?(0|[1-9]\d*|[xX*])(?:\.(0|[1-9]\d*|[xX*])(?:\.(0|[1-9]\d*|[xX*])(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?)?)?(?:\+[0-9A-Za-z-.]+)?$/
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*(.+)$/
+
+/**
+ * Check a version against an npm-style range: exact versions, ^, ~, <, <=, >,
+ * >=, x-ranges ("1.x", "1.2.*"), hyphen ranges ("1.0.0 - 2.0.0"), "*", and
+ * unions joined by "||". Prereleases only match when a comparator names a
+ * prerelease of the same major.minor.patch.
+ */
+export function satisfiesSemverRange(version: string, range: string): boolean {
+	const parsedVersion = parseSemver(version)
+	const sets = parseSemverRange(range)
+	if (!parsedVersion || !sets) {
+		return false
+	}
+
+	return sets.some((set) => satisfiesSet(parsedVersion, set))
+}
+
+export function isValidSemverRange(range: string): boolean {
+	return parseSemverRange(range) !== null
+}
+
+/**
+ * Pick the highest version satisfying the range. Returns null when the range
+ * is invalid or nothing matches.
+ */
+export function findBestSemverMatch(
+	versions: readonly string[],
+	range: string,
+): string | null {
+	const sets = parseSemverRange(range)
+	if (!sets) {
+		return null
+	}
+
+	let best: { value: string; version: SemverVersion } | null = null
+	for (const value of versions) {
+		const version = parseSemver(value)
+		if (!version || !sets.some((set) => satisfiesSet(version, set))) {
+			continue
+		}
+
+		if (!best || compareSemver(version, best.version) > 0) {
+			best = { value, version }
+		}
+	}
+
+	return best?.value ?? null
+}
+
+function parseSemverRange(range: string): ComparatorSet[] | null {
+	const sets: ComparatorSet[] = []
+	for (const part of range.split("||")) {
+		const set = parseComparatorSet(part.trim())
+		if (!set) {
+			return null
+		}
+		sets.push(set)
+	}
+
+	return sets
+}
+
+function parseComparatorSet(value: string): ComparatorSet | null {
+	const set: ComparatorSet = { comparators: [], prereleaseTuples: new Set() }
+	if (value === "" || value === "latest") {
+		return set
+	}
+
+	const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(value)
+	if (hyphen?.[1] && hyphen[2]) {
+		const from = parsePartial(hyphen[1])
+		const to = parsePartial(hyphen[2])
+		if (!from || !to) {
+			return null
+		}
+		addComparators(set, ">=", from)
+		addComparators(set, "<=", to)
+		return set
+	}
+
+	// Allow "> 1.0.0" style spacing between an operator and its version.
+	const tokens = value.replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1").split(/\s+/)
+	for (const token of tokens) {
+		const match = COMPARATOR_PATTERN.exec(token)
+		const partial = match?.[2] ? parsePartial(match[2]) : null
+		if (!match || !partial) {
+			return null
+		}
+
+		const operator = match[1] ?? "="
+		if (operator === "^") {
+			addCaret(set, partial)
+		} else if (operator === "~") {
+			addTilde(set, partial)
+		} else {
+			addComparators(set, operator as Operator, partial)
+		}
+	}
+
+	return set
+}
+
+function parsePartial(value: string): PartialVersion | null {
+	const match = PARTIAL_PATTERN.exec(value)
+	if (!match) {
+		return null
+	}
+
+	const major = toNumber(match[1])
+	const minor = major === undefined ? undefined : toNumber(match[2])
+	const patch = minor === undefined ? undefined : toNumber(match[3])
+	return {
+		major,
+		minor,
+		patch,
+		prerelease: patch !== undefined && match[4] ? match[4].split(".") : [],
+	}
+}
+
+function toNumber(value: string | undefined): number | undefined {
+	return value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value)
+}
+
+function addComparators(
+	set: ComparatorSet,
+	operator: Operator,
+	partial: PartialVersion,
+): void {
+	const { major, minor, patch } = partial
+	if (major === undefined) {
+		if (operator === "<" || operator === ">") {
+			// "<*" and ">*" match nothing.
+			set.comparators.push({ operator: "<", version: floor(0, 0, 0) })
+		}
+		return
+	}
+
+	if (minor !== undefined && patch !== undefined) {
+		const version = { major, minor, patch, prerelease: partial.prerelease }
+		if (version.prerelease.length > 0) {
+			set.prereleaseTuples.add(`${major}.${minor}.${patch}`)
+		}
+		set.comparators.push({ operator, version })
+		return
+	}
+
+	const lower = floor(major, minor ?? 0, 0)
+	const upper =
+		minor === undefined ? floor(major + 1, 0, 0) : floor(major, minor + 1, 0)
+	switch (operator) {
+		case "=":
+			set.comparators.push({ operator: ">=", version: lower })
+			set.comparators.push({ operator: "<", version: upper })
+			return
+		case ">":
+			set.comparators.push({ operator: ">=", version: upper })
+			return
+		case ">=":
+			set.comparators.push({ operator: ">=", version: lower })
+			return
+		case "<":
+			set.comparators.push({ operator: "<", version: lower })
+			return
+		case "<=":
+			set.comparators.push({ operator: "<", version: upper })
+			return
+	}
+}
+
+function addCaret(set: ComparatorSet, partial: PartialVersion): void {
+	const { major, minor, patch } = partial
+	if (major === undefined) {
+		return
+	}
+
+	addComparators(set, ">=", partial)
+	let upper: SemverVersion
+	if (major > 0 || minor === undefined) {
+		upper = floor(major + 1, 0, 0)
+	} else if (minor > 0 || patch === undefined) {
+		upper = floor(0, minor + 1, 0)
+	} else {
+		upper = floor(0, 0, patch + 1)
+	}
+	set.comparators.push({ operator: "<", version: upper })
+}
+
+function addTilde(set: ComparatorSet, partial: PartialVersion): void {
+	const { major, minor } = partial
+	if (major === undefined) {
+		return
+	}
+
+	addComparators(set, ">=", partial)
+	const upper =
+		minor === undefined ? floor(major + 1, 0, 0) : floor(major, minor + 1, 0)
+	set.comparators.push({ operator: "<", version: upper })
+}
+
+/**
+ * The lowest version of a release line, including its prereleases.
+ */
+function floor(major: number, minor: number, patch: number): SemverVersion {
+	return { major, minor, patch, prerelease: ["0"] }
+}
+
+function satisfiesSet(version: SemverVersion, set: ComparatorSet): boolean {
+	if (
+		version.prerelease.length > 0 &&
+		!set.prereleaseTuples.has(`${version.major}.${version.minor}.${version.patch}`)
+	) {
+		return false
+	}
+
+	return set.comparators.every((comparator) => satisfiesComparator(version, comparator))
+}
+
+function satisfiesComparator(version: SemverVersion, comparator: Comparator): boolean {
+	const compared = compareSemver(version, comparator.version)
+	switch (comparator.operator) {
+		case "<":
+			return compared < 0
+		case "<=":
+			return compared <= 0
+		case ">":
+			return compared > 0
+		case ">=":
+			return compared >= 0
+		case "=":
+			return compared === 0
+	}
+}
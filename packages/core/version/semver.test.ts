@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { compareSemver, findLatestSemverTag, parseSemver } from "@/version/semver"
+
+function parsed(value: string) {
+	const version = parseSemver(value)
+	if (!version) {
+		throw new Error(`Expected ${value} to parse.`)
+	}
+	return version
+}
+
+describe("parseSemver", () => {
+	it("parses versions with and without a v prefix", () => {
+		expect(parseSemver("1.2.3")).toEqual({
+			major: 1,
+			minor: 2,
+			patch: 3,
+			prerelease: [],
+		})
+		expect(parseSemver("v10.0.1-beta.2+build.5")).toEqual({
+			major: 10,
+			minor: 0,
+			patch: 1,
+			prerelease: ["beta", "2"],
+		})
+	})
+
+	it("rejects non-semver strings", () => {
+		expect(parseSemver("latest")).toBeNull()
+		expect(parseSemver("1.2")).toBeNull()
+		expect(parseSemver("01.2.3")).toBeNull()
+	})
+})
+
+describe("compareSemver", () => {
+	it("orders by major, minor, then patch", () => {
+		expect(compareSemver(parsed("1.2.3"), parsed("1.10.0"))).toBe(-1)
+		expect(compareSemver(parsed("2.0.0"), parsed("1.99.99"))).toBe(1)
+		expect(compareSemver(parsed("v1.0.0"), parsed("1.0.0"))).toBe(0)
+	})
+
+	it("ranks prereleases below the release", () => {
+		expect(compareSemver(parsed("1.0.0-rc.1"), parsed("1.0.0"))).toBe(-1)
+		expect(compareSemver(parsed("1.0.0-alpha"), parsed("1.0.0-alpha.1"))).toBe(-1)
+		expect(compareSemver(parsed("1.0.0-alpha.2"), parsed("1.0.0-alpha.10"))).toBe(-1)
+		expect(compareSemver(parsed("1.0.0-beta"), parsed("1.0.0-alpha"))).toBe(1)
+	})
+})
+
+describe("findLatestSemverTag", () => {
+	it("returns the highest release tag", () => {
+		expect(findLatestSemverTag(["v1.0.0", "v1.10.0", "v1.9.0", "nightly"])).toBe(
+			"v1.10.0",
+		)
+	})
+
+	it("skips prereleases unless requested", () => {
+		const tags = ["v1.0.0", "v2.0.0-rc.1"]
+		expect(findLatestSemverTag(tags)).toBe("v1.0.0")
+		expect(findLatestSemverTag(tags, { includePrerelease: true })).toBe("v2.0.0-rc.1")
+	})
+
+	it("returns null when no tag is semver", () => {
+		expect(findLatestSemverTag(["main", "latest"])).toBeNull()
+	})
+})
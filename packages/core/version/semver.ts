@@ -0,0 +1,98 @@
+export interface SemverVersion {
+	major: number
+	minor: number
+	patch: number
+	prerelease: string[]
+}
+
+const SEMVER_PATTERN =
+	/^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/
+
+/**
+ * Parse a semantic version. A leading "v" is accepted so git tags like
+ * "v1.2.3" parse; build metadata is ignored.
+ */
+export function parseSemver(value: string): SemverVersion | null {
+	const match = SEMVER_PATTERN.exec(value.trim())
+	if (!match) {
+		return null
+	}
+
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+		prerelease: match[4] ? match[4].split(".") : [],
+	}
+}
+
+export function compareSemver(a: SemverVersion, b: SemverVersion): number {
+	const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch
+	if (core !== 0) {
+		return Math.sign(core)
+	}
+
+	// A version without prerelease identifiers ranks above any prerelease.
+	if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+		return Math.sign(b.prerelease.length - a.prerelease.length)
+	}
+
+	const length = Math.max(a.prerelease.length, b.prerelease.length)
+	for (let index = 0; index < length; index += 1) {
+		const left = a.prerelease[index]
+		const right = b.prerelease[index]
+		if (left === undefined || right === undefined) {
+			return left === undefined ? -1 : 1
+		}
+
+		const compared = compareIdentifier(left, right)
+		if (compared !== 0) {
+			return compared
+		}
+	}
+
+	return 0
+}
+
+/**
+ * Pick the highest semver tag. Prerelease tags are skipped unless requested.
+ * Returns null when no tag parses as semver.
+ */
+export function findLatestSemverTag(
+	tags: readonly string[],
+	options: { includePrerelease?: boolean } = {},
+): string | null {
+	let latest: { tag: string; version: SemverVersion } | null = null
+
+	for (const tag of tags) {
+		const version = parseSemver(tag)
+		if (!version) {
+			continue
+		}
+
+		if (version.prerelease.length > 0 && !options.includePrerelease) {
+			continue
+		}
+
+		if (!latest || compareSemver(version, latest.version) > 0) {
+			latest = { tag, version }
+		}
+	}
+
+	return latest?.tag ?? null
+}
+
+function compareIdentifier(left: string, right: string): number {
+	const leftNumeric = /^\d+$/.test(left)
+	const rightNumeric = /^\d+$/.test(right)
+
+	if (leftNumeric && rightNumeric) {
+		return Math.sign(Number(left) - Number(right))
+	}
+
+	if (leftNumeric !== rightNumeric) {
+		return leftNumeric ? -1 : 1
+	}
+
+	return left < right ? -1 : left > right ? 1 : 0
+}
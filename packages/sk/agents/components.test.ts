@@ -0,0 +1,148 @@
+/**
+ * Unit tests for converting Claude plugin components
+ *
+ * Tests how commands and subagents are rendered for each kind of target, and
+ * which plugin parts are skipped with a warning.
+ */
+
+import { describe, expect, it } from "vitest"
+import { planComponentInstall } from "@/agents/components"
+import type { AgentComponentTargets, ResolvedAgent } from "@/agents/types"
+import type { PluginComponent, PluginComponents } from "@/packages/types"
+import { abs } from "@/tests/helpers/branded"
+
+function createAgent(components?: AgentComponentTargets): ResolvedAgent {
+	return {
+		components,
+		displayName: "Test Agent",
+		id: "opencode",
+		rootPath: abs("/repo/.agent"),
+		skillsPath: abs("/repo/.agent/skills"),
+	}
+}
+
+function component(
+	name: string,
+	attributes: Record<string, unknown>,
+	body: string,
+): PluginComponent {
+	return { attributes, body, name, sourcePath: abs(`/plugin/${name}.md`) }
+}
+
+const REVIEW_COMMAND = component(
+	"review",
+	{
+		"allowed-tools": "Bash(git diff:*)",
+		"argument-hint": ["pr"],
+		description: "Review",
+	},
+	"\nReview PR $ARGUMENTS.\n",
+)
+
+const AUDITOR = component(
+	"auditor",
+	{ description: "Audits code", model: "sonnet", name: "auditor" },
+	"You audit code.\n",
+)
+
+function plugin(overrides: Partial<PluginComponents> = {}): PluginComponents {
+	return {
+		commands: [REVIEW_COMMAND],
+		hooks: false,
+		mcpServers: [],
+		subagents: [AUDITOR],
+		...overrides,
+	}
+}
+
+describe("planComponentInstall", () => {
+	it("renders commands and subagents with the target frontmatter", () => {
+		const agent = createAgent({
+			commands: { dir: "command", fields: ["description", "argument-hint"] },
+			subagents: {
+				dir: "agent",
+				extra: { mode: "subagent" },
+				fields: ["description"],
+				nameField: "name",
+			},
+		})
+
+		const result = planComponentInstall(agent, [
+			{ components: plugin(), prefix: "tools" },
+		])
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				files: [
+					{
+						contents:
+							'---\ndescription: "Review"\nargument-hint: "[pr]"\n---\n\nReview PR $ARGUMENTS.\n',
+						path: "command/tools-review.md",
+					},
+					{
+						contents:
+							'---\nname: "tools-auditor"\ndescription: "Audits code"\nmode: "subagent"\n---\n\nYou audit code.\n',
+						path: "agent/tools-auditor.md",
+					},
+				],
+				warnings: [],
+			},
+		})
+	})
+
+	it("writes the body alone when no frontmatter is kept", () => {
+		const agent = createAgent({
+			commands: { dir: "prompts", fields: ["description"] },
+		})
+
+		const result = planComponentInstall(agent, [
+			{
+				components: plugin({
+					commands: [component("explain", {}, "Explain this.\n")],
+					subagents: [],
+				}),
+				prefix: "tools",
+			},
+		])
+
+		expect(result.ok && result.value.files).toEqual([
+			{ contents: "Explain this.\n", path: "prompts/tools-explain.md" },
+		])
+	})
+
+	it("warns about parts the agent has no equivalent for", () => {
+		const agent = createAgent({ commands: { dir: "prompts", fields: [] } })
+
+		const result = planComponentInstall(agent, [
+			{
+				components: plugin({ hooks: true, mcpServers: ["github", "sentry"] }),
+				prefix: "tools",
+			},
+		])
+
+		expect(result.ok && result.value.files.map((file) => file.path)).toEqual([
+			"prompts/tools-review.md",
+		])
+		expect(result.ok && result.value.warnings).toEqual([
+			'Test Agent has no equivalent of Claude plugin subagents; skipped 1 from "tools".',
+			'Test Agent has no equivalent of Claude plugin hooks; skipped the hooks of "tools".',
+			'MCP servers of "tools" are not synced to Test Agent: github, sentry.',
+		])
+	})
+
+	it("fails when two plugins convert to the same file", () => {
+		const agent = createAgent({ commands: { dir: "prompts", fields: [] } })
+
+		const result = planComponentInstall(agent, [
+			{ components: plugin({ subagents: [] }), prefix: "tools" },
+			{ components: plugin({ subagents: [] }), prefix: "tools" },
+		])
+
+		expect(result.ok).toBe(false)
+		if (!result.ok) {
+			expect(result.error.type).toBe("conflict")
+			expect(result.error.message).toContain("prompts/tools-review.md")
+		}
+	})
+})
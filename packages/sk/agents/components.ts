@@ -0,0 +1,139 @@
+import type { AgentInstallError, ComponentTarget, ResolvedAgent } from "@/agents/types"
+import type { PluginComponent, PluginComponents } from "@/packages/types"
+
+/** Claude plugin command or subagent converted for another agent */
+export interface ComponentFile {
+	/** Path relative to the agent root, with forward slashes */
+	path: string
+	contents: string
+}
+
+export interface ComponentPlan {
+	files: ComponentFile[]
+	/** Parts of plugins the agent has no equivalent for */
+	warnings: string[]
+}
+
+export interface ComponentPackage {
+	prefix: string
+	components?: PluginComponents
+}
+
+export type ComponentPlanResult =
+	| { ok: true; value: ComponentPlan }
+	| { ok: false; error: AgentInstallError }
+
+/**
+ * Convert the commands and subagents of Claude plugins into the files the
+ * agent reads instead, named "<prefix>-<name>.md" like prefixed skills.
+ * Hooks and MCP servers, and components the agent has no target for, are
+ * skipped with a warning.
+ */
+export function planComponentInstall(
+	agent: ResolvedAgent,
+	packages: ComponentPackage[],
+): ComponentPlanResult {
+	const files: ComponentFile[] = []
+	const warnings: string[] = []
+	const seen = new Set<string>()
+
+	for (const pkg of packages) {
+		const components = pkg.components
+		if (!components) {
+			continue
+		}
+
+		const kinds = [
+			["commands", components.commands, agent.components?.commands],
+			["subagents", components.subagents, agent.components?.subagents],
+		] as const
+		for (const [kind, entries, target] of kinds) {
+			if (entries.length === 0) {
+				continue
+			}
+			if (!target) {
+				warnings.push(
+					`${agent.displayName} has no equivalent of Claude plugin ${kind}; skipped ${entries.length} from "${pkg.prefix}".`,
+				)
+				continue
+			}
+
+			for (const component of entries) {
+				const name = `${pkg.prefix}-${component.name}`
+				const filePath = `${target.dir}/${name}.md`
+				if (seen.has(filePath)) {
+					return {
+						error: {
+							agentId: agent.id,
+							message: `Two plugins convert to ${filePath} for ${agent.displayName}. Set a prefix on one of them.`,
+							target: "component",
+							type: "conflict",
+						},
+						ok: false,
+					}
+				}
+				seen.add(filePath)
+				files.push({
+					contents: renderComponent(component, target, name),
+					path: filePath,
+				})
+			}
+		}
+
+		if (components.hooks) {
+			warnings.push(
+				`${agent.displayName} has no equivalent of Claude plugin hooks; skipped the hooks of "${pkg.prefix}".`,
+			)
+		}
+		if (components.mcpServers.length > 0) {
+			warnings.push(
+				`MCP servers of "${pkg.prefix}" are not synced to ${agent.displayName}: ${components.mcpServers.join(", ")}.`,
+			)
+		}
+	}
+
+	return { ok: true, value: { files, warnings } }
+}
+
+function renderComponent(
+	component: PluginComponent,
+	target: ComponentTarget,
+	name: string,
+): string {
+	const attributes: [string, string][] = []
+	if (target.nameField) {
+		attributes.push([target.nameField, name])
+	}
+	for (const field of target.fields) {
+		const value = formatAttribute(component.attributes[field])
+		if (value !== undefined) {
+			attributes.push([field, value])
+		}
+	}
+	attributes.push(...Object.entries(target.extra ?? {}))
+
+	const body = component.body.replace(/^\n+/, "")
+	if (attributes.length === 0) {
+		return body
+	}
+
+	// JSON strings are valid double-quoted YAML scalars
+	const frontmatter = attributes
+		.map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+		.join("\n")
+	return `---\n${frontmatter}\n---\n\n${body}`
+}
+
+function formatAttribute(value: unknown): string | undefined {
+	if (typeof value === "string") {
+		return value
+	}
+	if (typeof value === "number" || typeof value === "boolean") {
+		return String(value)
+	}
+	// YAML reads an unquoted argument hint such as [file] as a list
+	if (Array.isArray(value)) {
+		return `[${value.map(String).join(", ")}]`
+	}
+	return undefined
+}
@@ -0,0 +1,60 @@
+import path from "node:path"
+import type { SkillProvenance } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import type { IoResult } from "@/io/fs"
+import { safeLstat, safeStat } from "@/io/fs"
+import { hashDirectory } from "@/io/hash"
+
+/**
+ * How an installed skill compares to what sk recorded when installing it.
+ * "unknown" means there is no provenance to compare against (version 1 state).
+ */
+export type SkillStatus = "ok" | "modified" | "missing" | "unknown"
+
+export async function inspectInstalledSkill(
+	agent: ResolvedAgent,
+	skill: string,
+	provenance: SkillProvenance | undefined,
+): Promise<IoResult<SkillStatus>> {
+	const targetPath = path.join(agent.skillsPath, skill)
+	const stats = await safeLstat(targetPath)
+	if (!stats.ok) {
+		return stats
+	}
+
+	if (!stats.value) {
+		return { ok: true, value: "missing" }
+	}
+
+	if (!provenance) {
+		return { ok: true, value: "unknown" }
+	}
+
+	if (provenance.mode === "symlink") {
+		if (!stats.value.isSymbolicLink()) {
+			return { ok: true, value: "modified" }
+		}
+
+		// A symlink whose source is gone installs nothing
+		const target = await safeStat(targetPath)
+		if (!target.ok) {
+			return target
+		}
+		return { ok: true, value: target.value ? "ok" : "missing" }
+	}
+
+	if (!stats.value.isDirectory()) {
+		return { ok: true, value: "modified" }
+	}
+
+	if (!provenance.hash) {
+		return { ok: true, value: "unknown" }
+	}
+
+	const hash = await hashDirectory(targetPath)
+	if (!hash.ok) {
+		return hash
+	}
+
+	return { ok: true, value: hash.value === provenance.hash ? "ok" : "modified" }
+}
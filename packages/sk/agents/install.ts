@@ -1,23 +1,44 @@
-import { cp, lstat, mkdir, rm, stat, symlink } from "node:fs/promises"
+import type { Dirent } from "node:fs"
+import { cp, lstat, mkdir, readdir, rm, stat, symlink } from "node:fs/promises"
 import path from "node:path"
-import type { AbsolutePath } from "@skills-supply/core"
+import {
+	type AbsolutePath,
+	parseMarkdownDocument,
+	type SkillNaming,
+} from "@skills-supply/core"
+import { DEFAULT_SKILL_NAMING, formatSkillTargetName } from "@/agents/naming"
+import { renderRule, ruleFileName } from "@/agents/rules"
 import type {
 	AgentInstallError,
 	AgentInstallResult,
 	InstallablePackage,
 	InstalledSkill,
 	ResolvedAgent,
+	RuleFormat,
 } from "@/agents/types"
+import { ensureDir, readTextFile, writeTextFile } from "@/io/fs"
+import type { CanonicalPackage } from "@/packages/types"
 
-type InstallMode = "copy" | "symlink"
+export type InstallMode = "copy" | "symlink"
 
 export interface InstallTask {
 	agentId: ResolvedAgent["id"]
+	/** Package the skill comes from */
+	canonical: CanonicalPackage
 	sourcePath: AbsolutePath
 	targetName: string
 	targetPath: AbsolutePath
 	skillName: string
 	mode: InstallMode
+	/** Rule file rendered from the skill, for agents that read rules instead */
+	rule?: RuleTask
+}
+
+export interface RuleTask {
+	format: RuleFormat
+	path: AbsolutePath
+	/** Installed skill directory relative to the rule's directory, with forward slashes */
+	link: string
 }
 
 export interface AgentInstallPlan {
@@ -65,6 +86,15 @@ export async function applyAgentInstall(
 			return sourceReady
 		}
 
+		// Template naming can nest skills below a per-package directory
+		const parentPath = path.dirname(task.targetPath) as AbsolutePath
+		if (parentPath !== basePath) {
+			const parentReady = await ensureDirectory(parentPath, plan.agentId)
+			if (!parentReady.ok) {
+				return parentReady
+			}
+		}
+
 		const targetReady = await prepareTarget(task.targetPath, plan.agentId, guard)
 		if (!targetReady.ok) {
 			return targetReady
@@ -78,6 +108,13 @@ export async function applyAgentInstall(
 			return installResult
 		}
 
+		if (task.rule) {
+			const ruleResult = await writeRule(task, task.rule, plan.agentId)
+			if (!ruleResult.ok) {
+				return ruleResult
+			}
+		}
+
 		installed.push({
 			agentId: plan.agentId,
 			name: task.skillName,
@@ -92,6 +129,7 @@ export async function applyAgentInstall(
 export function planAgentInstall(
 	agent: ResolvedAgent,
 	packages: InstallablePackage[],
+	naming: SkillNaming = DEFAULT_SKILL_NAMING,
 ): PlanResult {
 	// Validate raw input before resolving - empty/whitespace paths are invalid
 	if (!agent.skillsPath.trim()) {
@@ -111,7 +149,10 @@ export function planAgentInstall(
 	const basePath = agent.skillsPath
 
 	const tasks: InstallTask[] = []
-	const seenTargets = new Set<string>()
+	// Target path -> prefix of the package that produced it
+	const seenTargets = new Map<string, string>()
+	// Rule path -> target name of the skill rendered there
+	const seenRules = new Map<string, string>()
 	const baseNormalized = path.resolve(basePath) as AbsolutePath
 
 	for (const pkg of packages) {
@@ -142,7 +183,11 @@ export function planAgentInstall(
 				return skillResult
 			}
 
-			const targetName = `${prefixResult.value}-${skillResult.value}`
+			const targetName = formatSkillTargetName(
+				naming,
+				{ canonical: pkg.canonical, prefix: prefixResult.value },
+				skillResult.value,
+			)
 			const targetPath = path.join(baseNormalized, targetName) as AbsolutePath
 			if (!isWithinBase(baseNormalized, targetPath)) {
 				const message = "Skill target path escapes the agent skills directory."
@@ -159,11 +204,16 @@ export function planAgentInstall(
 				}
 			}
 
-			if (seenTargets.has(targetPath)) {
+			const owner = seenTargets.get(targetPath)
+			if (owner !== undefined) {
+				const message =
+					owner === prefixResult.value
+						? `Duplicate target path detected: ${targetName}`
+						: `Packages "${owner}" and "${prefixResult.value}" both install a skill named "${targetName}".`
 				return {
 					error: {
 						agentId: agent.id,
-						message: `Duplicate target path detected: ${targetName}`,
+						message,
 						path: targetPath,
 						target: "targetPath",
 						type: "conflict",
@@ -172,14 +222,33 @@ export function planAgentInstall(
 				}
 			}
 
-			seenTargets.add(targetPath)
+			seenTargets.set(targetPath, prefixResult.value)
+			const rule = agent.rules && planRule(agent.rules, targetName, targetPath)
+			if (rule) {
+				const owner = seenRules.get(rule.path)
+				if (owner !== undefined) {
+					return {
+						error: {
+							agentId: agent.id,
+							message: `Skills "${owner}" and "${targetName}" both render to ${rule.path}.`,
+							path: rule.path,
+							target: "targetPath",
+							type: "conflict",
+						},
+						ok: false,
+					}
+				}
+				seenRules.set(rule.path, targetName)
+			}
 			tasks.push({
 				agentId: agent.id,
+				canonical: pkg.canonical,
 				mode,
 				skillName: skillResult.value,
 				sourcePath: skill.sourcePath,
 				targetName,
 				targetPath,
+				...(rule && { rule }),
 			})
 		}
 	}
@@ -187,6 +256,129 @@ export function planAgentInstall(
 	return { ok: true, value: { agentId: agent.id, basePath: baseNormalized, tasks } }
 }
 
+function planRule(
+	rules: NonNullable<ResolvedAgent["rules"]>,
+	targetName: string,
+	targetPath: AbsolutePath,
+): RuleTask {
+	return {
+		format: rules.format,
+		link: path.relative(rules.path, targetPath).split(path.sep).join("/"),
+		path: path.join(
+			rules.path,
+			ruleFileName(rules.format, targetName),
+		) as AbsolutePath,
+	}
+}
+
+async function writeRule(
+	task: InstallTask,
+	rule: RuleTask,
+	agentId: ResolvedAgent["id"],
+): Promise<{ ok: true } | { ok: false; error: AgentInstallError }> {
+	const rendered = await renderSkillRule(task, rule, agentId)
+	if (!rendered.ok) {
+		return rendered
+	}
+
+	const ensured = await ensureDir(path.dirname(rule.path))
+	if (!ensured.ok) {
+		return { error: { ...ensured.error, agentId }, ok: false }
+	}
+	const written = await writeTextFile(rule.path, rendered.value)
+	return written.ok ? { ok: true } : { error: { ...written.error, agentId }, ok: false }
+}
+
+/**
+ * Render the skill's SKILL.md into the rule format of the agent, linking to
+ * the files beside it in the installed skill directory.
+ */
+export async function renderSkillRule(
+	task: InstallTask,
+	rule: RuleTask,
+	agentId: ResolvedAgent["id"],
+): Promise<{ ok: true; value: string } | { ok: false; error: AgentInstallError }> {
+	const skillPath = path.join(task.sourcePath, "SKILL.md")
+	const contents = await readTextFile(skillPath)
+	if (!contents.ok) {
+		return { error: { ...contents.error, agentId }, ok: false }
+	}
+
+	const document = parseMarkdownDocument(contents.value)
+	if (!document.ok) {
+		return {
+			error: {
+				agentId,
+				field: "frontmatter",
+				message: `Unable to render ${skillPath} as a rule: ${document.error.message}`,
+				path: skillPath as AbsolutePath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const files = await listSupportingFiles(task.sourcePath, "", agentId)
+	if (!files.ok) {
+		return files
+	}
+
+	const description = document.value.attributes.description
+	return {
+		ok: true,
+		value: renderRule(rule.format, {
+			body: document.value.body,
+			description: typeof description === "string" ? description : undefined,
+			files: files.value,
+			link: rule.link,
+			name: task.skillName,
+		}),
+	}
+}
+
+/** Files of a skill directory other than SKILL.md, relative to it and sorted */
+async function listSupportingFiles(
+	rootPath: AbsolutePath,
+	relativeDir: string,
+	agentId: ResolvedAgent["id"],
+): Promise<{ ok: true; value: string[] } | { ok: false; error: AgentInstallError }> {
+	const dirPath = path.join(rootPath, relativeDir) as AbsolutePath
+	let entries: Dirent[]
+	try {
+		entries = await readdir(dirPath, { withFileTypes: true })
+	} catch (error) {
+		return {
+			error: {
+				agentId,
+				message: `Unable to read ${dirPath}.`,
+				operation: "readdir",
+				path: dirPath,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			ok: false,
+		}
+	}
+
+	const files: string[] = []
+	for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+		const relativePath = relativeDir
+			? path.posix.join(relativeDir, entry.name)
+			: entry.name
+		if (entry.isDirectory()) {
+			const nested = await listSupportingFiles(rootPath, relativePath, agentId)
+			if (!nested.ok) {
+				return nested
+			}
+			files.push(...nested.value)
+		} else if (relativePath !== "SKILL.md") {
+			files.push(relativePath)
+		}
+	}
+	return { ok: true, value: files }
+}
+
 function normalizeSegment(
 	value: string,
 	label: string,
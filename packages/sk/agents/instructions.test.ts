@@ -0,0 +1,188 @@
+/**
+ * Unit tests for instructions blocks
+ *
+ * Tests how the instructions packages export are kept in marked blocks of an
+ * agent's AGENTS.md or CLAUDE.md: text around the blocks is never changed,
+ * blocks sk wrote are updated and removed, and hand edits are kept.
+ */
+
+import { readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { planInstructions } from "@/agents/instructions"
+import type { ResolvedAgent } from "@/agents/types"
+import { abs } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+
+import "@/tests/helpers/assertions"
+
+function createAgent(instructionsPath: string | null): ResolvedAgent {
+	return {
+		displayName: "Test Agent",
+		id: "codex",
+		instructionsPath: instructionsPath ? abs(instructionsPath) : undefined,
+		rootPath: abs("/repo/.agent"),
+		skillsPath: abs("/repo/.agent/skills"),
+	}
+}
+
+const DOCS_BLOCK = [
+	"<!-- sk:begin alias=docs hash=70fe10ca2198 -->",
+	"Write docs in plain English.",
+	"<!-- sk:end alias=docs -->",
+]
+
+describe("planInstructions", () => {
+	it("appends a block for each package and keeps the text around them", async () => {
+		await withTempDir(async (dir) => {
+			const filePath = join(dir, "AGENTS.md")
+			await writeFile(filePath, "# Project\n\nRun npm test before committing.\n")
+
+			const result = await planInstructions(
+				createAgent(filePath),
+				[
+					{ alias: "docs", contents: "Write docs in plain English.\n" },
+					{ alias: "style", contents: "\nUse tabs.\n" },
+				],
+				[],
+			)
+
+			expect(result).toBeOk()
+			if (!result.ok) {
+				return
+			}
+			expect(result.value.blocks).toEqual(["docs", "style"])
+			expect(result.value.diffs).toEqual([
+				{ after: "Write docs in plain English.", alias: "docs", before: null },
+				{ after: "Use tabs.", alias: "style", before: null },
+			])
+			expect(result.value.file?.contents).toBe(
+				[
+					"# Project",
+					"",
+					"Run npm test before committing.",
+					"",
+					...DOCS_BLOCK,
+					"",
+					"<!-- sk:begin alias=style hash=3daa6bb31940 -->",
+					"Use tabs.",
+					"<!-- sk:end alias=style -->",
+					"",
+				].join("\n"),
+			)
+		})
+	})
+
+	it("rewrites and removes managed blocks in place", async () => {
+		await withTempDir(async (dir) => {
+			const filePath = join(dir, "AGENTS.md")
+			await writeFile(
+				filePath,
+				[
+					"# Project",
+					"",
+					"<!-- sk:begin alias=stale hash=f967befb6880 -->",
+					"Old advice.",
+					"<!-- sk:end alias=stale -->",
+					"",
+					...DOCS_BLOCK,
+					"",
+					"Notes kept by hand.",
+					"",
+				].join("\n"),
+			)
+			const result = await planInstructions(
+				createAgent(filePath),
+				[{ alias: "docs", contents: "Write docs in British English." }],
+				["docs", "stale"],
+			)
+
+			expect(result.ok && result.value.diffs).toEqual([
+				{
+					after: "Write docs in British English.",
+					alias: "docs",
+					before: "Write docs in plain English.",
+				},
+				{ after: null, alias: "stale", before: "Old advice." },
+			])
+			expect(result.ok && result.value.file?.contents).toMatch(
+				/^# Project\n\n<!-- sk:begin alias=docs hash=[0-9a-f]{12} -->\nWrite docs in British English\.\n<!-- sk:end alias=docs -->\n\nNotes kept by hand\.\n$/,
+			)
+		})
+	})
+
+	it("keeps blocks edited by hand unless forced", async () => {
+		await withTempDir(async (dir) => {
+			const filePath = join(dir, "AGENTS.md")
+			const edited = [
+				"<!-- sk:begin alias=docs hash=70fe10ca2198 -->",
+				"Write docs in plain English, with examples.",
+				"<!-- sk:end alias=docs -->",
+				"",
+			].join("\n")
+			await writeFile(filePath, edited)
+
+			const kept = await planInstructions(createAgent(filePath), [], ["docs"])
+			expect(kept.ok && kept.value).toMatchObject({
+				blocks: ["docs"],
+				diffs: [],
+				file: null,
+			})
+			expect(kept.ok && kept.value.warnings[0]).toContain("pass --force")
+
+			const forced = await planInstructions(createAgent(filePath), [], ["docs"], {
+				force: true,
+			})
+			expect(forced.ok && forced.value.file).toEqual({
+				contents: null,
+				path: filePath,
+			})
+			expect(await readFile(filePath, "utf8")).toBe(edited)
+		})
+	})
+
+	it("leaves blocks that another agent sharing the file still installs", async () => {
+		await withTempDir(async (dir) => {
+			const filePath = join(dir, "AGENTS.md")
+			await writeFile(filePath, `${DOCS_BLOCK.join("\n")}\n`)
+
+			const result = await planInstructions(createAgent(filePath), [], ["docs"], {
+				shared: new Set(["docs"]),
+			})
+
+			expect(result.ok && result.value).toEqual({
+				blocks: [],
+				diffs: [],
+				file: null,
+				warnings: [],
+			})
+		})
+	})
+
+	it("fails on a block without an end marker", async () => {
+		await withTempDir(async (dir) => {
+			const filePath = join(dir, "AGENTS.md")
+			await writeFile(filePath, `${DOCS_BLOCK.slice(0, 2).join("\n")}\n`)
+
+			const result = await planInstructions(
+				createAgent(filePath),
+				[{ alias: "docs", contents: "Write docs in plain English." }],
+				["docs"],
+			)
+
+			expect(result).toBeErrContaining("is not closed")
+		})
+	})
+
+	it("skips agents without an instructions file, with a warning", async () => {
+		const result = await planInstructions(
+			createAgent(null),
+			[{ alias: "docs", contents: "Write docs in plain English." }],
+			[],
+		)
+
+		expect(result.ok && result.value.warnings).toEqual([
+			'Test Agent has no instructions file; skipped the instructions of "docs".',
+		])
+	})
+})
@@ -0,0 +1,288 @@
+import { createHash } from "node:crypto"
+import type { AbsolutePath, Result } from "@skills-supply/core"
+import type { ConfigFile, ResolvedAgent } from "@/agents/types"
+import { readTextFile, safeStat } from "@/io/fs"
+import type { IoError, ValidationError } from "@/types/errors"
+
+/** Instructions a package exports, kept in one block of the agent's file */
+export interface InstructionBlock {
+	alias: string
+	contents: string
+}
+
+/** A block the sync adds, rewrites or removes */
+export interface InstructionBlockDiff {
+	alias: string
+	/** Contents before the sync, null for an added block */
+	before: string | null
+	/** Contents after the sync, null for a removed block */
+	after: string | null
+}
+
+export interface InstructionsPlan {
+	/** The agent's instructions file with the blocks changed, or null when it is unchanged */
+	file: ConfigFile | null
+	/** Aliases whose blocks sk manages in the file after the sync */
+	blocks: string[]
+	diffs: InstructionBlockDiff[]
+	warnings: string[]
+}
+
+export interface InstructionsOptions {
+	/**
+	 * Aliases that other agents reading the same file still install, whose
+	 * blocks stay even when this agent no longer has them
+	 */
+	shared?: ReadonlySet<string>
+	/** Replace or remove blocks edited by hand instead of keeping them */
+	force?: boolean
+}
+
+type InstructionsError = IoError | ValidationError
+
+export type InstructionsPlanResult = Result<InstructionsPlan, InstructionsError>
+
+interface ParsedBlock {
+	alias: string
+	hash: string
+	body: string
+	/** Line of the begin marker */
+	start: number
+	/** Line of the end marker */
+	end: number
+}
+
+const BEGIN_MARKER = /^<!-- sk:begin alias=(\S+) hash=([0-9a-f]+) -->$/
+const END_MARKER = /^<!-- sk:end alias=(\S+) -->$/
+
+/**
+ * Plan the instructions of the packages into the agent's instructions file.
+ * Each package gets a block between marker comments that hold its alias and
+ * the hash of its contents; text outside the blocks is never changed. Blocks
+ * listed in managed are rewritten or removed to match the packages, except
+ * those edited by hand since, which are kept with a warning unless forced.
+ */
+export async function planInstructions(
+	agent: ResolvedAgent,
+	blocks: InstructionBlock[],
+	managed: readonly string[],
+	options: InstructionsOptions = {},
+): Promise<InstructionsPlanResult> {
+	const warnings: string[] = []
+	const filePath = agent.instructionsPath
+	if (!filePath) {
+		if (blocks.length > 0) {
+			warnings.push(
+				`${agent.displayName} has no instructions file; skipped the instructions of ${blocks.map((block) => `"${block.alias}"`).join(", ")}.`,
+			)
+		}
+		return { ok: true, value: { blocks: [], diffs: [], file: null, warnings } }
+	}
+
+	if (blocks.length === 0 && managed.length === 0) {
+		return { ok: true, value: { blocks: [], diffs: [], file: null, warnings } }
+	}
+
+	const text = await readInstructions(filePath)
+	if (!text.ok) {
+		return text
+	}
+
+	const lines = text.value === null ? [] : text.value.split("\n")
+	const parsed = parseBlocks(lines, filePath)
+	if (!parsed.ok) {
+		return parsed
+	}
+
+	const existing = new Map(parsed.value.map((block) => [block.alias, block]))
+	const replacements = new Map<string, string[] | null>()
+	const appended: string[][] = []
+	const diffs: InstructionBlockDiff[] = []
+	const kept: string[] = []
+
+	const keepEdited = (block: ParsedBlock): boolean => {
+		if (options.force || hashContents(block.body) === block.hash) {
+			return false
+		}
+		warnings.push(
+			`Kept the edited instructions of "${block.alias}" in ${filePath}; pass --force to replace them.`,
+		)
+		kept.push(block.alias)
+		return true
+	}
+
+	const desired = new Set<string>()
+	for (const block of blocks) {
+		if (desired.has(block.alias)) {
+			warnings.push(
+				`Several packages named "${block.alias}" export instructions; only the first is written to ${filePath}.`,
+			)
+			continue
+		}
+		desired.add(block.alias)
+		const body = normalizeContents(block.contents)
+		const hash = hashContents(body)
+		const current = existing.get(block.alias)
+		if (!current) {
+			appended.push(renderBlock(block.alias, hash, body))
+			diffs.push({ after: body, alias: block.alias, before: null })
+			continue
+		}
+		if (current.hash === hash && current.body === body) {
+			continue
+		}
+		if (keepEdited(current)) {
+			continue
+		}
+		replacements.set(block.alias, renderBlock(block.alias, hash, body))
+		diffs.push({ after: body, alias: block.alias, before: current.body })
+	}
+
+	for (const alias of managed) {
+		const current = existing.get(alias)
+		if (!current || desired.has(alias) || options.shared?.has(alias)) {
+			continue
+		}
+		if (keepEdited(current)) {
+			continue
+		}
+		replacements.set(alias, null)
+		diffs.push({ after: null, alias, before: current.body })
+	}
+
+	const plan = { blocks: [...desired, ...kept], diffs, file: null, warnings }
+	if (diffs.length === 0) {
+		return { ok: true, value: plan }
+	}
+
+	const contents = applyBlocks(lines, parsed.value, replacements, appended)
+	return {
+		ok: true,
+		value: {
+			...plan,
+			file: {
+				contents: contents.trim() ? contents : null,
+				path: filePath,
+			},
+		},
+	}
+}
+
+async function readInstructions(
+	filePath: AbsolutePath,
+): Promise<Result<string | null, InstructionsError>> {
+	const stats = await safeStat(filePath)
+	if (!stats.ok) {
+		return stats
+	}
+	if (!stats.value) {
+		return { ok: true, value: null }
+	}
+	return readTextFile(filePath)
+}
+
+function parseBlocks(
+	lines: readonly string[],
+	filePath: AbsolutePath,
+): Result<ParsedBlock[], InstructionsError> {
+	const invalid = (message: string): Result<never, InstructionsError> => ({
+		error: {
+			field: "instructions",
+			message: `${message} Fix the sk markers in ${filePath} or remove the block.`,
+			path: filePath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	})
+
+	const blocks: ParsedBlock[] = []
+	let open: Omit<ParsedBlock, "body" | "end"> | null = null
+	for (const [index, line] of lines.entries()) {
+		const begin = BEGIN_MARKER.exec(line)
+		const end = END_MARKER.exec(line)
+		if (begin) {
+			if (open) {
+				return invalid(`The instructions block of "${open.alias}" is not closed.`)
+			}
+			const alias = begin[1] ?? ""
+			if (blocks.some((block) => block.alias === alias)) {
+				return invalid(`The instructions of "${alias}" appear twice.`)
+			}
+			open = { alias, hash: begin[2] ?? "", start: index }
+		} else if (end) {
+			if (!open || open.alias !== end[1]) {
+				return invalid(`Unexpected end of the instructions block of "${end[1]}".`)
+			}
+			blocks.push({
+				...open,
+				body: lines.slice(open.start + 1, index).join("\n"),
+				end: index,
+			})
+			open = null
+		}
+	}
+
+	if (open) {
+		return invalid(`The instructions block of "${open.alias}" is not closed.`)
+	}
+	return { ok: true, value: blocks }
+}
+
+function applyBlocks(
+	lines: readonly string[],
+	blocks: readonly ParsedBlock[],
+	replacements: ReadonlyMap<string, string[] | null>,
+	appended: readonly string[][],
+): string {
+	const output: string[] = []
+	let index = 0
+	for (const block of blocks) {
+		output.push(...lines.slice(index, block.start))
+		index = block.end + 1
+
+		const replacement = replacements.get(block.alias)
+		if (replacement === undefined) {
+			output.push(...lines.slice(block.start, index))
+		} else if (replacement) {
+			output.push(...replacement)
+		} else if (lines[index] === "" && index < lines.length - 1) {
+			// A removed block takes one of the blank lines around it along
+			index += 1
+		} else if (output.at(-1) === "") {
+			output.pop()
+		}
+	}
+	output.push(...lines.slice(index))
+
+	if (appended.length > 0) {
+		if (output.at(-1) === "") {
+			output.pop()
+		}
+		for (const block of appended) {
+			if (output.length > 0 && output.at(-1) !== "") {
+				output.push("")
+			}
+			output.push(...block)
+		}
+		output.push("")
+	}
+
+	return output.join("\n")
+}
+
+function renderBlock(alias: string, hash: string, body: string): string[] {
+	return [
+		`<!-- sk:begin alias=${alias} hash=${hash} -->`,
+		...(body ? body.split("\n") : []),
+		`<!-- sk:end alias=${alias} -->`,
+	]
+}
+
+function normalizeContents(contents: string): string {
+	return contents.replace(/\r\n/g, "\n").replace(/^\n+/, "").trimEnd()
+}
+
+function hashContents(body: string): string {
+	return createHash("sha256").update(body).digest("hex").slice(0, 12)
+}
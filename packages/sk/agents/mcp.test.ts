@@ -0,0 +1,260 @@
+/**
+ * Unit tests for MCP server configs
+ *
+ * Tests how declared servers are merged into each kind of agent config file:
+ * entries sk did not write are kept, managed ones are updated and removed,
+ * and TOML files keep their comments.
+ */
+
+import { readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import type { McpServerDefinition, NonEmptyString } from "@skills-supply/core"
+import { describe, expect, it } from "vitest"
+import { planMcpServers } from "@/agents/mcp"
+import type { McpConfigTarget, ResolvedAgent } from "@/agents/types"
+import { abs } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+
+import "@/tests/helpers/assertions"
+
+function createAgent(
+	configPath: string,
+	mcp: Omit<McpConfigTarget, "globalPath" | "localPath"> | null,
+): ResolvedAgent {
+	return {
+		displayName: "Test Agent",
+		id: "claude-code",
+		mcp: mcp ? { ...mcp, path: abs(configPath) } : undefined,
+		rootPath: abs("/repo/.agent"),
+		skillsPath: abs("/repo/.agent/skills"),
+	}
+}
+
+const CLAUDE = {
+	format: "json",
+	key: "mcpServers",
+	style: "claude",
+	transports: ["stdio", "http", "sse"],
+} as const
+
+const CODEX = {
+	format: "toml",
+	key: "mcp_servers",
+	style: "codex",
+	transports: ["stdio", "http"],
+} as const
+
+const GITHUB: McpServerDefinition = {
+	args: ["-y", "@modelcontextprotocol/server-github"],
+	command: "npx" as NonEmptyString,
+	env: { GITHUB_TOKEN: "token" },
+	transport: "stdio",
+}
+
+const SENTRY: McpServerDefinition = {
+	transport: "sse",
+	url: "https://mcp.sentry.dev/sse" as NonEmptyString,
+}
+
+function servers(
+	entries: Record<string, McpServerDefinition>,
+): ReadonlyMap<string, McpServerDefinition> {
+	return new Map(Object.entries(entries))
+}
+
+describe("planMcpServers", () => {
+	it("adds servers to a JSON config and keeps the entries sk did not write", async () => {
+		await withTempDir(async (dir) => {
+			const configPath = join(dir, ".mcp.json")
+			await writeFile(
+				configPath,
+				JSON.stringify({ mcpServers: { local: { command: "./serve" } } }),
+			)
+
+			const result = await planMcpServers(
+				createAgent(configPath, CLAUDE),
+				servers({ github: GITHUB, sentry: SENTRY }),
+				[],
+			)
+
+			expect(result).toBeOk()
+			if (!result.ok) {
+				return
+			}
+			expect(result.value.added).toEqual(["github", "sentry"])
+			expect(JSON.parse(result.value.config?.contents ?? "")).toEqual({
+				mcpServers: {
+					github: {
+						args: ["-y", "@modelcontextprotocol/server-github"],
+						command: "npx",
+						env: { GITHUB_TOKEN: "token" },
+						type: "stdio",
+					},
+					local: { command: "./serve" },
+					sentry: { type: "sse", url: "https://mcp.sentry.dev/sse" },
+				},
+			})
+		})
+	})
+
+	it("renders OpenCode local and remote servers", async () => {
+		await withTempDir(async (dir) => {
+			const configPath = join(dir, "opencode.json")
+			await writeFile(configPath, '{"theme":"dark"}')
+
+			const result = await planMcpServers(
+				createAgent(configPath, { ...CLAUDE, key: "mcp", style: "opencode" }),
+				servers({ github: GITHUB, sentry: SENTRY }),
+				[],
+			)
+
+			expect(
+				JSON.parse((result.ok && result.value.config?.contents) || ""),
+			).toEqual({
+				mcp: {
+					github: {
+						command: ["npx", "-y", "@modelcontextprotocol/server-github"],
+						environment: { GITHUB_TOKEN: "token" },
+						type: "local",
+					},
+					sentry: { type: "remote", url: "https://mcp.sentry.dev/sse" },
+				},
+				theme: "dark",
+			})
+		})
+	})
+
+	it("edits a TOML config in place, keeping comments and other tables", async () => {
+		await withTempDir(async (dir) => {
+			const configPath = join(dir, "config.toml")
+			await writeFile(
+				configPath,
+				[
+					'model = "o3" # default model',
+					"",
+					"[mcp_servers.docs]",
+					'command = "docs-mcp"',
+					"",
+					"[mcp_servers.github]",
+					'command = "old-github-mcp"',
+					"",
+					"[mcp_servers.github.env]",
+					'GITHUB_TOKEN = "old"',
+					"",
+					"[mcp_servers.stale]",
+					'url = "https://stale.dev/mcp"',
+					"",
+					"# Hand-written server",
+					"[mcp_servers.local]",
+					'command = "./serve"',
+					"",
+				].join("\n"),
+			)
+
+			const result = await planMcpServers(
+				createAgent(configPath, CODEX),
+				servers({
+					docs: {
+						...GITHUB,
+						args: [],
+						command: "docs-mcp" as NonEmptyString,
+						env: {},
+					},
+					github: GITHUB,
+				}),
+				["docs", "github", "stale"],
+			)
+
+			expect(result.ok && result.value).toMatchObject({
+				added: [],
+				removed: ["stale"],
+				servers: ["docs", "github"],
+				updated: ["github"],
+			})
+			expect(result.ok && result.value.config?.contents).toBe(
+				[
+					'model = "o3" # default model',
+					"",
+					"[mcp_servers.docs]",
+					'command = "docs-mcp"',
+					"",
+					"# Hand-written server",
+					"[mcp_servers.local]",
+					'command = "./serve"',
+					"",
+					"[mcp_servers.github]",
+					'command = "npx"',
+					'args = [ "-y", "@modelcontextprotocol/server-github" ]',
+					"",
+					"[mcp_servers.github.env]",
+					'GITHUB_TOKEN = "token"',
+					"",
+				].join("\n"),
+			)
+		})
+	})
+
+	it("leaves the file alone when it already matches", async () => {
+		await withTempDir(async (dir) => {
+			const configPath = join(dir, ".mcp.json")
+			await writeFile(
+				configPath,
+				JSON.stringify({
+					mcpServers: {
+						sentry: { type: "sse", url: "https://mcp.sentry.dev/sse" },
+					},
+				}),
+			)
+
+			const result = await planMcpServers(
+				createAgent(configPath, CLAUDE),
+				servers({ sentry: SENTRY }),
+				[],
+			)
+
+			expect(result.ok && result.value).toMatchObject({
+				added: [],
+				config: null,
+				servers: ["sentry"],
+			})
+		})
+	})
+
+	it("fails when a server name is taken by an entry sk did not write", async () => {
+		await withTempDir(async (dir) => {
+			const configPath = join(dir, ".mcp.json")
+			await writeFile(
+				configPath,
+				JSON.stringify({ mcpServers: { github: { command: "gh-mcp" } } }),
+			)
+
+			const result = await planMcpServers(
+				createAgent(configPath, CLAUDE),
+				servers({ github: GITHUB }),
+				[],
+			)
+
+			expect(result).toBeErrContaining("was not added by sk")
+			expect(await readFile(configPath, "utf8")).toContain("gh-mcp")
+		})
+	})
+
+	it("skips servers the agent cannot connect to, with a warning", async () => {
+		const result = await planMcpServers(
+			createAgent("/repo/.codex/config.toml", CODEX),
+			servers({ sentry: SENTRY }),
+			[],
+		)
+
+		expect(result.ok && result.value).toEqual({
+			added: [],
+			config: null,
+			removed: [],
+			servers: [],
+			updated: [],
+			warnings: [
+				'Test Agent cannot connect to MCP servers over sse; skipped "sentry".',
+			],
+		})
+	})
+})
@@ -0,0 +1,346 @@
+import { isDeepStrictEqual } from "node:util"
+import type { McpServerDefinition, Result } from "@skills-supply/core"
+import { parse as parseToml, stringify as stringifyToml } from "smol-toml"
+import type {
+	ConfigFile,
+	McpEntryStyle,
+	ResolvedAgent,
+	ResolvedMcpConfig,
+} from "@/agents/types"
+import { readTextFile, safeStat } from "@/io/fs"
+import type { ConflictError, IoError, ParseError, ValidationError } from "@/types/errors"
+
+export interface McpPlan {
+	/** The agent's config file with the declared servers, or null when it is unchanged */
+	config: ConfigFile | null
+	/** Servers sk manages in the config file after the sync */
+	servers: string[]
+	added: string[]
+	updated: string[]
+	removed: string[]
+	/** Servers the agent cannot connect to */
+	warnings: string[]
+}
+
+type McpConfigError = ConflictError | IoError | ParseError | ValidationError
+
+export type McpPlanResult = Result<McpPlan, McpConfigError>
+
+type ServerTable = Record<string, unknown>
+
+/**
+ * Plan the MCP servers of the manifest into the agent's config file. Entries
+ * sk wrote before, listed in managed, are updated or removed to match the
+ * manifest; every other entry and setting in the file is kept. A declared
+ * server whose name is taken by an unmanaged entry is a conflict, unless
+ * that entry is already what sk would write.
+ */
+export async function planMcpServers(
+	agent: ResolvedAgent,
+	servers: ReadonlyMap<string, McpServerDefinition>,
+	managed: readonly string[],
+): Promise<McpPlanResult> {
+	const warnings: string[] = []
+	const config = agent.mcp
+	if (!config) {
+		if (servers.size > 0) {
+			warnings.push(
+				`${agent.displayName} has no MCP server config sk can write; skipped ${servers.size} server(s).`,
+			)
+		}
+		return { ok: true, value: emptyPlan(warnings) }
+	}
+
+	const desired = new Map<string, unknown>()
+	for (const [name, server] of servers) {
+		if (!config.transports.includes(server.transport)) {
+			warnings.push(
+				`${agent.displayName} cannot connect to MCP servers over ${server.transport}; skipped "${name}".`,
+			)
+			continue
+		}
+		desired.set(name, renderServer(server, config.style))
+	}
+
+	if (desired.size === 0 && managed.length === 0) {
+		return { ok: true, value: emptyPlan(warnings) }
+	}
+
+	const document = await readConfig(config)
+	if (!document.ok) {
+		return document
+	}
+
+	const existing = document.value.servers
+	const owned = new Set(managed)
+	const added: string[] = []
+	const updated: string[] = []
+	for (const [name, entry] of desired) {
+		if (!(name in existing)) {
+			added.push(name)
+		} else if (!isDeepStrictEqual(existing[name], entry)) {
+			if (!owned.has(name)) {
+				return {
+					error: {
+						message: `MCP server "${name}" in ${config.path} was not added by sk. Remove it or rename the server in agents.toml.`,
+						path: config.path,
+						target: "mcp_server",
+						type: "conflict",
+					},
+					ok: false,
+				}
+			}
+			updated.push(name)
+		}
+	}
+	const removed = managed.filter((name) => !desired.has(name) && name in existing)
+
+	const plan = {
+		added,
+		config: null,
+		removed,
+		servers: [...desired.keys()],
+		updated,
+		warnings,
+	}
+	if (added.length + updated.length + removed.length === 0) {
+		return { ok: true, value: plan }
+	}
+
+	const written = [...added, ...updated]
+	const contents =
+		config.format === "json"
+			? writeJsonConfig(document.value.data, config.key, desired, removed)
+			: writeTomlConfig(document.value.text, config, desired, written, removed)
+	if (!contents.ok) {
+		return contents
+	}
+
+	return {
+		ok: true,
+		value: { ...plan, config: { contents: contents.value, path: config.path } },
+	}
+}
+
+function emptyPlan(warnings: string[]): McpPlan {
+	return { added: [], config: null, removed: [], servers: [], updated: [], warnings }
+}
+
+function renderServer(server: McpServerDefinition, style: McpEntryStyle): ServerTable {
+	if (server.transport !== "stdio") {
+		switch (style) {
+			case "claude":
+				return { type: server.transport, url: server.url }
+			case "codex":
+				return { url: server.url }
+			case "opencode":
+				return { type: "remote", url: server.url }
+		}
+	}
+
+	const env = Object.keys(server.env).length > 0 ? server.env : undefined
+	if (style === "opencode") {
+		return {
+			command: [server.command, ...server.args],
+			type: "local",
+			...(env && { environment: env }),
+		}
+	}
+
+	return {
+		...(style === "claude" && { type: "stdio" }),
+		command: server.command,
+		...(server.args.length > 0 && { args: server.args }),
+		...(env && { env }),
+	}
+}
+
+interface ConfigDocument {
+	/** Contents as read, empty for a missing file */
+	text: string
+	data: Record<string, unknown>
+	servers: ServerTable
+}
+
+async function readConfig(
+	config: ResolvedMcpConfig,
+): Promise<Result<ConfigDocument, McpConfigError>> {
+	const stats = await safeStat(config.path)
+	if (!stats.ok) {
+		return stats
+	}
+
+	let text = ""
+	if (stats.value) {
+		const contents = await readTextFile(config.path)
+		if (!contents.ok) {
+			return contents
+		}
+		text = contents.value
+	}
+
+	let data: unknown = {}
+	if (text.trim()) {
+		try {
+			data = config.format === "json" ? JSON.parse(text) : parseToml(text)
+		} catch (error) {
+			return {
+				error: {
+					message: `Invalid ${config.format.toUpperCase()} in ${config.path}.`,
+					path: config.path,
+					rawError: error instanceof Error ? error : undefined,
+					source: "mcp_config",
+					type: "parse",
+				},
+				ok: false,
+			}
+		}
+	}
+
+	const servers = isRecord(data) ? (data[config.key] ?? {}) : undefined
+	if (!isRecord(data) || !isRecord(servers)) {
+		return {
+			error: {
+				field: config.key,
+				message: `Expected ${config.path} to hold a table of MCP servers under "${config.key}".`,
+				path: config.path,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: { data, servers, text } }
+}
+
+function writeJsonConfig(
+	data: Record<string, unknown>,
+	key: string,
+	desired: ReadonlyMap<string, unknown>,
+	removed: readonly string[],
+): Result<string, McpConfigError> {
+	const servers: ServerTable = { ...(data[key] as ServerTable | undefined) }
+	for (const name of removed) {
+		delete servers[name]
+	}
+	for (const [name, entry] of desired) {
+		servers[name] = entry
+	}
+
+	const output = { ...data, [key]: servers }
+	if (Object.keys(servers).length === 0) {
+		delete output[key]
+	}
+	return { ok: true, value: `${JSON.stringify(output, null, 2)}\n` }
+}
+
+/**
+ * Edit a TOML config as text, so that comments and the layout of everything
+ * else survive: the tables of rewritten and removed servers are cut out and
+ * the rewritten ones appended. Servers declared any other way than as
+ * [<key>.<name>] tables cannot be edited like this, which the re-parse of
+ * the result catches.
+ */
+function writeTomlConfig(
+	text: string,
+	config: ResolvedMcpConfig,
+	desired: ReadonlyMap<string, unknown>,
+	written: readonly string[],
+	removed: readonly string[],
+): Result<string, McpConfigError> {
+	const cut = new Set([...written, ...removed])
+	const kept: string[] = []
+	let skipped: string[] = []
+	let skipping = false
+	for (const line of text.split("\n")) {
+		const header = parseTableHeader(line)
+		if (header) {
+			const wasSkipping = skipping
+			skipping =
+				header.length >= 2 && header[0] === config.key && cut.has(header[1] ?? "")
+			// Comments right above a kept table belong to it, not to the table cut before it
+			if (wasSkipping && !skipping) {
+				kept.push(...trailingComments(skipped))
+			}
+			skipped = []
+		}
+		if (skipping) {
+			skipped.push(line)
+		} else {
+			kept.push(line)
+		}
+	}
+
+	const tables = written.map((name) =>
+		stringifyToml({ [config.key]: { [name]: desired.get(name) } }).trim(),
+	)
+	const contents = `${[kept.join("\n").trimEnd(), ...tables].filter(Boolean).join("\n\n")}\n`
+
+	const servers = readTomlServers(contents, config.key)
+	const edited =
+		servers !== null &&
+		written.every((name) => isDeepStrictEqual(servers[name], desired.get(name))) &&
+		removed.every((name) => !(name in servers))
+	if (!edited) {
+		return {
+			error: {
+				field: config.key,
+				message: `Unable to update the MCP servers in ${config.path}. Declare each one as a [${config.key}.<name>] table.`,
+				path: config.path,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: contents }
+}
+
+/** Comment lines at the end of a cut table, which sit above the next table */
+function trailingComments(lines: readonly string[]): string[] {
+	let start = lines.length
+	while (start > 0 && /^\s*(#.*)?$/.test(lines[start - 1] ?? "")) {
+		start -= 1
+	}
+	const trailing = lines.slice(start)
+	const first = trailing.findIndex((line) => line.trim().startsWith("#"))
+	return first === -1 ? [] : trailing.slice(first)
+}
+
+function readTomlServers(contents: string, key: string): ServerTable | null {
+	try {
+		const servers = parseToml(contents)[key] ?? {}
+		return isRecord(servers) ? servers : null
+	} catch {
+		return null
+	}
+}
+
+const TABLE_HEADER = /^\s*\[\[?([^[\]]+)\]\]?\s*(?:#.*)?$/
+
+/** Key segments of a [table] or [[array]] header line, or null for other lines */
+function parseTableHeader(line: string): string[] | null {
+	const match = TABLE_HEADER.exec(line)
+	if (!match?.[1]) {
+		return null
+	}
+
+	const segments: string[] = []
+	for (const part of match[1].matchAll(
+		/\s*("(?:[^"\\]|\\.)*"|'[^']*'|[^.\s]+)\s*(\.|$)/g,
+	)) {
+		const segment = part[1] ?? ""
+		segments.push(
+			segment.startsWith('"')
+				? (JSON.parse(segment) as string)
+				: segment.replace(/^'|'$/g, ""),
+		)
+	}
+	return segments
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,26 @@
+import type { SkillNaming } from "@skills-supply/core"
+import type { InstallablePackage } from "@/agents/types"
+
+export const DEFAULT_SKILL_NAMING: SkillNaming = { type: "prefixed" }
+
+/**
+ * Name of the directory a skill installs to, relative to the agent's skills
+ * directory. Under bare naming a dependency that sets an explicit `prefix`
+ * is still prefixed, which is how clashing bare names are resolved.
+ */
+export function formatSkillTargetName(
+	naming: SkillNaming,
+	pkg: Pick<InstallablePackage, "canonical" | "prefix">,
+	skillName: string,
+): string {
+	switch (naming.type) {
+		case "prefixed":
+			return `${pkg.prefix}-${skillName}`
+		case "bare":
+			return pkg.canonical.prefix ? `${pkg.prefix}-${skillName}` : skillName
+		case "template":
+			return naming.template
+				.replaceAll("{alias}", pkg.prefix)
+				.replaceAll("{skill}", skillName)
+	}
+}
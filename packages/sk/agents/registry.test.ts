@@ -7,7 +7,11 @@
  */
 
 import path from "node:path"
-import type { AbsolutePath } from "@skills-supply/core"
+import type {
+	AbsolutePath,
+	CustomAgentDefinition,
+	CustomAgentId,
+} from "@skills-supply/core"
 import { describe, expect, it } from "vitest"
 import { getAgentById, getAgentDetectionMap, listAgents, resolveAgent } from "./registry"
 
@@ -223,6 +227,60 @@ describe("resolveAgent", () => {
 			expect(path.basename(global.rootPath)).toBe(".claude")
 		})
 	})
+
+	describe("rules directories", () => {
+		it("resolves Cursor rules to .cursor/rules/ for local scope", () => {
+			const agent = getAgentById("cursor")
+			expect(agent.ok).toBe(true)
+			if (!agent.ok) return
+
+			const resolved = resolveAgent(agent.value, {
+				projectRoot: "/project" as AbsolutePath,
+				type: "local",
+			})
+
+			expect(resolved.rules).toEqual({
+				format: "cursor",
+				path: "/project/.cursor/rules",
+			})
+			expect(resolved.skillsPath).toBe("/project/.cursor/skills")
+		})
+
+		it("resolves Cline rules to ~/Documents/Cline/Rules/ for global scope", () => {
+			const agent = getAgentById("cline")
+			expect(agent.ok).toBe(true)
+			if (!agent.ok) return
+
+			const resolved = resolveAgent(agent.value, {
+				homeDir: "/home/user" as AbsolutePath,
+				type: "global",
+			})
+
+			expect(resolved.rules).toEqual({
+				format: "cline",
+				path: "/home/user/Documents/Cline/Rules",
+			})
+		})
+
+		it("has no rules for agents without global rules or with SKILL.md support", () => {
+			const globalScope = {
+				homeDir: "/home/user" as AbsolutePath,
+				type: "global" as const,
+			}
+			const cursor = getAgentById("cursor")
+			const claude = getAgentById("claude-code")
+			expect(cursor.ok && claude.ok).toBe(true)
+			if (!cursor.ok || !claude.ok) return
+
+			expect(resolveAgent(cursor.value, globalScope).rules).toBeUndefined()
+			expect(
+				resolveAgent(claude.value, {
+					projectRoot: "/project" as AbsolutePath,
+					type: "local",
+				}).rules,
+			).toBeUndefined()
+		})
+	})
 })
 
 // =============================================================================
@@ -272,24 +330,38 @@ describe("getAgentById", () => {
 // =============================================================================
 
 describe("listAgents", () => {
-	it("includes all 5 supported agents", () => {
+	it("includes all 9 supported agents", () => {
 		const agents = listAgents()
 
-		expect(agents).toHaveLength(5)
+		expect(agents).toHaveLength(9)
 
 		const ids = agents.map((a) => a.id)
 		expect(ids).toContain("amp")
 		expect(ids).toContain("claude-code")
+		expect(ids).toContain("cline")
 		expect(ids).toContain("codex")
+		expect(ids).toContain("copilot")
+		expect(ids).toContain("cursor")
 		expect(ids).toContain("factory")
 		expect(ids).toContain("opencode")
+		expect(ids).toContain("windsurf")
 	})
 
 	it("returns agents in alphabetical order by id", () => {
 		const agents = listAgents()
 		const ids = agents.map((a) => a.id)
 
-		expect(ids).toEqual(["amp", "claude-code", "codex", "factory", "opencode"])
+		expect(ids).toEqual([
+			"amp",
+			"claude-code",
+			"cline",
+			"codex",
+			"copilot",
+			"cursor",
+			"factory",
+			"opencode",
+			"windsurf",
+		])
 	})
 
 	it("each agent has required properties", () => {
@@ -311,19 +383,20 @@ describe("listAgents", () => {
 // =============================================================================
 
 describe("getAgentDetectionMap", () => {
-	it("returns a map with all 5 agents", async () => {
+	it("returns a map with all 9 agents", async () => {
 		const result = await getAgentDetectionMap()
 
 		expect(result.ok).toBe(true)
 		if (!result.ok) return
 
 		const map = result.value
-		expect(Object.keys(map)).toHaveLength(5)
+		expect(Object.keys(map)).toHaveLength(9)
 		expect("amp" in map).toBe(true)
 		expect("claude-code" in map).toBe(true)
 		expect("codex" in map).toBe(true)
 		expect("factory" in map).toBe(true)
 		expect("opencode" in map).toBe(true)
+		expect("windsurf" in map).toBe(true)
 	})
 
 	it("returns boolean values for each agent", async () => {
@@ -338,3 +411,99 @@ describe("getAgentDetectionMap", () => {
 		}
 	})
 })
+
+// =============================================================================
+// Custom agent TESTS
+// =============================================================================
+
+describe("custom agents", () => {
+	const customAgents = new Map([
+		[
+			"my-agent" as CustomAgentId,
+			{
+				displayName: "My Agent",
+				globalPath: ".config/my-agent",
+				localPath: ".my-agent",
+				skillsDir: "skills",
+			} as CustomAgentDefinition,
+		],
+	])
+
+	it("lists custom agents after the built-in agents", () => {
+		const ids = listAgents(customAgents).map((agent) => agent.id)
+
+		expect(ids).toEqual([
+			"amp",
+			"claude-code",
+			"cline",
+			"codex",
+			"copilot",
+			"cursor",
+			"factory",
+			"opencode",
+			"windsurf",
+			"my-agent",
+		])
+	})
+
+	it("looks up custom agents declared by the manifest", () => {
+		expect(getAgentById("my-agent", customAgents).ok).toBe(true)
+		expect(getAgentById("my-agent").ok).toBe(false)
+	})
+
+	it("resolves custom agent paths like built-in agents", () => {
+		const agent = getAgentById("my-agent", customAgents)
+		expect(agent.ok).toBe(true)
+		if (!agent.ok) return
+
+		const local = resolveAgent(agent.value, {
+			projectRoot: "/project" as AbsolutePath,
+			type: "local",
+		})
+		const global = resolveAgent(agent.value, {
+			homeDir: "/home/user" as AbsolutePath,
+			type: "global",
+		})
+
+		expect(local.skillsPath).toBe("/project/.my-agent/skills")
+		expect(global.skillsPath).toBe("/home/user/.config/my-agent/skills")
+	})
+
+	it("resolves the rules directory of custom agents with a rule format", () => {
+		const agent = getAgentById(
+			"rules-agent",
+			new Map([
+				[
+					"rules-agent" as CustomAgentId,
+					{
+						displayName: "Rules Agent",
+						globalPath: ".config/rules-agent",
+						localPath: ".rules-agent",
+						rules: { dir: "rules", format: "cursor" },
+						skillsDir: "skills",
+					} as CustomAgentDefinition,
+				],
+			]),
+		)
+		expect(agent.ok).toBe(true)
+		if (!agent.ok) return
+
+		const resolved = resolveAgent(agent.value, {
+			homeDir: "/home/user" as AbsolutePath,
+			type: "global",
+		})
+
+		expect(resolved.rules).toEqual({
+			format: "cursor",
+			path: "/home/user/.config/rules-agent/rules",
+		})
+	})
+
+	it("does not detect custom agents without a detect command", async () => {
+		const result = await getAgentDetectionMap(customAgents)
+
+		expect(result.ok).toBe(true)
+		if (!result.ok) return
+		expect(result.value["my-agent" as CustomAgentId]).toBe(false)
+	})
+})
@@ -1,16 +1,25 @@
 import { execFile } from "node:child_process"
 import path from "node:path"
 import { promisify } from "node:util"
-import type { AbsolutePath } from "@skills-supply/core"
-import { isAgentId } from "@skills-supply/core"
 import type {
+	AbsolutePath,
+	CustomAgentDefinition,
+	CustomAgentId,
+} from "@skills-supply/core"
+import type {
+	AgentComponentTargets,
 	AgentDefinition,
 	AgentDetectionResult,
 	AgentId,
 	AgentListResult,
 	AgentLookupResult,
 	AgentRegistryError,
+	InstructionsTarget,
+	McpConfigTarget,
 	ResolvedAgent,
+	ResolvedMcpConfig,
+	ResolvedRuleTarget,
+	RuleTarget,
 } from "@/agents/types"
 
 const execFileAsync = promisify(execFile)
@@ -25,6 +34,10 @@ interface AgentEntry {
 	localBasePath: string
 	globalBasePath: string
 	skillsDir: string
+	components?: AgentComponentTargets
+	mcp?: McpConfigTarget
+	instructions?: InstructionsTarget
+	rules?: RuleTarget
 	detectCommand: {
 		binary: string
 		args: string[]
@@ -44,7 +57,19 @@ const AGENT_ENTRIES: AgentEntry[] = [
 		displayName: "Amp",
 		globalBasePath: path.join(".config", "agents"),
 		id: "amp",
+		instructions: {
+			globalPath: path.join(".config", "amp", "AGENTS.md"),
+			localPath: "AGENTS.md",
+		},
 		localBasePath: ".agents",
+		mcp: {
+			format: "json",
+			globalPath: path.join(".config", "amp", "settings.json"),
+			key: "amp.mcpServers",
+			localPath: path.join(".amp", "settings.json"),
+			style: "codex",
+			transports: ["stdio", "http"],
+		},
 		skillsDir: "skills",
 	},
 	{
@@ -56,10 +81,42 @@ const AGENT_ENTRIES: AgentEntry[] = [
 		displayName: "Claude Code",
 		globalBasePath: ".claude",
 		id: "claude-code",
+		instructions: {
+			globalPath: path.join(".claude", "CLAUDE.md"),
+			localPath: "CLAUDE.md",
+		},
 		localBasePath: ".claude",
+		mcp: {
+			format: "json",
+			globalPath: ".claude.json",
+			key: "mcpServers",
+			localPath: ".mcp.json",
+			style: "claude",
+			transports: ["stdio", "http", "sse"],
+		},
 		skillsDir: "skills",
 	},
 	{
+		detectCommand: {
+			args: ["--version"],
+			binary: "cline",
+			timeoutMs: DEFAULT_TIMEOUT_MS,
+		},
+		displayName: "Cline",
+		globalBasePath: ".cline",
+		id: "cline",
+		localBasePath: ".cline",
+		rules: {
+			format: "cline",
+			globalPath: path.join("Documents", "Cline", "Rules"),
+			localPath: ".clinerules",
+		},
+		skillsDir: "skills",
+	},
+	{
+		components: {
+			commands: { dir: "prompts", fields: ["description", "argument-hint"] },
+		},
 		detectCommand: {
 			args: ["--version"],
 			binary: "codex",
@@ -68,10 +125,52 @@ const AGENT_ENTRIES: AgentEntry[] = [
 		displayName: "Codex",
 		globalBasePath: ".codex",
 		id: "codex",
+		instructions: {
+			globalPath: path.join(".codex", "AGENTS.md"),
+			localPath: "AGENTS.md",
+		},
 		localBasePath: ".codex",
+		mcp: {
+			format: "toml",
+			globalPath: path.join(".codex", "config.toml"),
+			key: "mcp_servers",
+			localPath: path.join(".codex", "config.toml"),
+			style: "codex",
+			transports: ["stdio", "http"],
+		},
+		skillsDir: "skills",
+	},
+	{
+		detectCommand: {
+			args: ["--version"],
+			binary: "copilot",
+			timeoutMs: DEFAULT_TIMEOUT_MS,
+		},
+		displayName: "GitHub Copilot",
+		globalBasePath: ".copilot",
+		id: "copilot",
+		localBasePath: ".github",
+		rules: { format: "copilot", localPath: path.join(".github", "instructions") },
+		skillsDir: "skills",
+	},
+	{
+		detectCommand: {
+			args: ["--version"],
+			binary: "cursor",
+			timeoutMs: DEFAULT_TIMEOUT_MS,
+		},
+		displayName: "Cursor",
+		globalBasePath: ".cursor",
+		id: "cursor",
+		localBasePath: ".cursor",
+		rules: { format: "cursor", localPath: path.join(".cursor", "rules") },
 		skillsDir: "skills",
 	},
 	{
+		components: {
+			commands: { dir: "commands", fields: ["description", "argument-hint"] },
+			subagents: { dir: "droids", fields: ["description"], nameField: "name" },
+		},
 		detectCommand: {
 			args: ["--version"],
 			binary: "droid",
@@ -80,10 +179,30 @@ const AGENT_ENTRIES: AgentEntry[] = [
 		displayName: "Factory",
 		globalBasePath: ".factory",
 		id: "factory",
+		instructions: {
+			globalPath: path.join(".factory", "AGENTS.md"),
+			localPath: "AGENTS.md",
+		},
 		localBasePath: ".factory",
+		mcp: {
+			format: "json",
+			globalPath: path.join(".factory", "mcp.json"),
+			key: "mcpServers",
+			localPath: path.join(".factory", "mcp.json"),
+			style: "claude",
+			transports: ["stdio", "http"],
+		},
 		skillsDir: "skills",
 	},
 	{
+		components: {
+			commands: { dir: "command", fields: ["description"] },
+			subagents: {
+				dir: "agent",
+				extra: { mode: "subagent" },
+				fields: ["description"],
+			},
+		},
 		detectCommand: {
 			args: ["--version"],
 			binary: "opencode",
@@ -92,9 +211,34 @@ const AGENT_ENTRIES: AgentEntry[] = [
 		displayName: "OpenCode",
 		globalBasePath: path.join(".config", "opencode"),
 		id: "opencode",
+		instructions: {
+			globalPath: path.join(".config", "opencode", "AGENTS.md"),
+			localPath: "AGENTS.md",
+		},
 		localBasePath: ".opencode",
+		mcp: {
+			format: "json",
+			globalPath: path.join(".config", "opencode", "opencode.json"),
+			key: "mcp",
+			localPath: "opencode.json",
+			style: "opencode",
+			transports: ["stdio", "http", "sse"],
+		},
 		skillsDir: "skill",
 	},
+	{
+		detectCommand: {
+			args: ["--version"],
+			binary: "windsurf",
+			timeoutMs: DEFAULT_TIMEOUT_MS,
+		},
+		displayName: "Windsurf",
+		globalBasePath: path.join(".codeium", "windsurf"),
+		id: "windsurf",
+		localBasePath: ".windsurf",
+		rules: { format: "windsurf", localPath: path.join(".windsurf", "rules") },
+		skillsDir: "skills",
+	},
 ]
 
 // =============================================================================
@@ -102,22 +246,42 @@ const AGENT_ENTRIES: AgentEntry[] = [
 // =============================================================================
 
 const AGENT_REGISTRY: AgentDefinition[] = AGENT_ENTRIES.map((entry) => ({
+	components: entry.components,
 	detect: () => detectAgentCli(entry.id, entry.detectCommand),
 	displayName: entry.displayName,
 	globalBasePath: entry.globalBasePath,
 	id: entry.id,
+	instructions: entry.instructions,
 	localBasePath: entry.localBasePath,
+	mcp: entry.mcp,
+	rules: entry.rules,
 	skillsDir: entry.skillsDir,
 }))
 
-export function listAgents(): AgentDefinition[] {
-	return [...AGENT_REGISTRY]
+/** Custom agents declared in the manifest under [agents.custom.<id>] */
+export type CustomAgentMap = ReadonlyMap<CustomAgentId, CustomAgentDefinition>
+
+const NO_CUSTOM_AGENTS: CustomAgentMap = new Map()
+
+/**
+ * List the built-in agents followed by the manifest's custom agents.
+ */
+export function listAgents(
+	customAgents: CustomAgentMap = NO_CUSTOM_AGENTS,
+): AgentDefinition[] {
+	return [
+		...AGENT_REGISTRY,
+		...[...customAgents].map(([id, definition]) =>
+			customAgentDefinition(id, definition),
+		),
+	]
 }
 
-export function getAgentById(agentId: string): AgentLookupResult {
-	const agent = isAgentId(agentId)
-		? AGENT_REGISTRY.find((entry) => entry.id === agentId)
-		: undefined
+export function getAgentById(
+	agentId: string,
+	customAgents: CustomAgentMap = NO_CUSTOM_AGENTS,
+): AgentLookupResult {
+	const agent = listAgents(customAgents).find((entry) => entry.id === agentId)
 
 	if (!agent) {
 		return {
@@ -134,6 +298,30 @@ export function getAgentById(agentId: string): AgentLookupResult {
 	return { ok: true, value: agent }
 }
 
+function customAgentDefinition(
+	id: CustomAgentId,
+	definition: CustomAgentDefinition,
+): AgentDefinition {
+	// Without a detect command a custom agent is never pre-selected, but can
+	// still be enabled explicitly
+	const [binary, ...args] = definition.detect?.trim().split(/\s+/) ?? []
+	return {
+		detect: binary
+			? () => detectAgentCli(id, { args, binary, timeoutMs: DEFAULT_TIMEOUT_MS })
+			: async () => ({ ok: true, value: false }),
+		displayName: definition.displayName,
+		globalBasePath: definition.globalPath,
+		id,
+		localBasePath: definition.localPath,
+		rules: definition.rules && {
+			format: definition.rules.format,
+			globalPath: path.join(definition.globalPath, definition.rules.dir),
+			localPath: path.join(definition.localPath, definition.rules.dir),
+		},
+		skillsDir: definition.skillsDir,
+	}
+}
+
 // =============================================================================
 // Agent Resolution
 // =============================================================================
@@ -147,24 +335,65 @@ export function resolveAgent(agent: AgentDefinition, scope: AgentScope): Resolve
 	const basePath = scope.type === "local" ? agent.localBasePath : agent.globalBasePath
 	const rootPath = path.join(root, basePath) as AbsolutePath
 	return {
+		components: agent.components,
 		displayName: agent.displayName,
 		id: agent.id,
+		instructionsPath:
+			agent.instructions &&
+			resolveInstructionsPath(agent.instructions, scope, root),
+		mcp: agent.mcp && resolveMcpConfig(agent.mcp, scope, root),
 		rootPath,
+		rules: agent.rules && resolveRuleTarget(agent.rules, scope, root),
 		skillsPath: path.join(rootPath, agent.skillsDir) as AbsolutePath,
 	}
 }
 
+function resolveInstructionsPath(
+	target: InstructionsTarget,
+	scope: AgentScope,
+	root: AbsolutePath,
+): AbsolutePath {
+	const filePath = scope.type === "local" ? target.localPath : target.globalPath
+	return path.join(root, filePath) as AbsolutePath
+}
+
+/** Rules directory of the scope; none for agents that read no global rule files */
+function resolveRuleTarget(
+	target: RuleTarget,
+	scope: AgentScope,
+	root: AbsolutePath,
+): ResolvedRuleTarget | undefined {
+	const dirPath = scope.type === "local" ? target.localPath : target.globalPath
+	return dirPath === undefined
+		? undefined
+		: { format: target.format, path: path.join(root, dirPath) as AbsolutePath }
+}
+
+function resolveMcpConfig(
+	target: McpConfigTarget,
+	scope: AgentScope,
+	root: AbsolutePath,
+): ResolvedMcpConfig {
+	const { globalPath, localPath, ...config } = target
+	const configPath = scope.type === "local" ? localPath : globalPath
+	return { ...config, path: path.join(root, configPath) as AbsolutePath }
+}
+
 // =============================================================================
 // Agent Detection
 // =============================================================================
 
-export async function detectInstalledAgents(): Promise<AgentListResult> {
-	const detectionMap = await getAgentDetectionMap()
+export async function detectInstalledAgents(
+	customAgents: CustomAgentMap = NO_CUSTOM_AGENTS,
+): Promise<AgentListResult> {
+	const detectionMap = await getAgentDetectionMap(customAgents)
 	if (!detectionMap.ok) {
 		return detectionMap
 	}
 
-	const installed = AGENT_REGISTRY.filter((agent) => detectionMap.value[agent.id])
+	const installed = listAgents(customAgents).filter(
+		(agent) => detectionMap.value[agent.id],
+	)
 	return { ok: true, value: installed }
 }
 
@@ -173,10 +402,12 @@ export type AgentDetectionMapResult =
 	| { ok: true; value: AgentDetectionMap }
 	| { ok: false; error: AgentRegistryError }
 
-export async function getAgentDetectionMap(): Promise<AgentDetectionMapResult> {
+export async function getAgentDetectionMap(
+	customAgents: CustomAgentMap = NO_CUSTOM_AGENTS,
+): Promise<AgentDetectionMapResult> {
 	// Run all detections in parallel
 	const detections = await Promise.all(
-		AGENT_REGISTRY.map(async (agent) => {
+		listAgents(customAgents).map(async (agent) => {
 			const result = await agent.detect()
 			return { agentId: agent.id, result }
 		}),
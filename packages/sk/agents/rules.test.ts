@@ -0,0 +1,76 @@
+/**
+ * Unit tests for rule rendering
+ *
+ * Tests how a skill is rendered into the rule format of agents that do not
+ * read SKILL.md directories. Each format is compared against a golden file in
+ * tests/fixtures/rules.
+ */
+
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import { renderRule, ruleFileName, type SkillRule } from "@/agents/rules"
+import type { RuleFormat } from "@/agents/types"
+
+const FIXTURES = path.join(import.meta.dirname, "../tests/fixtures/rules")
+
+const REVIEW_RULE: SkillRule = {
+	body: [
+		"",
+		"# Reviewing pull requests",
+		"",
+		"Run [the checks](./scripts/check.sh) before reading the diff, then follow",
+		"the [checklist](reference/checklist.md#blocking). See the",
+		"[style guide](https://example.com/style) and [below](#comments).",
+		"",
+		"## Comments",
+		"",
+		"Keep comments short.",
+		"",
+	].join("\n"),
+	description: 'Review pull requests with the team\'s "blocking" checklist',
+	files: ["reference/checklist.md", "scripts/check.sh"],
+	link: "../skills/pr-review",
+	name: "pr-review",
+}
+
+const GOLDEN_FILES: [RuleFormat, string][] = [
+	["cline", "cline.md"],
+	["copilot", "copilot.instructions.md"],
+	["cursor", "cursor.mdc"],
+	["windsurf", "windsurf.md"],
+]
+
+describe("renderRule", () => {
+	it.each(GOLDEN_FILES)("renders %s rules", async (format, fileName) => {
+		const expected = await readFile(path.join(FIXTURES, fileName), "utf8")
+
+		expect(renderRule(format, REVIEW_RULE)).toBe(expected)
+	})
+
+	it("falls back to the name without a description or supporting files", () => {
+		const rendered = renderRule("cursor", {
+			body: "Use tabs.",
+			files: [],
+			link: "../skills/style",
+			name: "style",
+		})
+
+		expect(rendered).toBe(
+			'---\ndescription: "style"\nglobs:\nalwaysApply: false\n---\n\nUse tabs.\n',
+		)
+	})
+})
+
+describe("ruleFileName", () => {
+	it("uses the extension of each format", () => {
+		expect(ruleFileName("cline", "pr-review")).toBe("pr-review.md")
+		expect(ruleFileName("copilot", "pr-review")).toBe("pr-review.instructions.md")
+		expect(ruleFileName("cursor", "pr-review")).toBe("pr-review.mdc")
+		expect(ruleFileName("windsurf", "pr-review")).toBe("pr-review.md")
+	})
+
+	it("flattens nested target names", () => {
+		expect(ruleFileName("cursor", "team/pr-review")).toBe("team-pr-review.mdc")
+	})
+})
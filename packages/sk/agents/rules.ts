@@ -0,0 +1,88 @@
+import type { RuleFormat } from "@/agents/types"
+
+/** A skill as rendered into a rule file */
+export interface SkillRule {
+	name: string
+	description?: string
+	/** SKILL.md without its frontmatter */
+	body: string
+	/** Installed skill directory, relative to the rules directory, with forward slashes */
+	link: string
+	/** Supporting files of the skill, relative to its directory */
+	files: string[]
+}
+
+const RULE_EXTENSIONS: Record<RuleFormat, string> = {
+	cline: ".md",
+	copilot: ".instructions.md",
+	cursor: ".mdc",
+	windsurf: ".md",
+}
+
+/**
+ * File name of the rule rendered from an installed skill. Rules directories
+ * are flat, so the directories of template naming become dashes.
+ */
+export function ruleFileName(format: RuleFormat, targetName: string): string {
+	return `${targetName.replaceAll("/", "-")}${RULE_EXTENSIONS[format]}`
+}
+
+/**
+ * Render a skill as a rule: frontmatter the agent uses to decide when the
+ * rule applies, then the skill's instructions. Relative links in the body
+ * and the list of supporting files point into the installed skill directory.
+ */
+export function renderRule(format: RuleFormat, rule: SkillRule): string {
+	const description = rule.description ?? rule.name
+	const body = [rewriteLinks(rule.body.trim(), rule.link), supportingFiles(rule)]
+		.filter(Boolean)
+		.join("\n\n")
+
+	switch (format) {
+		case "cline":
+			return `# ${rule.name}\n\n${description}\n\n${body}\n`
+		case "copilot":
+			return `${frontmatter([
+				["description", JSON.stringify(description)],
+				["applyTo", '"**"'],
+			])}${body}\n`
+		case "cursor":
+			return `${frontmatter([
+				["description", JSON.stringify(description)],
+				["globs", ""],
+				["alwaysApply", "false"],
+			])}${body}\n`
+		case "windsurf":
+			return `${frontmatter([
+				["trigger", "model_decision"],
+				["description", JSON.stringify(description)],
+			])}${body}\n`
+	}
+}
+
+// Values are YAML as written; JSON strings are valid double-quoted scalars
+function frontmatter(entries: [string, string][]): string {
+	const lines = entries.map(([key, value]) => (value ? `${key}: ${value}` : `${key}:`))
+	return `---\n${lines.join("\n")}\n---\n\n`
+}
+
+function supportingFiles(rule: SkillRule): string {
+	if (rule.files.length === 0) {
+		return ""
+	}
+
+	const links = rule.files.map((file) => `- [${file}](${rule.link}/${file})`)
+	return ["## Supporting files", "", ...links].join("\n")
+}
+
+const MARKDOWN_LINK = /(\]\()([^)\s]+)/g
+const EXTERNAL_TARGET = /^(?:[a-z][a-z0-9+.-]*:|#|\/)/i
+
+/** Point relative Markdown links, such as [script](scripts/run.sh), at the skill directory */
+function rewriteLinks(body: string, link: string): string {
+	return body.replace(MARKDOWN_LINK, (match, opening: string, target: string) =>
+		EXTERNAL_TARGET.test(target)
+			? match
+			: `${opening}${link}/${target.replace(/^\.\//, "")}`,
+	)
+}
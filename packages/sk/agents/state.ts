@@ -1,5 +1,6 @@
 import path from "node:path"
-import type { AbsolutePath, Result } from "@skills-supply/core"
+import type { AbsolutePath, Result, ValidatedDeclaration } from "@skills-supply/core"
+import type { InstallMode } from "@/agents/install"
 import type { ResolvedAgent } from "@/agents/types"
 import type { IoError, IoResult } from "@/io/fs"
 import { ensureDir, readTextFile, safeStat, writeTextFile } from "@/io/fs"
@@ -8,15 +9,74 @@ import type { ParseError, ValidationError } from "@/types/errors"
 export interface AgentInstallState {
 	version: number
 	skills: string[]
+	/** Where each skill came from, keyed by skill name (empty for version 1 files) */
+	provenance: Record<string, SkillProvenance>
+	/**
+	 * Files converted from Claude plugin commands and subagents, relative to
+	 * the agent root
+	 */
+	components?: string[]
+	/** Claude Code plugins sk installed natively, as "<plugin>@<marketplace name>" */
+	plugins?: string[]
+	/** Marketplaces sk added to Claude Code for those plugins */
+	marketplaces?: ClaudeMarketplace[]
+	/** Names of the MCP servers sk wrote into the agent's config file */
+	mcp_servers?: string[]
+	/** Aliases of the packages whose blocks sk wrote into the instructions file */
+	instructions?: string[]
 	updated_at: string
 }
 
+export interface ClaudeMarketplace {
+	/** Marketplace as declared, as passed to `claude plugin marketplace add` */
+	spec: string
+	/** Name from marketplace.json, which Claude Code knows the marketplace by */
+	name: string
+}
+
+/** What the state records besides skills */
+export type AgentStateExtras = Pick<
+	AgentInstallState,
+	"components" | "instructions" | "marketplaces" | "mcp_servers" | "plugins"
+>
+
+export interface SkillProvenance {
+	alias: string
+	/** normalizeDeclarationToKey() of the declaration that installed the skill */
+	declaration: string
+	type: ValidatedDeclaration["type"]
+	mode: InstallMode
+	/** Ref from the declaration, e.g. a tag or branch name */
+	ref?: string
+	/** Resolved commit (github/git/claude-plugin sources) */
+	commit?: string
+	/** Release version (registry sources) */
+	version?: string
+	/** hashDirectory() of the installed copy; absent for symlinks */
+	hash?: string
+	/** Aliases of the packages that pulled in a transitive dependency, root first */
+	via?: string[]
+}
+
 const STATE_FILENAME = ".sk-state.json"
-const STATE_VERSION = 1
+// Skills the global manifest installed into a project agent directory
+const GLOBAL_LAYER_STATE_FILENAME = ".sk-state.global.json"
+const STATE_VERSION = 2
+// Version 1 files list skill names only and read as state without provenance
+const SUPPORTED_VERSIONS = new Set([1, STATE_VERSION])
+
+const DECLARATION_TYPES = new Set<string>([
+	"claude-plugin",
+	"git",
+	"github",
+	"local",
+	"registry",
+])
+const OPTIONAL_PROVENANCE_FIELDS = ["ref", "commit", "version", "hash"] as const
 
 type AgentStateError = IoError | ParseError | ValidationError
 
-type StateResult = Result<AgentInstallState | null, AgentStateError>
+export type StateResult = Result<AgentInstallState | null, AgentStateError>
 
 type StateWriteResult = IoResult<void>
 
@@ -87,9 +147,34 @@ export async function writeAgentState(
 	return writeTextFile(statePath, `${output}\n`)
 }
 
-export function buildAgentState(skills: string[]): AgentInstallState {
+export function buildAgentState(
+	skills: string[],
+	provenance: Record<string, SkillProvenance> = {},
+	extras: AgentStateExtras = {},
+): AgentInstallState {
 	const uniqueSkills = Array.from(new Set(skills)).sort()
+	const recorded: Record<string, SkillProvenance> = {}
+	for (const skill of uniqueSkills) {
+		const entry = provenance[skill]
+		if (entry) {
+			recorded[skill] = entry
+		}
+	}
+
+	const components = Array.from(new Set(extras.components)).sort()
+	const plugins = Array.from(new Set(extras.plugins)).sort()
+	const mcpServers = Array.from(new Set(extras.mcp_servers)).sort()
+	const instructions = Array.from(new Set(extras.instructions)).sort()
+	const marketplaces = [...(extras.marketplaces ?? [])].sort((left, right) =>
+		left.spec.localeCompare(right.spec),
+	)
 	return {
+		...(components.length > 0 ? { components } : {}),
+		...(instructions.length > 0 ? { instructions } : {}),
+		...(marketplaces.length > 0 ? { marketplaces } : {}),
+		...(mcpServers.length > 0 ? { mcp_servers: mcpServers } : {}),
+		...(plugins.length > 0 ? { plugins } : {}),
+		provenance: recorded,
 		skills: uniqueSkills,
 		updated_at: new Date().toISOString(),
 		version: STATE_VERSION,
@@ -97,7 +182,9 @@ export function buildAgentState(skills: string[]): AgentInstallState {
 }
 
 export function resolveStatePath(agent: ResolvedAgent): AbsolutePath {
-	return path.join(agent.rootPath, STATE_FILENAME) as AbsolutePath
+	const filename =
+		agent.layer === "global" ? GLOBAL_LAYER_STATE_FILENAME : STATE_FILENAME
+	return path.join(agent.rootPath, filename) as AbsolutePath
 }
 
 function parseState(
@@ -134,7 +221,7 @@ function parseState(
 		}
 	}
 
-	if (version !== STATE_VERSION) {
+	if (!SUPPORTED_VERSIONS.has(version)) {
 		return {
 			error: {
 				field: "version",
@@ -175,7 +262,9 @@ function parseState(
 			}
 		}
 
-		if (trimmed === "." || trimmed === "..") {
+		// Template naming nests a skill one directory deep, as "<dir>/<skill>"
+		const segments: string[] = trimmed.split("/")
+		if (segments.some((segment) => segment === "." || segment === "..")) {
 			return {
 				error: {
 					field: "skills",
@@ -188,11 +277,16 @@ function parseState(
 			}
 		}
 
-		if (trimmed.includes("/") || trimmed.includes("\\")) {
+		if (
+			segments.length > 2 ||
+			segments.some((segment) => !segment) ||
+			trimmed.includes("\\")
+		) {
 			return {
 				error: {
 					field: "skills",
-					message: "State file skills must not include path separators.",
+					message:
+						"State file skills must not include more than one path separator.",
 					path: statePath,
 					source: "manual",
 					type: "validation",
@@ -215,9 +309,99 @@ function parseState(
 		}
 	}
 
+	const components = value.components
+	if (
+		components !== undefined &&
+		(!isStringArray(components) || !components.every(isComponentPath))
+	) {
+		return {
+			error: {
+				field: "components",
+				message: "State file components must be relative file paths.",
+				path: statePath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const plugins = value.plugins
+	if (plugins !== undefined && !isStringArray(plugins)) {
+		return {
+			error: {
+				field: "plugins",
+				message: "State file plugins must be an array of strings.",
+				path: statePath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const marketplaces = value.marketplaces
+	if (
+		marketplaces !== undefined &&
+		(!Array.isArray(marketplaces) || !marketplaces.every(isClaudeMarketplace))
+	) {
+		return {
+			error: {
+				field: "marketplaces",
+				message: "State file marketplaces must list a spec and name each.",
+				path: statePath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const instructions = value.instructions
+	if (instructions !== undefined && !isStringArray(instructions)) {
+		return {
+			error: {
+				field: "instructions",
+				message: "State file instructions must be an array of strings.",
+				path: statePath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const mcpServers = value.mcp_servers
+	if (mcpServers !== undefined && !isStringArray(mcpServers)) {
+		return {
+			error: {
+				field: "mcp_servers",
+				message: "State file mcp_servers must be an array of strings.",
+				path: statePath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const provenance =
+		version === 1
+			? { ok: true as const, value: {} }
+			: parseProvenance(value.provenance, new Set<string>(skills), statePath)
+	if (!provenance.ok) {
+		return provenance
+	}
+
 	return {
 		ok: true,
 		value: {
+			...(components?.length ? { components } : {}),
+			...(instructions?.length ? { instructions } : {}),
+			...(marketplaces?.length ? { marketplaces } : {}),
+			...(mcpServers?.length ? { mcp_servers: mcpServers } : {}),
+			...(plugins?.length ? { plugins } : {}),
+			provenance: provenance.value,
 			skills,
 			updated_at: updatedAt,
 			version,
@@ -225,6 +409,85 @@ function parseState(
 	}
 }
 
+function parseProvenance(
+	value: unknown,
+	skills: Set<string>,
+	statePath: AbsolutePath,
+): Result<Record<string, SkillProvenance>, AgentStateError> {
+	if (!isRecord(value)) {
+		return invalidProvenance("State file provenance must be an object.", statePath)
+	}
+
+	const provenance: Record<string, SkillProvenance> = {}
+	for (const [skill, entry] of Object.entries(value)) {
+		if (!skills.has(skill)) {
+			return invalidProvenance(
+				`State file provenance lists unknown skill "${skill}".`,
+				statePath,
+			)
+		}
+
+		if (
+			!isRecord(entry) ||
+			typeof entry.alias !== "string" ||
+			typeof entry.declaration !== "string" ||
+			typeof entry.type !== "string" ||
+			!DECLARATION_TYPES.has(entry.type) ||
+			(entry.mode !== "copy" && entry.mode !== "symlink") ||
+			OPTIONAL_PROVENANCE_FIELDS.some(
+				(field) => entry[field] !== undefined && typeof entry[field] !== "string",
+			) ||
+			(entry.via !== undefined && !isStringArray(entry.via))
+		) {
+			return invalidProvenance(
+				`State file provenance for "${skill}" is invalid.`,
+				statePath,
+			)
+		}
+
+		provenance[skill] = entry as unknown as SkillProvenance
+	}
+
+	return { ok: true, value: provenance }
+}
+
+function invalidProvenance(
+	message: string,
+	statePath: AbsolutePath,
+): Result<never, AgentStateError> {
+	return {
+		error: {
+			field: "provenance",
+			message,
+			path: statePath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	}
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null && !Array.isArray(value)
 }
+
+function isComponentPath(entry: string): boolean {
+	const segments = entry.split("/")
+	return (
+		!entry.includes("\\") &&
+		!path.isAbsolute(entry) &&
+		segments.every((segment) => segment && segment !== "." && segment !== "..")
+	)
+}
+
+function isClaudeMarketplace(value: unknown): value is ClaudeMarketplace {
+	return (
+		isRecord(value) &&
+		typeof value.spec === "string" &&
+		typeof value.name === "string"
+	)
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((entry) => typeof entry === "string")
+}
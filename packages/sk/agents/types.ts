@@ -1,5 +1,6 @@
-import type { AbsolutePath, AgentId } from "@skills-supply/core"
+import type { AbsolutePath, AgentId, McpTransport, RuleFormat } from "@skills-supply/core"
 import type { CanonicalPackage, Skill } from "@/packages/types"
+import type { ManifestLayer } from "@/types/context"
 import type {
 	ConflictError,
 	IoError,
@@ -7,7 +8,7 @@ import type {
 	ValidationError,
 } from "@/types/errors"
 
-export type { AgentId }
+export type { AgentId, RuleFormat }
 
 export interface AgentDefinition {
 	id: AgentId
@@ -15,14 +16,104 @@ export interface AgentDefinition {
 	localBasePath: string
 	globalBasePath: string
 	skillsDir: string
+	/** Where Claude plugin commands and subagents are converted to, if anywhere */
+	components?: AgentComponentTargets
+	/** Config file the agent reads MCP servers from, if sk can write it */
+	mcp?: McpConfigTarget
+	/** Instructions file the agent always loads, such as CLAUDE.md */
+	instructions?: InstructionsTarget
+	/** Rule files the agent reads instead of SKILL.md, rendered from each skill */
+	rules?: RuleTarget
 	detect: () => Promise<AgentDetectionResult>
 }
 
+export interface InstructionsTarget {
+	/** File relative to the project root */
+	localPath: string
+	/** File relative to the home directory */
+	globalPath: string
+}
+
+/**
+ * Directory of single-file rules. Skills are still installed as directories
+ * into the skills directory, which their rules link to for supporting files.
+ */
+export interface RuleTarget {
+	format: RuleFormat
+	/** Directory relative to the project root */
+	localPath: string
+	/** Directory relative to the home directory, if the agent reads global rules */
+	globalPath?: string
+}
+
+export interface ResolvedRuleTarget {
+	format: RuleFormat
+	path: AbsolutePath
+}
+
+/** Where an agent reads the equivalent of one kind of Claude plugin component */
+export interface ComponentTarget {
+	/** Directory relative to the agent root */
+	dir: string
+	/** Frontmatter keys copied from the Claude file when set */
+	fields: readonly string[]
+	/** Frontmatter key that receives the converted file's name */
+	nameField?: string
+	/** Frontmatter set on every converted file */
+	extra?: Readonly<Record<string, string>>
+}
+
+export interface AgentComponentTargets {
+	commands?: ComponentTarget
+	subagents?: ComponentTarget
+}
+
+/** Where and how an agent reads its MCP servers */
+export interface McpConfigTarget {
+	/** Config file relative to the project root */
+	localPath: string
+	/** Config file relative to the home directory */
+	globalPath: string
+	format: "json" | "toml"
+	/** Top-level key of the table that holds the servers */
+	key: string
+	/** Shape of each server entry */
+	style: McpEntryStyle
+	/** Transports the agent connects over; other servers are skipped with a warning */
+	transports: readonly McpTransport[]
+}
+
+/**
+ * Server entry shapes: Claude's `.mcp.json` one with a `type`, the plain
+ * command or url of Codex, or OpenCode's local and remote servers.
+ */
+export type McpEntryStyle = "claude" | "codex" | "opencode"
+
+export type ResolvedMcpConfig = Omit<McpConfigTarget, "localPath" | "globalPath"> & {
+	path: AbsolutePath
+}
+
+/** New contents of a file the agent reads, such as its MCP config */
+export interface ConfigFile {
+	path: AbsolutePath
+	/** null removes the file */
+	contents: string | null
+}
+
 export interface ResolvedAgent {
 	id: AgentId
 	displayName: string
 	rootPath: AbsolutePath
 	skillsPath: AbsolutePath
+	components?: AgentComponentTargets
+	mcp?: ResolvedMcpConfig
+	instructionsPath?: AbsolutePath
+	rules?: ResolvedRuleTarget
+	/**
+	 * Set on project agents while the global manifest is synced into them;
+	 * that layer keeps its own state file
+	 */
+	layer?: ManifestLayer
 }
 
 export type AgentRegistryError =
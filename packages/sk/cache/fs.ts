@@ -0,0 +1,378 @@
+import type { Dirent } from "node:fs"
+import { lstat, readdir, rename } from "node:fs/promises"
+import { homedir } from "node:os"
+import path from "node:path"
+import { type AbsolutePath, SK_GLOBAL_DIR } from "@skills-supply/core"
+import type { CacheEntry, CachePruneSummary, CacheResult } from "@/cache/types"
+import { ensureDir, readTextFile, removePath, safeStat, writeTextFile } from "@/io/fs"
+import { buildRepoDir } from "@/sync/repo"
+
+export const CACHE_DIRNAME = "cache"
+const CACHE_VERSION = 1
+const REPOS_DIRNAME = "repos"
+const STAGING_DIRNAME = "tmp"
+const META_EXTENSION = ".json"
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface CacheScan {
+	entries: CacheEntry[]
+	/** Checkouts or metadata files without a valid counterpart */
+	orphans: AbsolutePath[]
+}
+
+export function resolveCacheRoot(): AbsolutePath {
+	return path.join(
+		path.resolve(homedir()),
+		SK_GLOBAL_DIR,
+		CACHE_DIRNAME,
+	) as AbsolutePath
+}
+
+/**
+ * Directory holding every cached commit of one repo key, named after the
+ * source so `ls ~/.sk/cache/repos` stays readable.
+ */
+export function resolveCacheRepoDir(
+	cacheRoot: AbsolutePath,
+	key: string,
+	source: string,
+): AbsolutePath {
+	return buildRepoDir(path.join(cacheRoot, REPOS_DIRNAME), key, source) as AbsolutePath
+}
+
+export function resolveCacheStagingDir(cacheRoot: AbsolutePath): AbsolutePath {
+	return path.join(cacheRoot, STAGING_DIRNAME) as AbsolutePath
+}
+
+/**
+ * Read the cached checkout of a commit. Missing or unreadable metadata is a
+ * cache miss rather than an error; the entry is refetched and overwritten.
+ */
+export async function readCacheEntry(
+	repoDir: AbsolutePath,
+	commit: string,
+): Promise<CacheResult<CacheEntry | null>> {
+	const checkoutPath = path.join(repoDir, commit) as AbsolutePath
+	const metaPath = `${checkoutPath}${META_EXTENSION}`
+
+	const [checkoutStats, metaStats] = await Promise.all([
+		safeStat(checkoutPath),
+		safeStat(metaPath),
+	])
+	if (!checkoutStats.ok) {
+		return checkoutStats
+	}
+	if (!metaStats.ok) {
+		return metaStats
+	}
+	if (!checkoutStats.value?.isDirectory() || !metaStats.value?.isFile()) {
+		return { ok: true, value: null }
+	}
+
+	const contents = await readTextFile(metaPath)
+	if (!contents.ok) {
+		return contents
+	}
+
+	return { ok: true, value: parseCacheMeta(contents.value, checkoutPath, commit) }
+}
+
+export async function writeCacheEntry(entry: CacheEntry): Promise<CacheResult<void>> {
+	const meta = {
+		commit: entry.commit,
+		fetched_at: entry.fetchedAt,
+		key: entry.key,
+		source: entry.source,
+		sparse_paths: entry.sparsePaths,
+		used_at: entry.usedAt,
+		version: CACHE_VERSION,
+	}
+	return writeTextFile(
+		`${entry.path}${META_EXTENSION}`,
+		`${JSON.stringify(meta, null, 2)}\n`,
+	)
+}
+
+/**
+ * Move a freshly fetched checkout into the cache, replacing any previous
+ * checkout of the same commit.
+ */
+export async function storeCacheCheckout(
+	stagedPath: string,
+	entry: CacheEntry,
+): Promise<CacheResult<void>> {
+	const removed = await removeCacheEntry(entry)
+	if (!removed.ok) {
+		return removed
+	}
+
+	const ensured = await ensureDir(path.dirname(entry.path))
+	if (!ensured.ok) {
+		return ensured
+	}
+
+	try {
+		await rename(stagedPath, entry.path)
+	} catch (error) {
+		return {
+			error: {
+				message: `Unable to move ${stagedPath} into the cache.`,
+				operation: "rename",
+				path: entry.path,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			ok: false,
+		}
+	}
+
+	return writeCacheEntry(entry)
+}
+
+export async function listCacheEntries(
+	cacheRoot: AbsolutePath,
+): Promise<CacheResult<CacheEntry[]>> {
+	const scan = await scanCache(cacheRoot)
+	return scan.ok ? { ok: true, value: scan.value.entries } : scan
+}
+
+export async function removeCacheEntry(entry: CacheEntry): Promise<CacheResult<void>> {
+	const removed = await removePath(entry.path)
+	if (!removed.ok) {
+		return removed
+	}
+
+	return removePath(`${entry.path}${META_EXTENSION}`)
+}
+
+/**
+ * Remove checkouts not used within maxAgeDays, every checkout but the most
+ * recently used one per repo key, orphaned files and leftover staging dirs.
+ */
+export async function pruneCache(
+	cacheRoot: AbsolutePath,
+	options: { maxAgeDays: number; now?: Date },
+): Promise<CacheResult<CachePruneSummary>> {
+	const scan = await scanCache(cacheRoot)
+	if (!scan.ok) {
+		return scan
+	}
+
+	const cutoff = (options.now ?? new Date()).getTime() - options.maxAgeDays * DAY_MS
+	const newest = new Map<string, CacheEntry>()
+	for (const entry of scan.value.entries) {
+		const current = newest.get(entry.key)
+		if (!current || current.usedAt < entry.usedAt) {
+			newest.set(entry.key, entry)
+		}
+	}
+
+	const removed: CacheEntry[] = []
+	for (const entry of scan.value.entries) {
+		const stale = Date.parse(entry.usedAt) < cutoff
+		if (!stale && newest.get(entry.key) === entry) {
+			continue
+		}
+
+		const result = await removeCacheEntry(entry)
+		if (!result.ok) {
+			return result
+		}
+		removed.push(entry)
+	}
+
+	for (const orphan of scan.value.orphans) {
+		const result = await removePath(orphan)
+		if (!result.ok) {
+			return result
+		}
+	}
+
+	const staging = await removePath(resolveCacheStagingDir(cacheRoot))
+	if (!staging.ok) {
+		return staging
+	}
+
+	return { ok: true, value: { orphans: scan.value.orphans.length, removed } }
+}
+
+export async function cleanCache(cacheRoot: AbsolutePath): Promise<CacheResult<void>> {
+	return removePath(cacheRoot)
+}
+
+/**
+ * Total size in bytes of the files under a directory, without following symlinks.
+ */
+export async function measureDirectory(rootPath: string): Promise<CacheResult<number>> {
+	let entries: Dirent[]
+	try {
+		entries = await readdir(rootPath, { withFileTypes: true })
+	} catch (error) {
+		return ioError(rootPath, "readdir", error)
+	}
+
+	let total = 0
+	for (const entry of entries) {
+		const entryPath = path.join(rootPath, entry.name)
+		if (entry.isDirectory()) {
+			const nested = await measureDirectory(entryPath)
+			if (!nested.ok) {
+				return nested
+			}
+			total += nested.value
+			continue
+		}
+
+		try {
+			total += (await lstat(entryPath)).size
+		} catch (error) {
+			return ioError(entryPath, "lstat", error)
+		}
+	}
+
+	return { ok: true, value: total }
+}
+
+async function scanCache(cacheRoot: AbsolutePath): Promise<CacheResult<CacheScan>> {
+	const reposRoot = path.join(cacheRoot, REPOS_DIRNAME)
+	const repoDirs = await readDirectory(reposRoot)
+	if (!repoDirs.ok) {
+		return repoDirs
+	}
+
+	const entries: CacheEntry[] = []
+	const orphans: AbsolutePath[] = []
+
+	for (const repoDirent of repoDirs.value) {
+		const repoDir = path.join(reposRoot, repoDirent.name) as AbsolutePath
+		if (!repoDirent.isDirectory()) {
+			orphans.push(repoDir)
+			continue
+		}
+
+		const children = await readDirectory(repoDir)
+		if (!children.ok) {
+			return children
+		}
+
+		const commits = new Set(children.value.map((child) => toCommitName(child.name)))
+
+		const valid = new Set<string>()
+		for (const commit of commits) {
+			const entry = await readCacheEntry(repoDir, commit)
+			if (!entry.ok) {
+				return entry
+			}
+			if (entry.value) {
+				entries.push(entry.value)
+				valid.add(commit)
+			}
+		}
+
+		for (const child of children.value) {
+			if (!valid.has(toCommitName(child.name))) {
+				orphans.push(path.join(repoDir, child.name) as AbsolutePath)
+			}
+		}
+	}
+
+	entries.sort((a, b) => a.source.localeCompare(b.source) || a.key.localeCompare(b.key))
+	return { ok: true, value: { entries, orphans } }
+}
+
+function toCommitName(fileName: string): string {
+	return fileName.endsWith(META_EXTENSION)
+		? fileName.slice(0, -META_EXTENSION.length)
+		: fileName
+}
+
+async function readDirectory(dirPath: string): Promise<CacheResult<Dirent[]>> {
+	try {
+		const entries: Dirent[] = await readdir(dirPath, { withFileTypes: true })
+		return { ok: true, value: entries }
+	} catch (error) {
+		if (isNotFound(error)) {
+			return { ok: true, value: [] }
+		}
+		return ioError(dirPath, "readdir", error)
+	}
+}
+
+function parseCacheMeta(
+	contents: string,
+	checkoutPath: AbsolutePath,
+	commit: string,
+): CacheEntry | null {
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(contents)
+	} catch {
+		return null
+	}
+
+	if (
+		!isRecord(parsed) ||
+		parsed.version !== CACHE_VERSION ||
+		parsed.commit !== commit
+	) {
+		return null
+	}
+
+	const { fetched_at, key, source, sparse_paths, used_at } = parsed
+	if (
+		typeof key !== "string" ||
+		typeof source !== "string" ||
+		typeof fetched_at !== "string" ||
+		typeof used_at !== "string"
+	) {
+		return null
+	}
+
+	if (
+		sparse_paths !== null &&
+		(!Array.isArray(sparse_paths) ||
+			sparse_paths.some((entry) => typeof entry !== "string"))
+	) {
+		return null
+	}
+
+	return {
+		commit,
+		fetchedAt: fetched_at,
+		key,
+		path: checkoutPath,
+		source,
+		sparsePaths: sparse_paths,
+		usedAt: used_at,
+	}
+}
+
+function ioError(
+	targetPath: string,
+	operation: string,
+	error: unknown,
+): CacheResult<never> {
+	return {
+		error: {
+			message: `Unable to access ${targetPath}.`,
+			operation,
+			path: path.resolve(targetPath) as AbsolutePath,
+			rawError: error instanceof Error ? error : undefined,
+			type: "io",
+		},
+		ok: false,
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isNotFound(error: unknown): boolean {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		"code" in error &&
+		(error as { code?: string }).code === "ENOENT"
+	)
+}
@@ -0,0 +1,30 @@
+import type { AbsolutePath, Result } from "@skills-supply/core"
+import type { IoError } from "@/types/errors"
+
+/**
+ * A repository checkout in the persistent cache (~/.sk/cache), keyed by
+ * buildRepoKey() and the commit it was checked out at.
+ */
+export interface CacheEntry {
+	/** buildRepoKey() of the source and ref that produced the checkout */
+	key: string
+	/** Repository spec as declared, e.g. owner/repo or a git URL */
+	source: string
+	commit: string
+	/** Sparse checkout paths, or null for a full checkout */
+	sparsePaths: string[] | null
+	fetchedAt: string
+	usedAt: string
+	/** Checkout directory */
+	path: AbsolutePath
+}
+
+export type CacheError = IoError
+
+export type CacheResult<T> = Result<T, CacheError>
+
+export interface CachePruneSummary {
+	removed: CacheEntry[]
+	/** Files and directories removed because they had no valid metadata */
+	orphans: number
+}
@@ -5,13 +5,21 @@ import { agentAdd } from "@/commands/agent/add"
 import { agentInteractive } from "@/commands/agent/index"
 import { agentRemove } from "@/commands/agent/remove"
 import { auth } from "@/commands/auth"
+import { cacheClean } from "@/commands/cache/clean"
+import { cacheList } from "@/commands/cache/ls"
+import { cachePrune } from "@/commands/cache/prune"
+import { doctorCommand } from "@/commands/doctor"
 import { initCommand } from "@/commands/init"
+import { listCommand } from "@/commands/list"
 import { logout } from "@/commands/logout"
+import { outdatedCommand } from "@/commands/outdated"
+import { enableJsonOutput } from "@/commands/output"
 import { pkgAdd } from "@/commands/pkg/add"
 import { pkgInteractive } from "@/commands/pkg/index"
 import { pkgRemove } from "@/commands/pkg/remove"
 import { status } from "@/commands/status"
 import { syncCommand } from "@/commands/sync"
+import { updateCommand } from "@/commands/update"
 import { whoami } from "@/commands/whoami"
 import pkg from "./package.json" with { type: "json" }
 
@@ -24,6 +32,22 @@ async function main(): Promise<void> {
 		.version(pkg.version, "-V, --version", "Output the version number")
 		.showHelpAfterError()
 		.showSuggestionAfterError()
+		.option("--json", "Print a single JSON document instead of logs and prompts")
+		.hook("preAction", (_program, actionCommand) => {
+			if (!program.opts<{ json?: boolean }>().json) {
+				return
+			}
+
+			enableJsonOutput(commandPath(actionCommand))
+			// A prompt would block a script waiting for the document
+			if (
+				actionCommand.options.some(
+					(option) => option.long === "--non-interactive",
+				)
+			) {
+				actionCommand.setOptionValue("nonInteractive", true)
+			}
+		})
 
 	program
 		.command("auth", { hidden: true })
@@ -35,23 +59,111 @@ async function main(): Promise<void> {
 	program
 		.command("sync")
 		.description("Sync skills across agents")
+		.option(
+			"--check",
+			"Fail when installed skills differ from the plan (writes nothing)",
+		)
 		.option("--dry-run", "Plan changes without modifying files")
+		.option("--force", "Overwrite and remove skills even when edited since install")
 		.option("--global", "Use the global manifest")
+		.option("--jobs <n>", "Maximum number of repositories fetched at once")
 		.option("--non-interactive", "Run without prompts")
+		.option("--no-transitive", "Skip dependencies declared by packages")
+		.option("--update", "Ignore agents.lock and re-resolve every dependency")
+		.option("--watch", "Re-sync when the manifest or a local package changes")
 		.action(
 			async (options: {
+				check?: boolean
 				dryRun?: boolean
+				force?: boolean
 				global?: boolean
+				jobs?: string
 				nonInteractive?: boolean
+				transitive: boolean
+				update?: boolean
+				watch?: boolean
 			}) => {
 				await syncCommand({
+					check: Boolean(options.check),
+					dryRun: Boolean(options.dryRun),
+					force: Boolean(options.force),
+					global: Boolean(options.global),
+					jobs: options.jobs,
+					nonInteractive: Boolean(options.nonInteractive),
+					transitive: options.transitive,
+					update: Boolean(options.update),
+					watch: Boolean(options.watch),
+				})
+			},
+		)
+
+	program
+		.command("update")
+		.description("Bump dependency tags in the manifest and sync")
+		.argument("[aliases...]", "Dependencies to update (default: all)")
+		.option("--latest", "Also move rev pins to the latest remote commit")
+		.option("--dry-run", "Show available updates without modifying files")
+		.option("--global", "Use the global manifest")
+		.option("--non-interactive", "Run without prompts")
+		.action(
+			async (
+				aliases: string[],
+				options: {
+					dryRun?: boolean
+					global?: boolean
+					latest?: boolean
+					nonInteractive?: boolean
+				},
+			) => {
+				await updateCommand(aliases, {
 					dryRun: Boolean(options.dryRun),
 					global: Boolean(options.global),
+					latest: Boolean(options.latest),
+					nonInteractive: Boolean(options.nonInteractive),
+				})
+			},
+		)
+
+	program
+		.command("outdated")
+		.description("List dependencies with newer upstream refs")
+		.option("--global", "Use the global manifest")
+		.option("--non-interactive", "Run without prompts")
+		.action(async (options: { global?: boolean; nonInteractive?: boolean }) => {
+			await outdatedCommand({
+				global: Boolean(options.global),
+				nonInteractive: Boolean(options.nonInteractive),
+			})
+		})
+
+	program
+		.command("list")
+		.alias("ls")
+		.description("List installed skills per agent with their provenance")
+		.option("--agent <id>", "Only list skills of this agent")
+		.option("--global", "Use the global manifest")
+		.option("--non-interactive", "Run without prompts")
+		.action(
+			async (options: {
+				agent?: string
+				global?: boolean
+				nonInteractive?: boolean
+			}) => {
+				await listCommand({
+					agent: options.agent,
+					global: Boolean(options.global),
 					nonInteractive: Boolean(options.nonInteractive),
 				})
 			},
 		)
 
+	program
+		.command("doctor")
+		.description("Check git, agents, manifests, installed skills and credentials")
+		.action(async () => {
+			await doctorCommand()
+		})
+
 	const pkgCmd = program
 		.command("pkg")
 		.description("Manage packages (interactive, add/remove)")
@@ -168,6 +280,36 @@ async function main(): Promise<void> {
 		await agentInteractive()
 	})
 
+	const cache = program
+		.command("cache")
+		.description("Manage the repository cache (~/.sk/cache)")
+
+	cache
+		.command("ls")
+		.description("List cached repository checkouts")
+		.action(async () => {
+			await cacheList()
+		})
+
+	cache
+		.command("prune")
+		.description("Remove unused and superseded checkouts")
+		.option(
+			"--max-age <days>",
+			"Remove checkouts not used within this many days",
+			"30",
+		)
+		.action(async (options: { maxAge?: string }) => {
+			await cachePrune({ maxAge: options.maxAge })
+		})
+
+	cache
+		.command("clean")
+		.description("Remove the whole repository cache")
+		.action(async () => {
+			await cacheClean()
+		})
+
 	program
 		.command("init")
 		.description("Initialize an agents.toml manifest")
@@ -217,4 +359,16 @@ async function main(): Promise<void> {
 	await program.parseAsync(process.argv)
 }
 
+function commandPath(command: Command): string {
+	const names: string[] = []
+	for (
+		let current: Command | null = command;
+		current?.parent;
+		current = current.parent
+	) {
+		names.unshift(current.name())
+	}
+	return names.join(" ")
+}
+
 void main()
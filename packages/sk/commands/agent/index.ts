@@ -5,6 +5,7 @@ import {
 	buildParentPromptMessage,
 	resolveLocalManifest,
 } from "@/commands/manifest-selection"
+import { isJsonOutput } from "@/commands/output"
 import { CommandResult, printOutcome } from "@/commands/types"
 import { saveManifest } from "@/manifest/fs"
 import { getAgent, getEnabledAgents, setAgent } from "@/manifest/transform"
@@ -12,6 +13,18 @@ import { getAgent, getEnabledAgents, setAgent } from "@/manifest/transform"
 export async function agentInteractive(): Promise<void> {
 	consola.info("sk agent")
 
+	if (isJsonOutput()) {
+		printOutcome(
+			CommandResult.failed({
+				field: "json",
+				message: "sk agent is interactive. Use sk agent add or sk agent remove.",
+				source: "manual",
+				type: "validation",
+			}),
+		)
+		return
+	}
+
 	const selectionResult = await resolveLocalManifest({
 		createIfMissing: false,
 		nonInteractive: false,
@@ -30,7 +43,7 @@ export async function agentInteractive(): Promise<void> {
 	}
 	const selection = selectionResult.value
 
-	const agents = listAgents()
+	const agents = listAgents(selection.manifest.customAgents)
 	const enabled = new Set(getEnabledAgents(selection.manifest))
 
 	// If no agents are enabled in manifest, use CLI detection for pre-selection
@@ -40,7 +53,9 @@ export async function agentInteractive(): Promise<void> {
 			.filter((agent) => enabled.has(agent.id))
 			.map((agent) => agent.id)
 	} else {
-		const detectionResult = await getAgentDetectionMap()
+		const detectionResult = await getAgentDetectionMap(
+			selection.manifest.customAgents,
+		)
 		if (!detectionResult.ok) {
 			printOutcome(CommandResult.failed(detectionResult.error))
 			return
@@ -95,5 +110,10 @@ export async function agentInteractive(): Promise<void> {
 	}
 	consola.success("Updated agent selections.")
 	consola.info(`Manifest: ${selection.manifestPath} (updated).`)
-	printOutcome(CommandResult.completed(undefined))
+	printOutcome(
+		CommandResult.completed({
+			agents: [...selectedSet],
+			manifestPath: selection.manifestPath,
+		}),
+	)
 }
@@ -14,7 +14,7 @@ type AgentAction = "enable" | "disable"
 
 type AgentUpdateData = {
 	action: AgentAction
-	agent: AgentDefinition
+	agent: Pick<AgentDefinition, "displayName" | "id">
 	created: boolean
 	manifestPath: string
 }
@@ -49,11 +49,6 @@ async function updateAgentManifest(
 	action: AgentAction,
 	options: { global: boolean; nonInteractive: boolean },
 ): Promise<CommandResult<AgentUpdateData>> {
-	const lookup = getAgentById(agentId)
-	if (!lookup.ok) {
-		return CommandResult.failed(lookup.error)
-	}
-
 	const desired = action === "enable"
 	const selectionResult = options.global
 		? await resolveGlobalManifest({
@@ -78,6 +73,13 @@ async function updateAgentManifest(
 	}
 	const { manifest, manifestPath, serializeOptions, created } = selectionResult.value
 
+	// Custom agents are declared by the manifest, so look the id up only once
+	// it is loaded
+	const lookup = getAgentById(agentId, manifest.customAgents)
+	if (!lookup.ok) {
+		return CommandResult.failed(lookup.error)
+	}
+
 	const currentValue = getAgent(manifest, lookup.value.id)
 	const changed = currentValue !== desired
 	if (changed) {
@@ -97,7 +99,7 @@ async function updateAgentManifest(
 
 	return CommandResult.completed({
 		action,
-		agent: lookup.value,
+		agent: { displayName: lookup.value.displayName, id: lookup.value.id },
 		created,
 		manifestPath,
 	})
@@ -0,0 +1,17 @@
+import { consola } from "consola"
+import { cleanCache, resolveCacheRoot } from "@/cache/fs"
+import { CommandResult, printOutcome } from "@/commands/types"
+
+export async function cacheClean(): Promise<void> {
+	consola.info("sk cache clean")
+
+	const cacheRoot = resolveCacheRoot()
+	const result = await cleanCache(cacheRoot)
+	if (!result.ok) {
+		printOutcome(CommandResult.failed(result.error))
+		return
+	}
+
+	consola.info(`Removed ${cacheRoot}.`)
+	printOutcome(CommandResult.completed(undefined))
+}
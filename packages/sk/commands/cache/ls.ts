@@ -0,0 +1,63 @@
+import { consola } from "consola"
+import { listCacheEntries, measureDirectory, resolveCacheRoot } from "@/cache/fs"
+import { CommandResult, printOutcome } from "@/commands/types"
+import { formatTable } from "@/utils/table"
+
+export async function cacheList(): Promise<void> {
+	consola.info("sk cache ls")
+
+	const cacheRoot = resolveCacheRoot()
+	const entries = await listCacheEntries(cacheRoot)
+	if (!entries.ok) {
+		printOutcome(CommandResult.failed(entries.error))
+		return
+	}
+
+	if (entries.value.length === 0) {
+		printOutcome(CommandResult.unchanged(`Cache is empty: ${cacheRoot}`))
+		return
+	}
+
+	const rows: string[][] = []
+	let total = 0
+	for (const entry of entries.value) {
+		const size = await measureDirectory(entry.path)
+		if (!size.ok) {
+			printOutcome(CommandResult.failed(size.error))
+			return
+		}
+
+		total += size.value
+		rows.push([
+			entry.source,
+			formatRefKey(entry.key),
+			entry.commit.slice(0, 7),
+			entry.sparsePaths ? entry.sparsePaths.join(", ") : "(full)",
+			formatBytes(size.value),
+			entry.usedAt.slice(0, 10),
+		])
+	}
+
+	consola.log(formatTable(["Source", "Ref", "Commit", "Paths", "Size", "Used"], rows))
+	consola.info(
+		`${entries.value.length} checkouts, ${formatBytes(total)} in ${cacheRoot}.`,
+	)
+}
+
+// buildRepoKey() is "<type>:<identity>:<ref>", where identity may contain colons;
+// buildRegistryKey() ends in "version:<version>".
+function formatRefKey(key: string): string {
+	const match = /:(default|tag:[^:]+|branch:[^:]+|rev:[^:]+|version:[^:]+)$/.exec(key)
+	return match?.[1] ?? key
+}
+
+function formatBytes(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB"]
+	let value = bytes
+	let unit = 0
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024
+		unit += 1
+	}
+	return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`
+}
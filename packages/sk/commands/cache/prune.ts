@@ -0,0 +1,47 @@
+import { consola } from "consola"
+import { pruneCache, resolveCacheRoot } from "@/cache/fs"
+import { CommandResult, printOutcome } from "@/commands/types"
+
+export interface CachePruneOptions {
+	maxAge: string | undefined
+}
+
+const DEFAULT_MAX_AGE_DAYS = 30
+
+export async function cachePrune(options: CachePruneOptions): Promise<void> {
+	consola.info("sk cache prune")
+
+	const maxAgeDays =
+		options.maxAge === undefined ? DEFAULT_MAX_AGE_DAYS : Number(options.maxAge)
+	if (!Number.isInteger(maxAgeDays) || maxAgeDays < 0) {
+		printOutcome(
+			CommandResult.failed({
+				field: "max-age",
+				message: `--max-age must be a whole number of days, got "${options.maxAge}".`,
+				source: "manual",
+				type: "validation",
+			}),
+		)
+		return
+	}
+
+	const result = await pruneCache(resolveCacheRoot(), { maxAgeDays })
+	if (!result.ok) {
+		printOutcome(CommandResult.failed(result.error))
+		return
+	}
+
+	const { orphans, removed } = result.value
+	if (removed.length === 0 && orphans === 0) {
+		printOutcome(CommandResult.unchanged("Nothing to prune."))
+		return
+	}
+
+	for (const entry of removed) {
+		consola.log(`  - ${entry.source} ${entry.commit.slice(0, 7)}`)
+	}
+	consola.info(
+		`Removed ${removed.length} checkouts${orphans > 0 ? ` and ${orphans} stale files` : ""}.`,
+	)
+	printOutcome(CommandResult.completed(undefined))
+}
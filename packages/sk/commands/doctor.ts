@@ -0,0 +1,510 @@
+import { readdir } from "node:fs/promises"
+import { homedir } from "node:os"
+import path from "node:path"
+import {
+	type AbsolutePath,
+	coerceAbsolutePathDirect,
+	MANIFEST_FILENAME,
+} from "@skills-supply/core"
+import { consola } from "consola"
+import { DEFAULT_SKILL_NAMING, formatSkillTargetName } from "@/agents/naming"
+import {
+	type AgentScope,
+	getAgentById,
+	getAgentDetectionMap,
+	listAgents,
+	resolveAgent,
+} from "@/agents/registry"
+import { readAgentState, resolveStatePath, type StateResult } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import { CommandResult, printOutcome } from "@/commands/types"
+import { getConfiguredCredentialHelper } from "@/credentials/helper"
+import { getStoredCredentials } from "@/credentials/retrieve"
+import { SK_BASE_URL } from "@/env"
+import type { IoResult } from "@/io/fs"
+import { safeLstat, safeStat } from "@/io/fs"
+import { findLockedPackage, readLockfile, resolveLockPath } from "@/lock/fs"
+import type { Lockfile } from "@/lock/types"
+import { findGlobalRoot, findProjectRoot } from "@/manifest/discover"
+import { loadManifest } from "@/manifest/fs"
+import { getEnabledAgents } from "@/manifest/transform"
+import type { Manifest } from "@/manifest/types"
+import {
+	filterPackagesForAgent,
+	resolveManifestPackages,
+	toValidatedDeclaration,
+} from "@/packages/resolve"
+import type { ManifestDiscoveredAt } from "@/types/context"
+import { ensureGitAvailable } from "@/utils/git"
+
+export type DoctorStatus = "ok" | "warn" | "fail"
+
+export interface DoctorCheck {
+	/** Stable identifier for scripts, e.g. "git" or "state:claude-code" */
+	id: string
+	status: DoctorStatus
+	message: string
+	/** How to resolve a warning or failure */
+	fix?: string
+}
+
+export interface DoctorReport {
+	checks: DoctorCheck[]
+	failed: number
+	warned: number
+}
+
+interface DoctorManifest {
+	manifest: Manifest
+	scope: AgentScope
+}
+
+export async function doctorCommand(): Promise<void> {
+	consola.info("sk doctor")
+
+	const cwd = coerceAbsolutePathDirect(process.cwd())
+	const homeDir = coerceAbsolutePathDirect(homedir())
+	if (!cwd || !homeDir) {
+		printOutcome(
+			CommandResult.failed({
+				field: cwd ? "home" : "cwd",
+				message: cwd
+					? "Unable to resolve home directory."
+					: "Unable to resolve current working directory.",
+				source: "manual",
+				type: "validation",
+			}),
+		)
+		return
+	}
+
+	const report = await runDoctor(cwd, homeDir)
+	printChecklist(report)
+	printOutcome(CommandResult.completed(report))
+
+	if (report.failed > 0) {
+		process.exitCode = 1
+	}
+}
+
+/**
+ * Run every check. Problems are reported as failed or warned checks rather
+ * than as errors, so one broken piece does not hide the others.
+ */
+export async function runDoctor(
+	cwd: AbsolutePath,
+	homeDir: AbsolutePath,
+): Promise<DoctorReport> {
+	const checks: DoctorCheck[] = []
+
+	const git = ensureGitAvailable()
+	checks.push(
+		git.ok
+			? { id: "git", message: "git is installed.", status: "ok" }
+			: {
+					fix: "Install git and make sure it is on your PATH.",
+					id: "git",
+					message: git.error.message,
+					status: "fail",
+				},
+	)
+
+	checks.push(await checkDetectedAgents())
+
+	const manifests: DoctorManifest[] = []
+	const local = await checkLocalManifest(cwd)
+	checks.push(local.check)
+	if (local.manifest) {
+		manifests.push({
+			manifest: local.manifest,
+			scope: { projectRoot: local.root, type: "local" },
+		})
+	}
+
+	const global = await checkGlobalManifest()
+	checks.push(global.check)
+	if (global.manifest) {
+		manifests.push({ manifest: global.manifest, scope: { homeDir, type: "global" } })
+	}
+
+	for (const entry of manifests) {
+		checks.push(...(await checkManifestAgents(entry)))
+	}
+
+	if (git.ok) {
+		checks.push(checkCredentials())
+	}
+
+	return {
+		checks,
+		failed: checks.filter((check) => check.status === "fail").length,
+		warned: checks.filter((check) => check.status === "warn").length,
+	}
+}
+
+async function checkDetectedAgents(): Promise<DoctorCheck> {
+	const detection = await getAgentDetectionMap()
+	if (!detection.ok) {
+		return { id: "agents", message: detection.error.message, status: "fail" }
+	}
+
+	const detected = listAgents()
+		.filter((agent) => detection.value[agent.id])
+		.map((agent) => agent.displayName)
+	if (detected.length === 0) {
+		return {
+			fix: "Install a supported agent CLI, or declare one under [agents.custom] in agents.toml.",
+			id: "agents",
+			message: "No supported agent CLI was detected.",
+			status: "warn",
+		}
+	}
+
+	return { id: "agents", message: `Detected ${detected.join(", ")}.`, status: "ok" }
+}
+
+async function checkLocalManifest(
+	cwd: AbsolutePath,
+): Promise<{ check: DoctorCheck; manifest?: Manifest; root: AbsolutePath }> {
+	const rootResult = await findProjectRoot(cwd)
+	if (!rootResult.ok) {
+		return {
+			check: {
+				id: "manifest:local",
+				message: rootResult.error.message,
+				status: "fail",
+			},
+			root: cwd,
+		}
+	}
+
+	const root = rootResult.value
+	if (!root) {
+		return {
+			check: {
+				fix: "Run `sk init` to create one.",
+				id: "manifest:local",
+				message: `No ${MANIFEST_FILENAME} found in ${cwd} or its parent directories.`,
+				status: "warn",
+			},
+			root: cwd,
+		}
+	}
+
+	const discoveredAt: ManifestDiscoveredAt = root === cwd ? "cwd" : "parent"
+	const loaded = await loadDoctorManifest("manifest:local", root, discoveredAt)
+	if (loaded.check.status !== "ok" || discoveredAt === "cwd") {
+		return { ...loaded, root }
+	}
+
+	return {
+		check: {
+			fix: `Run agents from ${root} to use its skills, or run \`sk init\` here for a separate project.`,
+			id: "manifest:local",
+			message: `Using ${path.join(root, MANIFEST_FILENAME)} from a parent directory.`,
+			status: "warn",
+		},
+		manifest: loaded.manifest,
+		root,
+	}
+}
+
+async function checkGlobalManifest(): Promise<{
+	check: DoctorCheck
+	manifest?: Manifest
+}> {
+	const rootResult = await findGlobalRoot()
+	if (!rootResult.ok) {
+		return {
+			check: {
+				id: "manifest:global",
+				message: rootResult.error.message,
+				status: "fail",
+			},
+		}
+	}
+
+	if (!rootResult.value) {
+		return {
+			check: {
+				id: "manifest:global",
+				message: "No global manifest (optional).",
+				status: "ok",
+			},
+		}
+	}
+
+	return loadDoctorManifest("manifest:global", rootResult.value, "sk-global")
+}
+
+async function loadDoctorManifest(
+	id: string,
+	root: AbsolutePath,
+	discoveredAt: ManifestDiscoveredAt,
+): Promise<{ check: DoctorCheck; manifest?: Manifest }> {
+	const manifestPath = path.join(root, MANIFEST_FILENAME) as AbsolutePath
+	const loaded = await loadManifest(manifestPath, discoveredAt)
+	if (!loaded.ok) {
+		return {
+			check: {
+				fix: `Fix ${manifestPath} and run \`sk doctor\` again.`,
+				id,
+				message: loaded.error.message,
+				status: "fail",
+			},
+		}
+	}
+
+	return {
+		check: { id, message: `Loaded ${manifestPath}.`, status: "ok" },
+		manifest: loaded.value.manifest,
+	}
+}
+
+async function checkManifestAgents({
+	manifest,
+	scope,
+}: DoctorManifest): Promise<DoctorCheck[]> {
+	const checks: DoctorCheck[] = []
+	const lockPath = resolveLockPath(manifest)
+	const lockfile = await readLockfile(lockPath)
+	if (!lockfile.ok) {
+		checks.push({
+			fix: `Delete ${lockPath} and run \`sk sync\` to re-resolve every dependency.`,
+			id: "lockfile",
+			message: lockfile.error.message,
+			status: "fail",
+		})
+	}
+
+	const detection = await getAgentDetectionMap(manifest.customAgents)
+
+	for (const agentId of getEnabledAgents(manifest)) {
+		const lookup = getAgentById(agentId, manifest.customAgents)
+		if (!lookup.ok) {
+			checks.push({
+				fix: `Remove it with \`sk agent remove ${agentId}\`.`,
+				id: `agent:${agentId}`,
+				message: lookup.error.message,
+				status: "fail",
+			})
+			continue
+		}
+
+		const agent = resolveAgent(lookup.value, scope)
+		if (detection.ok && !detection.value[agent.id]) {
+			checks.push({
+				fix: `Install ${agent.displayName}, or disable it with \`sk agent remove ${agent.id}\`.`,
+				id: `agent:${agent.id}`,
+				message: `${agent.displayName} is enabled but was not detected.`,
+				status: "warn",
+			})
+		}
+
+		const state = await readAgentState(agent)
+		checks.push(checkState(agent, state))
+		checks.push(await checkSymlinks(agent))
+
+		// Without a lockfile the planned names are unknown until the next sync,
+		// and without a readable state file every skill looks unmanaged
+		if (lockfile.ok && lockfile.value && state.ok) {
+			const planned = plannedSkillNames(manifest, lockfile.value, agent)
+			// Sync replaces skills the global layer installed into a project
+			const layerState = await readAgentState({ ...agent, layer: "global" })
+			const managed = new Set([
+				...(state.value?.skills ?? []),
+				...((layerState.ok && layerState.value?.skills) || []),
+			])
+			checks.push(await checkCollisions(agent, planned, managed))
+		}
+	}
+
+	return checks
+}
+
+function checkState(agent: ResolvedAgent, state: StateResult): DoctorCheck {
+	const id = `state:${agent.id}`
+	if (!state.ok) {
+		return {
+			fix: `Restore or delete ${resolveStatePath(agent)}, then run \`sk sync\`. Skills it listed are no longer tracked.`,
+			id,
+			message: `${agent.displayName}: ${state.error.message}`,
+			status: "fail",
+		}
+	}
+
+	const count = state.value?.skills.length ?? 0
+	return {
+		id,
+		message: `${agent.displayName}: state file is valid (${count} skill(s) managed).`,
+		status: "ok",
+	}
+}
+
+async function checkSymlinks(agent: ResolvedAgent): Promise<DoctorCheck> {
+	const id = `symlinks:${agent.id}`
+	const broken = await findBrokenSymlinks(agent.skillsPath)
+	if (!broken.ok) {
+		return { id, message: broken.error.message, status: "fail" }
+	}
+
+	if (broken.value.length > 0) {
+		return {
+			fix: "Run `sk sync` to relink managed skills, or delete the links.",
+			id,
+			message: `${agent.displayName}: broken symlinks in ${agent.skillsPath}: ${broken.value.join(", ")}`,
+			status: "warn",
+		}
+	}
+
+	return { id, message: `${agent.displayName}: no broken symlinks.`, status: "ok" }
+}
+
+async function checkCollisions(
+	agent: ResolvedAgent,
+	planned: string[],
+	managed: ReadonlySet<string>,
+): Promise<DoctorCheck> {
+	const id = `collisions:${agent.id}`
+	const collisions: string[] = []
+	for (const name of planned) {
+		if (managed.has(name)) {
+			continue
+		}
+
+		const stats = await safeLstat(path.join(agent.skillsPath, name))
+		if (!stats.ok) {
+			return { id, message: stats.error.message, status: "fail" }
+		}
+		if (stats.value) {
+			collisions.push(name)
+		}
+	}
+
+	if (collisions.length > 0) {
+		return {
+			fix: "Move or delete these directories, or set a `prefix` on the dependency that installs them.",
+			id,
+			message: `${agent.displayName}: skills not installed by sk block planned skills: ${collisions.join(", ")}`,
+			status: "fail",
+		}
+	}
+
+	return {
+		id,
+		message: `${agent.displayName}: no unmanaged skills collide with planned ones.`,
+		status: "ok",
+	}
+}
+
+function checkCredentials(): DoctorCheck {
+	const helper = getConfiguredCredentialHelper(SK_BASE_URL)
+	if (!helper) {
+		return {
+			fix: "Run `sk auth`. This is only needed for the Skills Supply marketplace.",
+			id: "credentials",
+			message: `No git credential helper is configured for ${SK_BASE_URL}.`,
+			status: "warn",
+		}
+	}
+
+	const credentials = getStoredCredentials(SK_BASE_URL)
+	if (!credentials) {
+		return {
+			fix: "Run `sk auth` to store a token.",
+			id: "credentials",
+			message: `Credential helper "${helper}" holds no token for ${SK_BASE_URL}.`,
+			status: "warn",
+		}
+	}
+
+	return {
+		id: "credentials",
+		message: `Signed in as ${credentials.username} (credential helper "${helper}").`,
+		status: "ok",
+	}
+}
+
+/**
+ * Names the next sync would install for an agent, as far as agents.lock
+ * knows them. Dependencies that were never synced are left out.
+ */
+function plannedSkillNames(
+	manifest: Manifest,
+	lockfile: Lockfile,
+	agent: ResolvedAgent,
+): string[] {
+	const naming = manifest.settings?.naming ?? DEFAULT_SKILL_NAMING
+	const packages = filterPackagesForAgent(resolveManifestPackages(manifest), agent.id)
+	return packages.flatMap((canonical) => {
+		const locked = findLockedPackage(
+			lockfile,
+			canonical.origin.alias,
+			toValidatedDeclaration(canonical),
+		)
+		const prefix = String(canonical.prefix ?? canonical.origin.alias)
+		return (locked?.skills ?? []).map((skill) =>
+			formatSkillTargetName(naming, { canonical, prefix }, skill.name),
+		)
+	})
+}
+
+export async function findBrokenSymlinks(
+	skillsPath: AbsolutePath,
+): Promise<IoResult<string[]>> {
+	let names: string[]
+	try {
+		const entries = await readdir(skillsPath, { withFileTypes: true })
+		names = entries
+			.filter((entry) => entry.isSymbolicLink())
+			.map((entry) => entry.name)
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return { ok: true, value: [] }
+		}
+		return {
+			error: {
+				message: `Unable to read ${skillsPath}.`,
+				operation: "readdir",
+				path: skillsPath,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			ok: false,
+		}
+	}
+
+	const broken: string[] = []
+	for (const name of names.sort()) {
+		const target = await safeStat(path.join(skillsPath, name))
+		if (!target.ok) {
+			return target
+		}
+		if (!target.value) {
+			broken.push(name)
+		}
+	}
+
+	return { ok: true, value: broken }
+}
+
+function printChecklist(report: DoctorReport): void {
+	for (const check of report.checks) {
+		switch (check.status) {
+			case "ok":
+				consola.success(check.message)
+				break
+			case "warn":
+				consola.warn(check.message)
+				break
+			case "fail":
+				consola.error(check.message)
+				break
+		}
+		if (check.fix) {
+			consola.log(`  Fix: ${check.fix}`)
+		}
+	}
+
+	consola.info(`${report.failed} problem(s), ${report.warned} warning(s).`)
+}
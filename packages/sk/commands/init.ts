@@ -1,18 +1,23 @@
 import { homedir } from "node:os"
 import path from "node:path"
 import { isCancel, multiselect } from "@clack/prompts"
-import type { AbsolutePath, AgentId } from "@skills-supply/core"
+import type { AbsolutePath, AgentId, CoreError, Result } from "@skills-supply/core"
 import {
 	coerceAbsolutePathDirect,
 	MANIFEST_FILENAME,
 	SK_GLOBAL_DIR,
 } from "@skills-supply/core"
 import { consola } from "consola"
-import { getAgentById, getAgentDetectionMap, listAgents } from "@/agents/registry"
+import {
+	type CustomAgentMap,
+	getAgentById,
+	getAgentDetectionMap,
+	listAgents,
+} from "@/agents/registry"
 import { CommandResult, printOutcome } from "@/commands/types"
 import { ensureDir, safeStat } from "@/io/fs"
-import { createEmptyManifest, saveManifest } from "@/manifest/fs"
-import { setAgent } from "@/manifest/transform"
+import { createEmptyManifest, loadManifest, saveManifest } from "@/manifest/fs"
+import { setAgent, setCustomAgent } from "@/manifest/transform"
 import type { Manifest } from "@/manifest/types"
 import type { SkError } from "@/types/errors"
 
@@ -38,16 +43,27 @@ export async function initCommand(options: {
 
 	let manifest = createEmptyManifest(manifestPath, options.global ? "sk-global" : "cwd")
 
+	let customAgents: CustomAgentMap = new Map()
+	if (!options.global) {
+		const loaded = await loadGlobalCustomAgents()
+		if (!loaded.ok) {
+			printOutcome(CommandResult.failed(loaded.error))
+			return
+		}
+		customAgents = loaded.value
+	}
+
 	const agentSelection = await resolveAgentSelection(
 		options.agents,
 		options.nonInteractive,
+		customAgents,
 	)
 	if (agentSelection.status !== "completed") {
 		printOutcome(agentSelection)
 		return
 	}
 
-	manifest = applyAgentSelection(manifest, agentSelection.value)
+	manifest = applyAgentSelection(manifest, agentSelection.value, customAgents)
 	const ensured = await ensureDir(path.dirname(manifestPath))
 	if (!ensured.ok) {
 		printOutcome(CommandResult.failed(ensured.error))
@@ -68,7 +84,12 @@ export async function initCommand(options: {
 	if (agentSelection.value.warning) {
 		consola.warn(agentSelection.value.warning)
 	}
-	printOutcome(CommandResult.completed(undefined))
+	printOutcome(
+		CommandResult.completed({
+			agents: [...agentSelection.value.selected],
+			manifestPath,
+		}),
+	)
 }
 
 function resolveManifestPath(useGlobal: boolean):
@@ -143,12 +164,31 @@ async function assertManifestMissing(
 
 type AgentSelectionData = { selected: Set<AgentId>; warning?: string }
 
+/**
+ * Custom agents declared in the global manifest. A new project manifest can
+ * enable them, and their definitions are copied into it.
+ */
+async function loadGlobalCustomAgents(): Promise<Result<CustomAgentMap, CoreError>> {
+	const globalPath = resolveManifestPath(true)
+	if (!globalPath.ok) {
+		return globalPath
+	}
+
+	const loaded = await loadManifest(globalPath.value, "sk-global")
+	if (!loaded.ok) {
+		return loaded.error.type === "not_found" ? { ok: true, value: new Map() } : loaded
+	}
+
+	return { ok: true, value: loaded.value.manifest.customAgents ?? new Map() }
+}
+
 async function resolveAgentSelection(
 	agentList: string | undefined,
 	nonInteractive: boolean,
+	customAgents: CustomAgentMap,
 ): Promise<CommandResult<AgentSelectionData>> {
 	if (agentList !== undefined) {
-		const parsed = parseAgentList(agentList)
+		const parsed = parseAgentList(agentList, customAgents)
 		if (!parsed.ok) {
 			return CommandResult.failed(parsed.error)
 		}
@@ -159,8 +199,8 @@ async function resolveAgentSelection(
 		return CommandResult.completed({ selected: new Set<AgentId>() })
 	}
 
-	const agents = listAgents()
-	const detectionResult = await getAgentDetectionMap()
+	const agents = listAgents(customAgents)
+	const detectionResult = await getAgentDetectionMap(customAgents)
 	if (!detectionResult.ok) {
 		return CommandResult.failed(detectionResult.error)
 	}
@@ -190,7 +230,10 @@ async function resolveAgentSelection(
 	return CommandResult.completed({ selected: selectedSet })
 }
 
-function parseAgentList(value: string):
+function parseAgentList(
+	value: string,
+	customAgents: CustomAgentMap,
+):
 	| {
 			ok: true
 			value: Set<AgentId>
@@ -223,9 +266,11 @@ function parseAgentList(value: string):
 
 	const valid = new Set<AgentId>()
 	for (const agentId of raw) {
-		const lookup = getAgentById(agentId)
+		const lookup = getAgentById(agentId, customAgents)
 		if (!lookup.ok) {
-			const message = `Unknown agent: ${agentId}. Valid agents: ${listAgents()
+			const message = `Unknown agent: ${agentId}. Valid agents: ${listAgents(
+				customAgents,
+			)
 				.map((agent) => agent.id)
 				.join(", ")}.`
 			return {
@@ -247,9 +292,14 @@ function parseAgentList(value: string):
 function applyAgentSelection(
 	manifest: Manifest,
 	selection: AgentSelectionData,
+	customAgents: CustomAgentMap,
 ): Manifest {
 	let updated = manifest
 	for (const agentId of selection.selected) {
+		const custom = [...customAgents].find(([customId]) => customId === agentId)
+		if (custom) {
+			updated = setCustomAgent(updated, ...custom)
+		}
 		updated = setAgent(updated, agentId, true)
 	}
 
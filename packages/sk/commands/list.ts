@@ -0,0 +1,193 @@
+import type { AgentId, Result } from "@skills-supply/core"
+import { consola } from "consola"
+import { inspectInstalledSkill, type SkillStatus } from "@/agents/inspect"
+import { type AgentScope, getAgentById, resolveAgent } from "@/agents/registry"
+import { readAgentState, type SkillProvenance } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import {
+	buildParentPromptMessage,
+	type ManifestSelection,
+	resolveGlobalManifest,
+	resolveLocalManifest,
+} from "@/commands/manifest-selection"
+import { CommandResult, printOutcome } from "@/commands/types"
+import { getEnabledAgents } from "@/manifest/transform"
+import type { ManifestLayer } from "@/types/context"
+import type { SkError } from "@/types/errors"
+import { formatTable } from "@/utils/table"
+
+export interface ListCommandOptions {
+	agent?: string
+	global: boolean
+	nonInteractive: boolean
+}
+
+export interface ListedSkill {
+	name: string
+	/** Manifest that installed the skill; "global" throughout global scope */
+	layer: ManifestLayer
+	status: SkillStatus
+	/** Absent for skills recorded by a version 1 state file */
+	provenance?: SkillProvenance
+}
+
+export interface ListedAgent {
+	agentId: AgentId
+	displayName: string
+	skillsPath: string
+	skills: ListedSkill[]
+}
+
+export async function listCommand(options: ListCommandOptions): Promise<void> {
+	consola.info("sk list")
+
+	const selectionResult = options.global
+		? await resolveGlobalManifest({
+				createIfMissing: false,
+				nonInteractive: options.nonInteractive,
+				promptToCreate: false,
+			})
+		: await resolveLocalManifest({
+				createIfMissing: false,
+				nonInteractive: options.nonInteractive,
+				parentPrompt: {
+					buildMessage: (projectRoot, cwd) =>
+						buildParentPromptMessage(projectRoot, cwd, { action: "read" }),
+				},
+				promptToCreate: false,
+			})
+
+	if (selectionResult.status !== "completed") {
+		printOutcome(selectionResult)
+		return
+	}
+
+	const result = await listWithSelection(selectionResult.value, options.agent)
+	if (result.status === "completed") {
+		for (const agent of result.value) {
+			printAgentSkills(agent)
+		}
+	}
+
+	printOutcome(result)
+}
+
+export async function listWithSelection(
+	selection: ManifestSelection,
+	agentId?: string,
+): Promise<CommandResult<ListedAgent[]>> {
+	const { manifest } = selection
+	// --agent lists one agent even when it is disabled, since its skills may
+	// still be installed
+	const agentIds = agentId === undefined ? getEnabledAgents(manifest) : [agentId]
+	if (agentIds.length === 0) {
+		return CommandResult.unchanged(
+			"No agents enabled. Use `sk agent add` to enable agents.",
+		)
+	}
+
+	const scope: AgentScope =
+		selection.scope === "global"
+			? { homeDir: selection.scopeRoot, type: "global" }
+			: { projectRoot: selection.scopeRoot, type: "local" }
+	const listed: ListedAgent[] = []
+	for (const id of agentIds) {
+		const lookup = getAgentById(id, manifest.customAgents)
+		if (!lookup.ok) {
+			return CommandResult.failed(lookup.error)
+		}
+
+		const agent = resolveAgent(lookup.value, scope)
+		const skills = await listAgentSkills(
+			agent,
+			selection.scope === "global" ? "global" : "project",
+		)
+		if (!skills.ok) {
+			return CommandResult.failed(skills.error)
+		}
+
+		// Skills the global manifest installed into this project, if any
+		const layerSkills =
+			selection.scope === "local"
+				? await listAgentSkills({ ...agent, layer: "global" }, "global")
+				: { ok: true as const, value: [] }
+		if (!layerSkills.ok) {
+			return CommandResult.failed(layerSkills.error)
+		}
+
+		listed.push({
+			agentId: agent.id,
+			displayName: agent.displayName,
+			skills: [...skills.value, ...layerSkills.value],
+			skillsPath: agent.skillsPath,
+		})
+	}
+
+	return CommandResult.completed(listed)
+}
+
+async function listAgentSkills(
+	agent: ResolvedAgent,
+	layer: ManifestLayer,
+): Promise<Result<ListedSkill[], SkError>> {
+	const state = await readAgentState(agent)
+	if (!state.ok) {
+		return state
+	}
+
+	const skills: ListedSkill[] = []
+	for (const name of state.value?.skills ?? []) {
+		const provenance = state.value?.provenance[name]
+		const status = await inspectInstalledSkill(agent, name, provenance)
+		if (!status.ok) {
+			return status
+		}
+		skills.push({ layer, name, provenance, status: status.value })
+	}
+
+	return { ok: true, value: skills }
+}
+
+function printAgentSkills(agent: ListedAgent): void {
+	if (agent.skills.length === 0) {
+		consola.info(`${agent.displayName}: no skills installed by sk.`)
+		return
+	}
+
+	consola.info(`${agent.displayName} (${agent.skillsPath})`)
+	consola.log(
+		formatTable(
+			["Skill", "Layer", "Alias", "Declaration", "Ref", "Mode", "Status"],
+			agent.skills.map(({ layer, name, provenance, status }) => [
+				name,
+				layer,
+				provenance ? formatProvenanceAlias(provenance) : "-",
+				provenance ? formatDeclarationType(provenance.type) : "-",
+				provenance ? formatProvenanceRef(provenance) : "-",
+				provenance?.mode ?? "-",
+				status,
+			]),
+		),
+	)
+}
+
+/** Transitive dependencies show the chain of aliases that pulled them in */
+function formatProvenanceAlias(provenance: SkillProvenance): string {
+	return [...(provenance.via ?? []), provenance.alias].join(" > ")
+}
+
+function formatDeclarationType(type: SkillProvenance["type"]): string {
+	return type === "github" ? "gh" : type
+}
+
+function formatProvenanceRef(provenance: SkillProvenance): string {
+	if (provenance.version) {
+		return provenance.version
+	}
+
+	const commit = provenance.commit?.slice(0, 7)
+	if (provenance.ref && commit) {
+		return `${provenance.ref} (${commit})`
+	}
+	return provenance.ref ?? commit ?? "-"
+}
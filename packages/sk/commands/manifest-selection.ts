@@ -13,6 +13,7 @@ import { ensureDir } from "@/io/fs"
 import { findGlobalRoot, findProjectRoot } from "@/manifest/discover"
 import { createEmptyManifest, loadManifest, saveManifest } from "@/manifest/fs"
 import type { Manifest } from "@/manifest/types"
+import { expandWorkspaceMembers, findWorkspaceMember } from "@/manifest/workspace"
 import type { SerializeOptions } from "@/manifest/write"
 import type { ManifestDiscoveredAt } from "@/types/context"
 
@@ -22,7 +23,7 @@ export interface ParentPromptConfig {
 	buildMessage: (projectRoot: AbsolutePath, cwd: AbsolutePath) => string
 }
 
-export type ParentPromptAction = "sync" | "modify"
+export type ParentPromptAction = "sync" | "modify" | "read"
 
 export interface ParentPromptMessageOptions {
 	action: ParentPromptAction
@@ -42,6 +43,8 @@ export function buildParentPromptMessage(
 
 	if (options.action === "sync") {
 		lines.push(`Skills will install under ${projectRoot}.`)
+	} else if (options.action === "read") {
+		lines.push(`Dependencies will be read from ${projectRoot}/${MANIFEST_FILENAME}.`)
 	} else {
 		lines.push(`This will modify ${projectRoot}/${MANIFEST_FILENAME}.`)
 	}
@@ -122,6 +125,25 @@ export async function resolveLocalManifest(
 	const manifestPath = path.join(projectRoot, MANIFEST_FILENAME) as AbsolutePath
 	const discoveredAt: ManifestDiscoveredAt = projectRoot === cwd ? "cwd" : "parent"
 
+	const loaded = await loadManifest(manifestPath, discoveredAt)
+	if (!loaded.ok) {
+		return CommandResult.failed(loaded.error)
+	}
+
+	// Inside a workspace member without its own manifest, the member's
+	// agents.toml is the one to use, not the workspace root's
+	const workspace = loaded.value.manifest.workspace
+	const member = workspace
+		? findWorkspaceMember(projectRoot, workspace.members, cwd)
+		: null
+	if (member) {
+		return await resolveMissingLocalManifest(
+			member,
+			options,
+			`No ${MANIFEST_FILENAME} found in workspace member ${member}. Create one there?`,
+		)
+	}
+
 	if (projectRoot !== cwd) {
 		if (!options.nonInteractive && options.parentPrompt) {
 			const message = options.parentPrompt.buildMessage(projectRoot, cwd)
@@ -142,10 +164,6 @@ export async function resolveLocalManifest(
 		}
 	}
 
-	const loaded = await loadManifest(manifestPath, discoveredAt)
-	if (!loaded.ok) {
-		return CommandResult.failed(loaded.error)
-	}
 	return CommandResult.completed({
 		created: false,
 		discoveredAt,
@@ -203,6 +221,87 @@ export async function resolveGlobalManifest(
 	})
 }
 
+/**
+ * The global manifest when it opts in to being synced into projects with
+ * [settings] apply_to_projects, otherwise null.
+ */
+export async function resolveGlobalLayer(): Promise<CommandResult<Manifest | null>> {
+	const rootResult = await findGlobalRoot()
+	if (!rootResult.ok) {
+		return CommandResult.failed(rootResult.error)
+	}
+	if (!rootResult.value) {
+		return CommandResult.completed(null)
+	}
+
+	const manifestPath = path.join(rootResult.value, MANIFEST_FILENAME) as AbsolutePath
+	const loaded = await loadManifest(manifestPath, "sk-global")
+	if (!loaded.ok) {
+		return CommandResult.failed(loaded.error)
+	}
+
+	const manifest = loaded.value.manifest
+	return CommandResult.completed(manifest.settings?.applyToProjects ? manifest : null)
+}
+
+/**
+ * Load the member manifests of a local workspace root selection, in path
+ * order. Selections without a [workspace] section have no members.
+ */
+export async function resolveWorkspaceMembers(
+	selection: ManifestSelection,
+): Promise<CommandResult<ManifestSelection[]>> {
+	const workspace = selection.manifest.workspace
+	if (selection.scope !== "local" || !workspace) {
+		return CommandResult.completed([])
+	}
+
+	const expanded = await expandWorkspaceMembers(selection.scopeRoot, workspace.members)
+	if (!expanded.ok) {
+		return CommandResult.failed(expanded.error)
+	}
+
+	const members: ManifestSelection[] = []
+	for (const memberRoot of expanded.value) {
+		const manifestPath = path.join(memberRoot, MANIFEST_FILENAME) as AbsolutePath
+		const loaded = await loadManifest(manifestPath, "workspace")
+		if (!loaded.ok) {
+			return CommandResult.failed(loaded.error)
+		}
+		members.push({
+			created: false,
+			discoveredAt: "workspace",
+			manifest: loaded.value.manifest,
+			manifestPath,
+			scope: "local",
+			scopeRoot: memberRoot,
+			serializeOptions: inferSerializeOptions(loaded.value.manifest),
+			usedParent: false,
+		})
+	}
+
+	return CommandResult.completed(members)
+}
+
+/**
+ * Read the manifest of a selection again, e.g. after it changed on disk.
+ */
+export async function reloadManifestSelection(
+	selection: ManifestSelection,
+): Promise<CommandResult<ManifestSelection>> {
+	const loaded = await loadManifest(selection.manifestPath, selection.discoveredAt)
+	if (!loaded.ok) {
+		return CommandResult.failed(loaded.error)
+	}
+
+	return CommandResult.completed({
+		...selection,
+		created: false,
+		manifest: loaded.value.manifest,
+		serializeOptions: inferSerializeOptions(loaded.value.manifest),
+	})
+}
+
 /**
  * Warn users when operating in a subdirectory that skills will install
  * under the parent directory's manifest location.
@@ -218,15 +317,16 @@ export function warnIfSubdirectory(selection: ManifestSelection): void {
 }
 
 async function resolveMissingLocalManifest(
-	cwd: AbsolutePath,
+	dir: AbsolutePath,
 	options: LocalManifestOptions,
+	createMessage = `No ${MANIFEST_FILENAME} found. Create one here?`,
 ): Promise<CommandResult<ManifestSelection>> {
 	if (options.createIfMissing) {
 		return await createManifestSelection({
 			discoveredAt: "cwd",
-			manifestPath: path.join(cwd, MANIFEST_FILENAME) as AbsolutePath,
+			manifestPath: path.join(dir, MANIFEST_FILENAME) as AbsolutePath,
 			scope: "local",
-			scopeRoot: cwd,
+			scopeRoot: dir,
 			usedParent: false,
 		})
 	}
@@ -234,7 +334,7 @@ async function resolveMissingLocalManifest(
 	if (options.nonInteractive) {
 		return CommandResult.failed({
 			message: `No ${MANIFEST_FILENAME} found.`,
-			path: path.join(cwd, MANIFEST_FILENAME) as AbsolutePath,
+			path: path.join(dir, MANIFEST_FILENAME) as AbsolutePath,
 			target: "manifest",
 			type: "not_found",
 		})
@@ -243,7 +343,7 @@ async function resolveMissingLocalManifest(
 	if (!options.promptToCreate) {
 		return CommandResult.failed({
 			message: `No ${MANIFEST_FILENAME} found.`,
-			path: path.join(cwd, MANIFEST_FILENAME) as AbsolutePath,
+			path: path.join(dir, MANIFEST_FILENAME) as AbsolutePath,
 			target: "manifest",
 			type: "not_found",
 		})
@@ -251,7 +351,7 @@ async function resolveMissingLocalManifest(
 
 	const shouldCreate = await confirm({
 		initialValue: false,
-		message: `No ${MANIFEST_FILENAME} found. Create one here?`,
+		message: createMessage,
 	})
 	if (isCancel(shouldCreate) || !shouldCreate) {
 		return CommandResult.cancelled()
@@ -259,9 +359,9 @@ async function resolveMissingLocalManifest(
 
 	return await createManifestSelection({
 		discoveredAt: "cwd",
-		manifestPath: path.join(cwd, MANIFEST_FILENAME) as AbsolutePath,
+		manifestPath: path.join(dir, MANIFEST_FILENAME) as AbsolutePath,
 		scope: "local",
-		scopeRoot: cwd,
+		scopeRoot: dir,
 		usedParent: false,
 	})
 }
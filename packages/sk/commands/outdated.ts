@@ -0,0 +1,131 @@
+import { consola } from "consola"
+import { resolveCacheRoot } from "@/cache/fs"
+import {
+	buildParentPromptMessage,
+	type ManifestSelection,
+	resolveGlobalManifest,
+	resolveLocalManifest,
+} from "@/commands/manifest-selection"
+import { CommandResult, printOutcome } from "@/commands/types"
+import { findLockedPackage, readLockfile, resolveLockPath } from "@/lock/fs"
+import { resolveValidatedDependency } from "@/packages/resolve"
+import { createRepoCache } from "@/sync/cache"
+import { checkOutdated } from "@/upstream/outdated"
+import type { OutdatedEntry } from "@/upstream/types"
+import { formatTable } from "@/utils/table"
+
+export interface OutdatedCommandOptions {
+	global: boolean
+	nonInteractive: boolean
+}
+
+export interface OutdatedReport {
+	dependencies: OutdatedEntry[]
+	/** Number of dependencies with a newer upstream ref */
+	outdated: number
+}
+
+export async function outdatedCommand(options: OutdatedCommandOptions): Promise<void> {
+	consola.info("sk outdated")
+
+	const selectionResult = options.global
+		? await resolveGlobalManifest({
+				createIfMissing: false,
+				nonInteractive: options.nonInteractive,
+				promptToCreate: false,
+			})
+		: await resolveLocalManifest({
+				createIfMissing: false,
+				nonInteractive: options.nonInteractive,
+				parentPrompt: {
+					buildMessage: (projectRoot, cwd) =>
+						buildParentPromptMessage(projectRoot, cwd, { action: "read" }),
+				},
+				promptToCreate: false,
+			})
+
+	if (selectionResult.status !== "completed") {
+		printOutcome(selectionResult)
+		return
+	}
+
+	consola.start("Checking dependencies...")
+
+	const result = await outdatedWithSelection(selectionResult.value)
+	if (result.status !== "completed") {
+		printOutcome(result)
+		return
+	}
+
+	const entries = result.value
+	const outdated = entries.filter((entry) => entry.outdated)
+
+	if (entries.length === 0) {
+		consola.info("No dependencies in manifest.")
+	} else {
+		consola.log(
+			formatTable(
+				["Alias", "Type", "Current", "Latest", "Change"],
+				entries.map((entry) => [
+					entry.alias,
+					entry.type,
+					formatRef(entry.current),
+					formatRef(entry.latest),
+					entry.change === "none" ? "up to date" : entry.change,
+				]),
+			),
+		)
+		consola.info(
+			outdated.length === 0
+				? "All dependencies are up to date."
+				: `${outdated.length} of ${entries.length} dependencies outdated.`,
+		)
+	}
+
+	printOutcome(
+		CommandResult.completed<OutdatedReport>({
+			dependencies: entries,
+			outdated: outdated.length,
+		}),
+	)
+	// Non-zero exit lets CI fail on stale dependencies.
+	process.exitCode = outdated.length > 0 ? 1 : 0
+}
+
+export async function outdatedWithSelection(
+	selection: ManifestSelection,
+): Promise<CommandResult<OutdatedEntry[]>> {
+	const manifest = selection.manifest
+
+	const lockResult = await readLockfile(resolveLockPath(manifest))
+	if (!lockResult.ok) {
+		return CommandResult.failed(lockResult.error)
+	}
+
+	const repoCache = createRepoCache(resolveCacheRoot())
+	const entries: OutdatedEntry[] = []
+	for (const [alias, declaration] of manifest.dependencies) {
+		const canonical = resolveValidatedDependency(declaration, {
+			alias,
+			manifestPath: selection.manifestPath,
+		})
+		const result = await checkOutdated(
+			canonical,
+			findLockedPackage(lockResult.value, alias, declaration),
+			repoCache,
+		)
+		if (!result.ok) {
+			return CommandResult.failed(result.error)
+		}
+		entries.push(result.value)
+	}
+
+	return CommandResult.completed(entries)
+}
+
+function formatRef(value: string | null): string {
+	if (!value) {
+		return "-"
+	}
+	return /^[0-9a-f]{40}$/.test(value) ? value.slice(0, 7) : value
+}
@@ -0,0 +1,117 @@
+import { consola } from "consola"
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	type MockInstance,
+	vi,
+} from "vitest"
+import { z } from "zod"
+import type { JsonOutput } from "@/commands/output"
+
+type OutputModule = typeof import("@/commands/output")
+type TypesModule = typeof import("@/commands/types")
+
+// The --json switch is process-wide, so every test gets fresh modules
+async function loadModules(): Promise<{ output: OutputModule; types: TypesModule }> {
+	vi.resetModules()
+	const output = await import("@/commands/output")
+	const types = await import("@/commands/types")
+	return { output, types }
+}
+
+function printedDocuments(spy: MockInstance<typeof console.log>): JsonOutput[] {
+	return spy.mock.calls.map((call) => JSON.parse(String(call[0])) as JsonOutput)
+}
+
+describe("printOutcome with --json", () => {
+	const reporters = consola.options.reporters
+	let logSpy: MockInstance<typeof console.log>
+
+	beforeEach(() => {
+		process.exitCode = undefined
+		logSpy = vi.spyOn(console, "log").mockImplementation(() => {})
+	})
+
+	afterEach(() => {
+		logSpy.mockRestore()
+		consola.setReporters(reporters)
+		process.exitCode = undefined
+	})
+
+	it("prints one versioned document with data and warnings", async () => {
+		const { output, types } = await loadModules()
+		output.enableJsonOutput("pkg add")
+
+		consola.info("sk pkg add")
+		consola.warn("Skipped 1 package.")
+		types.printOutcome(types.CommandResult.completed({ added: ["superpowers"] }))
+		types.printOutcome(types.CommandResult.completed({ added: [] }))
+
+		expect(printedDocuments(logSpy)).toEqual([
+			{
+				command: "pkg add",
+				data: { added: ["superpowers"] },
+				status: "completed",
+				version: output.JSON_OUTPUT_VERSION,
+				warnings: ["Skipped 1 package."],
+			},
+		])
+		expect(process.exitCode).toBeUndefined()
+	})
+
+	it("prints the full error chain of a failed command", async () => {
+		const { output, types } = await loadModules()
+		output.enableJsonOutput("sync")
+
+		const zodResult = z.object({ name: z.string() }).safeParse({ name: 1 })
+		if (zodResult.success) {
+			throw new Error("Expected the schema to reject the input.")
+		}
+		types.printOutcome(
+			types.CommandResult.failed({
+				cause: {
+					field: "name",
+					message: "Invalid manifest.",
+					source: "zod",
+					type: "validation",
+					zodError: zodResult.error,
+				},
+				message: "Failed to read package.",
+				operation: "readFile",
+				path: "/tmp/agents.toml",
+				rawError: new Error("EACCES"),
+				type: "io",
+			} as never),
+		)
+
+		const [document] = printedDocuments(logSpy)
+		expect(document?.status).toBe("failed")
+		expect(document?.error).toEqual({
+			cause: {
+				field: "name",
+				issues: [{ message: expect.any(String), path: "name" }],
+				message: "Invalid manifest.",
+				source: "zod",
+				type: "validation",
+			},
+			message: "Failed to read package.",
+			operation: "readFile",
+			path: "/tmp/agents.toml",
+			rawError: { message: "EACCES", name: "Error" },
+			type: "io",
+		})
+		expect(process.exitCode).toBe(1)
+	})
+
+	it("leaves human output alone when --json is not set", async () => {
+		const { output, types } = await loadModules()
+
+		types.printOutcome(types.CommandResult.unchanged("Nothing to do."))
+
+		expect(output.isJsonOutput()).toBe(false)
+		expect(logSpy).not.toHaveBeenCalled()
+	})
+})
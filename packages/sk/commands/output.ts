@@ -0,0 +1,116 @@
+import type { BaseError } from "@skills-supply/core"
+import { consola } from "consola"
+import type { CommandResult } from "@/commands/types"
+
+/**
+ * Version of the --json document. Bump it when a field is removed or changes
+ * meaning; adding fields is backwards compatible.
+ */
+export const JSON_OUTPUT_VERSION = 1
+
+export interface JsonOutput {
+	version: typeof JSON_OUTPUT_VERSION
+	/** Command path, e.g. "sync" or "agent add" */
+	command: string
+	status: CommandResult<unknown>["status"]
+	/** Command-specific payload of a completed command */
+	data?: unknown
+	/** Why nothing changed, for unchanged commands */
+	reason?: string
+	error?: JsonError
+	/** Every warning the command logged */
+	warnings: string[]
+}
+
+/**
+ * An SkError with its cause chain. Error-specific fields such as field, path,
+ * stage or target are kept as they are.
+ */
+export type JsonError = {
+	type: string
+	message: string
+	issues?: { path: string; message: string }[]
+	rawError?: { name: string; message: string }
+	cause?: JsonError
+	[detail: string]: unknown
+}
+
+interface JsonOutputState {
+	command: string
+	warnings: string[]
+	printed: boolean
+}
+
+let jsonOutput: JsonOutputState | null = null
+
+/**
+ * Switch the process to --json output: consola messages and spinners are
+ * swallowed (warnings are kept for the document) and printOutcome prints a
+ * single JsonOutput document to stdout.
+ */
+export function enableJsonOutput(command: string): void {
+	const state: JsonOutputState = { command, printed: false, warnings: [] }
+	jsonOutput = state
+	consola.setReporters([
+		{
+			log: (logObj) => {
+				if (logObj.type === "warn") {
+					state.warnings.push(logObj.args.map(String).join(" "))
+				}
+			},
+		},
+	])
+}
+
+export function isJsonOutput(): boolean {
+	return jsonOutput !== null
+}
+
+export function printJsonOutcome(result: CommandResult<unknown>): void {
+	if (!jsonOutput || jsonOutput.printed) {
+		return
+	}
+	jsonOutput.printed = true
+
+	const output: JsonOutput = {
+		command: jsonOutput.command,
+		status: result.status,
+		version: JSON_OUTPUT_VERSION,
+		warnings: jsonOutput.warnings,
+	}
+	switch (result.status) {
+		case "completed":
+			output.data = result.value
+			break
+		case "unchanged":
+			output.reason = result.reason
+			break
+		case "failed":
+			output.error = serializeError(result.error)
+			break
+	}
+
+	console.log(JSON.stringify(output, null, 2))
+}
+
+export function serializeError(error: BaseError): JsonError {
+	const { cause, rawError, zodError, ...details } = error as BaseError & {
+		zodError?: { issues?: { path: PropertyKey[]; message: string }[] }
+	}
+	const output: JsonError = { ...details }
+
+	if (Array.isArray(zodError?.issues)) {
+		output.issues = zodError.issues.map((issue) => ({
+			message: issue.message,
+			path: issue.path.length > 0 ? issue.path.map(String).join(".") : "<root>",
+		}))
+	}
+	if (rawError) {
+		output.rawError = { message: rawError.message, name: rawError.name }
+	}
+	if (cause) {
+		output.cause = serializeError(cause)
+	}
+
+	return output
+}
@@ -567,4 +567,48 @@ describe("resolveAutoDetectSpec (interactive plugin flows)", () => {
 			])
 		}
 	})
+	it("adds a skills filter when only some detected skills are selected", async () => {
+		mockAutoDetect({
+			detection: { method: "subdir", skills: ["alpha", "beta", "gamma"] },
+		})
+		multiselectMock.mockResolvedValue(["alpha", "gamma"])
+
+		const result = await resolveAutoDetectSpec(input, baseOptions, {
+			...baseCommandOptions,
+			nonInteractive: false,
+		})
+
+		expect(multiselectMock).toHaveBeenCalledOnce()
+		expect(result.status).toBe("completed")
+		if (result.status === "completed") {
+			expect(result.value).toEqual([
+				{
+					alias: "repo",
+					declaration: { gh: "owner/repo", skills: ["alpha", "gamma"] },
+				},
+			])
+		}
+	})
+
+	it("omits the skills filter when every detected skill is selected", async () => {
+		mockAutoDetect({
+			detection: { method: "subdir", skills: ["alpha", "beta"] },
+		})
+		multiselectMock.mockResolvedValue(["alpha", "beta"])
+
+		const result = await resolveAutoDetectSpec(input, baseOptions, {
+			...baseCommandOptions,
+			nonInteractive: false,
+		})
+
+		expect(result.status).toBe("completed")
+		if (result.status === "completed") {
+			expect(result.value).toEqual([
+				{
+					alias: "repo",
+					declaration: { gh: "owner/repo" },
+				},
+			])
+		}
+	})
 })
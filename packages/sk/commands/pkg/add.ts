@@ -30,6 +30,7 @@ import { saveManifest } from "@/manifest/fs"
 import { addDependency, getDependency } from "@/manifest/transform"
 import type { DependencyDraft } from "@/manifest/types"
 import { type AutoDetectSource, autoDetectPackage } from "@/packages/auto-detect"
+import type { SyncSummary } from "@/sync/types"
 import type { NetworkError } from "@/types/errors"
 
 export interface PkgAddCommandOptions extends AddOptions {
@@ -39,6 +40,13 @@ export interface PkgAddCommandOptions extends AddOptions {
 	sync: boolean
 }
 
+/** Outcome of `sk pkg add`, the data of its --json document */
+export interface PkgAddData {
+	added: string[]
+	manifestPath: AbsolutePath
+	sync?: SyncSummary
+}
+
 export async function pkgAdd(
 	typeOrUrl: string,
 	spec: string | undefined,
@@ -199,12 +207,6 @@ export async function pkgAdd(
 		pending.length === 1
 			? `Dependency already present: ${aliasList}. Manifest: ${selection.manifestPath} (no changes).`
 			: `Dependencies already present: ${aliasList}. Manifest: ${selection.manifestPath} (no changes).`
-	let outcome = CommandResult.completed(undefined)
-
-	if (!changed && !options.sync) {
-		outcome = CommandResult.unchanged(noChangeReason)
-	}
-
 	if (changed) {
 		consola.success("Dependency settings updated.")
 		if (selection.created) {
@@ -223,6 +225,7 @@ export async function pkgAdd(
 		consola.info(`Manifest: ${selection.manifestPath} (no changes).`)
 	}
 
+	let sync: SyncSummary | undefined
 	if (options.sync) {
 		const syncResult = await syncWithSelection(
 			{ ...selection, manifest: manifestForSync },
@@ -236,10 +239,20 @@ export async function pkgAdd(
 			consola.info("Sync skipped.")
 		} else if (syncResult.status === "unchanged") {
 			consola.info(syncResult.reason)
+		} else {
+			sync = syncResult.value
 		}
 	}
 
-	printOutcome(outcome)
+	printOutcome(
+		!changed && !options.sync
+			? CommandResult.unchanged(noChangeReason)
+			: CommandResult.completed<PkgAddData>({
+					added: changedAliases,
+					manifestPath: selection.manifestPath,
+					sync,
+				}),
+	)
 }
 
 export async function resolveAutoDetectSpec(
@@ -568,7 +581,30 @@ export async function resolveAutoDetectSpec(
 			break
 	}
 	consola.info(`Detected ${detection.method} package.`)
-	return buildSpecResult(type, spec, options)
+	const built = buildSpecResult(type, spec, options)
+	if (built.status !== "completed") {
+		return built
+	}
+
+	const skillsResult = await selectPackageSkills(
+		"skills" in detection ? (detection.skills ?? []) : [],
+		commandOptions.nonInteractive,
+	)
+	if (skillsResult.status !== "completed") {
+		return skillsResult
+	}
+	const skills = skillsResult.value
+	if (!skills) {
+		return built
+	}
+
+	return CommandResult.completed(
+		built.value.map((draft) =>
+			typeof draft.declaration === "object"
+				? { ...draft, declaration: { ...draft.declaration, skills } }
+				: draft,
+		),
+	)
 }
 
 export async function resolveRemoteMarketplaceSpec(
@@ -750,6 +786,51 @@ async function selectMarketplacePlugins(
 	return CommandResult.completed(plugins)
 }
 
+/**
+ * Let the user pick which of a package's skills to install. Returns undefined
+ * when every skill is kept, so the declaration stays unfiltered and picks up
+ * skills added to the package later.
+ */
+async function selectPackageSkills(
+	skills: string[],
+	nonInteractive: boolean,
+): Promise<CommandResult<string[] | undefined>> {
+	if (nonInteractive || skills.length < 2) {
+		return CommandResult.completed(undefined)
+	}
+
+	const selection = await multiselect({
+		initialValues: skills,
+		message: `Select skills to install (${skills.length} found)`,
+		options: skills.map((skill) => ({
+			label: skill,
+			value: skill,
+		})),
+		required: true,
+	})
+
+	if (isCancel(selection)) {
+		return CommandResult.cancelled()
+	}
+
+	const selected = Array.isArray(selection)
+		? selection.filter((value): value is string => typeof value === "string")
+		: []
+	if (selected.length === 0) {
+		const message = "Invalid skill selection."
+		return CommandResult.failed({
+			field: "skills",
+			message,
+			source: "manual",
+			type: "validation",
+		})
+	}
+
+	return CommandResult.completed(
+		selected.length === skills.length ? undefined : selected,
+	)
+}
+
 function areDependenciesEqual(
 	current: ValidatedDeclaration | undefined,
 	next: ValidatedDeclaration,
@@ -1,4 +1,4 @@
-import { coerceAlias } from "@skills-supply/core"
+import { type AbsolutePath, coerceAlias } from "@skills-supply/core"
 import { consola } from "consola"
 import {
 	buildParentPromptMessage,
@@ -10,6 +10,14 @@ import { syncWithSelection } from "@/commands/sync"
 import { CommandResult, printOutcome } from "@/commands/types"
 import { saveManifest } from "@/manifest/fs"
 import { hasDependency, removeDependency } from "@/manifest/transform"
+import type { SyncSummary } from "@/sync/types"
+
+/** Outcome of `sk pkg remove`, the data of its --json document */
+export interface PkgRemoveData {
+	manifestPath: AbsolutePath
+	removed: string
+	sync?: SyncSummary
+}
 
 export async function pkgRemove(
 	alias: string,
@@ -102,6 +110,7 @@ export async function pkgRemove(
 	consola.success(`Removed dependency: ${trimmed}.`)
 	consola.info(`Manifest: ${selection.manifestPath} (updated).`)
 
+	let sync: SyncSummary | undefined
 	if (options.sync) {
 		const syncResult = await syncWithSelection(
 			{ ...selection, manifest: updated },
@@ -115,8 +124,16 @@ export async function pkgRemove(
 			consola.info("Sync skipped.")
 		} else if (syncResult.status === "unchanged") {
 			consola.info(syncResult.reason)
+		} else {
+			sync = syncResult.value
 		}
 	}
 
-	printOutcome(CommandResult.completed(undefined))
+	printOutcome(
+		CommandResult.completed<PkgRemoveData>({
+			manifestPath: selection.manifestPath,
+			removed: String(coercedAlias),
+			sync,
+		}),
+	)
 }
@@ -1,3 +1,4 @@
+import { join } from "node:path"
 import type { AgentId } from "@skills-supply/core"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 import type { ManifestSelection } from "@/commands/manifest-selection"
@@ -6,7 +7,8 @@ import { createEmptyManifest } from "@/manifest/fs"
 import { setAgent } from "@/manifest/transform"
 import type { Manifest } from "@/manifest/types"
 import { runSync } from "@/sync/sync"
-import { abs } from "@/tests/helpers/branded"
+import { createTestProject, withTempDir } from "@/tests/helpers"
+import { abs, nes } from "@/tests/helpers/branded"
 
 vi.mock("@/sync/sync", () => ({
 	runSync: vi.fn(),
@@ -145,6 +147,7 @@ describe("syncWithSelection", () => {
 			runSyncMock.mockResolvedValueOnce({
 				ok: true,
 				value: {
+					agentChanges: [],
 					agents: ["claude-code"],
 					dependencies: 0,
 					dryRun: false,
@@ -176,6 +179,7 @@ describe("syncWithSelection", () => {
 				manifest: expect.objectContaining({
 					agents: new Map([["claude-code", true]]),
 				}),
+				onProgress: expect.any(Function),
 			})
 		})
 
@@ -187,6 +191,7 @@ describe("syncWithSelection", () => {
 			runSyncMock.mockResolvedValueOnce({
 				ok: true,
 				value: {
+					agentChanges: [],
 					agents: ["claude-code"],
 					dependencies: 0,
 					dryRun: true,
@@ -219,6 +224,7 @@ describe("syncWithSelection", () => {
 			runSyncMock.mockResolvedValueOnce({
 				ok: true,
 				value: {
+					agentChanges: [],
 					agents: ["claude-code"],
 					dependencies: 3,
 					dryRun: false,
@@ -237,7 +243,7 @@ describe("syncWithSelection", () => {
 
 			expect(result).toEqual({
 				status: "completed",
-				value: undefined,
+				value: expect.objectContaining({ installed: 2, removed: 1 }),
 			})
 		})
 
@@ -283,6 +289,7 @@ describe("syncWithSelection", () => {
 			runSyncMock.mockResolvedValueOnce({
 				ok: true,
 				value: {
+					agentChanges: [],
 					agents: ["claude-code"],
 					dependencies: 0,
 					dryRun: false,
@@ -321,6 +328,7 @@ describe("syncWithSelection", () => {
 			runSyncMock.mockResolvedValueOnce({
 				ok: true,
 				value: {
+					agentChanges: [],
 					agents: ["claude-code", "codex"],
 					dependencies: 0,
 					dryRun: false,
@@ -371,6 +379,7 @@ describe("syncWithSelection", () => {
 			runSyncMock.mockResolvedValueOnce({
 				ok: true,
 				value: {
+					agentChanges: [],
 					agents: ["claude-code"],
 					dependencies: 0,
 					dryRun: false,
@@ -399,6 +408,58 @@ describe("syncWithSelection", () => {
 		})
 	})
 
+	describe("workspaces", () => {
+		it("syncs every member with a root-relative name and skips a bare root", async () => {
+			await withTempDir(async (dir) => {
+				await createTestProject(join(dir, "apps", "web"), {
+					agents: ["claude-code"],
+				})
+				await createTestProject(join(dir, "apps", "api"), { agents: ["codex"] })
+				const root: Manifest = {
+					...createEmptyManifest(abs(join(dir, "agents.toml")), "cwd"),
+					workspace: { members: [nes("apps/*")] },
+				}
+				const selection: ManifestSelection = {
+					...buildSelection(root),
+					manifestPath: abs(join(dir, "agents.toml")),
+					scopeRoot: abs(dir),
+				}
+				runSyncMock.mockImplementation(async (options) => ({
+					ok: true,
+					value: {
+						agentChanges: options.agents.map((agent) => ({
+							agentId: agent.id,
+							installed: ["pkg-skill"],
+							removed: [],
+						})),
+						agents: options.agents.map((agent) => agent.displayName),
+						dependencies: 1,
+						dryRun: false,
+						installed: 1,
+						manifests: 1,
+						removed: 0,
+						warnings: [],
+					},
+				}))
+
+				const result = await syncWithSelection(selection, {
+					dryRun: false,
+					nonInteractive: true,
+				})
+
+				expect(runSyncMock).toHaveBeenCalledTimes(2)
+				expect(result.status === "completed" && result.value).toMatchObject({
+					agentChanges: [
+						{ agentId: "codex", member: "apps/api" },
+						{ agentId: "claude-code", member: "apps/web" },
+					],
+					installed: 2,
+					manifests: 2,
+				})
+			})
+		})
+	})
+
 	describe("error handling", () => {
 		it("returns failed and sets exitCode on thrown error", async () => {
 			let manifest = createEmptyManifest(manifestPath, "cwd")
@@ -1,5 +1,11 @@
-import { isCancel, multiselect } from "@clack/prompts"
-import type { AgentId } from "@skills-supply/core"
+import path from "node:path"
+import { confirm, isCancel, multiselect } from "@clack/prompts"
+import {
+	type AbsolutePath,
+	type AgentId,
+	type Alias,
+	MANIFEST_FILENAME,
+} from "@skills-supply/core"
 import { consola } from "consola"
 import {
 	type AgentScope,
@@ -12,21 +18,74 @@ import type { ResolvedAgent } from "@/agents/types"
 import {
 	buildParentPromptMessage,
 	type ManifestSelection,
+	reloadManifestSelection,
+	resolveGlobalLayer,
 	resolveGlobalManifest,
 	resolveLocalManifest,
+	resolveWorkspaceMembers,
 	warnIfSubdirectory,
 } from "@/commands/manifest-selection"
-import { CommandResult, printOutcome } from "@/commands/types"
+import { isJsonOutput } from "@/commands/output"
+import { CommandResult, formatErrorChain, printOutcome } from "@/commands/types"
+import { type PathWatcher, watchDirectories } from "@/io/watch"
+import { resolveLockPath } from "@/lock/fs"
 import { saveManifest } from "@/manifest/fs"
 import { getEnabledAgents, setAgent } from "@/manifest/transform"
 import type { Manifest } from "@/manifest/types"
-import { runSync } from "@/sync/sync"
+import { resolveManifestPackages } from "@/packages/resolve"
+import type { LocalPackage } from "@/packages/types"
+import { runLayeredSync } from "@/sync/layers"
+import { resyncLocalPackages, runSync } from "@/sync/sync"
+import { resolveStagingPrefix } from "@/sync/transaction"
+import type {
+	AgentSkillChanges,
+	McpServerChanges,
+	NativePluginChanges,
+	RepoFetchEvent,
+	SkillDrift,
+	SyncResult,
+	SyncSummary,
+} from "@/sync/types"
+import { runWorkspaceSync, type WorkspaceSyncTarget } from "@/sync/workspace"
+import { diffLines } from "@/utils/diff"
+import { formatTable } from "@/utils/table"
 
 export async function syncCommand(options: {
+	check: boolean
 	dryRun: boolean
+	force: boolean
 	global: boolean
+	jobs: string | undefined
 	nonInteractive: boolean
+	transitive: boolean
+	update: boolean
+	watch: boolean
 }): Promise<void> {
+	if (options.watch && (options.check || options.dryRun || isJsonOutput())) {
+		printOutcome(
+			CommandResult.failed({
+				field: "watch",
+				message: "--watch cannot be combined with --check, --dry-run or --json.",
+				source: "manual",
+				type: "validation",
+			}),
+		)
+		return
+	}
+
+	const jobs = options.jobs === undefined ? undefined : Number(options.jobs)
+	if (jobs !== undefined && (!Number.isInteger(jobs) || jobs < 1)) {
+		printOutcome(
+			CommandResult.failed({
+				field: "jobs",
+				message: `--jobs must be a positive whole number, got "${options.jobs}".`,
+				source: "manual",
+				type: "validation",
+			}),
+		)
+		return
+	}
+
 	const selectionResult = options.global
 		? await resolveGlobalManifest({
 				createIfMissing: false,
@@ -51,45 +110,111 @@ export async function syncCommand(options: {
 		return
 	}
 
-	const result = await syncWithSelection(selectionResult.value, {
+	const selection = selectionResult.value
+	if (options.watch && selection.scope === "local" && selection.manifest.workspace) {
+		printOutcome(
+			CommandResult.failed({
+				field: "watch",
+				message:
+					"--watch does not support workspace roots. Run it in a member directory.",
+				source: "manual",
+				type: "validation",
+			}),
+		)
+		return
+	}
+
+	const syncOptions = {
+		check: options.check,
 		dryRun: options.dryRun,
+		force: options.force,
+		jobs,
 		nonInteractive: options.nonInteractive,
-	})
+		transitive: options.transitive,
+		update: options.update,
+	}
+	const result = await syncWithSelection(selection, syncOptions)
 	printOutcome(result)
+	if (result.status === "completed" && result.value.drift?.length) {
+		process.exitCode = 1
+	}
+
+	// A failed first sync is often what the user is about to fix
+	if (options.watch && result.status !== "cancelled") {
+		await watchSync(selection, { ...syncOptions, update: false })
+	}
 }
 
 export async function syncWithSelection(
 	selection: ManifestSelection,
-	options: { dryRun: boolean; nonInteractive: boolean },
-): Promise<CommandResult<void>> {
+	options: {
+		/** Dry run that also reports drift between the plan and the disk */
+		check?: boolean
+		dryRun: boolean
+		force?: boolean
+		jobs?: number
+		nonInteractive: boolean
+		transitive?: boolean
+		update?: boolean | Alias[]
+	},
+): Promise<CommandResult<SyncSummary>> {
 	consola.info("sk sync")
 
 	if (selection.scope === "local") {
 		warnIfSubdirectory(selection)
 	}
 
-	const agentResult = await resolveSyncAgents(selection, options.nonInteractive)
-	if (agentResult.status !== "completed") {
-		return agentResult
+	const targetResult = await resolveSyncTargets(selection, options.nonInteractive)
+	if (targetResult.status !== "completed") {
+		return targetResult
 	}
 
-	consola.start(options.dryRun ? "Planning sync..." : "Syncing skills...")
+	const layerResult =
+		selection.scope === "local"
+			? await resolveGlobalLayer()
+			: CommandResult.completed(null)
+	if (layerResult.status !== "completed") {
+		return layerResult
+	}
+	const globalLayer = layerResult.value
+	if (globalLayer) {
+		consola.info(
+			`Applying global dependencies from ${globalLayer.origin.sourcePath}.`,
+		)
+	}
 
-	const result = await runSync({
-		agents: agentResult.value.agents,
-		dryRun: options.dryRun,
-		manifest: agentResult.value.manifest,
-	})
+	const dryRun = options.dryRun || Boolean(options.check)
+	consola.start(dryRun ? "Planning sync..." : "Syncing skills...")
+
+	const syncOptions = {
+		check: options.check,
+		confirmOverwrite: options.nonInteractive ? undefined : confirmOverwriteEdited,
+		dryRun,
+		force: options.force,
+		jobs: options.jobs,
+		onProgress: reportFetchProgress,
+		transitive: options.transitive,
+		update: options.update,
+	}
+	const targets = targetResult.value
+	let result: SyncResult<SyncSummary>
+	if (targets.type === "workspace") {
+		result = await runWorkspaceSync(targets.members, syncOptions, globalLayer)
+	} else if (selection.scope === "local") {
+		result = await runLayeredSync({ ...syncOptions, ...targets.data }, globalLayer)
+	} else {
+		result = await runSync({ ...syncOptions, ...targets.data })
+	}
 	if (!result.ok) {
 		return CommandResult.failed(result.error)
 	}
 
 	if (result.value.noOpReason === "no-dependencies") {
-		consola.success(options.dryRun ? "Plan complete." : "Sync complete.")
+		consola.success(dryRun ? "Plan complete." : "Sync complete.")
 		return CommandResult.unchanged("No dependencies to sync.")
 	}
 
-	consola.success(options.dryRun ? "Plan complete." : "Sync complete.")
+	consola.success(dryRun ? "Plan complete." : "Sync complete.")
 	consola.info(`Found ${result.value.manifests} manifest(s).`)
 	consola.info(
 		`Resolved ${result.value.dependencies} dependenc${
@@ -98,25 +223,393 @@ export async function syncWithSelection(
 	)
 	consola.info(`Enabled agents: ${result.value.agents.join(", ")}`)
 
-	const installVerb = options.dryRun ? "Would install" : "Installed"
-	const removeVerb = options.dryRun ? "remove" : "removed"
+	const installVerb = dryRun ? "Would install" : "Installed"
+	const removeVerb = dryRun ? "remove" : "removed"
 	consola.info(
 		`${installVerb} ${result.value.installed} skill(s), ${removeVerb} ${result.value.removed} stale skill(s).`,
 	)
+	const plugins = countPluginChanges(result.value.agentChanges)
+	if (plugins.installed + plugins.uninstalled + plugins.removedMarketplaces > 0) {
+		consola.info(
+			`${installVerb} ${plugins.installed} Claude plugin(s), ${
+				dryRun ? "uninstall" : "uninstalled"
+			} ${plugins.uninstalled}, ${removeVerb} ${plugins.removedMarketplaces} unused marketplace(s).`,
+		)
+	}
+	const mcpServers = countMcpChanges(result.value.agentChanges)
+	if (mcpServers.added + mcpServers.updated + mcpServers.removed > 0) {
+		consola.info(
+			`${dryRun ? "Would add" : "Added"} ${mcpServers.added} MCP server(s), ${
+				dryRun ? "update" : "updated"
+			} ${mcpServers.updated}, ${removeVerb} ${mcpServers.removed}.`,
+		)
+	}
+	printInstructionsChanges(result.value.agentChanges, dryRun)
 
 	for (const warning of result.value.warnings) {
 		consola.warn(warning)
 	}
 
-	return CommandResult.completed(undefined)
+	if (result.value.drift) {
+		printDrift(result.value.drift)
+	}
+
+	return CommandResult.completed(result.value)
+}
+
+type SyncWithSelectionOptions = Parameters<typeof syncWithSelection>[1]
+
+const WATCH_DEBOUNCE_MS = 200
+
+/**
+ * Keep the agents in sync with the manifest and its local packages until
+ * interrupted. Editing agents.toml, or the agents.toml of a local package,
+ * re-runs the whole sync; any other change re-extracts only the local
+ * packages it touched. Failures, such as invalid skill frontmatter, are
+ * printed and watching continues.
+ */
+async function watchSync(
+	selection: ManifestSelection,
+	options: SyncWithSelectionOptions,
+): Promise<void> {
+	let current = selection
+	let agents: ResolvedAgent[] = []
+	let locals: LocalPackage[] = []
+	let watcher: PathWatcher | null = null
+	let timer: NodeJS.Timeout | undefined
+	let running: Promise<void> = Promise.resolve()
+	let stopped = false
+	const pending = new Set<string>()
+
+	const onChange = (changedPath: string): void => {
+		if (isOwnOutput(changedPath, current, agents)) {
+			return
+		}
+		pending.add(changedPath)
+		clearTimeout(timer)
+		timer = setTimeout(() => {
+			running = running.then(flush)
+		}, WATCH_DEBOUNCE_MS)
+	}
+
+	const startWatching = async (): Promise<void> => {
+		watcher?.close()
+		if (stopped) {
+			return
+		}
+		const agentResult = await resolveSyncAgents(current, true)
+		agents = agentResult.status === "completed" ? agentResult.value.agents : []
+		locals = resolveManifestPackages(current.manifest).filter(
+			(pkg): pkg is LocalPackage => pkg.type === "local",
+		)
+
+		const watched = await watchDirectories(
+			[
+				{
+					path: path.dirname(current.manifestPath) as AbsolutePath,
+					recursive: false,
+				},
+				...locals.map((pkg) => ({ path: pkg.absolutePath, recursive: true })),
+			],
+			onChange,
+		)
+		if (!watched.ok) {
+			watcher = null
+			consola.error(formatErrorChain(watched.error))
+			return
+		}
+		watcher = watched.value
+		if (stopped) {
+			watcher.close()
+			return
+		}
+		consola.info(
+			`Watching ${current.manifestPath} and ${locals.length} local package(s). Press Ctrl+C to stop.`,
+		)
+	}
+
+	const flush = async (): Promise<void> => {
+		if (stopped) {
+			return
+		}
+		const changed = [...pending]
+		pending.clear()
+
+		const manifestPaths = new Set([
+			current.manifestPath,
+			...locals.map((pkg) => path.join(pkg.absolutePath, MANIFEST_FILENAME)),
+		])
+		if (changed.some((changedPath) => manifestPaths.has(changedPath))) {
+			consola.info("Manifest changed, syncing...")
+			const reloaded = await reloadManifestSelection(current)
+			if (reloaded.status !== "completed") {
+				reportWatchOutcome(reloaded)
+				return
+			}
+			current = reloaded.value
+			reportWatchOutcome(
+				await syncWithSelection(current, { ...options, nonInteractive: true }),
+			)
+			await startWatching()
+			return
+		}
+
+		const affected = locals.filter((pkg) =>
+			changed.some((changedPath) => isInside(pkg.absolutePath, changedPath)),
+		)
+		if (affected.length === 0 || agents.length === 0) {
+			return
+		}
+
+		consola.info(
+			`Changed: ${affected.map((pkg) => String(pkg.origin.alias)).join(", ")}`,
+		)
+		const result = await resyncLocalPackages(affected, {
+			agents,
+			force: options.force,
+			manifest: current.manifest,
+		})
+		if (!result.ok) {
+			consola.error(formatErrorChain(result.error))
+			return
+		}
+
+		for (const warning of result.value.warnings) {
+			consola.warn(warning)
+		}
+		for (const changes of result.value.agentChanges) {
+			consola.success(formatWatchChanges(changes))
+		}
+	}
+
+	await startWatching()
+	await new Promise<void>((resolve) => {
+		process.once("SIGINT", () => {
+			stopped = true
+			clearTimeout(timer)
+			watcher?.close()
+			resolve()
+		})
+	})
+	await running
+}
+
+/**
+ * Writes sync makes itself: skills, rule files, staging directories and state
+ * files of agents, and agents.lock. A local package at the project root would
+ * otherwise trigger a re-sync after every sync.
+ */
+function isOwnOutput(
+	changedPath: string,
+	selection: ManifestSelection,
+	agents: ResolvedAgent[],
+): boolean {
+	return (
+		changedPath === resolveLockPath(selection.manifest) ||
+		agents.some(
+			(agent) =>
+				isInside(agent.rootPath, changedPath) ||
+				isInside(agent.skillsPath, changedPath) ||
+				(agent.rules !== undefined && isInside(agent.rules.path, changedPath)) ||
+				changedPath.startsWith(resolveStagingPrefix(agent)),
+		)
+	)
+}
+
+function isInside(dir: string, candidate: string): boolean {
+	const relative = path.relative(dir, candidate)
+	return !relative.startsWith("..") && !path.isAbsolute(relative)
+}
+
+function reportWatchOutcome(result: CommandResult<unknown>): void {
+	if (result.status === "failed") {
+		consola.error(formatErrorChain(result.error))
+	} else if (result.status === "unchanged") {
+		consola.info(result.reason)
+	}
+}
+
+function formatWatchChanges(changes: AgentSkillChanges): string {
+	const parts: string[] = []
+	if (changes.installed.length > 0) {
+		parts.push(`synced ${changes.installed.join(", ")}`)
+	}
+	if (changes.removed.length > 0) {
+		parts.push(`removed ${changes.removed.join(", ")}`)
+	}
+	return `${changes.agentId}: ${parts.join("; ") || "no skills"}`
+}
+
+function countPluginChanges(
+	changes: AgentSkillChanges[],
+): Record<keyof NativePluginChanges, number> {
+	const counts = { installed: 0, removedMarketplaces: 0, uninstalled: 0 }
+	for (const { plugins } of changes) {
+		counts.installed += plugins?.installed.length ?? 0
+		counts.removedMarketplaces += plugins?.removedMarketplaces.length ?? 0
+		counts.uninstalled += plugins?.uninstalled.length ?? 0
+	}
+	return counts
+}
+
+function countMcpChanges(
+	changes: AgentSkillChanges[],
+): Record<keyof McpServerChanges, number> {
+	const counts = { added: 0, removed: 0, updated: 0 }
+	for (const { mcpServers } of changes) {
+		counts.added += mcpServers?.added.length ?? 0
+		counts.removed += mcpServers?.removed.length ?? 0
+		counts.updated += mcpServers?.updated.length ?? 0
+	}
+	return counts
+}
+
+const INSTRUCTIONS_ACTIONS = {
+	add: "Added",
+	remove: "Removed",
+	update: "Updated",
+} as const
+
+/**
+ * Each instructions block added, updated or removed, with the line diff of
+ * its contents for dry runs. Agents sharing a file report it once.
+ */
+function printInstructionsChanges(changes: AgentSkillChanges[], dryRun: boolean): void {
+	const printed = new Set<string>()
+	for (const { instructions } of changes) {
+		if (!instructions || printed.has(instructions.path)) {
+			continue
+		}
+		printed.add(instructions.path)
+
+		for (const block of instructions.blocks) {
+			const action =
+				block.before === null ? "add" : block.after === null ? "remove" : "update"
+			consola.info(
+				`${dryRun ? `Would ${action}` : INSTRUCTIONS_ACTIONS[action]} the instructions of "${block.alias}" in ${instructions.path}.`,
+			)
+			if (dryRun) {
+				consola.log(diffLines(block.before ?? "", block.after ?? "").join("\n"))
+			}
+		}
+	}
+}
+
+function printDrift(drift: SkillDrift[]): void {
+	if (drift.length === 0) {
+		consola.success("Installed skills match agents.toml.")
+		return
+	}
+
+	consola.warn(`${drift.length} skill(s) differ from agents.toml:`)
+	if (drift.some((entry) => entry.member !== undefined)) {
+		consola.log(
+			formatTable(
+				["Member", "Agent", "Skill", "Problem"],
+				drift.map((entry) => [
+					entry.member ?? ".",
+					entry.agentId,
+					formatDriftSkill(entry),
+					entry.kind,
+				]),
+			),
+		)
+		return
+	}
+
+	consola.log(
+		formatTable(
+			["Agent", "Skill", "Problem"],
+			drift.map((entry) => [entry.agentId, formatDriftSkill(entry), entry.kind]),
+		),
+	)
+}
+
+function formatDriftSkill(drift: SkillDrift): string {
+	return drift.layer === "global" ? `${drift.skill} (global)` : drift.skill
+}
+
+async function confirmOverwriteEdited(
+	agent: ResolvedAgent,
+	skills: string[],
+): Promise<boolean> {
+	const overwrite = await confirm({
+		initialValue: false,
+		message: `Skills edited since sk installed them for ${agent.displayName}: ${skills.join(", ")}. Overwrite them?`,
+	})
+	return !isCancel(overwrite) && overwrite
+}
+
+function reportFetchProgress(event: RepoFetchEvent): void {
+	switch (event.status) {
+		case "fetching":
+			consola.start(`Fetching ${event.source}...`)
+			break
+		case "fetched":
+			consola.success(`Fetched ${event.source} (${event.commit.slice(0, 7)})`)
+			break
+		case "cached":
+			consola.success(`Using cached ${event.source} (${event.commit.slice(0, 7)})`)
+			break
+	}
 }
 
 type SyncAgentsData = { agents: ResolvedAgent[]; manifest: Manifest }
 
+type SyncTargets =
+	| { type: "manifest"; data: SyncAgentsData }
+	| { type: "workspace"; members: WorkspaceSyncTarget[] }
+
 const NO_AGENTS_CONFIGURED = "No agents configured. Use `sk agent add` to enable agents."
 const NO_AGENTS_ENABLED =
 	"All agents are disabled. Use `sk agent add` or enable agents in the [agents] section."
 
+async function resolveSyncTargets(
+	selection: ManifestSelection,
+	nonInteractive: boolean,
+): Promise<CommandResult<SyncTargets>> {
+	if (selection.scope !== "local" || !selection.manifest.workspace) {
+		const agentResult = await resolveSyncAgents(selection, nonInteractive)
+		if (agentResult.status !== "completed") {
+			return agentResult
+		}
+		return CommandResult.completed({ data: agentResult.value, type: "manifest" })
+	}
+
+	const membersResult = await resolveWorkspaceMembers(selection)
+	if (membersResult.status !== "completed") {
+		return membersResult
+	}
+
+	// A root that only lists members has nothing of its own to sync
+	const root = selection.manifest
+	const manifests =
+		root.agents.size > 0 || root.dependencies.size > 0
+			? [selection, ...membersResult.value]
+			: membersResult.value
+
+	const members: WorkspaceSyncTarget[] = []
+	for (const manifest of manifests) {
+		const member = path.relative(selection.scopeRoot, manifest.scopeRoot) || "."
+		const agentResult = await resolveSyncAgents(manifest, nonInteractive)
+		if (agentResult.status === "unchanged") {
+			consola.warn(`Skipping ${member}: ${agentResult.reason}`)
+			continue
+		}
+		if (agentResult.status !== "completed") {
+			return agentResult
+		}
+		members.push({ member, ...agentResult.value })
+	}
+
+	if (members.length === 0) {
+		return CommandResult.unchanged("No workspace members to sync.")
+	}
+
+	consola.info(`Workspace members: ${members.map(({ member }) => member).join(", ")}`)
+	return CommandResult.completed({ members, type: "workspace" })
+}
+
 async function resolveSyncAgents(
 	selection: ManifestSelection,
 	nonInteractive: boolean,
@@ -127,8 +620,8 @@ async function resolveSyncAgents(
 			return CommandResult.unchanged(NO_AGENTS_CONFIGURED)
 		}
 
-		const agents = listAgents()
-		const detectionResult = await getAgentDetectionMap()
+		const agents = listAgents(manifest.customAgents)
+		const detectionResult = await getAgentDetectionMap(manifest.customAgents)
 		if (!detectionResult.ok) {
 			return CommandResult.failed(detectionResult.error)
 		}
@@ -193,7 +686,7 @@ async function resolveSyncAgents(
 			: { projectRoot: selection.scopeRoot, type: "local" }
 	const agents: ResolvedAgent[] = []
 	for (const agentId of enabled) {
-		const lookup = getAgentById(agentId)
+		const lookup = getAgentById(agentId, manifest.customAgents)
 		if (!lookup.ok) {
 			return CommandResult.failed(lookup.error)
 		}
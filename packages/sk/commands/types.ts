@@ -1,6 +1,7 @@
 import type { BaseError } from "@skills-supply/core"
 import { consola } from "consola"
 import type { ZodError } from "zod"
+import { isJsonOutput, printJsonOutcome } from "@/commands/output"
 import type { SkError } from "@/types/errors"
 
 // CommandResult models user-facing flow outcomes; core operations keep { ok, value } results.
@@ -21,6 +22,14 @@ export const CommandResult = {
 } as const
 
 export function printOutcome(result: CommandResult<unknown>): void {
+	if (isJsonOutput()) {
+		printJsonOutcome(result)
+		if (result.status === "failed") {
+			process.exitCode = 1
+		}
+		return
+	}
+
 	switch (result.status) {
 		case "completed":
 			consola.success("Done.")
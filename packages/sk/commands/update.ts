@@ -0,0 +1,272 @@
+import { type Alias, coerceAlias } from "@skills-supply/core"
+import { consola } from "consola"
+import { resolveCacheRoot } from "@/cache/fs"
+import {
+	buildParentPromptMessage,
+	type ManifestSelection,
+	resolveGlobalManifest,
+	resolveLocalManifest,
+} from "@/commands/manifest-selection"
+import { syncWithSelection } from "@/commands/sync"
+import { CommandResult, printOutcome } from "@/commands/types"
+import { findLockedPackage, readLockfile, resolveLockPath, toLockedRef } from "@/lock/fs"
+import type { Lockfile } from "@/lock/types"
+import { saveManifest } from "@/manifest/fs"
+import { addDependency } from "@/manifest/transform"
+import { resolveValidatedDependency, toValidatedDeclaration } from "@/packages/resolve"
+import { createRepoCache } from "@/sync/cache"
+import type { SyncSummary } from "@/sync/types"
+import { findDependencyUpdate } from "@/upstream/remote"
+import { collectSkillHashes, diffSkills } from "@/upstream/skills"
+import type { DependencyUpdate } from "@/upstream/types"
+
+export interface UpdateCommandOptions {
+	dryRun: boolean
+	global: boolean
+	latest: boolean
+	nonInteractive: boolean
+}
+
+export async function updateCommand(
+	aliases: string[],
+	options: UpdateCommandOptions,
+): Promise<void> {
+	const selectionResult = options.global
+		? await resolveGlobalManifest({
+				createIfMissing: false,
+				nonInteractive: options.nonInteractive,
+				promptToCreate: false,
+			})
+		: await resolveLocalManifest({
+				createIfMissing: false,
+				nonInteractive: options.nonInteractive,
+				parentPrompt: {
+					buildMessage: (projectRoot, cwd) =>
+						buildParentPromptMessage(projectRoot, cwd, { action: "modify" }),
+				},
+				promptToCreate: false,
+			})
+
+	if (selectionResult.status !== "completed") {
+		printOutcome(selectionResult)
+		return
+	}
+
+	const result = await updateWithSelection(selectionResult.value, aliases, options)
+	printOutcome(result)
+}
+
+export async function updateWithSelection(
+	selection: ManifestSelection,
+	aliases: string[],
+	options: Omit<UpdateCommandOptions, "global">,
+): Promise<CommandResult<SyncSummary | undefined>> {
+	consola.info("sk update")
+
+	const manifest = selection.manifest
+	const targets = resolveTargets(selection, aliases)
+	if (targets.status !== "completed") {
+		return targets
+	}
+
+	const lockResult = await readLockfile(resolveLockPath(manifest))
+	if (!lockResult.ok) {
+		return CommandResult.failed(lockResult.error)
+	}
+
+	consola.start("Checking for updates...")
+	const updates = await findUpdates(selection, targets.value, {
+		explicit: aliases.length > 0,
+		latest: options.latest,
+		lockfile: lockResult.value,
+	})
+	if (updates.status !== "completed") {
+		return updates
+	}
+
+	if (updates.value.length === 0) {
+		return CommandResult.unchanged("All dependencies are up to date.")
+	}
+
+	const report = await reportUpdates(updates.value, lockResult.value)
+	if (report.status !== "completed") {
+		return report
+	}
+
+	if (options.dryRun) {
+		consola.info("Dry run: manifest and lockfile not changed.")
+		return CommandResult.completed(undefined)
+	}
+
+	let updated = manifest
+	for (const update of updates.value) {
+		if (update.kind !== "commit") {
+			updated = addDependency(
+				updated,
+				update.alias,
+				toValidatedDeclaration(update.next),
+			)
+		}
+	}
+
+	if (updated !== manifest) {
+		const saved = await saveManifest(
+			updated,
+			selection.manifestPath,
+			selection.serializeOptions,
+		)
+		if (!saved.ok) {
+			return CommandResult.failed(saved.error)
+		}
+		consola.info(`Manifest: ${selection.manifestPath} (updated).`)
+	}
+
+	// Tag and rev bumps change the declaration, which already invalidates the
+	// lock entry; floating refs have to be re-resolved explicitly.
+	const relock = updates.value
+		.filter((update) => update.kind === "commit")
+		.map((update) => update.alias)
+
+	return syncWithSelection(
+		{ ...selection, manifest: updated },
+		{ dryRun: false, nonInteractive: options.nonInteractive, update: relock },
+	)
+}
+
+function resolveTargets(
+	selection: ManifestSelection,
+	aliases: string[],
+): CommandResult<Alias[]> {
+	const dependencies = selection.manifest.dependencies
+	if (aliases.length === 0) {
+		return CommandResult.completed([...dependencies.keys()])
+	}
+
+	const targets: Alias[] = []
+	for (const input of aliases) {
+		const alias = coerceAlias(input)
+		if (!alias) {
+			return CommandResult.failed({
+				field: "alias",
+				message: `Invalid alias: ${input}`,
+				source: "manual",
+				type: "validation",
+			})
+		}
+
+		if (!dependencies.has(alias)) {
+			return CommandResult.failed({
+				message: `Dependency not found: ${alias}. Manifest: ${selection.manifestPath}.`,
+				path: selection.manifestPath,
+				target: "dependency",
+				type: "not_found",
+			})
+		}
+
+		if (!targets.includes(alias)) {
+			targets.push(alias)
+		}
+	}
+
+	return CommandResult.completed(targets)
+}
+
+async function findUpdates(
+	selection: ManifestSelection,
+	targets: Alias[],
+	options: { explicit: boolean; latest: boolean; lockfile: Lockfile | null },
+): Promise<CommandResult<DependencyUpdate[]>> {
+	const updates: DependencyUpdate[] = []
+
+	for (const alias of targets) {
+		const declaration = selection.manifest.dependencies.get(alias)
+		if (!declaration) {
+			continue
+		}
+
+		const canonical = resolveValidatedDependency(declaration, {
+			alias,
+			manifestPath: selection.manifestPath,
+		})
+		if (canonical.type !== "github" && canonical.type !== "git") {
+			if (options.explicit) {
+				consola.warn(
+					`Skipping ${alias}: ${canonical.type} dependencies have no git refs to update.`,
+				)
+			}
+			continue
+		}
+
+		const result = await findDependencyUpdate(canonical, {
+			latest: options.latest,
+			locked: findLockedPackage(options.lockfile, alias, declaration),
+		})
+		if (!result.ok) {
+			return CommandResult.failed(result.error)
+		}
+
+		if (result.value) {
+			updates.push(result.value)
+		}
+	}
+
+	return CommandResult.completed(updates)
+}
+
+async function reportUpdates(
+	updates: DependencyUpdate[],
+	lockfile: Lockfile | null,
+): Promise<CommandResult<void>> {
+	const repoCache = createRepoCache(resolveCacheRoot())
+	for (const update of updates) {
+		const locked = findLockedPackage(
+			lockfile,
+			update.alias,
+			toValidatedDeclaration(update.current),
+		)
+		const currentRef =
+			update.kind === "commit" ? toLockedRef(update.from) : update.current.ref
+		const before =
+			locked && locked.skills.length > 0
+				? { ok: true as const, value: locked.skills }
+				: await collectSkillHashes(update.current, currentRef, repoCache)
+		if (!before.ok) {
+			return CommandResult.failed(before.error)
+		}
+
+		const after = await collectSkillHashes(
+			update.next,
+			toLockedRef(update.nextCommit),
+			repoCache,
+		)
+		if (!after.ok) {
+			return CommandResult.failed(after.error)
+		}
+
+		consola.info(
+			`${update.alias}: ${formatRef(update.from)} → ${formatRef(update.to)}`,
+		)
+		const changes = diffSkills(before.value, after.value)
+		for (const name of changes.added) {
+			consola.log(`  + ${name}`)
+		}
+		for (const name of changes.removed) {
+			consola.log(`  - ${name}`)
+		}
+		for (const name of changes.changed) {
+			consola.log(`  ~ ${name}`)
+		}
+		if (
+			changes.added.length + changes.removed.length + changes.changed.length ===
+			0
+		) {
+			consola.log("  (no skill changes)")
+		}
+	}
+
+	return CommandResult.completed(undefined)
+}
+
+function formatRef(value: string): string {
+	return /^[0-9a-f]{40}$/.test(value) ? value.slice(0, 7) : value
+}
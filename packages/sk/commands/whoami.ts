@@ -1,4 +1,5 @@
 import { consola } from "consola"
+import { CommandResult, printOutcome } from "@/commands/types"
 import { getStoredCredentials } from "@/credentials/retrieve"
 import { SK_BASE_URL } from "@/env"
 import { fetchWithRetry } from "@/utils/fetch"
@@ -12,8 +13,13 @@ export async function whoami(): Promise<void> {
 
 	const creds = getStoredCredentials(SK_BASE_URL)
 	if (!creds) {
-		process.exitCode = 1
-		consola.error("Not authenticated.")
+		printOutcome(
+			CommandResult.failed({
+				message: "Not authenticated.",
+				target: "credentials",
+				type: "not_found",
+			}),
+		)
 		consola.info("Run `sk auth` to authenticate.")
 		return
 	}
@@ -39,4 +45,5 @@ export async function whoami(): Promise<void> {
 
 	consola.success("Identity resolved.")
 	consola.info(username)
+	printOutcome(CommandResult.completed({ username }))
 }
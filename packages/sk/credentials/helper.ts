@@ -19,6 +19,25 @@ export function configureCredentialHelper(baseUrl: string): void {
 	execSync(`git config --global credential.${baseUrl}.helper ${resolvedHelper}`)
 }
 
+/**
+ * The credential helper git uses for baseUrl, or null when none is configured.
+ */
+export function getConfiguredCredentialHelper(baseUrl: string): string | null {
+	try {
+		const helper = execSync(
+			`git config --global --get credential.${baseUrl}.helper`,
+			{
+				encoding: "utf8",
+				stdio: ["ignore", "pipe", "ignore"],
+			},
+		).trim()
+		return helper || null
+	} catch {
+		// git config exits non-zero when the key is unset
+		return null
+	}
+}
+
 function resolveWindowsHelper(): string {
 	try {
 		execSync("git credential-manager-core --version", { stdio: "ignore" })
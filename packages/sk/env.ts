@@ -1,7 +1,13 @@
+import { REGISTRY_API_PATH } from "@skills-supply/core"
+
 export const SK_BASE_URL = normalizeBaseUrl(
 	process.env.SK_BASE_URL ?? "https://api.skills.supply",
 )
 
+export const SK_REGISTRY_URL = normalizeBaseUrl(
+	process.env.SK_REGISTRY_URL ?? `${SK_BASE_URL}/${REGISTRY_API_PATH}`,
+)
+
 function normalizeBaseUrl(baseUrl: string): string {
 	return baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl
 }
@@ -1,4 +1,4 @@
-import { lstat, mkdir, readFile, rm, stat, writeFile } from "node:fs/promises"
+import { lstat, mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
 import path from "node:path"
 import type { AbsolutePath } from "@skills-supply/core"
 import type { IoResult } from "@/io/types"
@@ -159,6 +159,32 @@ export async function removePath(targetPath: string): Promise<IoResult<void>> {
 	}
 }
 
+/**
+ * Rename a file, directory or symlink, creating the parent directories of
+ * the destination. Both paths must be on the same filesystem.
+ */
+export async function movePath(
+	sourcePath: string,
+	targetPath: string,
+): Promise<IoResult<void>> {
+	try {
+		await mkdir(path.dirname(targetPath), { recursive: true })
+		await rename(sourcePath, targetPath)
+		return { ok: true, value: undefined }
+	} catch (error) {
+		return {
+			error: {
+				message: `Unable to move ${sourcePath} to ${targetPath}.`,
+				operation: "rename",
+				path: toAbsolutePath(targetPath),
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			ok: false,
+		}
+	}
+}
+
 function toAbsolutePath(value: string): AbsolutePath {
 	const resolved = path.isAbsolute(value) ? path.normalize(value) : path.resolve(value)
 	return resolved as AbsolutePath
@@ -0,0 +1,91 @@
+import { createHash, type Hash } from "node:crypto"
+import type { Dirent } from "node:fs"
+import { readdir, readFile, readlink } from "node:fs/promises"
+import path from "node:path"
+import type { AbsolutePath } from "@skills-supply/core"
+import type { IoResult } from "@/io/types"
+
+const HASH_PREFIX = "sha256-"
+
+/**
+ * Hash a directory tree by relative path and file contents.
+ * Symlinks inside the tree are hashed by their link target, not followed.
+ */
+export async function hashDirectory(rootPath: string): Promise<IoResult<string>> {
+	const hash = createHash("sha256")
+	const result = await hashEntries(hash, rootPath, "")
+	if (!result.ok) {
+		return result
+	}
+
+	return { ok: true, value: `${HASH_PREFIX}${hash.digest("hex")}` }
+}
+
+async function hashEntries(
+	hash: Hash,
+	rootPath: string,
+	relativeDir: string,
+): Promise<IoResult<void>> {
+	const dirPath = path.join(rootPath, relativeDir)
+	let entries: Dirent[]
+	try {
+		entries = await readdir(dirPath, { withFileTypes: true })
+	} catch (error) {
+		return ioError(dirPath, "readdir", error)
+	}
+
+	entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+
+	for (const entry of entries) {
+		const relativePath = relativeDir
+			? path.posix.join(relativeDir, entry.name)
+			: entry.name
+		const entryPath = path.join(rootPath, relativePath)
+
+		if (entry.isDirectory()) {
+			const nested = await hashEntries(hash, rootPath, relativePath)
+			if (!nested.ok) {
+				return nested
+			}
+			continue
+		}
+
+		if (entry.isSymbolicLink()) {
+			try {
+				const target = await readlink(entryPath)
+				hash.update(`link\0${relativePath}\0${target}\0`)
+			} catch (error) {
+				return ioError(entryPath, "readlink", error)
+			}
+			continue
+		}
+
+		if (!entry.isFile()) {
+			continue
+		}
+
+		try {
+			const contents = await readFile(entryPath)
+			hash.update(`file\0${relativePath}\0`)
+			hash.update(contents)
+			hash.update("\0")
+		} catch (error) {
+			return ioError(entryPath, "readFile", error)
+		}
+	}
+
+	return { ok: true, value: undefined }
+}
+
+function ioError(targetPath: string, operation: string, error: unknown): IoResult<never> {
+	return {
+		error: {
+			message: `Unable to hash ${targetPath}.`,
+			operation,
+			path: path.resolve(targetPath) as AbsolutePath,
+			rawError: error instanceof Error ? error : undefined,
+			type: "io",
+		},
+		ok: false,
+	}
+}
@@ -0,0 +1,92 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { watchDirectories } from "@/io/watch"
+import { abs } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+
+async function waitFor(check: () => boolean): Promise<void> {
+	for (let attempt = 0; attempt < 100 && !check(); attempt++) {
+		await new Promise((resolve) => setTimeout(resolve, 20))
+	}
+}
+
+describe("watchDirectories", () => {
+	it("reports changes in nested and newly created directories", async () => {
+		await withTempDir(async (dir) => {
+			await mkdir(join(dir, "skills", "outline"), { recursive: true })
+			const changed = new Set<string>()
+			const watched = await watchDirectories(
+				[{ path: abs(dir), recursive: true }],
+				(changedPath) => changed.add(changedPath),
+			)
+			if (!watched.ok) {
+				throw new Error(watched.error.message)
+			}
+
+			try {
+				const existing = join(dir, "skills", "outline", "SKILL.md")
+				await writeFile(existing, "# Outline\n")
+				await waitFor(() => changed.has(existing))
+				expect(changed).toContain(existing)
+
+				await mkdir(join(dir, "skills", "review"))
+				await waitFor(() => changed.has(join(dir, "skills", "review")))
+				// The new directory is watched once its creation is reported
+				await new Promise((resolve) => setTimeout(resolve, 50))
+				const created = join(dir, "skills", "review", "SKILL.md")
+				await writeFile(created, "# Review\n")
+				await waitFor(() => changed.has(created))
+				expect(changed).toContain(created)
+			} finally {
+				watched.value.close()
+			}
+		})
+	})
+
+	it("watches only the top level of non-recursive targets", async () => {
+		await withTempDir(async (dir) => {
+			await mkdir(join(dir, "nested"))
+			const changed = new Set<string>()
+			const watched = await watchDirectories(
+				[{ path: abs(dir), recursive: false }],
+				(changedPath) => changed.add(changedPath),
+			)
+			if (!watched.ok) {
+				throw new Error(watched.error.message)
+			}
+
+			try {
+				await writeFile(join(dir, "nested", "ignored.md"), "")
+				await writeFile(join(dir, "agents.toml"), "[agents]\n")
+				await waitFor(() => changed.has(join(dir, "agents.toml")))
+
+				expect(changed).toContain(join(dir, "agents.toml"))
+				expect(changed).not.toContain(join(dir, "nested", "ignored.md"))
+			} finally {
+				watched.value.close()
+			}
+		})
+	})
+
+	it("skips targets that do not exist and rejects files", async () => {
+		await withTempDir(async (dir) => {
+			await writeFile(join(dir, "agents.toml"), "")
+
+			const missing = await watchDirectories(
+				[{ path: abs(join(dir, "missing")), recursive: true }],
+				() => {},
+			)
+			expect(missing.ok).toBe(true)
+			if (missing.ok) {
+				missing.value.close()
+			}
+
+			const file = await watchDirectories(
+				[{ path: abs(join(dir, "agents.toml")), recursive: false }],
+				() => {},
+			)
+			expect(file).toMatchObject({ error: { operation: "watch" }, ok: false })
+		})
+	})
+})
@@ -0,0 +1,120 @@
+import { type FSWatcher, watch } from "node:fs"
+import { readdir } from "node:fs/promises"
+import path from "node:path"
+import type { AbsolutePath } from "@skills-supply/core"
+import { safeStat } from "@/io/fs"
+import type { IoResult } from "@/io/types"
+
+export interface WatchTarget {
+	path: AbsolutePath
+	/** Also watch every directory below path, including ones created later */
+	recursive: boolean
+}
+
+export interface PathWatcher {
+	close: () => void
+}
+
+// Never worth re-syncing for, and large enough to exhaust watch handles
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules"])
+
+/**
+ * Watch directories and call onChange with the path of every entry created,
+ * changed or removed in them. Targets that do not exist are skipped.
+ * Recursive targets watch each subdirectory separately: recursive fs.watch is
+ * missing on Linux before Node 20.
+ */
+export async function watchDirectories(
+	targets: WatchTarget[],
+	onChange: (changedPath: string) => void,
+): Promise<IoResult<PathWatcher>> {
+	const watchers = new Map<string, FSWatcher>()
+
+	const watchDirectory = async (dir: string, recursive: boolean): Promise<void> => {
+		if (watchers.has(dir)) {
+			return
+		}
+
+		let watcher: FSWatcher
+		try {
+			watcher = watch(dir, (_event, filename) => {
+				const changed = filename ? path.join(dir, filename.toString()) : dir
+				onChange(changed)
+				if (recursive) {
+					void watchIfDirectory(changed)
+				}
+			})
+		} catch {
+			// Removed between listing and watching
+			return
+		}
+		watcher.on("error", () => {
+			watcher.close()
+			watchers.delete(dir)
+		})
+		watchers.set(dir, watcher)
+
+		if (!recursive) {
+			return
+		}
+
+		let entries: Awaited<ReturnType<typeof readdirEntries>>
+		try {
+			entries = await readdirEntries(dir)
+		} catch {
+			return
+		}
+		for (const entry of entries) {
+			if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+				await watchDirectory(path.join(dir, entry.name), true)
+			}
+		}
+	}
+
+	const watchIfDirectory = async (candidate: string): Promise<void> => {
+		if (IGNORED_DIRECTORIES.has(path.basename(candidate))) {
+			return
+		}
+		const stats = await safeStat(candidate)
+		if (stats.ok && stats.value?.isDirectory()) {
+			await watchDirectory(candidate, true)
+		}
+	}
+
+	for (const target of targets) {
+		const stats = await safeStat(target.path)
+		if (!stats.ok) {
+			closeAll(watchers)
+			return stats
+		}
+		if (!stats.value) {
+			continue
+		}
+		if (!stats.value.isDirectory()) {
+			closeAll(watchers)
+			return {
+				error: {
+					message: `Cannot watch ${target.path}: not a directory.`,
+					operation: "watch",
+					path: target.path,
+					type: "io",
+				},
+				ok: false,
+			}
+		}
+		await watchDirectory(target.path, target.recursive)
+	}
+
+	return { ok: true, value: { close: () => closeAll(watchers) } }
+}
+
+function readdirEntries(dir: string) {
+	return readdir(dir, { withFileTypes: true })
+}
+
+function closeAll(watchers: Map<string, FSWatcher>): void {
+	for (const watcher of watchers.values()) {
+		watcher.close()
+	}
+	watchers.clear()
+}
@@ -0,0 +1,391 @@
+import path from "node:path"
+import {
+	type AbsolutePath,
+	type Alias,
+	coerceAlias,
+	coerceNonEmpty,
+	type GitRef,
+	normalizeDeclarationToKey,
+	type ValidatedDeclaration,
+} from "@skills-supply/core"
+import { parse, stringify } from "smol-toml"
+import { readTextFile, safeStat, writeTextFile } from "@/io/fs"
+import type {
+	LockedMarketplace,
+	LockedPackage,
+	LockedSkill,
+	Lockfile,
+	LockfileError,
+	LockfileResult,
+} from "@/lock/types"
+import type { Manifest } from "@/manifest/types"
+
+export const LOCK_FILENAME = "agents.lock"
+const LOCK_VERSION = 1
+
+const DECLARATION_TYPES: ReadonlySet<string> = new Set([
+	"registry",
+	"github",
+	"git",
+	"local",
+	"claude-plugin",
+])
+
+export function resolveLockPath(manifest: Manifest): AbsolutePath {
+	return path.join(
+		path.dirname(manifest.origin.sourcePath),
+		LOCK_FILENAME,
+	) as AbsolutePath
+}
+
+export function createEmptyLockfile(): Lockfile {
+	return { packages: new Map<Alias, LockedPackage>(), version: LOCK_VERSION }
+}
+
+/**
+ * Read agents.lock next to the manifest. Returns null when no lockfile exists.
+ */
+export async function readLockfile(
+	lockPath: AbsolutePath,
+): Promise<LockfileResult<Lockfile | null>> {
+	const stats = await safeStat(lockPath)
+	if (!stats.ok) {
+		return stats
+	}
+
+	if (!stats.value) {
+		return { ok: true, value: null }
+	}
+
+	const contents = await readTextFile(lockPath)
+	if (!contents.ok) {
+		return contents
+	}
+
+	return parseLockfile(contents.value, lockPath)
+}
+
+export async function writeLockfile(
+	lockPath: AbsolutePath,
+	lockfile: Lockfile,
+): Promise<LockfileResult<void>> {
+	return writeTextFile(lockPath, serializeLockfile(lockfile))
+}
+
+/**
+ * Find the lock entry for an alias, but only when it was produced by the same
+ * declaration. Editing a dependency in agents.toml invalidates its lock entry.
+ */
+export function findLockedPackage(
+	lockfile: Lockfile | null,
+	alias: Alias,
+	declaration: ValidatedDeclaration,
+): LockedPackage | undefined {
+	const entry = lockfile?.packages.get(alias)
+	if (!entry) {
+		return undefined
+	}
+
+	return entry.declaration === normalizeDeclarationToKey(declaration)
+		? entry
+		: undefined
+}
+
+/**
+ * Pin a locked commit as a git ref for fetching.
+ */
+export function toLockedRef(commit: string | undefined): GitRef | undefined {
+	const value = commit ? coerceNonEmpty(commit) : null
+	return value ? { type: "rev", value } : undefined
+}
+
+/**
+ * Merge lock information gathered by different agents for the same alias.
+ * Fields already recorded win; missing fields are filled in.
+ */
+export function mergeLockedPackage(
+	existing: LockedPackage | undefined,
+	next: LockedPackage,
+): LockedPackage {
+	if (!existing) {
+		return next
+	}
+
+	return {
+		alias: existing.alias,
+		commit: existing.commit ?? next.commit,
+		declaration: existing.declaration,
+		integrity: existing.integrity ?? next.integrity,
+		marketplace: mergeMarketplace(existing.marketplace, next.marketplace),
+		path: existing.path ?? next.path,
+		skills: existing.skills.length > 0 ? existing.skills : next.skills,
+		type: existing.type,
+		version: existing.version ?? next.version,
+	}
+}
+
+function mergeMarketplace(
+	existing: LockedMarketplace | undefined,
+	next: LockedMarketplace | undefined,
+): LockedMarketplace | undefined {
+	if (!existing || !next) {
+		return existing ?? next
+	}
+
+	return {
+		commit: existing.commit ?? next.commit,
+		plugin: existing.plugin,
+		source: existing.source ?? next.source,
+		spec: existing.spec,
+		version: existing.version ?? next.version,
+	}
+}
+
+export function serializeLockfile(lockfile: Lockfile): string {
+	const packages: Record<string, unknown> = {}
+	const aliases = [...lockfile.packages.keys()].sort()
+
+	for (const alias of aliases) {
+		const entry = lockfile.packages.get(alias)
+		if (!entry) {
+			continue
+		}
+
+		const output: Record<string, unknown> = {
+			declaration: entry.declaration,
+			type: entry.type,
+		}
+		if (entry.commit) {
+			output.commit = entry.commit
+		}
+		if (entry.path) {
+			output.path = entry.path
+		}
+		if (entry.version) {
+			output.version = entry.version
+		}
+		if (entry.integrity) {
+			output.integrity = entry.integrity
+		}
+		if (entry.marketplace) {
+			output.marketplace = serializeMarketplace(entry.marketplace)
+		}
+		if (entry.skills.length > 0) {
+			const skills = [...entry.skills].sort((a, b) => a.name.localeCompare(b.name))
+			output.skills = Object.fromEntries(
+				skills.map((skill) => [skill.name, skill.hash]),
+			)
+		}
+
+		packages[alias] = output
+	}
+
+	const header = "# This file is generated by sk sync. Do not edit it by hand."
+	const body = stringify({ packages, version: lockfile.version }).trimEnd()
+	return `${header}\n\n${body}\n`
+}
+
+export function parseLockfile(
+	contents: string,
+	lockPath: AbsolutePath,
+): LockfileResult<Lockfile> {
+	let parsed: unknown
+	try {
+		parsed = parse(contents)
+	} catch (error) {
+		return {
+			error: {
+				message: `Invalid TOML in ${lockPath}.`,
+				path: lockPath,
+				rawError: error instanceof Error ? error : undefined,
+				source: "agents_lock",
+				type: "parse",
+			},
+			ok: false,
+		}
+	}
+
+	if (!isRecord(parsed)) {
+		return invalid("lock", "Lockfile must be a TOML table.", lockPath)
+	}
+
+	if (parsed.version !== LOCK_VERSION) {
+		return invalid(
+			"version",
+			`Unsupported lockfile version ${String(parsed.version)}.`,
+			lockPath,
+		)
+	}
+
+	const packages = new Map<Alias, LockedPackage>()
+	const rawPackages = parsed.packages ?? {}
+	if (!isRecord(rawPackages)) {
+		return invalid("packages", "Lockfile packages must be a table.", lockPath)
+	}
+
+	for (const [key, value] of Object.entries(rawPackages)) {
+		const entry = parseLockedPackage(key, value, lockPath)
+		if (!entry.ok) {
+			return entry
+		}
+		packages.set(entry.value.alias, entry.value)
+	}
+
+	return { ok: true, value: { packages, version: LOCK_VERSION } }
+}
+
+function parseLockedPackage(
+	key: string,
+	value: unknown,
+	lockPath: AbsolutePath,
+): LockfileResult<LockedPackage> {
+	const alias = coerceAlias(key)
+	if (!alias) {
+		return invalid("packages", `Invalid alias in lockfile: ${key}.`, lockPath)
+	}
+
+	if (!isRecord(value)) {
+		return invalid(`packages.${key}`, "Lock entry must be a table.", lockPath)
+	}
+
+	if (typeof value.declaration !== "string" || !value.declaration.trim()) {
+		return invalid(
+			`packages.${key}.declaration`,
+			"Lock entry declaration must be a non-empty string.",
+			lockPath,
+		)
+	}
+
+	if (typeof value.type !== "string" || !DECLARATION_TYPES.has(value.type)) {
+		return invalid(
+			`packages.${key}.type`,
+			"Lock entry type is not a known declaration type.",
+			lockPath,
+		)
+	}
+
+	const commit = optionalString(value.commit)
+	const entryPath = optionalString(value.path)
+	const version = optionalString(value.version)
+	const integrity = optionalString(value.integrity)
+	if (commit === null || entryPath === null || version === null || integrity === null) {
+		return invalid(
+			`packages.${key}`,
+			"Lock entry commit, path, version and integrity must be strings.",
+			lockPath,
+		)
+	}
+
+	let marketplace: LockedMarketplace | undefined
+	if (value.marketplace !== undefined) {
+		const parsedMarketplace = parseMarketplace(value.marketplace)
+		if (!parsedMarketplace) {
+			return invalid(
+				`packages.${key}.marketplace`,
+				"Lock entry marketplace must include spec and plugin strings.",
+				lockPath,
+			)
+		}
+		marketplace = parsedMarketplace
+	}
+
+	const skills: LockedSkill[] = []
+	if (value.skills !== undefined) {
+		if (!isRecord(value.skills)) {
+			return invalid(
+				`packages.${key}.skills`,
+				"Lock entry skills must be a table of hashes.",
+				lockPath,
+			)
+		}
+		for (const [name, hash] of Object.entries(value.skills)) {
+			if (typeof hash !== "string" || !hash.trim()) {
+				return invalid(
+					`packages.${key}.skills.${name}`,
+					"Skill hash must be a non-empty string.",
+					lockPath,
+				)
+			}
+			skills.push({ hash, name })
+		}
+	}
+
+	return {
+		ok: true,
+		value: {
+			alias,
+			commit,
+			declaration: value.declaration,
+			integrity,
+			marketplace,
+			path: entryPath,
+			skills,
+			type: value.type as ValidatedDeclaration["type"],
+			version,
+		},
+	}
+}
+
+function parseMarketplace(value: unknown): LockedMarketplace | null {
+	if (!isRecord(value)) {
+		return null
+	}
+
+	if (typeof value.spec !== "string" || typeof value.plugin !== "string") {
+		return null
+	}
+
+	const commit = optionalString(value.commit)
+	const source = optionalString(value.source)
+	const version = optionalString(value.version)
+	if (commit === null || source === null || version === null) {
+		return null
+	}
+
+	return { commit, plugin: value.plugin, source, spec: value.spec, version }
+}
+
+function serializeMarketplace(marketplace: LockedMarketplace): Record<string, string> {
+	const output: Record<string, string> = {
+		plugin: marketplace.plugin,
+		spec: marketplace.spec,
+	}
+	if (marketplace.commit) {
+		output.commit = marketplace.commit
+	}
+	if (marketplace.source) {
+		output.source = marketplace.source
+	}
+	if (marketplace.version) {
+		output.version = marketplace.version
+	}
+	return output
+}
+
+function optionalString(value: unknown): string | undefined | null {
+	if (value === undefined) {
+		return undefined
+	}
+	return typeof value === "string" ? value : null
+}
+
+function invalid(
+	field: string,
+	message: string,
+	lockPath: AbsolutePath,
+): { ok: false; error: LockfileError } {
+	return {
+		error: {
+			field,
+			message,
+			path: lockPath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
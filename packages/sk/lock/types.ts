@@ -0,0 +1,49 @@
+import type { Alias, Result, ValidatedDeclaration } from "@skills-supply/core"
+import type { IoError, ParseError, ValidationError } from "@/types/errors"
+
+/**
+ * The marketplace entry a claude-plugin dependency was resolved through.
+ */
+export interface LockedMarketplace {
+	/** Marketplace spec as declared in agents.toml */
+	spec: string
+	/** Commit of the marketplace repository (absent for URL marketplaces) */
+	commit?: string
+	/** Plugin name inside marketplace.json */
+	plugin: string
+	/** Plugin source the marketplace entry resolved to, e.g. github:owner/repo */
+	source?: string
+	/** Version field from the marketplace entry, when present */
+	version?: string
+}
+
+export interface LockedSkill {
+	name: string
+	hash: string
+}
+
+export interface LockedPackage {
+	alias: Alias
+	/** normalizeDeclarationToKey() of the declaration that produced this entry */
+	declaration: string
+	type: ValidatedDeclaration["type"]
+	/** Resolved commit of the fetched repository (github/git/claude-plugin sources) */
+	commit?: string
+	/** Sparse checkout path inside the repository */
+	path?: string
+	/** Release version installed from the registry */
+	version?: string
+	/** Integrity hash of the registry release tarball */
+	integrity?: string
+	marketplace?: LockedMarketplace
+	skills: LockedSkill[]
+}
+
+export interface Lockfile {
+	version: number
+	packages: Map<Alias, LockedPackage>
+}
+
+export type LockfileError = IoError | ParseError | ValidationError
+
+export type LockfileResult<T> = Result<T, LockfileError>
@@ -1,4 +1,10 @@
-import type { AgentId, Alias, ValidatedDeclaration } from "@skills-supply/core"
+import type {
+	AgentId,
+	Alias,
+	CustomAgentDefinition,
+	CustomAgentId,
+	ValidatedDeclaration,
+} from "@skills-supply/core"
 import type { Manifest } from "@/manifest/types"
 
 /**
@@ -44,6 +50,20 @@ export function setAgent(
 	return { ...manifest, agents: newAgents }
 }
 
+/**
+ * Declare a custom agent under [agents.custom.<id>].
+ * Returns a new Manifest with the definition added or replaced.
+ */
+export function setCustomAgent(
+	manifest: Manifest,
+	agentId: CustomAgentId,
+	definition: CustomAgentDefinition,
+): Manifest {
+	const newCustomAgents = new Map(manifest.customAgents)
+	newCustomAgents.set(agentId, definition)
+	return { ...manifest, customAgents: newCustomAgents }
+}
+
 /**
  * Check if the manifest has a dependency with the given alias.
  */
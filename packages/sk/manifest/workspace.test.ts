@@ -0,0 +1,90 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { expandWorkspaceMembers, findWorkspaceMember } from "@/manifest/workspace"
+import { abs } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+
+async function writeManifest(dir: string): Promise<void> {
+	await mkdir(dir, { recursive: true })
+	await writeFile(join(dir, "agents.toml"), "[agents]\n")
+}
+
+describe("expandWorkspaceMembers", () => {
+	it("lists matching directories that have an agents.toml", async () => {
+		await withTempDir(async (dir) => {
+			await writeManifest(join(dir, "apps", "web"))
+			await writeManifest(join(dir, "apps", "api"))
+			await writeManifest(join(dir, "apps", ".cache"))
+			await mkdir(join(dir, "apps", "docs"), { recursive: true })
+			await writeFile(join(dir, "apps", "README.md"), "")
+
+			const result = await expandWorkspaceMembers(abs(dir), ["apps/*"])
+
+			expect(result).toEqual({
+				ok: true,
+				value: [join(dir, "apps", "api"), join(dir, "apps", "web")],
+			})
+		})
+	})
+
+	it("matches literal paths and partial names, once each", async () => {
+		await withTempDir(async (dir) => {
+			await writeManifest(join(dir, "tools", "cli"))
+			await writeManifest(join(dir, "services", "billing-api"))
+			await writeManifest(join(dir, "services", "billing-worker"))
+
+			const result = await expandWorkspaceMembers(abs(dir), [
+				"tools/cli",
+				"services/*-api",
+				"services/billing-*",
+			])
+
+			expect(result).toEqual({
+				ok: true,
+				value: [
+					join(dir, "services", "billing-api"),
+					join(dir, "services", "billing-worker"),
+					join(dir, "tools", "cli"),
+				],
+			})
+		})
+	})
+
+	it("treats patterns under missing directories as empty", async () => {
+		await withTempDir(async (dir) => {
+			const result = await expandWorkspaceMembers(abs(dir), ["apps/*", "lib"])
+
+			expect(result).toEqual({ ok: true, value: [] })
+		})
+	})
+})
+
+describe("findWorkspaceMember", () => {
+	const root = abs("/repo")
+
+	it("returns the member directory that contains a path", () => {
+		expect(findWorkspaceMember(root, ["apps/*"], abs("/repo/apps/web/src"))).toBe(
+			"/repo/apps/web",
+		)
+	})
+
+	it("prefers the longest matching pattern", () => {
+		expect(
+			findWorkspaceMember(
+				root,
+				["apps/*", "apps/*/plugins/*"],
+				abs("/repo/apps/web/plugins/a"),
+			),
+		).toBe("/repo/apps/web/plugins/a")
+	})
+
+	it("returns null outside members and at the root", () => {
+		expect(findWorkspaceMember(root, ["apps/*"], abs("/repo/docs"))).toBeNull()
+		expect(findWorkspaceMember(root, ["apps/*"], abs("/repo/apps"))).toBeNull()
+		expect(findWorkspaceMember(root, ["apps/*"], root)).toBeNull()
+		expect(
+			findWorkspaceMember(root, ["apps/*"], abs("/elsewhere/apps/web")),
+		).toBeNull()
+	})
+})
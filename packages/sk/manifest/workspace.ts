@@ -0,0 +1,134 @@
+import type { Dirent } from "node:fs"
+import { readdir } from "node:fs/promises"
+import path from "node:path"
+import { type AbsolutePath, MANIFEST_FILENAME } from "@skills-supply/core"
+import { safeStat } from "@/io/fs"
+import type { IoResult } from "@/io/types"
+
+/**
+ * Directories matched by the [workspace] member patterns of the manifest in
+ * root that contain their own agents.toml, sorted by path. The root itself
+ * is never a member.
+ */
+export async function expandWorkspaceMembers(
+	root: AbsolutePath,
+	patterns: readonly string[],
+): Promise<IoResult<AbsolutePath[]>> {
+	const members = new Set<AbsolutePath>()
+
+	for (const pattern of patterns) {
+		let dirs: string[] = [root]
+		for (const segment of pattern.split("/")) {
+			const next: string[] = []
+			for (const dir of dirs) {
+				const matched = await matchChildDirectories(dir, segment)
+				if (!matched.ok) {
+					return matched
+				}
+				next.push(...matched.value)
+			}
+			dirs = next
+		}
+
+		for (const dir of dirs) {
+			const stats = await safeStat(path.join(dir, MANIFEST_FILENAME))
+			if (!stats.ok) {
+				return stats
+			}
+			if (stats.value?.isFile() && dir !== root) {
+				members.add(dir as AbsolutePath)
+			}
+		}
+	}
+
+	return { ok: true, value: [...members].sort() }
+}
+
+/**
+ * The member directory of the workspace in root that contains dir, or null
+ * when dir is not inside a member. The member need not have an agents.toml.
+ */
+export function findWorkspaceMember(
+	root: AbsolutePath,
+	patterns: readonly string[],
+	dir: AbsolutePath,
+): AbsolutePath | null {
+	const relative = path.relative(root, dir)
+	if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+		return null
+	}
+
+	const segments = relative.split(path.sep)
+	let member: string[] | null = null
+	for (const pattern of patterns) {
+		const patternSegments = pattern.split("/")
+		if (patternSegments.length > segments.length) {
+			continue
+		}
+		const matches = patternSegments.every((segment, index) =>
+			matchSegment(segment, segments[index] ?? ""),
+		)
+		if (matches && patternSegments.length > (member?.length ?? 0)) {
+			member = segments.slice(0, patternSegments.length)
+		}
+	}
+
+	return member ? (path.join(root, ...member) as AbsolutePath) : null
+}
+
+async function matchChildDirectories(
+	dir: string,
+	segment: string,
+): Promise<IoResult<string[]>> {
+	if (!segment.includes("*")) {
+		const child = path.join(dir, segment)
+		const stats = await safeStat(child)
+		if (!stats.ok) {
+			return stats
+		}
+		return { ok: true, value: stats.value?.isDirectory() ? [child] : [] }
+	}
+
+	let entries: Dirent[]
+	try {
+		entries = await readdir(dir, { withFileTypes: true })
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return { ok: true, value: [] }
+		}
+		return {
+			error: {
+				message: `Unable to read workspace directory ${dir}.`,
+				operation: "readdir",
+				path: dir as AbsolutePath,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			ok: false,
+		}
+	}
+
+	return {
+		ok: true,
+		value: entries
+			.filter((entry) => entry.isDirectory() && matchSegment(segment, entry.name))
+			.map((entry) => path.join(dir, entry.name))
+			.sort(),
+	}
+}
+
+/**
+ * Match one path segment against a pattern segment where `*` matches any
+ * run of characters. Like shell globs, `*` does not match a leading dot.
+ */
+function matchSegment(pattern: string, name: string): boolean {
+	if (name.startsWith(".") && !pattern.startsWith(".")) {
+		return false
+	}
+
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*")
+	return new RegExp(`^${source}$`).test(name)
+}
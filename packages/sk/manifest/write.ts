@@ -1,4 +1,10 @@
-import type { GitRef, ValidatedDeclaration } from "@skills-supply/core"
+import type {
+	AgentId,
+	CustomAgentDefinition,
+	GitRef,
+	McpServerDefinition,
+	ValidatedDeclaration,
+} from "@skills-supply/core"
 import { stringify } from "smol-toml"
 import type { Manifest } from "@/manifest/types"
 
@@ -20,27 +26,47 @@ export function serializeManifest(
 		output.package = serializePackageMetadata(manifest.package)
 	}
 
-	if (manifest.agents.size > 0) {
-		output.agents = Object.fromEntries(manifest.agents)
+	const customAgents = manifest.customAgents ?? new Map()
+	if (manifest.agents.size > 0 || customAgents.size > 0) {
+		output.agents = serializeAgents(manifest.agents, customAgents)
 	}
 
 	if (manifest.dependencies.size > 0) {
 		output.dependencies = serializeDependencies(manifest.dependencies)
 	}
 
+	if (manifest.mcpServers && manifest.mcpServers.size > 0) {
+		output.mcp_servers = serializeMcpServers(manifest.mcpServers)
+	}
+
 	const autoDiscover = manifest.exports?.auto_discover
-	if (autoDiscover) {
+	const instructions = manifest.exports?.instructions
+	if (autoDiscover || instructions) {
 		output.exports = {
-			auto_discover: {
-				skills: autoDiscover.skills,
-			},
+			...(autoDiscover && {
+				auto_discover: {
+					skills: autoDiscover.skills,
+				},
+			}),
+			...(instructions && { instructions }),
+		}
+	}
+
+	if (manifest.settings) {
+		const settings = serializeSettings(manifest.settings)
+		if (Object.keys(settings).length > 0) {
+			output.settings = settings
 		}
 	}
 
+	if (manifest.workspace) {
+		output.workspace = { members: manifest.workspace.members }
+	}
+
 	let toml = stringify(output).trimEnd()
 	const extras: string[] = []
 
-	if (options.includeEmptyAgents && manifest.agents.size === 0) {
+	if (options.includeEmptyAgents && output.agents === undefined) {
 		extras.push("[agents]")
 	}
 
@@ -81,6 +107,77 @@ function serializePackageMetadata(
 	return output
 }
 
+function serializeSettings(
+	settings: NonNullable<Manifest["settings"]>,
+): Record<string, unknown> {
+	const output: Record<string, unknown> = {}
+
+	if (settings.applyToProjects !== undefined) {
+		output.apply_to_projects = settings.applyToProjects
+	}
+
+	if (settings.jobs !== undefined) {
+		output.jobs = settings.jobs
+	}
+
+	if (settings.naming) {
+		output.naming = settings.naming.type
+		if (settings.naming.type === "template") {
+			output.naming_template = settings.naming.template
+		}
+	}
+
+	return output
+}
+
+function serializeAgents(
+	agents: ReadonlyMap<AgentId, boolean>,
+	customAgents: ReadonlyMap<string, CustomAgentDefinition>,
+): Record<string, unknown> {
+	const output: Record<string, unknown> = Object.fromEntries(agents)
+
+	if (customAgents.size > 0) {
+		const custom: Record<string, Record<string, string>> = {}
+		for (const [id, definition] of customAgents) {
+			custom[id] = {
+				display_name: definition.displayName,
+				global_path: definition.globalPath,
+				local_path: definition.localPath,
+				skills_dir: definition.skillsDir,
+				...(definition.detect && { detect: definition.detect }),
+				...(definition.rules && {
+					rule_format: definition.rules.format,
+					rules_dir: definition.rules.dir,
+				}),
+			}
+		}
+		output.custom = custom
+	}
+
+	return output
+}
+
+function serializeMcpServers(
+	servers: ReadonlyMap<string, McpServerDefinition>,
+): Record<string, unknown> {
+	const output: Record<string, unknown> = {}
+
+	for (const [name, server] of servers) {
+		if (server.transport !== "stdio") {
+			output[name] = { transport: server.transport, url: server.url }
+			continue
+		}
+
+		output[name] = {
+			command: server.command,
+			...(server.args.length > 0 && { args: server.args }),
+			...(Object.keys(server.env).length > 0 && { env: server.env }),
+		}
+	}
+
+	return output
+}
+
 function serializeDependencies(
 	dependencies: ReadonlyMap<string, ValidatedDeclaration>,
 ): Record<string, unknown> {
@@ -110,17 +207,20 @@ function serializeValidatedDependency(dep: ValidatedDeclaration): unknown {
 
 function serializeRegistryDependency(
 	dep: Extract<ValidatedDeclaration, { type: "registry" }>,
-): string {
-	if (dep.org) {
-		return `@${dep.org}/${dep.name}@${dep.version}`
+): string | Record<string, unknown> {
+	const name = dep.org ? `@${dep.org}/${dep.name}` : dep.name
+	if (dep.skillFilter || dep.agents || dep.prefix) {
+		const output: Record<string, unknown> = { registry: name, version: dep.version }
+		serializeDeclarationOptions(dep, output)
+		return output
 	}
-	return `${dep.name}@${dep.version}`
+	return `${name}@${dep.version}`
 }
 
 function serializeGithubDependency(
 	dep: Extract<ValidatedDeclaration, { type: "github" }>,
-): Record<string, string> {
-	const output: Record<string, string> = { gh: dep.gh }
+): Record<string, unknown> {
+	const output: Record<string, unknown> = { gh: dep.gh }
 
 	if (dep.ref) {
 		serializeGitRef(dep.ref, output)
@@ -130,13 +230,15 @@ function serializeGithubDependency(
 		output.path = dep.path
 	}
 
+	serializeDeclarationOptions(dep, output)
+
 	return output
 }
 
 function serializeGitDependency(
 	dep: Extract<ValidatedDeclaration, { type: "git" }>,
-): Record<string, string> {
-	const output: Record<string, string> = { git: dep.url }
+): Record<string, unknown> {
+	const output: Record<string, unknown> = { git: dep.url }
 
 	if (dep.ref) {
 		serializeGitRef(dep.ref, output)
@@ -146,26 +248,55 @@ function serializeGitDependency(
 		output.path = dep.path
 	}
 
+	serializeDeclarationOptions(dep, output)
+
 	return output
 }
 
 function serializeLocalDependency(
 	dep: Extract<ValidatedDeclaration, { type: "local" }>,
-): Record<string, string> {
-	return { path: dep.path }
+): Record<string, unknown> {
+	const output: Record<string, unknown> = { path: dep.path }
+
+	serializeDeclarationOptions(dep, output)
+
+	return output
 }
 
 function serializeClaudePluginDependency(
 	dep: Extract<ValidatedDeclaration, { type: "claude-plugin" }>,
-): Record<string, string> {
-	return {
+): Record<string, unknown> {
+	const output: Record<string, unknown> = {
 		marketplace: dep.marketplace,
 		plugin: dep.plugin,
 		type: "claude-plugin",
 	}
+
+	serializeDeclarationOptions(dep, output)
+
+	return output
+}
+
+function serializeDeclarationOptions(
+	dep: ValidatedDeclaration,
+	output: Record<string, unknown>,
+): void {
+	if (dep.skillFilter?.type === "include") {
+		output.skills = [...dep.skillFilter.names]
+	} else if (dep.skillFilter?.type === "exclude") {
+		output.exclude_skills = [...dep.skillFilter.names]
+	}
+
+	if (dep.agents) {
+		output.agents = [...dep.agents]
+	}
+
+	if (dep.prefix) {
+		output.prefix = dep.prefix
+	}
 }
 
-function serializeGitRef(ref: GitRef, output: Record<string, string>): void {
+function serializeGitRef(ref: GitRef, output: Record<string, unknown>): void {
 	switch (ref.type) {
 		case "tag":
 			output.tag = ref.value
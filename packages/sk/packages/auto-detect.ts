@@ -23,12 +23,14 @@ import {
 	validateManifest,
 } from "@skills-supply/core"
 import { readTextFile, removePath } from "@/io/fs"
+import { extractSkills } from "@/packages/extract"
 import {
 	fetchGithubRepository,
 	fetchGitRepository,
 	parseGithubSlug,
 } from "@/packages/fetch"
 import { normalizeSparsePathCore, sparsePathErrorMessage } from "@/packages/path"
+import { resolveValidatedDependency } from "@/packages/resolve"
 import type { PackageOrigin } from "@/types/context"
 import type { SkError, ValidationError } from "@/types/errors"
 
@@ -61,7 +63,11 @@ export type AutoDetectDetection =
 	| { method: "marketplace"; marketplace: MarketplaceDetection }
 	| { method: "plugin-mismatch"; pluginName: string; marketplace: MarketplaceDetection }
 	| { method: "plugin"; pluginName: string }
-	| { method: "manifest" | "subdir" | "single" }
+	| {
+			method: "manifest" | "subdir" | "single"
+			/** Names of the skills the package exposes, when they could be listed */
+			skills?: string[]
+	  }
 
 export type AutoDetectResult = Result<
 	{ source: AutoDetectSource; detection: AutoDetectDetection },
@@ -140,7 +146,11 @@ export async function autoDetectPackage(
 		return {
 			ok: true,
 			value: {
-				detection: resolved.value,
+				detection: await withDetectedSkills(resolved.value, {
+					declaration: declaration.value,
+					packagePath: absoluteDetectionPath,
+					structures: detection.value,
+				}),
 				source: { path: resolvedPath, type: "local" },
 			},
 		}
@@ -202,7 +212,11 @@ export async function autoDetectPackage(
 		return {
 			ok: true,
 			value: {
-				detection: resolved.value,
+				detection: await withDetectedSkills(resolved.value, {
+					declaration: declaration.value,
+					packagePath: absoluteDetectionPath,
+					structures: detection.value,
+				}),
 				source: parsed.value,
 			},
 		}
@@ -211,6 +225,51 @@ export async function autoDetectPackage(
 	}
 }
 
+/**
+ * Attach the names of the skills a package exposes, so callers can offer a
+ * selection while the fetched copy still exists. Extraction problems are left
+ * for sync to report; here they only mean no list is available.
+ */
+async function withDetectedSkills(
+	detection: AutoDetectDetection,
+	context: {
+		declaration: ValidatedDeclaration
+		packagePath: AbsolutePath
+		structures: DetectedStructure[]
+	},
+): Promise<AutoDetectDetection> {
+	if (
+		detection.method !== "manifest" &&
+		detection.method !== "subdir" &&
+		detection.method !== "single"
+	) {
+		return detection
+	}
+
+	const structure = context.structures.find(
+		(entry) => entry.method === detection.method,
+	)
+	const originAlias = coerceAlias("auto-detect")
+	if (!structure || !originAlias) {
+		return detection
+	}
+
+	const origin: PackageOrigin = {
+		alias: originAlias,
+		manifestPath: context.packagePath,
+	}
+	const extracted = await extractSkills({
+		canonical: resolveValidatedDependency(context.declaration, origin),
+		detection: structure,
+		packagePath: context.packagePath,
+	})
+	if (!extracted.ok) {
+		return detection
+	}
+
+	return { ...detection, skills: extracted.value.map((skill) => String(skill.name)) }
+}
+
 export type AutoDetectParseResult = Result<AutoDetectSource, ValidationError>
 
 export function parseAutoDetectUrl(input: string): AutoDetectParseResult {
@@ -0,0 +1,220 @@
+import { readdir } from "node:fs/promises"
+import path from "node:path"
+import type { AbsolutePath } from "@skills-supply/core"
+import {
+	PLUGIN_AGENTS_DIR,
+	PLUGIN_COMMANDS_DIR,
+	PLUGIN_HOOKS_PATH,
+	PLUGIN_MCP_FILENAME,
+	parseMarkdownDocument,
+} from "@skills-supply/core"
+import { readTextFile, safeStat } from "@/io/fs"
+import type {
+	DetectedPackage,
+	PackageExtractionError,
+	PluginComponent,
+	PluginComponents,
+	PluginComponentsResult,
+} from "@/packages/types"
+
+type ComponentListResult =
+	| { ok: true; value: PluginComponent[] }
+	| { ok: false; error: PackageExtractionError }
+
+type McpServersResult =
+	| { ok: true; value: string[] }
+	| { ok: false; error: PackageExtractionError }
+
+/**
+ * Read the commands, subagents, hooks and MCP servers of a Claude plugin from
+ * their default locations in the plugin root. Each part is empty when the
+ * plugin does not have it.
+ */
+export async function extractPluginComponents(
+	detected: DetectedPackage,
+): Promise<PluginComponentsResult> {
+	const root = detected.packagePath
+	const origin = detected.canonical.origin
+
+	const commands = await readComponentDir(
+		path.join(root, PLUGIN_COMMANDS_DIR) as AbsolutePath,
+		detected,
+	)
+	if (!commands.ok) {
+		return commands
+	}
+
+	const subagents = await readComponentDir(
+		path.join(root, PLUGIN_AGENTS_DIR) as AbsolutePath,
+		detected,
+	)
+	if (!subagents.ok) {
+		return subagents
+	}
+
+	const hooksPath = path.join(root, PLUGIN_HOOKS_PATH) as AbsolutePath
+	const hooks = await safeStat(hooksPath)
+	if (!hooks.ok) {
+		return { error: { ...hooks.error, origin, path: hooksPath }, ok: false }
+	}
+
+	const mcpServers = await readMcpServers(
+		path.join(root, PLUGIN_MCP_FILENAME) as AbsolutePath,
+		detected,
+	)
+	if (!mcpServers.ok) {
+		return mcpServers
+	}
+
+	return {
+		ok: true,
+		value: {
+			commands: commands.value,
+			hooks: hooks.value?.isFile() ?? false,
+			mcpServers: mcpServers.value,
+			subagents: subagents.value,
+		},
+	}
+}
+
+export function hasPluginComponents(components: PluginComponents): boolean {
+	return (
+		components.commands.length > 0 ||
+		components.subagents.length > 0 ||
+		components.hooks ||
+		components.mcpServers.length > 0
+	)
+}
+
+// Only markdown files at the top of the directory are components; Claude Code
+// reads nested ones as namespaced commands, which other agents have no way to
+// express
+async function readComponentDir(
+	dirPath: AbsolutePath,
+	detected: DetectedPackage,
+): Promise<ComponentListResult> {
+	const origin = detected.canonical.origin
+	const stats = await safeStat(dirPath)
+	if (!stats.ok) {
+		return { error: { ...stats.error, origin, path: dirPath }, ok: false }
+	}
+	if (!stats.value?.isDirectory()) {
+		return { ok: true, value: [] }
+	}
+
+	let entries: string[]
+	try {
+		const dirents = await readdir(dirPath, { withFileTypes: true })
+		entries = dirents
+			.filter((entry) => entry.isFile() && entry.name.endsWith(".md"))
+			.map((entry) => entry.name)
+			.sort()
+	} catch (error) {
+		return {
+			error: {
+				message: `Unable to read ${dirPath}.`,
+				operation: "readdir",
+				origin,
+				path: dirPath,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			ok: false,
+		}
+	}
+
+	const components: PluginComponent[] = []
+	for (const entry of entries) {
+		const sourcePath = path.join(dirPath, entry) as AbsolutePath
+		const contents = await readTextFile(sourcePath)
+		if (!contents.ok) {
+			return { error: { ...contents.error, origin, path: sourcePath }, ok: false }
+		}
+
+		const parsed = parseMarkdownDocument(contents.value)
+		if (!parsed.ok) {
+			return {
+				error: {
+					cause: parsed.error,
+					field: "frontmatter",
+					message: `Invalid frontmatter in ${sourcePath}: ${parsed.error.message}`,
+					origin,
+					path: sourcePath,
+					source: "manual",
+					type: "validation",
+				},
+				ok: false,
+			}
+		}
+
+		components.push({
+			attributes: parsed.value.attributes,
+			body: parsed.value.body,
+			name: entry.slice(0, -".md".length),
+			sourcePath,
+		})
+	}
+
+	return { ok: true, value: components }
+}
+
+async function readMcpServers(
+	configPath: AbsolutePath,
+	detected: DetectedPackage,
+): Promise<McpServersResult> {
+	const origin = detected.canonical.origin
+	const stats = await safeStat(configPath)
+	if (!stats.ok) {
+		return { error: { ...stats.error, origin, path: configPath }, ok: false }
+	}
+	if (!stats.value?.isFile()) {
+		return { ok: true, value: [] }
+	}
+
+	const contents = await readTextFile(configPath)
+	if (!contents.ok) {
+		return { error: { ...contents.error, origin, path: configPath }, ok: false }
+	}
+
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(contents.value)
+	} catch {
+		return invalidMcpConfig(configPath, detected, `Invalid JSON in ${configPath}.`)
+	}
+
+	const servers =
+		typeof parsed === "object" && parsed !== null && "mcpServers" in parsed
+			? parsed.mcpServers
+			: undefined
+	if (servers === undefined) {
+		return { ok: true, value: [] }
+	}
+	if (typeof servers !== "object" || servers === null || Array.isArray(servers)) {
+		return invalidMcpConfig(
+			configPath,
+			detected,
+			`mcpServers in ${configPath} must be an object.`,
+		)
+	}
+
+	return { ok: true, value: Object.keys(servers).sort() }
+}
+
+function invalidMcpConfig(
+	configPath: AbsolutePath,
+	detected: DetectedPackage,
+	message: string,
+): McpServersResult {
+	return {
+		error: {
+			field: "mcpServers",
+			message,
+			origin: detected.canonical.origin,
+			path: configPath,
+			source: "manual",
+			type: "validation",
+		},
+		ok: false,
+	}
+}
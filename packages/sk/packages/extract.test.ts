@@ -4,9 +4,9 @@ import path from "node:path"
 import type { AbsolutePath, DetectedStructure } from "@skills-supply/core"
 import { coerceAbsolutePathDirect } from "@skills-supply/core"
 import { describe, expect, it } from "vitest"
-import { extractSkills } from "@/packages/extract"
+import { extractSkills, filterSkills } from "@/packages/extract"
 import type { CanonicalPackage, DetectedPackage } from "@/packages/types"
-import { abs, alias } from "@/tests/helpers/branded"
+import { abs, alias, nes } from "@/tests/helpers/branded"
 
 async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
 	const dir = path.join(tmpdir(), `sk-extract-${Date.now()}`)
@@ -229,3 +229,81 @@ describe("extractSkills (single)", () => {
 		})
 	})
 })
+
+describe("filterSkills", () => {
+	async function extractNamed(dir: string, names: string[]) {
+		for (const name of names) {
+			await mkdir(path.join(dir, name), { recursive: true })
+			await writeFile(
+				path.join(dir, name, "SKILL.md"),
+				`---\nname: ${name}\n---\n\n# ${name}`,
+			)
+		}
+		const detection: DetectedStructure = {
+			method: "subdir",
+			rootDir: mustAbsolute(dir),
+		}
+		const result = await extractSkills(makeDetected(dir, detection))
+		if (!result.ok) {
+			throw new Error(result.error.message)
+		}
+		return result.value
+	}
+
+	function withFilter(
+		dir: string,
+		filter: NonNullable<CanonicalPackage["skillFilter"]>,
+	): DetectedPackage {
+		const detected = makeDetected(dir, {
+			method: "subdir",
+			rootDir: mustAbsolute(dir),
+		})
+		return { ...detected, canonical: { ...detected.canonical, skillFilter: filter } }
+	}
+
+	it("keeps only included skills", async () => {
+		await withTempDir(async (dir) => {
+			const skills = await extractNamed(dir, ["alpha", "beta", "gamma"])
+			const result = filterSkills(
+				skills,
+				withFilter(dir, { names: [nes("gamma"), nes("alpha")], type: "include" }),
+			)
+
+			expect(result.ok && result.value.map((skill) => skill.name)).toEqual([
+				"alpha",
+				"gamma",
+			])
+		})
+	})
+
+	it("drops excluded skills", async () => {
+		await withTempDir(async (dir) => {
+			const skills = await extractNamed(dir, ["alpha", "beta"])
+			const result = filterSkills(
+				skills,
+				withFilter(dir, { names: [nes("beta")], type: "exclude" }),
+			)
+
+			expect(result.ok && result.value.map((skill) => skill.name)).toEqual([
+				"alpha",
+			])
+		})
+	})
+
+	it("fails when a listed skill is missing from the package", async () => {
+		await withTempDir(async (dir) => {
+			const skills = await extractNamed(dir, ["alpha", "beta"])
+			const result = filterSkills(
+				skills,
+				withFilter(dir, { names: [nes("alpha"), nes("delta")], type: "include" }),
+			)
+
+			expect(result.ok).toBe(false)
+			if (!result.ok) {
+				expect(result.error.type).toBe("not_found")
+				expect(result.error.message).toContain('"delta"')
+				expect(result.error.message).toContain("Available: alpha, beta")
+			}
+		})
+	})
+})
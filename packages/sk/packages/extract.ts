@@ -109,6 +109,47 @@ export async function extractSkills(
 	}
 }
 
+/**
+ * Apply a declaration's skill filter to the skills extracted from its package.
+ * Every name in the filter must match a skill, so a typo or a skill removed
+ * upstream fails the sync instead of silently installing the wrong set.
+ */
+export function filterSkills(
+	skills: Skill[],
+	detected: DetectedPackage,
+): PackageExtractionResult {
+	const filter = detected.canonical.skillFilter
+	if (!filter) {
+		return { ok: true, value: skills }
+	}
+
+	const available = new Set<string>(skills.map((skill) => skill.name))
+	const missing = filter.names.filter((name) => !available.has(name))
+	if (missing.length > 0) {
+		const key = filter.type === "include" ? "skills" : "exclude_skills"
+		const label = missing.length === 1 ? "Skill" : "Skills"
+		const message = `${label} ${missing.map((name) => `"${name}"`).join(", ")} listed in ${key} for ${detected.canonical.origin.alias} not found in the package. Available: ${[...available].sort().join(", ")}.`
+		return {
+			error: {
+				message,
+				origin: detected.canonical.origin,
+				path: detected.packagePath,
+				target: "skill",
+				type: "not_found",
+			},
+			ok: false,
+		}
+	}
+
+	const names = new Set<string>(filter.names)
+	return {
+		ok: true,
+		value: skills.filter((skill) =>
+			filter.type === "include" ? names.has(skill.name) : !names.has(skill.name),
+		),
+	}
+}
+
 async function extractFromManifest(
 	manifestPath: AbsolutePath,
 	origin: Skill["origin"],
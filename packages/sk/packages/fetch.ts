@@ -14,12 +14,29 @@ import { ensureGitAvailable } from "@/utils/git"
 
 const execFileAsync = promisify(execFile)
 
+const FULL_COMMIT_PATTERN = /^[0-9a-f]{40}$/
+
 type ActionResult = { ok: true } | { ok: false; error: PackageFetchError }
 
 type RepoResult =
 	| { ok: true; value: { repoPath: string } }
 	| { ok: false; error: PackageFetchError }
 
+type OutputResult = { ok: true; value: string } | { ok: false; error: PackageFetchError }
+
+type CommitResult =
+	| { ok: true; value: string | null }
+	| { ok: false; error: PackageFetchError }
+
+export interface RemoteRef {
+	name: string
+	commit: string
+}
+
+type RemoteRefsResult =
+	| { ok: true; value: RemoteRef[] }
+	| { ok: false; error: PackageFetchError }
+
 type SlugResult =
 	| { ok: true; value: { owner: string; repo: string } }
 	| { ok: false; error: PackageFetchError }
@@ -98,7 +115,7 @@ export async function fetchGithubRepository(plan: {
 	owner: string
 	repo: string
 }): Promise<RepoResult> {
-	const remoteUrl = `https://github.com/${plan.owner}/${plan.repo}.git`
+	const remoteUrl = githubRemoteUrl(plan.owner, plan.repo)
 	return fetchRepository({
 		destination: plan.destination,
 		origin: plan.origin,
@@ -120,6 +137,139 @@ export async function fetchGitRepository(plan: {
 	return fetchRepository(plan)
 }
 
+export function githubRemoteUrl(owner: string, repo: string): string {
+	return `https://github.com/${owner}/${repo}.git`
+}
+
+/**
+ * List the tags of a remote repository without cloning it.
+ * Annotated tags resolve to the commit they point at.
+ */
+export async function listRemoteTags(
+	remoteUrl: string,
+	origin: PackageOrigin,
+	spec: string,
+): Promise<RemoteRefsResult> {
+	const gitCheck = ensureGitAvailable()
+	if (!gitCheck.ok) {
+		return { error: { ...gitCheck.error, origin, spec }, ok: false }
+	}
+
+	const output = await runGitOutput(["ls-remote", "--tags", remoteUrl], origin, spec)
+	if (!output.ok) {
+		return output
+	}
+
+	const tags = new Map<string, string>()
+	for (const ref of parseLsRemote(output.value)) {
+		const name = ref.name.replace(/^refs\/tags\//, "")
+		if (name.endsWith("^{}")) {
+			tags.set(name.slice(0, -3), ref.commit)
+			continue
+		}
+		if (!tags.has(name)) {
+			tags.set(name, ref.commit)
+		}
+	}
+
+	return {
+		ok: true,
+		value: [...tags.entries()].map(([name, commit]) => ({ commit, name })),
+	}
+}
+
+/**
+ * Resolve the commit a remote branch (or the default HEAD) points at.
+ */
+export async function resolveRemoteHead(
+	remoteUrl: string,
+	branch: string | undefined,
+	origin: PackageOrigin,
+	spec: string,
+): Promise<OutputResult> {
+	const gitCheck = ensureGitAvailable()
+	if (!gitCheck.ok) {
+		return { error: { ...gitCheck.error, origin, spec }, ok: false }
+	}
+
+	const refName = branch ? `refs/heads/${branch}` : "HEAD"
+	const output = await runGitOutput(["ls-remote", remoteUrl, refName], origin, spec)
+	if (!output.ok) {
+		return output
+	}
+
+	const match = parseLsRemote(output.value).find((ref) => ref.name === refName)
+	if (!match) {
+		return {
+			error: {
+				message: `Remote ${remoteUrl} has no ${branch ? `branch "${branch}"` : "HEAD"}.`,
+				origin,
+				spec,
+				target: "ref",
+				type: "not_found",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: match.commit }
+}
+
+/**
+ * Resolve the commit a ref points at on the remote without cloning.
+ * Returns null for abbreviated revs, which ls-remote cannot resolve.
+ */
+export async function resolveRemoteCommit(
+	remoteUrl: string,
+	ref: GitRef | undefined,
+	origin: PackageOrigin,
+	spec: string,
+): Promise<CommitResult> {
+	if (ref?.type === "rev") {
+		return { ok: true, value: FULL_COMMIT_PATTERN.test(ref.value) ? ref.value : null }
+	}
+
+	if (ref?.type === "tag") {
+		const tags = await listRemoteTags(remoteUrl, origin, spec)
+		if (!tags.ok) {
+			return tags
+		}
+
+		const tag = tags.value.find((entry) => entry.name === ref.value)
+		if (!tag) {
+			return {
+				error: {
+					message: `Remote ${remoteUrl} has no tag "${ref.value}".`,
+					origin,
+					spec,
+					target: "ref",
+					type: "not_found",
+				},
+				ok: false,
+			}
+		}
+		return { ok: true, value: tag.commit }
+	}
+
+	return resolveRemoteHead(remoteUrl, ref?.value, origin, spec)
+}
+
+/**
+ * Resolve the commit currently checked out in a fetched repository.
+ */
+export async function resolveRepositoryCommit(
+	repoDir: string,
+	origin: PackageOrigin,
+	spec: string,
+): Promise<OutputResult> {
+	const result = await runGitOutput(["-C", repoDir, "rev-parse", "HEAD"], origin, spec)
+	if (!result.ok) {
+		return result
+	}
+
+	return { ok: true, value: result.value.trim() }
+}
+
 export function parseGithubSlug(input: string, origin: PackageOrigin): SlugResult {
 	const trimmed = input.trim()
 	const [owner, repo, ...rest] = trimmed.split("/")
@@ -449,9 +599,18 @@ async function runGit(
 	origin: PackageOrigin,
 	spec: string,
 ): Promise<ActionResult> {
+	const result = await runGitOutput(args, origin, spec)
+	return result.ok ? { ok: true } : result
+}
+
+async function runGitOutput(
+	args: string[],
+	origin: PackageOrigin,
+	spec: string,
+): Promise<OutputResult> {
 	try {
-		await execFileAsync("git", args, { encoding: "utf8" })
-		return { ok: true }
+		const { stdout } = await execFileAsync("git", args, { encoding: "utf8" })
+		return { ok: true, value: stdout }
 	} catch (error) {
 		const cwdIndex = args.indexOf("-C")
 		const repoDir =
@@ -471,6 +630,17 @@ async function runGit(
 	}
 }
 
+function parseLsRemote(output: string): RemoteRef[] {
+	const refs: RemoteRef[] = []
+	for (const line of output.split("\n")) {
+		const [commit, name] = line.trim().split(/\s+/)
+		if (commit && name) {
+			refs.push({ commit, name })
+		}
+	}
+	return refs
+}
+
 function toAbsolutePath(value: string): AbsolutePath {
 	const resolved = path.isAbsolute(value) ? path.normalize(value) : path.resolve(value)
 	return resolved as AbsolutePath
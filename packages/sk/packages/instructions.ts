@@ -0,0 +1,70 @@
+import path from "node:path"
+import type { AbsolutePath } from "@skills-supply/core"
+import { readTextFile, safeStat } from "@/io/fs"
+import { parseManifest } from "@/manifest/parse"
+import type { DetectedPackage, PackageInstructionsResult } from "@/packages/types"
+
+/**
+ * Read the instructions a package exports with `[exports] instructions` in
+ * its agents.toml. Packages detected any other way have none.
+ */
+export async function extractPackageInstructions(
+	detected: DetectedPackage,
+): Promise<PackageInstructionsResult> {
+	if (detected.detection.method !== "manifest") {
+		return { ok: true, value: undefined }
+	}
+
+	const origin = detected.canonical.origin
+	const manifestPath = detected.detection.manifestPath
+	const contents = await readTextFile(manifestPath)
+	if (!contents.ok) {
+		return { error: { ...contents.error, origin }, ok: false }
+	}
+
+	const parsed = parseManifest(contents.value, manifestPath, "cwd")
+	if (!parsed.ok) {
+		return {
+			error: {
+				cause: parsed.error,
+				field: "manifest",
+				message: "Manifest validation failed.",
+				origin,
+				path: manifestPath,
+				source: "manual",
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const relativePath = parsed.value.exports?.instructions
+	if (!relativePath) {
+		return { ok: true, value: undefined }
+	}
+
+	const sourcePath = path.join(path.dirname(manifestPath), relativePath) as AbsolutePath
+	const stats = await safeStat(sourcePath)
+	if (!stats.ok) {
+		return { error: { ...stats.error, origin, path: sourcePath }, ok: false }
+	}
+	if (!stats.value?.isFile()) {
+		return {
+			error: {
+				message: `Instructions file ${relativePath} exported by "${origin.alias}" not found.`,
+				origin,
+				path: sourcePath,
+				target: "instructions",
+				type: "not_found",
+			},
+			ok: false,
+		}
+	}
+
+	const instructions = await readTextFile(sourcePath)
+	if (!instructions.ok) {
+		return { error: { ...instructions.error, origin }, ok: false }
+	}
+
+	return { ok: true, value: { contents: instructions.value, sourcePath } }
+}
@@ -0,0 +1,275 @@
+import { spawn } from "node:child_process"
+import {
+	type AbsolutePath,
+	buildRegistryIndexPath,
+	computeIntegrity,
+	findBestSemverMatch,
+	formatRegistryPackageName,
+	isValidSemverRange,
+	parseRegistryIndex,
+	type RegistryIndex,
+	type RegistryRelease,
+	type Result,
+} from "@skills-supply/core"
+import type { RegistryFetchError, RegistryPackage } from "@/packages/types"
+import type { PackageOrigin } from "@/types/context"
+import { fetchWithRetry } from "@/utils/fetch"
+
+type RegistryResult<T> = Result<T, RegistryFetchError>
+
+/**
+ * "@org/name" or "name", as used in errors, progress output and cache keys.
+ */
+export function registryPackageSpec(pkg: RegistryPackage): string {
+	return formatRegistryPackageName(pkg.name, pkg.org)
+}
+
+export async function fetchRegistryIndex(
+	registryUrl: string,
+	pkg: RegistryPackage,
+): Promise<RegistryResult<RegistryIndex>> {
+	const spec = registryPackageSpec(pkg)
+	const url = `${registryUrl}/${buildRegistryIndexPath(pkg.name, pkg.org)}`
+
+	let response: Response
+	try {
+		response = await fetchWithRetry(url, { headers: { Accept: "application/json" } })
+	} catch (error) {
+		return networkError(
+			`Unable to reach the registry at ${registryUrl}.`,
+			url,
+			pkg.origin,
+			spec,
+			{ rawError: error instanceof Error ? error : undefined },
+		)
+	}
+
+	if (response.status === 404) {
+		return {
+			error: {
+				message: `Package ${spec} was not found in the registry.`,
+				origin: pkg.origin,
+				spec,
+				target: "package",
+				type: "not_found",
+			},
+			ok: false,
+		}
+	}
+
+	if (!response.ok) {
+		return networkError(
+			`Registry request failed (${response.status} ${response.statusText}).`,
+			url,
+			pkg.origin,
+			spec,
+			{ status: response.status },
+		)
+	}
+
+	const parsed = parseRegistryIndex(await response.text())
+	if (!parsed.ok) {
+		return {
+			error: {
+				cause: parsed.error,
+				field: "registry",
+				message: `Registry returned an invalid index for ${spec}.`,
+				origin: pkg.origin,
+				source: "manual",
+				spec,
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	return parsed
+}
+
+/**
+ * Pick the newest release matching the declared version range, or exactly the
+ * given version when one is pinned.
+ */
+export function selectRegistryRelease(
+	index: RegistryIndex,
+	pkg: RegistryPackage,
+	pinnedVersion?: string,
+): RegistryResult<RegistryRelease> {
+	const spec = registryPackageSpec(pkg)
+	const range = pinnedVersion ?? pkg.version
+	if (!isValidSemverRange(range)) {
+		return {
+			error: {
+				field: "version",
+				message: `Invalid version range for ${spec}: ${range}.`,
+				origin: pkg.origin,
+				source: "manual",
+				spec,
+				type: "validation",
+			},
+			ok: false,
+		}
+	}
+
+	const version = findBestSemverMatch(
+		index.versions.map((release) => release.version),
+		range,
+	)
+	const release = index.versions.find((entry) => entry.version === version)
+	if (!release) {
+		return {
+			error: {
+				message: `No release of ${spec} matches ${range}.`,
+				origin: pkg.origin,
+				spec,
+				target: "version",
+				type: "not_found",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: release }
+}
+
+/**
+ * Download a release tarball and check it against the integrity hash from the
+ * index before anything is extracted.
+ */
+export async function downloadRegistryTarball(
+	release: RegistryRelease,
+	pkg: RegistryPackage,
+): Promise<RegistryResult<Buffer>> {
+	const spec = registryPackageSpec(pkg)
+
+	let response: Response
+	try {
+		response = await fetchWithRetry(release.tarball)
+	} catch (error) {
+		return networkError(
+			`Unable to download ${spec}@${release.version}.`,
+			release.tarball,
+			pkg.origin,
+			spec,
+			{ rawError: error instanceof Error ? error : undefined },
+		)
+	}
+
+	if (!response.ok) {
+		return networkError(
+			`Tarball request failed (${response.status} ${response.statusText}).`,
+			release.tarball,
+			pkg.origin,
+			spec,
+			{ status: response.status },
+		)
+	}
+
+	const data = Buffer.from(await response.arrayBuffer())
+	const integrity = computeIntegrity(data)
+	if (integrity !== release.integrity) {
+		return {
+			error: {
+				message: `Integrity check failed for ${spec}@${release.version}: expected ${release.integrity}, got ${integrity}.`,
+				origin: pkg.origin,
+				spec,
+				target: "integrity",
+				type: "conflict",
+			},
+			ok: false,
+		}
+	}
+
+	return { ok: true, value: data }
+}
+
+/**
+ * Extract a gzipped tarball into destination, stripping its top-level
+ * directory. Relies on the system tar, which refuses absolute and ".." paths.
+ */
+export async function extractRegistryTarball(
+	data: Buffer,
+	destination: AbsolutePath,
+	pkg: RegistryPackage,
+): Promise<RegistryResult<void>> {
+	const spec = registryPackageSpec(pkg)
+	const args = [
+		"-xzf",
+		"-",
+		"-C",
+		destination,
+		"--strip-components=1",
+		"--no-same-owner",
+	]
+
+	return new Promise((resolve) => {
+		const proc = spawn("tar", args, { stdio: ["pipe", "ignore", "pipe"] })
+		let stderr = ""
+
+		proc.stderr.on("data", (chunk: Buffer) => {
+			stderr += chunk.toString()
+		})
+		proc.on("error", (error) => {
+			resolve(tarError(destination, pkg.origin, spec, error))
+		})
+		proc.on("close", (code) => {
+			if (code === 0) {
+				resolve({ ok: true, value: undefined })
+				return
+			}
+			resolve(
+				tarError(
+					destination,
+					pkg.origin,
+					spec,
+					new Error(stderr.trim() || `exit ${code}`),
+				),
+			)
+		})
+
+		// tar exits early on a corrupt archive; the close handler reports it.
+		proc.stdin.on("error", () => {})
+		proc.stdin.end(data)
+	})
+}
+
+function tarError(
+	destination: AbsolutePath,
+	origin: PackageOrigin,
+	spec: string,
+	error: Error,
+): RegistryResult<never> {
+	return {
+		error: {
+			message: `Unable to extract ${spec}: ${error.message}`,
+			operation: "tar",
+			origin,
+			path: destination,
+			rawError: error,
+			spec,
+			type: "io",
+		},
+		ok: false,
+	}
+}
+
+function networkError(
+	message: string,
+	url: string,
+	origin: PackageOrigin,
+	spec: string,
+	extra: { rawError?: Error; status?: number },
+): RegistryResult<never> {
+	return {
+		error: {
+			message,
+			origin,
+			rawError: extra.rawError,
+			source: url,
+			spec,
+			status: extra.status,
+			type: "network",
+		},
+		ok: false,
+	}
+}
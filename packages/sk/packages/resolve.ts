@@ -6,7 +6,7 @@
  * types guarantee correctness.
  */
 
-import type { NonEmptyString, ValidatedDeclaration } from "@skills-supply/core"
+import type { AgentId, NonEmptyString, ValidatedDeclaration } from "@skills-supply/core"
 import type { Manifest } from "@/manifest/types"
 import type {
 	CanonicalPackage,
@@ -61,6 +61,84 @@ export function resolveValidatedDependency(
 	}
 }
 
+/**
+ * Map a canonical package back to the declaration it was resolved from.
+ * Pure function - the inverse of resolveValidatedDependency.
+ */
+export function toValidatedDeclaration(pkg: CanonicalPackage): ValidatedDeclaration {
+	switch (pkg.type) {
+		case "registry":
+			return {
+				...declarationOptions(pkg),
+				name: pkg.name,
+				org: pkg.org,
+				type: "registry",
+				version: pkg.version,
+			}
+		case "github":
+			return {
+				...declarationOptions(pkg),
+				gh: pkg.gh,
+				path: pkg.path,
+				ref: pkg.ref,
+				type: "github",
+			}
+		case "git":
+			return {
+				...declarationOptions(pkg),
+				path: pkg.path,
+				ref: pkg.ref,
+				type: "git",
+				url: pkg.url,
+			}
+		case "local":
+			return {
+				...declarationOptions(pkg),
+				path: pkg.absolutePath,
+				type: "local",
+			}
+		case "claude-plugin":
+			return {
+				...declarationOptions(pkg),
+				marketplace: pkg.marketplace,
+				plugin: pkg.plugin,
+				type: "claude-plugin",
+			}
+	}
+}
+
+/**
+ * Packages a given agent receives: those without an agents list, plus those
+ * that name the agent.
+ */
+export function filterPackagesForAgent<T extends CanonicalPackage>(
+	packages: T[],
+	agentId: AgentId,
+): T[] {
+	return packages.filter((pkg) => !pkg.agents || pkg.agents.includes(agentId))
+}
+
+/**
+ * The aliases leading from the root manifest to a package, e.g. "app > utils".
+ */
+export function formatPackageChain(origin: PackageOrigin): string {
+	return [...(origin.via ?? []), origin.alias].join(" > ")
+}
+
+/**
+ * Declaration-level options shared by declarations and canonical packages,
+ * copied only when set so that plain declarations stay free of empty keys.
+ */
+function declarationOptions(
+	source: Pick<CanonicalPackage, "agents" | "prefix" | "skillFilter">,
+): Pick<CanonicalPackage, "agents" | "prefix" | "skillFilter"> {
+	return {
+		...(source.agents && { agents: source.agents }),
+		...(source.prefix && { prefix: source.prefix }),
+		...(source.skillFilter && { skillFilter: source.skillFilter }),
+	}
+}
+
 /**
  * Determine fetch strategy based on dependency type.
  */
@@ -78,6 +156,7 @@ function resolveRegistryDep(
 	origin: PackageOrigin,
 ): RegistryPackage {
 	return {
+		...declarationOptions(dep),
 		fetchStrategy: { mode: "clone", sparse: false },
 		name: dep.name,
 		org: dep.org,
@@ -93,6 +172,7 @@ function resolveGithubDep(
 	origin: PackageOrigin,
 ): GithubPackage {
 	return {
+		...declarationOptions(dep),
 		fetchStrategy: determineFetchStrategy(dep),
 		gh: dep.gh,
 		origin,
@@ -107,6 +187,7 @@ function resolveGitDep(
 	origin: PackageOrigin,
 ): GitPackage {
 	return {
+		...declarationOptions(dep),
 		fetchStrategy: determineFetchStrategy(dep),
 		origin,
 		path: dep.path,
@@ -122,6 +203,7 @@ function resolveLocalDep(
 ): LocalPackage {
 	return {
 		absolutePath: dep.path,
+		...declarationOptions(dep),
 		fetchStrategy: { mode: "symlink" },
 		origin,
 		type: "local",
@@ -133,6 +215,7 @@ function resolveClaudePluginDep(
 	origin: PackageOrigin,
 ): ClaudePluginPackage {
 	return {
+		...declarationOptions(dep),
 		fetchStrategy: { mode: "clone", sparse: false },
 		marketplace: dep.marketplace,
 		origin,
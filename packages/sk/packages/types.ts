@@ -1,16 +1,19 @@
 import type {
 	AbsolutePath,
+	AgentId,
 	DetectedStructure,
 	GithubRef,
 	GitRef,
 	GitUrl,
 	NonEmptyString,
 	RemoteMarketplaceUrl,
+	SkillFilter,
 } from "@skills-supply/core"
 import type { FetchStrategy, PackageOrigin } from "@/types/context"
 import type {
 	ConflictError,
 	IoError,
+	NetworkError,
 	NotFoundError,
 	ValidationError,
 } from "@/types/errors"
@@ -18,6 +21,12 @@ import type {
 interface CanonicalPackageBase {
 	readonly origin: PackageOrigin
 	readonly fetchStrategy: FetchStrategy
+	/** Skills selected by the declaration; every skill when absent */
+	readonly skillFilter?: SkillFilter
+	/** Agents the package is limited to; every enabled agent when absent */
+	readonly agents?: AgentId[]
+	/** Replaces the alias in installed skill names */
+	readonly prefix?: NonEmptyString
 }
 
 export interface RegistryPackage extends CanonicalPackageBase {
@@ -64,6 +73,15 @@ export interface FetchedPackage {
 	readonly canonical: CanonicalPackage
 	readonly repoPath: AbsolutePath
 	readonly packagePath: AbsolutePath
+	/** Commit checked out in repoPath (git-backed sources only) */
+	readonly commit?: string
+	/** Release installed from the registry (registry sources only) */
+	readonly release?: RegistryReleasePin
+}
+
+export interface RegistryReleasePin {
+	readonly version: string
+	readonly integrity: string
 }
 
 export interface DetectedPackage {
@@ -78,6 +96,31 @@ export interface Skill {
 	readonly origin: PackageOrigin
 }
 
+/** Command or subagent markdown file of a Claude plugin */
+export interface PluginComponent {
+	/** File name without the .md extension */
+	readonly name: string
+	readonly attributes: Readonly<Record<string, unknown>>
+	readonly body: string
+	readonly sourcePath: AbsolutePath
+}
+
+/** Parts of a Claude plugin other than its skills */
+export interface PluginComponents {
+	readonly commands: PluginComponent[]
+	readonly subagents: PluginComponent[]
+	/** Whether the plugin configures hooks */
+	readonly hooks: boolean
+	/** Names of the servers in the plugin's .mcp.json */
+	readonly mcpServers: string[]
+}
+
+/** Markdown a package exports to be written into agent instructions files */
+export interface PackageInstructions {
+	readonly sourcePath: AbsolutePath
+	readonly contents: string
+}
+
 export type PackageExtractionError =
 	| (ValidationError & { origin: PackageOrigin; path: AbsolutePath })
 	| (IoError & { origin: PackageOrigin; path: AbsolutePath })
@@ -87,12 +130,24 @@ export type PackageExtractionResult =
 	| { ok: true; value: Skill[] }
 	| { ok: false; error: PackageExtractionError }
 
+export type PluginComponentsResult =
+	| { ok: true; value: PluginComponents }
+	| { ok: false; error: PackageExtractionError }
+
+export type PackageInstructionsResult =
+	| { ok: true; value: PackageInstructions | undefined }
+	| { ok: false; error: PackageExtractionError }
+
 export type PackageFetchError =
 	| (ValidationError & { origin: PackageOrigin; spec: string })
 	| (IoError & { origin: PackageOrigin; spec: string })
 	| (ConflictError & { origin: PackageOrigin; spec: string })
 	| (NotFoundError & { origin: PackageOrigin; spec: string })
 
+export type RegistryFetchError =
+	| PackageFetchError
+	| (NetworkError & { origin: PackageOrigin; spec: string })
+
 export type PackageFetchResult =
 	| { ok: true; value: FetchedPackage }
 	| { ok: false; error: PackageFetchError }
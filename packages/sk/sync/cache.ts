@@ -0,0 +1,353 @@
+import { mkdtemp } from "node:fs/promises"
+import path from "node:path"
+import type { AbsolutePath, GitRef } from "@skills-supply/core"
+import {
+	readCacheEntry,
+	resolveCacheRepoDir,
+	resolveCacheStagingDir,
+	storeCacheCheckout,
+	writeCacheEntry,
+} from "@/cache/fs"
+import type { CacheEntry } from "@/cache/types"
+import { ensureDir, removePath } from "@/io/fs"
+import { toLockedRef } from "@/lock/fs"
+import {
+	fetchGitRepository,
+	resolveRemoteCommit,
+	resolveRepositoryCommit,
+} from "@/packages/fetch"
+import { failSync } from "@/sync/errors"
+import type { CachedRepo, RepoFetchEvent, SyncRepoCache, SyncResult } from "@/sync/types"
+import type { PackageOrigin } from "@/types/context"
+
+export interface CachedRepoPlan {
+	origin: PackageOrigin
+	/** buildRepoKey() of the source and ref */
+	key: string
+	/** Repository spec used in errors and cache listings */
+	source: string
+	remoteUrl: string
+	ref?: GitRef
+	sparsePaths?: string[]
+}
+
+export interface CachedArchivePlan {
+	/** buildRegistryKey() of the release */
+	key: string
+	/** Package spec used in cache listings and progress output */
+	source: string
+	/** Hex digest of the archive, used as the cache entry's commit */
+	digest: string
+	/** Download and unpack the archive into destination; called on a cache miss */
+	extract: (destination: AbsolutePath) => Promise<SyncResult<void>>
+}
+
+export function createRepoCache(
+	root: AbsolutePath,
+	onProgress?: (event: RepoFetchEvent) => void,
+): SyncRepoCache {
+	return {
+		onProgress,
+		pending: new Map<string, Promise<unknown>>(),
+		repos: new Map<string, CachedRepo>(),
+		root,
+	}
+}
+
+/**
+ * Fetch a repository through the persistent cache. Each repo key is fetched at
+ * most once per sync; across syncs a cached checkout is reused while the remote
+ * ref still resolves to the commit it was checked out at. Concurrent fetches of
+ * the same key run one after another so they never race on its cache entry.
+ */
+export async function fetchCachedRepository(
+	cache: SyncRepoCache,
+	plan: CachedRepoPlan,
+): Promise<SyncResult<CachedRepo>> {
+	return runExclusive(cache, plan.key, () => fetchRepository(cache, plan))
+}
+
+/**
+ * Unpack an archive (a registry release) through the persistent cache. Archives
+ * are immutable, so an entry is reused whenever its digest matches.
+ */
+export async function fetchCachedArchive(
+	cache: SyncRepoCache,
+	plan: CachedArchivePlan,
+): Promise<SyncResult<CachedRepo>> {
+	return runExclusive(cache, plan.key, () => fetchArchive(cache, plan))
+}
+
+async function runExclusive<T>(
+	cache: SyncRepoCache,
+	key: string,
+	task: () => Promise<T>,
+): Promise<T> {
+	const previous = cache.pending.get(key) ?? Promise.resolve()
+	const current = previous.then(task, task)
+	cache.pending.set(key, current)
+
+	try {
+		return await current
+	} finally {
+		if (cache.pending.get(key) === current) {
+			cache.pending.delete(key)
+		}
+	}
+}
+
+async function fetchArchive(
+	cache: SyncRepoCache,
+	plan: CachedArchivePlan,
+): Promise<SyncResult<CachedRepo>> {
+	const fetched = cache.repos.get(plan.key)
+	if (fetched?.commit === plan.digest) {
+		return { ok: true, value: fetched }
+	}
+
+	const repoDir = resolveCacheRepoDir(cache.root, plan.key, plan.source)
+	const cached = await readCacheEntry(repoDir, plan.digest)
+	if (!cached.ok) {
+		return failSync("fetch", cached.error)
+	}
+
+	const now = new Date().toISOString()
+	if (cached.value) {
+		const used = await writeCacheEntry({ ...cached.value, usedAt: now })
+		if (!used.ok) {
+			return failSync("fetch", used.error)
+		}
+		cache.onProgress?.({ commit: plan.digest, source: plan.source, status: "cached" })
+		return rememberRepo(cache, plan.key, cached.value)
+	}
+
+	cache.onProgress?.({ source: plan.source, status: "fetching" })
+	const staging = await createStagingDir(cache)
+	if (!staging.ok) {
+		return staging
+	}
+
+	try {
+		const stagedPath = path.join(staging.value, "archive") as AbsolutePath
+		const ensured = await ensureDir(stagedPath)
+		if (!ensured.ok) {
+			return failSync("fetch", ensured.error)
+		}
+
+		const extracted = await plan.extract(stagedPath)
+		if (!extracted.ok) {
+			return extracted
+		}
+
+		const entry: CacheEntry = {
+			commit: plan.digest,
+			fetchedAt: now,
+			key: plan.key,
+			path: path.join(repoDir, plan.digest) as AbsolutePath,
+			source: plan.source,
+			sparsePaths: null,
+			usedAt: now,
+		}
+		const stored = await storeCacheCheckout(stagedPath, entry)
+		if (!stored.ok) {
+			return failSync("fetch", stored.error)
+		}
+
+		cache.onProgress?.({
+			commit: plan.digest,
+			source: plan.source,
+			status: "fetched",
+		})
+		return rememberRepo(cache, plan.key, entry)
+	} finally {
+		await removePath(staging.value)
+	}
+}
+
+async function fetchRepository(
+	cache: SyncRepoCache,
+	plan: CachedRepoPlan,
+): Promise<SyncResult<CachedRepo>> {
+	const sparsePaths =
+		plan.sparsePaths && plan.sparsePaths.length > 0
+			? [...plan.sparsePaths].sort()
+			: null
+
+	const fetched = cache.repos.get(plan.key)
+	if (fetched && coversPaths(fetched.sparsePaths, sparsePaths)) {
+		return { ok: true, value: fetched }
+	}
+
+	// A repo already fetched this sync stays at the same commit for every agent.
+	let commit: string | null
+	if (fetched) {
+		commit = fetched.commit
+	} else {
+		const remote = await resolveRemoteCommit(
+			plan.remoteUrl,
+			plan.ref,
+			plan.origin,
+			plan.source,
+		)
+		if (!remote.ok) {
+			return failSync("fetch", remote.error)
+		}
+		commit = remote.value
+	}
+
+	const repoDir = resolveCacheRepoDir(cache.root, plan.key, plan.source)
+	let previous: CacheEntry | null = null
+	if (commit) {
+		const cached = await readCacheEntry(repoDir, commit)
+		if (!cached.ok) {
+			return failSync("fetch", cached.error)
+		}
+		previous = cached.value
+	}
+
+	const now = new Date().toISOString()
+	if (previous && coversPaths(previous.sparsePaths, sparsePaths)) {
+		const used = await writeCacheEntry({ ...previous, usedAt: now })
+		if (!used.ok) {
+			return failSync("fetch", used.error)
+		}
+		cache.onProgress?.({
+			commit: previous.commit,
+			source: plan.source,
+			status: "cached",
+		})
+		return rememberRepo(cache, plan.key, previous)
+	}
+
+	const checkoutPaths = previous
+		? mergePaths(previous.sparsePaths, sparsePaths)
+		: sparsePaths
+	const ref = fetched ? toLockedRef(fetched.commit) : plan.ref
+	cache.onProgress?.({ source: plan.source, status: "fetching" })
+	const stored = await fetchIntoCache(cache, plan, {
+		fetchedAt: now,
+		ref,
+		repoDir,
+		sparsePaths: checkoutPaths,
+	})
+	if (!stored.ok) {
+		return stored
+	}
+
+	cache.onProgress?.({
+		commit: stored.value.commit,
+		source: plan.source,
+		status: "fetched",
+	})
+	return rememberRepo(cache, plan.key, stored.value)
+}
+
+/**
+ * Clone into a private staging directory, then move the checkout into the
+ * cache so an interrupted fetch never leaves a partial entry behind.
+ */
+async function fetchIntoCache(
+	cache: SyncRepoCache,
+	plan: CachedRepoPlan,
+	options: {
+		fetchedAt: string
+		ref: GitRef | undefined
+		repoDir: AbsolutePath
+		sparsePaths: string[] | null
+	},
+): Promise<SyncResult<CacheEntry>> {
+	const staging = await createStagingDir(cache)
+	if (!staging.ok) {
+		return staging
+	}
+	const stagingDir = staging.value
+
+	try {
+		const repoResult = await fetchGitRepository({
+			destination: path.join(stagingDir, "repo"),
+			origin: plan.origin,
+			ref: options.ref,
+			remoteUrl: plan.remoteUrl,
+			sparsePaths: options.sparsePaths ?? undefined,
+			spec: plan.source,
+		})
+		if (!repoResult.ok) {
+			return failSync("fetch", repoResult.error)
+		}
+
+		const stagedPath = repoResult.value.repoPath
+		const commit = await resolveRepositoryCommit(stagedPath, plan.origin, plan.source)
+		if (!commit.ok) {
+			return failSync("fetch", commit.error)
+		}
+
+		const entry: CacheEntry = {
+			commit: commit.value,
+			fetchedAt: options.fetchedAt,
+			key: plan.key,
+			path: path.join(options.repoDir, commit.value) as AbsolutePath,
+			source: plan.source,
+			sparsePaths: options.sparsePaths,
+			usedAt: options.fetchedAt,
+		}
+		const stored = await storeCacheCheckout(stagedPath, entry)
+		if (!stored.ok) {
+			return failSync("fetch", stored.error)
+		}
+
+		return { ok: true, value: entry }
+	} finally {
+		await removePath(stagingDir)
+	}
+}
+
+async function createStagingDir(cache: SyncRepoCache): Promise<SyncResult<string>> {
+	const stagingRoot = resolveCacheStagingDir(cache.root)
+	const ensured = await ensureDir(stagingRoot)
+	if (!ensured.ok) {
+		return failSync("fetch", ensured.error)
+	}
+
+	try {
+		return { ok: true, value: await mkdtemp(path.join(stagingRoot, "fetch-")) }
+	} catch (error) {
+		return failSync("fetch", {
+			message: "Unable to create cache staging directory.",
+			operation: "mkdtemp",
+			path: stagingRoot,
+			rawError: error instanceof Error ? error : undefined,
+			type: "io",
+		})
+	}
+}
+
+function rememberRepo(
+	cache: SyncRepoCache,
+	key: string,
+	entry: Pick<CacheEntry, "commit" | "path" | "sparsePaths">,
+): SyncResult<CachedRepo> {
+	const repo: CachedRepo = {
+		commit: entry.commit,
+		repoPath: entry.path,
+		sparsePaths: entry.sparsePaths,
+	}
+	cache.repos.set(key, repo)
+	return { ok: true, value: repo }
+}
+
+function coversPaths(available: string[] | null, needed: string[] | null): boolean {
+	if (!available) {
+		return true
+	}
+	if (!needed) {
+		return false
+	}
+	return needed.every((entry) => available.includes(entry))
+}
+
+function mergePaths(a: string[] | null, b: string[] | null): string[] | null {
+	if (!a || !b) {
+		return null
+	}
+	return [...new Set([...a, ...b])].sort()
+}
@@ -0,0 +1,160 @@
+import { readlink } from "node:fs/promises"
+import path from "node:path"
+import { type InstallTask, type RuleTask, renderSkillRule } from "@/agents/install"
+import { ruleFileName } from "@/agents/rules"
+import type { AgentInstallState } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import { readTextFile, safeLstat } from "@/io/fs"
+import { hashDirectory } from "@/io/hash"
+import { failSync } from "@/sync/errors"
+import type { SkillDrift, SyncResult } from "@/sync/types"
+
+/**
+ * Compare the planned install of an agent with its skills directory:
+ * - missing: a planned skill is not installed
+ * - extra: a skill sk installed earlier is no longer planned
+ * - wrong-mode: a planned skill is a copy where a symlink is expected, or
+ *   the other way round
+ * - modified: a copy differs from its source, or a symlink points elsewhere
+ * - rule-missing, rule-modified: for agents with a rule format, the rule file
+ *   of a planned skill is missing or differs from the one sk would render
+ */
+export async function detectSkillDrift(
+	agent: ResolvedAgent,
+	tasks: InstallTask[],
+	state: AgentInstallState | null,
+): Promise<SyncResult<SkillDrift[]>> {
+	const drift: SkillDrift[] = []
+	const planned = new Set<string>()
+
+	for (const task of tasks) {
+		planned.add(task.targetName)
+		const kind = await compareTask(task)
+		if (!kind.ok) {
+			return kind
+		}
+		if (kind.value) {
+			drift.push({ agentId: agent.id, kind: kind.value, skill: task.targetName })
+		}
+
+		if (task.rule) {
+			const ruleKind = await compareRule(agent, task, task.rule)
+			if (!ruleKind.ok) {
+				return ruleKind
+			}
+			if (ruleKind.value) {
+				drift.push({
+					agentId: agent.id,
+					kind: ruleKind.value,
+					skill: task.targetName,
+				})
+			}
+		}
+	}
+
+	for (const skill of state?.skills ?? []) {
+		if (planned.has(skill)) {
+			continue
+		}
+
+		const installed = [path.join(agent.skillsPath, skill)]
+		if (agent.rules) {
+			installed.push(
+				path.join(agent.rules.path, ruleFileName(agent.rules.format, skill)),
+			)
+		}
+		for (const installedPath of installed) {
+			const stats = await safeLstat(installedPath)
+			if (!stats.ok) {
+				return failSync("reconcile", stats.error)
+			}
+			if (stats.value) {
+				drift.push({ agentId: agent.id, kind: "extra", skill })
+				break
+			}
+		}
+	}
+
+	return { ok: true, value: drift }
+}
+
+async function compareTask(
+	task: InstallTask,
+): Promise<SyncResult<SkillDrift["kind"] | null>> {
+	const stats = await safeLstat(task.targetPath)
+	if (!stats.ok) {
+		return failSync("reconcile", stats.error)
+	}
+
+	if (!stats.value) {
+		return { ok: true, value: "missing" }
+	}
+
+	if (stats.value.isSymbolicLink() !== (task.mode === "symlink")) {
+		return { ok: true, value: "wrong-mode" }
+	}
+
+	if (task.mode === "symlink") {
+		try {
+			const target = path.resolve(
+				path.dirname(task.targetPath),
+				await readlink(task.targetPath),
+			)
+			return {
+				ok: true,
+				value: target === path.resolve(task.sourcePath) ? null : "modified",
+			}
+		} catch (error) {
+			return failSync("reconcile", {
+				message: `Unable to read symlink ${task.targetPath}.`,
+				operation: "readlink",
+				path: task.targetPath,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			})
+		}
+	}
+
+	const [installed, source] = await Promise.all([
+		hashDirectory(task.targetPath),
+		hashDirectory(task.sourcePath),
+	])
+	if (!installed.ok) {
+		return failSync("reconcile", installed.error)
+	}
+	if (!source.ok) {
+		return failSync("reconcile", source.error)
+	}
+
+	return { ok: true, value: installed.value === source.value ? null : "modified" }
+}
+
+async function compareRule(
+	agent: ResolvedAgent,
+	task: InstallTask,
+	rule: RuleTask,
+): Promise<SyncResult<SkillDrift["kind"] | null>> {
+	const stats = await safeLstat(rule.path)
+	if (!stats.ok) {
+		return failSync("reconcile", stats.error)
+	}
+	if (!stats.value) {
+		return { ok: true, value: "rule-missing" }
+	}
+
+	const [installed, rendered] = await Promise.all([
+		readTextFile(rule.path),
+		renderSkillRule(task, rule, agent.id),
+	])
+	if (!installed.ok) {
+		return failSync("reconcile", installed.error)
+	}
+	if (!rendered.ok) {
+		return failSync("reconcile", rendered.error)
+	}
+
+	return {
+		ok: true,
+		value: installed.value === rendered.value ? null : "rule-modified",
+	}
+}
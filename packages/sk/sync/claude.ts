@@ -0,0 +1,132 @@
+import { execFile } from "node:child_process"
+import { promisify } from "node:util"
+import type { AbsolutePath } from "@skills-supply/core"
+import type { AgentInstallState, ClaudeMarketplace } from "@/agents/state"
+import { failSync } from "@/sync/errors"
+import type { SyncResult } from "@/sync/types"
+
+const execFileAsync = promisify(execFile)
+
+// Output of commands whose work was done before, which sync treats as success
+const ALREADY_INSTALLED = /already installed/i
+const NOT_INSTALLED = /not installed|not found/i
+
+/** Plugins the manifest installs natively into Claude Code, for one sync */
+export interface NativeClaudePlugins {
+	/** Installed plugins, as "<plugin>@<marketplace name>" */
+	plugins: string[]
+	/** Marketplaces of those plugins */
+	marketplaces: ClaudeMarketplace[]
+	/** Specs of the marketplaces this sync added, leaving out those already present */
+	added: string[]
+}
+
+export const NO_NATIVE_CLAUDE_PLUGINS: NativeClaudePlugins = {
+	added: [],
+	marketplaces: [],
+	plugins: [],
+}
+
+/** Native plugins and marketplaces to record after a sync, and those to take out */
+export interface ClaudePluginPlan {
+	plugins: string[]
+	marketplaces: ClaudeMarketplace[]
+	uninstall: string[]
+	removeMarketplaces: ClaudeMarketplace[]
+}
+
+/**
+ * Compare the native plugins of a sync with the agent state: plugins sk
+ * installed that the manifest no longer declares are uninstalled, and
+ * marketplaces sk added that no declared plugin comes from are removed.
+ * Marketplaces that were present before sk added them are never removed.
+ */
+export function planClaudePlugins(
+	previous: AgentInstallState | null,
+	native: NativeClaudePlugins,
+): ClaudePluginPlan {
+	const declared = new Set(native.plugins)
+	const used = new Set(native.marketplaces.map((marketplace) => marketplace.spec))
+	const added = new Set(native.added)
+
+	const owned = new Map(
+		(previous?.marketplaces ?? []).map((marketplace) => [
+			marketplace.spec,
+			marketplace,
+		]),
+	)
+	for (const marketplace of native.marketplaces) {
+		if (added.has(marketplace.spec)) {
+			owned.set(marketplace.spec, marketplace)
+		}
+	}
+
+	return {
+		marketplaces: [...owned.values()].filter((entry) => used.has(entry.spec)),
+		plugins: native.plugins,
+		removeMarketplaces: [...owned.values()].filter((entry) => !used.has(entry.spec)),
+		uninstall: (previous?.plugins ?? []).filter((plugin) => !declared.has(plugin)),
+	}
+}
+
+/**
+ * Uninstall the plugins and remove the marketplaces the plan takes out.
+ * Ones already gone from Claude Code count as removed.
+ */
+export async function removeClaudePlugins(
+	plan: ClaudePluginPlan,
+	contextPath: AbsolutePath,
+): Promise<SyncResult<void>> {
+	for (const plugin of plan.uninstall) {
+		const result = await runClaudePluginCommand(
+			["uninstall", plugin],
+			contextPath,
+			NOT_INSTALLED,
+		)
+		if (!result.ok) {
+			return result
+		}
+	}
+
+	for (const marketplace of plan.removeMarketplaces) {
+		const result = await runClaudePluginCommand(
+			["marketplace", "remove", marketplace.name],
+			contextPath,
+			NOT_INSTALLED,
+		)
+		if (!result.ok) {
+			return result
+		}
+	}
+
+	return { ok: true, value: undefined }
+}
+
+/**
+ * Run `claude plugin <args>`. Resolves to false instead of failing when the
+ * command reports that its work was already done.
+ */
+export async function runClaudePluginCommand(
+	args: string[],
+	contextPath: AbsolutePath,
+	alreadyDone: RegExp = ALREADY_INSTALLED,
+): Promise<SyncResult<boolean>> {
+	try {
+		await execFileAsync("claude", ["plugin", ...args], {
+			encoding: "utf8",
+		})
+		return { ok: true, value: true }
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		if (alreadyDone.test(message)) {
+			return { ok: true, value: false }
+		}
+		return failSync("install", {
+			message: `Failed to run: claude plugin ${args.join(" ")}`,
+			operation: "execFile",
+			path: contextPath,
+			rawError: error instanceof Error ? error : undefined,
+			type: "io",
+		})
+	}
+}
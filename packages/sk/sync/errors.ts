@@ -1,12 +1,17 @@
+import { formatPackageChain } from "@/packages/resolve"
 import type { SyncResult, SyncStage } from "@/sync/types"
+import type { PackageOrigin } from "@/types/context"
 import type { SkError } from "@/types/errors"
 
 export function failSync(stage: SyncStage, error: SkError): SyncResult<never> {
+	// Errors about a transitive dependency name the chain that pulled it in
+	const origin = (error as { origin?: PackageOrigin }).origin
+	const chain = origin?.via ? ` (via ${formatPackageChain(origin)})` : ""
 	return {
 		error: {
 			...error,
 			cause: error,
-			message: `Sync failed at ${stage}.`,
+			message: `Sync failed at ${stage}${chain}.`,
 			stage,
 		},
 		ok: false,
@@ -0,0 +1,143 @@
+import type { AgentId } from "@skills-supply/core"
+import { readAgentState } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import { resolveCacheRoot } from "@/cache/fs"
+import type { Manifest } from "@/manifest/types"
+import { createRepoCache } from "@/sync/cache"
+import { failSync } from "@/sync/errors"
+import { runSync } from "@/sync/sync"
+import type { SyncOptions, SyncResult, SyncSummary } from "@/sync/types"
+
+type LayerSkills = Map<AgentId, ReadonlySet<string>>
+
+/**
+ * Sync a project manifest, then the global manifest into the same agent
+ * directories as a second layer. Each layer keeps its own state file, so a
+ * sync of one never removes skills of the other. Conflicts go to the project:
+ * - a global dependency whose alias the project declares is skipped
+ * - a global skill with the name of a project skill is skipped with a warning
+ * - a project skill may replace a global one installed earlier
+ *
+ * The global layer reads ~/.sk/agents.lock but never writes it. Without a
+ * global layer, skills an earlier layered sync installed are removed.
+ */
+export async function runLayeredSync(
+	options: SyncOptions,
+	globalLayer: Manifest | null,
+): Promise<SyncResult<SyncSummary>> {
+	const layerAgents = options.agents.map(
+		(agent): ResolvedAgent => ({ ...agent, layer: "global" }),
+	)
+	const layerSkills = await readLayerSkills(layerAgents)
+	if (!layerSkills.ok) {
+		return layerSkills
+	}
+	if (!globalLayer && layerSkills.value.size === 0) {
+		return await runSync(options)
+	}
+
+	const repoCache =
+		options.repoCache ??
+		createRepoCache(options.cacheRoot ?? resolveCacheRoot(), options.onProgress)
+	const project = await runSync({
+		...options,
+		replaceableSkills: layerSkills.value,
+		repoCache,
+	})
+	if (!project.ok) {
+		return project
+	}
+
+	const reservedSkills: LayerSkills = new Map(
+		project.value.agentChanges.map((changes) => [
+			changes.agentId,
+			new Set(changes.installed),
+		]),
+	)
+	const layer = await runSync({
+		...options,
+		agents: layerAgents,
+		manifest: withoutProjectAliases(globalLayer, options.manifest),
+		readOnlyLock: true,
+		repoCache,
+		reservedSkills,
+	})
+	if (!layer.ok) {
+		return layer
+	}
+
+	return {
+		ok: true,
+		value: combineLayers(project.value, layer.value, globalLayer !== null),
+	}
+}
+
+async function readLayerSkills(
+	agents: ResolvedAgent[],
+): Promise<SyncResult<LayerSkills>> {
+	const skills: LayerSkills = new Map()
+	for (const agent of agents) {
+		const state = await readAgentState(agent)
+		if (!state.ok) {
+			return failSync("reconcile", state.error)
+		}
+		if (state.value) {
+			skills.set(agent.id, new Set(state.value.skills))
+		}
+	}
+	return { ok: true, value: skills }
+}
+
+/**
+ * The dependencies of the global layer, minus aliases the project declares.
+ * Without a global layer, none: its earlier skills are removed.
+ */
+function withoutProjectAliases(
+	globalLayer: Manifest | null,
+	project: Manifest,
+): Manifest {
+	if (!globalLayer) {
+		return { ...project, dependencies: new Map() }
+	}
+
+	const dependencies = new Map(
+		[...globalLayer.dependencies].filter(
+			([alias]) => !project.dependencies.has(alias),
+		),
+	)
+	return { ...globalLayer, dependencies }
+}
+
+function combineLayers(
+	project: SyncSummary,
+	layer: SyncSummary,
+	layered: boolean,
+): SyncSummary {
+	return {
+		agentChanges: [
+			...project.agentChanges,
+			...layer.agentChanges.map((changes) => ({
+				...changes,
+				layer: "global" as const,
+			})),
+		],
+		agents: project.agents,
+		dependencies: project.dependencies + layer.dependencies,
+		drift: project.drift
+			? [
+					...project.drift,
+					...(layer.drift ?? []).map((drift) => ({
+						...drift,
+						layer: "global" as const,
+					})),
+				]
+			: undefined,
+		dryRun: project.dryRun,
+		installed: project.installed + layer.installed,
+		manifests: project.manifests + (layered ? 1 : 0),
+		noOpReason:
+			project.noOpReason && layer.noOpReason ? project.noOpReason : undefined,
+		removed: project.removed + layer.removed,
+		warnings: [...project.warnings, ...layer.warnings],
+	}
+}
@@ -0,0 +1,198 @@
+import { type Alias, type GitRef, normalizeDeclarationToKey } from "@skills-supply/core"
+import { hashDirectory } from "@/io/hash"
+import {
+	createEmptyLockfile,
+	findLockedPackage,
+	mergeLockedPackage,
+	readLockfile,
+	resolveLockPath,
+	toLockedRef,
+	writeLockfile,
+} from "@/lock/fs"
+import type { LockedPackage, LockedSkill } from "@/lock/types"
+import type { Manifest } from "@/manifest/types"
+import { toValidatedDeclaration } from "@/packages/resolve"
+import type { CanonicalPackage } from "@/packages/types"
+import { failSync } from "@/sync/errors"
+import type { ResolvedClaudePlugin } from "@/sync/marketplace"
+import type { ExtractedPackage, SyncLockContext, SyncResult } from "@/sync/types"
+
+export async function loadSyncLock(
+	manifest: Manifest,
+	update: boolean | Alias[] | undefined,
+): Promise<SyncResult<SyncLockContext>> {
+	const previous = await readLockfile(resolveLockPath(manifest))
+	if (!previous.ok) {
+		return failSync("parse", previous.error)
+	}
+
+	return {
+		ok: true,
+		value: {
+			entries: new Map<Alias, LockedPackage>(),
+			previous: previous.value,
+			update: Array.isArray(update) ? new Set(update) : Boolean(update),
+		},
+	}
+}
+
+/**
+ * The locked entry for a package, unless an update was requested for it or
+ * its declaration changed since the lock was written.
+ */
+export function findPinnedPackage(
+	canonical: CanonicalPackage,
+	lock: SyncLockContext,
+): LockedPackage | undefined {
+	const alias = canonical.origin.alias
+	if (lock.update === true || (lock.update !== false && lock.update.has(alias))) {
+		return undefined
+	}
+
+	return findLockedPackage(lock.previous, alias, toValidatedDeclaration(canonical))
+}
+
+export function resolvePinnedRef(
+	canonical: CanonicalPackage,
+	lock: SyncLockContext,
+): GitRef | undefined {
+	return toLockedRef(findPinnedPackage(canonical, lock)?.commit)
+}
+
+export function recordLockedPackages(
+	entries: LockedPackage[],
+	lock: SyncLockContext,
+): void {
+	for (const entry of entries) {
+		lock.entries.set(
+			entry.alias,
+			mergeLockedPackage(lock.entries.get(entry.alias), entry),
+		)
+	}
+}
+
+/**
+ * Keep the previous lock entry of packages that no agent in this sync
+ * received, such as a dependency limited to an agent that is disabled.
+ */
+export function keepUnsyncedLockEntries(
+	packages: CanonicalPackage[],
+	lock: SyncLockContext,
+): void {
+	for (const pkg of packages) {
+		if (lock.entries.has(pkg.origin.alias)) {
+			continue
+		}
+
+		const pinned = findPinnedPackage(pkg, lock)
+		if (pinned) {
+			lock.entries.set(pkg.origin.alias, pinned)
+		}
+	}
+}
+
+/**
+ * Hash every extracted skill and record the result in the lock. Packages that
+ * were fetched at their locked commit or registry release must reproduce the
+ * locked hashes. The declaration key leaves out skills and exclude_skills, so
+ * only skills both the lock and the current filter select are compared.
+ */
+export async function lockExtractedPackages(
+	packages: ExtractedPackage[],
+	plugins: ResolvedClaudePlugin[],
+	lock: SyncLockContext,
+): Promise<SyncResult<void>> {
+	const marketplaces = new Map(
+		plugins.map((plugin) => [plugin.canonical.origin.alias, plugin.marketplace]),
+	)
+	const entries: LockedPackage[] = []
+
+	for (const pkg of packages) {
+		const hashed = await hashExtractedSkills(pkg)
+		if (!hashed.ok) {
+			return hashed
+		}
+		const skills = hashed.value
+
+		const canonical = pkg.canonical
+		const pinned = findPinnedPackage(canonical, lock)
+		const atPin =
+			(pinned?.commit && pkg.commit === pinned.commit) ||
+			(pinned?.integrity && pkg.release?.integrity === pinned.integrity)
+		if (atPin) {
+			const mismatch = findSkillMismatch(pinned.skills, skills)
+			if (mismatch) {
+				return failSync("validate", {
+					message: `Skill "${mismatch}" from "${pkg.prefix}" does not match agents.lock. Run sk sync --update to re-lock it.`,
+					target: "lockfile",
+					type: "conflict",
+				})
+			}
+		}
+
+		entries.push({
+			alias: canonical.origin.alias,
+			commit: pkg.commit,
+			declaration: normalizeDeclarationToKey(toValidatedDeclaration(canonical)),
+			integrity: pkg.release?.integrity,
+			marketplace: marketplaces.get(canonical.origin.alias),
+			path:
+				canonical.type === "github" || canonical.type === "git"
+					? canonical.path
+					: undefined,
+			skills,
+			type: canonical.type,
+			version: pkg.release?.version,
+		})
+	}
+
+	recordLockedPackages(entries, lock)
+	return { ok: true, value: undefined }
+}
+
+export async function hashExtractedSkills(
+	pkg: ExtractedPackage,
+): Promise<SyncResult<LockedSkill[]>> {
+	const skills: LockedSkill[] = []
+	for (const skill of pkg.skills) {
+		const hash = await hashDirectory(skill.sourcePath)
+		if (!hash.ok) {
+			return failSync("validate", hash.error)
+		}
+		skills.push({ hash: hash.value, name: String(skill.name) })
+	}
+
+	return { ok: true, value: skills }
+}
+
+export async function saveSyncLock(
+	manifest: Manifest,
+	lock: SyncLockContext,
+): Promise<SyncResult<void>> {
+	if (!lock.previous && lock.entries.size === 0) {
+		return { ok: true, value: undefined }
+	}
+
+	const lockfile = createEmptyLockfile()
+	for (const [alias, entry] of lock.entries) {
+		lockfile.packages.set(alias, entry)
+	}
+
+	const written = await writeLockfile(resolveLockPath(manifest), lockfile)
+	if (!written.ok) {
+		return failSync("install", written.error)
+	}
+
+	return { ok: true, value: undefined }
+}
+
+function findSkillMismatch(
+	locked: LockedSkill[],
+	current: LockedSkill[],
+): string | undefined {
+	const lockedHashes = new Map(locked.map((skill) => [skill.name, skill.hash]))
+	return current.find((skill) => {
+		const lockedHash = lockedHashes.get(skill.name)
+		return lockedHash !== undefined && lockedHash !== skill.hash
+	})?.name
+}
@@ -10,6 +10,7 @@ import {
 import { describe, expect, it, vi } from "vitest"
 import type { ResolvedAgent } from "@/agents/types"
 import type { CanonicalPackage } from "@/packages/types"
+import { createRepoCache } from "@/sync/cache"
 import { resolveAgentPackages } from "@/sync/marketplace"
 import { abs, alias, ghRef, nes } from "@/tests/helpers/branded"
 
@@ -88,7 +89,7 @@ describe("resolveAgentPackages", () => {
 				agent: makeAgent("codex"),
 				dryRun: false,
 				packages: [makePluginPackage(marketplacePath)],
-				tempRoot: abs(dir),
+				repoCache: createRepoCache(abs(path.join(dir, "cache"))),
 			})
 
 			expect(result.ok).toBe(true)
@@ -106,6 +107,29 @@ describe("resolveAgentPackages", () => {
 		})
 	})
 
+	it("skips packages limited to other agents", async () => {
+		await withTempDir(async (dir) => {
+			const marketplacePath = await setupMarketplace(dir)
+			const result = await resolveAgentPackages({
+				agent: makeAgent("claude-code"),
+				dryRun: false,
+				packages: [
+					{ ...makePluginPackage(marketplacePath), agents: ["codex"] },
+					{ ...makeGithubPackage(), agents: ["codex"] },
+				],
+				repoCache: createRepoCache(abs(path.join(dir, "cache"))),
+			})
+
+			expect(result.ok).toBe(true)
+			if (!result.ok) {
+				return
+			}
+			expect(result.value.packages).toHaveLength(0)
+			expect(result.value.plugins).toHaveLength(0)
+			expect(result.value.locked).toHaveLength(0)
+		})
+	})
+
 	it("returns warnings for claude-code dry runs", async () => {
 		await withTempDir(async (dir) => {
 			const marketplacePath = await setupMarketplace(dir)
@@ -113,7 +137,7 @@ describe("resolveAgentPackages", () => {
 				agent: makeAgent("claude-code"),
 				dryRun: true,
 				packages: [makePluginPackage(marketplacePath), makeGithubPackage()],
-				tempRoot: abs(dir),
+				repoCache: createRepoCache(abs(path.join(dir, "cache"))),
 			})
 
 			expect(result.ok).toBe(true)
@@ -144,7 +168,7 @@ describe("resolveAgentPackages", () => {
 				agent: makeAgent("codex"),
 				dryRun: false,
 				packages: [makePluginPackage("https://example.com/marketplace.json")],
-				tempRoot: abs("/tmp"),
+				repoCache: createRepoCache(abs("/tmp/sk-cache")),
 			})
 
 			expect(result.ok).toBe(false)
@@ -167,7 +191,7 @@ describe("resolveAgentPackages", () => {
 				agent: makeAgent("codex"),
 				dryRun: false,
 				packages: [makePluginPackage(marketplacePath)],
-				tempRoot: abs(dir),
+				repoCache: createRepoCache(abs(path.join(dir, "cache"))),
 			})
 
 			expect(result.ok).toBe(false)
@@ -1,30 +1,34 @@
-import { execFile } from "node:child_process"
 import { homedir } from "node:os"
 import path from "node:path"
-import { promisify } from "node:util"
 import {
 	type AbsolutePath,
 	type Alias,
 	coerceAbsolutePathDirect,
 	coerceAlias,
+	type GitRef,
 	MARKETPLACE_FILENAME,
 	type MarketplaceInfo,
+	type MarketplacePlugin,
+	normalizeDeclarationToKey,
 	PLUGIN_DIR,
 	parseMarketplace,
 	resolvePluginSource,
 	type ValidatedDeclaration,
 } from "@skills-supply/core"
+import type { ClaudeMarketplace } from "@/agents/state"
 import type { ResolvedAgent } from "@/agents/types"
 import { readTextFile, safeStat } from "@/io/fs"
-import {
-	fetchGithubRepository,
-	fetchGitRepository,
-	parseGithubSlug,
-} from "@/packages/fetch"
+import { toLockedRef } from "@/lock/fs"
+import type { LockedMarketplace, LockedPackage } from "@/lock/types"
+import { githubRemoteUrl, parseGithubSlug } from "@/packages/fetch"
+import { filterPackagesForAgent, toValidatedDeclaration } from "@/packages/resolve"
 import type { CanonicalPackage, ClaudePluginPackage } from "@/packages/types"
+import { fetchCachedRepository } from "@/sync/cache"
+import { type NativeClaudePlugins, runClaudePluginCommand } from "@/sync/claude"
 import { failSync } from "@/sync/errors"
-import { buildRepoDir, buildRepoKey } from "@/sync/repo"
-import type { SyncResult } from "@/sync/types"
+import { findPinnedPackage } from "@/sync/lock"
+import { buildRepoKey } from "@/sync/repo"
+import type { SyncLockContext, SyncRepoCache, SyncResult } from "@/sync/types"
 import type { PackageOrigin } from "@/types/context"
 
 // Create a fake origin for marketplace operations
@@ -35,13 +39,12 @@ function createMarketplaceOrigin(manifestPath: AbsolutePath): PackageOrigin {
 	}
 }
 
-const execFileAsync = promisify(execFile)
-
 interface MarketplaceResolved {
 	info: MarketplaceInfo
 	manifestPath: string
 	basePath: AbsolutePath
 	source: MarketplaceSource
+	commit?: string
 }
 
 type MarketplaceSource =
@@ -55,29 +58,35 @@ type PluginSource = Extract<ValidatedDeclaration, { type: "github" | "git" | "lo
 export type ResolvedClaudePlugin = {
 	readonly canonical: ClaudePluginPackage
 	readonly source: PluginSource
+	readonly marketplace: LockedMarketplace
+	/** Commit pinned by agents.lock for the plugin source, if still valid */
+	readonly lockedRef?: GitRef
 }
 
 export async function resolveAgentPackages(options: {
 	agent: ResolvedAgent
 	packages: CanonicalPackage[]
-	tempRoot: AbsolutePath
+	repoCache: SyncRepoCache
 	dryRun: boolean
+	lock?: SyncLockContext
 }): Promise<
 	SyncResult<{
 		packages: CanonicalPackage[]
 		plugins: ResolvedClaudePlugin[]
+		locked: LockedPackage[]
 		warnings: string[]
+		/** Plugins installed natively, for Claude Code */
+		native?: NativeClaudePlugins
 	}>
 > {
-	const pluginPackages = options.packages.filter(isClaudePluginPackage)
-	const standardPackages = options.packages.filter(
-		(pkg) => pkg.type !== "claude-plugin",
-	)
+	const packages = filterPackagesForAgent(options.packages, options.agent.id)
+	const pluginPackages = packages.filter(isClaudePluginPackage)
+	const standardPackages = packages.filter((pkg) => pkg.type !== "claude-plugin")
 
 	if (pluginPackages.length === 0) {
 		return {
 			ok: true,
-			value: { packages: standardPackages, plugins: [], warnings: [] },
+			value: { locked: [], packages: standardPackages, plugins: [], warnings: [] },
 		}
 	}
 
@@ -86,18 +95,22 @@ export async function resolveAgentPackages(options: {
 	if (options.agent.id === "claude-code") {
 		const validation = await validateClaudePlugins(
 			pluginPackages,
-			options.tempRoot,
+			options.repoCache,
 			marketplaceCache,
+			options.lock,
 		)
 		if (!validation.ok) {
 			return validation
 		}
 
+		const native = describeNativePlugins(pluginPackages, marketplaceCache)
 		if (options.dryRun) {
 			const names = pluginPackages.map((plugin) => plugin.plugin).join(", ")
 			return {
 				ok: true,
 				value: {
+					locked: validation.value,
+					native,
 					packages: standardPackages,
 					plugins: [],
 					warnings: [
@@ -109,23 +122,39 @@ export async function resolveAgentPackages(options: {
 
 		const installPlugins = await installClaudePlugins(
 			pluginPackages,
-			options.tempRoot,
+			options.repoCache,
 			marketplaceCache,
+			options.lock,
 		)
 		if (!installPlugins.ok) {
 			return installPlugins
 		}
 
+		// Native installs bring in the whole plugin; Claude has no per-skill selection.
+		const warnings = pluginPackages
+			.filter((plugin) => plugin.skillFilter)
+			.map(
+				(plugin) =>
+					`Skill filter for "${plugin.origin.alias}" does not apply to ${options.agent.displayName}; the whole plugin is installed.`,
+			)
+
 		return {
 			ok: true,
-			value: { packages: standardPackages, plugins: [], warnings: [] },
+			value: {
+				locked: validation.value,
+				native: { ...native, added: installPlugins.value },
+				packages: standardPackages,
+				plugins: [],
+				warnings,
+			},
 		}
 	}
 
 	const resolved = await resolveClaudePluginDependencies(
 		pluginPackages,
-		options.tempRoot,
+		options.repoCache,
 		marketplaceCache,
+		options.lock,
 	)
 	if (!resolved.ok) {
 		return resolved
@@ -134,6 +163,7 @@ export async function resolveAgentPackages(options: {
 	return {
 		ok: true,
 		value: {
+			locked: [],
 			packages: standardPackages,
 			plugins: resolved.value,
 			warnings: [],
@@ -141,21 +171,72 @@ export async function resolveAgentPackages(options: {
 	}
 }
 
+/**
+ * Load the marketplace of a claude-plugin dependency and return the entry for
+ * its plugin, or undefined when the marketplace does not list it.
+ */
+export async function loadMarketplacePluginEntry(
+	plugin: ClaudePluginPackage,
+	repoCache: SyncRepoCache,
+): Promise<SyncResult<MarketplacePlugin | undefined>> {
+	const marketplace = await loadMarketplaceInfo(
+		plugin.marketplace,
+		plugin.origin.manifestPath,
+		repoCache,
+		new Map<string, MarketplaceResolved>(),
+	)
+	if (!marketplace.ok) {
+		return marketplace
+	}
+
+	return {
+		ok: true,
+		value: findMarketplacePlugin(marketplace.value.info, plugin.plugin),
+	}
+}
+
+/**
+ * Name natively installed plugins as Claude Code does, by the marketplace
+ * names validation loaded into the cache.
+ */
+function describeNativePlugins(
+	plugins: ClaudePluginPackage[],
+	cache: Map<string, MarketplaceResolved>,
+): NativeClaudePlugins {
+	const installed = new Set<string>()
+	const marketplaces = new Map<string, ClaudeMarketplace>()
+	for (const plugin of plugins) {
+		const name = cache.get(plugin.marketplace)?.info.name ?? plugin.marketplace
+		installed.add(`${plugin.plugin}@${name}`)
+		marketplaces.set(plugin.marketplace, { name, spec: plugin.marketplace })
+	}
+
+	return {
+		added: [],
+		marketplaces: [...marketplaces.values()],
+		plugins: [...installed],
+	}
+}
+
 function isClaudePluginPackage(pkg: CanonicalPackage): pkg is ClaudePluginPackage {
 	return pkg.type === "claude-plugin"
 }
 
 async function validateClaudePlugins(
 	plugins: ClaudePluginPackage[],
-	tempRoot: AbsolutePath,
+	repoCache: SyncRepoCache,
 	cache: Map<string, MarketplaceResolved>,
-): Promise<SyncResult<void>> {
+	lock: SyncLockContext | undefined,
+): Promise<SyncResult<LockedPackage[]>> {
+	const locked: LockedPackage[] = []
+
 	for (const plugin of plugins) {
 		const marketplaceResult = await loadMarketplaceInfo(
 			plugin.marketplace,
 			plugin.origin.manifestPath,
-			tempRoot,
+			repoCache,
 			cache,
+			lockedMarketplaceRef(plugin, lock),
 		)
 		if (!marketplaceResult.ok) {
 			return marketplaceResult
@@ -170,25 +251,43 @@ async function validateClaudePlugins(
 				type: "not_found",
 			})
 		}
+
+		// Claude Code installs the plugin itself, so only the marketplace entry is locked.
+		locked.push({
+			alias: plugin.origin.alias,
+			declaration: normalizeDeclarationToKey(toValidatedDeclaration(plugin)),
+			marketplace: {
+				commit: marketplace.commit,
+				plugin: plugin.plugin,
+				spec: plugin.marketplace,
+				version: pluginEntry.version,
+			},
+			skills: [],
+			type: "claude-plugin",
+		})
 	}
 
-	return { ok: true, value: undefined }
+	return { ok: true, value: locked }
 }
 
 async function installClaudePlugins(
 	plugins: ClaudePluginPackage[],
-	tempRoot: AbsolutePath,
+	repoCache: SyncRepoCache,
 	cache: Map<string, MarketplaceResolved>,
-): Promise<SyncResult<void>> {
+	lock: SyncLockContext | undefined,
+): Promise<SyncResult<string[]>> {
 	const addedMarketplaces = new Set<string>()
+	// Marketplaces Claude Code did not know before this sync
+	const newMarketplaces: string[] = []
 	const installedPlugins = new Set<string>()
 
 	for (const plugin of plugins) {
 		const marketplaceResult = await loadMarketplaceInfo(
 			plugin.marketplace,
 			plugin.origin.manifestPath,
-			tempRoot,
+			repoCache,
 			cache,
+			lockedMarketplaceRef(plugin, lock),
 		)
 		if (!marketplaceResult.ok) {
 			return marketplaceResult
@@ -213,6 +312,9 @@ async function installClaudePlugins(
 				return addResult
 			}
 			addedMarketplaces.add(plugin.marketplace)
+			if (addResult.value) {
+				newMarketplaces.push(plugin.marketplace)
+			}
 		}
 
 		const installKey = `${plugin.plugin}@${plugin.marketplace}`
@@ -230,13 +332,14 @@ async function installClaudePlugins(
 		installedPlugins.add(installKey)
 	}
 
-	return { ok: true, value: undefined }
+	return { ok: true, value: newMarketplaces }
 }
 
 async function resolveClaudePluginDependencies(
 	plugins: ClaudePluginPackage[],
-	tempRoot: AbsolutePath,
+	repoCache: SyncRepoCache,
 	cache: Map<string, MarketplaceResolved>,
+	lock: SyncLockContext | undefined,
 ): Promise<SyncResult<ResolvedClaudePlugin[]>> {
 	const resolved: ResolvedClaudePlugin[] = []
 
@@ -244,8 +347,9 @@ async function resolveClaudePluginDependencies(
 		const marketplaceResult = await loadMarketplaceInfo(
 			plugin.marketplace,
 			plugin.origin.manifestPath,
-			tempRoot,
+			repoCache,
 			cache,
+			lockedMarketplaceRef(plugin, lock),
 		)
 		if (!marketplaceResult.ok) {
 			return marketplaceResult
@@ -270,8 +374,22 @@ async function resolveClaudePluginDependencies(
 			})
 		}
 
+		const source = normalizeDeclarationToKey(sourceResult.value)
+		const locked = lock ? findPinnedPackage(plugin, lock) : undefined
+		const pluginEntry = findMarketplacePlugin(marketplace.info, plugin.plugin)
 		resolved.push({
 			canonical: plugin,
+			lockedRef:
+				locked?.marketplace?.source === source
+					? toLockedRef(locked.commit)
+					: undefined,
+			marketplace: {
+				commit: marketplace.commit,
+				plugin: plugin.plugin,
+				source,
+				spec: plugin.marketplace,
+				version: pluginEntry?.version,
+			},
 			source: sourceResult.value,
 		})
 	}
@@ -279,6 +397,17 @@ async function resolveClaudePluginDependencies(
 	return { ok: true, value: resolved }
 }
 
+function lockedMarketplaceRef(
+	plugin: ClaudePluginPackage,
+	lock: SyncLockContext | undefined,
+): GitRef | undefined {
+	if (!lock) {
+		return undefined
+	}
+
+	return toLockedRef(findPinnedPackage(plugin, lock)?.marketplace?.commit)
+}
+
 function findMarketplacePlugin(
 	marketplace: MarketplaceInfo,
 	pluginName: string,
@@ -289,8 +418,9 @@ function findMarketplacePlugin(
 async function loadMarketplaceInfo(
 	spec: string,
 	sourcePath: AbsolutePath,
-	tempRoot: AbsolutePath,
+	repoCache: SyncRepoCache,
 	cache: Map<string, MarketplaceResolved>,
+	ref?: GitRef,
 ): Promise<SyncResult<MarketplaceResolved>> {
 	const cached = cache.get(spec)
 	if (cached) {
@@ -305,6 +435,7 @@ async function loadMarketplaceInfo(
 	let manifestPath: string
 	let manifestContents: string
 	let basePath: AbsolutePath
+	let commit: string | undefined
 
 	if (parsed.value.type === "url") {
 		manifestPath = parsed.value.url
@@ -313,7 +444,8 @@ async function loadMarketplaceInfo(
 			return fetched
 		}
 		manifestContents = fetched.value
-		basePath = tempRoot
+		// URL marketplaces cannot use local plugin sources, so the base path is unused.
+		basePath = path.dirname(sourcePath) as AbsolutePath
 	} else {
 		let rootPath: string
 		if (parsed.value.type === "path") {
@@ -341,35 +473,25 @@ async function loadMarketplaceInfo(
 			}
 
 			rootPath = parsed.value.path
-		} else if (parsed.value.type === "github") {
-			const key = buildRepoKey("github", parsed.value.slug, undefined)
-			const repoDir = buildRepoDir(tempRoot, key, "marketplace")
-			const marketplaceOrigin = createMarketplaceOrigin(sourcePath)
-			const repoResult = await fetchGithubRepository({
-				destination: repoDir,
-				origin: marketplaceOrigin,
-				owner: parsed.value.owner,
-				repo: parsed.value.repo,
-				spec: parsed.value.slug,
-			})
-			if (!repoResult.ok) {
-				return failSync("fetch", repoResult.error)
-			}
-			rootPath = repoResult.value.repoPath
 		} else {
-			const key = buildRepoKey("git", parsed.value.url, undefined)
-			const repoDir = buildRepoDir(tempRoot, key, "marketplace")
 			const marketplaceOrigin = createMarketplaceOrigin(sourcePath)
-			const repoResult = await fetchGitRepository({
-				destination: repoDir,
+			const source =
+				parsed.value.type === "github" ? parsed.value.slug : parsed.value.url
+			const repoResult = await fetchCachedRepository(repoCache, {
+				key: buildRepoKey(parsed.value.type, source, ref),
 				origin: marketplaceOrigin,
-				remoteUrl: parsed.value.url,
-				spec: parsed.value.url,
+				ref,
+				remoteUrl:
+					parsed.value.type === "github"
+						? githubRemoteUrl(parsed.value.owner, parsed.value.repo)
+						: parsed.value.url,
+				source,
 			})
 			if (!repoResult.ok) {
-				return failSync("fetch", repoResult.error)
+				return repoResult
 			}
 			rootPath = repoResult.value.repoPath
+			commit = repoResult.value.commit
 		}
 
 		const resolvedRoot = coerceAbsolutePathDirect(rootPath)
@@ -402,6 +524,7 @@ async function loadMarketplaceInfo(
 
 	const info: MarketplaceResolved = {
 		basePath,
+		commit,
 		info: parsedMarketplace.value,
 		manifestPath,
 		source: parsed.value,
@@ -566,28 +689,3 @@ function looksLikeMarketplaceJsonUrl(value: string): boolean {
 function looksLikeGitUrl(value: string): boolean {
 	return value.startsWith("git@") || value.includes("://")
 }
-
-async function runClaudePluginCommand(
-	args: string[],
-	contextPath: AbsolutePath,
-): Promise<SyncResult<void>> {
-	try {
-		await execFileAsync("claude", ["plugin", ...args], {
-			encoding: "utf8",
-		})
-		return { ok: true, value: undefined }
-	} catch (error) {
-		const message = error instanceof Error ? error.message : String(error)
-		// Treat "already installed" as success for marketplace add
-		if (message.includes("already installed")) {
-			return { ok: true, value: undefined }
-		}
-		return failSync("install", {
-			message: `Failed to run: claude plugin ${args.join(" ")}`,
-			operation: "execFile",
-			path: contextPath,
-			rawError: error instanceof Error ? error : undefined,
-			type: "io",
-		})
-	}
-}
@@ -0,0 +1,112 @@
+import type { RegistryRelease } from "@skills-supply/core"
+import type { LockedPackage } from "@/lock/types"
+import {
+	downloadRegistryTarball,
+	extractRegistryTarball,
+	fetchRegistryIndex,
+	registryPackageSpec,
+	selectRegistryRelease,
+} from "@/packages/registry"
+import type {
+	FetchedPackage,
+	RegistryPackage,
+	RegistryReleasePin,
+} from "@/packages/types"
+import { fetchCachedArchive } from "@/sync/cache"
+import { failSync } from "@/sync/errors"
+import { buildRegistryKey } from "@/sync/repo"
+import type { SyncRepoCache, SyncResult } from "@/sync/types"
+
+/**
+ * Fetch a registry package through the repository cache. A package pinned in
+ * agents.lock installs the locked release and skips the network when that
+ * release is cached; otherwise the newest release matching the declared range
+ * is installed.
+ */
+export async function fetchRegistryPackage(
+	pkg: RegistryPackage,
+	repoCache: SyncRepoCache,
+	options: { registryUrl: string; pinned?: LockedPackage },
+): Promise<SyncResult<FetchedPackage>> {
+	const { pinned, registryUrl } = options
+	const spec = registryPackageSpec(pkg)
+
+	let release: RegistryReleasePin
+	let resolved: RegistryRelease | undefined
+	if (pinned?.version && pinned.integrity) {
+		release = { integrity: pinned.integrity, version: pinned.version }
+	} else {
+		const selected = await resolveRelease(pkg, registryUrl, undefined)
+		if (!selected.ok) {
+			return selected
+		}
+		resolved = selected.value
+		release = resolved
+	}
+
+	const repo = await fetchCachedArchive(repoCache, {
+		digest: integrityDigest(release.integrity),
+		extract: async (destination) => {
+			let download = resolved
+			if (!download) {
+				const selected = await resolveRelease(pkg, registryUrl, release.version)
+				if (!selected.ok) {
+					return selected
+				}
+				if (selected.value.integrity !== release.integrity) {
+					return failSync("fetch", {
+						message: `${spec}@${release.version} in the registry no longer matches agents.lock. Run sk sync --update to re-lock it.`,
+						target: "lockfile",
+						type: "conflict",
+					})
+				}
+				download = selected.value
+			}
+
+			const data = await downloadRegistryTarball(download, pkg)
+			if (!data.ok) {
+				return failSync("fetch", data.error)
+			}
+
+			const extracted = await extractRegistryTarball(data.value, destination, pkg)
+			return extracted.ok ? extracted : failSync("fetch", extracted.error)
+		},
+		key: buildRegistryKey(registryUrl, spec, release.version),
+		source: `${spec}@${release.version}`,
+	})
+	if (!repo.ok) {
+		return repo
+	}
+
+	return {
+		ok: true,
+		value: {
+			canonical: pkg,
+			packagePath: repo.value.repoPath,
+			release: { integrity: release.integrity, version: release.version },
+			repoPath: repo.value.repoPath,
+		},
+	}
+}
+
+async function resolveRelease(
+	pkg: RegistryPackage,
+	registryUrl: string,
+	pinnedVersion: string | undefined,
+): Promise<SyncResult<RegistryRelease>> {
+	const index = await fetchRegistryIndex(registryUrl, pkg)
+	if (!index.ok) {
+		return failSync("fetch", index.error)
+	}
+
+	const release = selectRegistryRelease(index.value, pkg, pinnedVersion)
+	return release.ok ? release : failSync("fetch", release.error)
+}
+
+/**
+ * Hex form of a "sha256-<base64>" integrity string, safe for use as a path.
+ */
+function integrityDigest(integrity: string): string {
+	const separator = integrity.indexOf("-")
+	return Buffer.from(integrity.slice(separator + 1), "base64").toString("hex")
+}
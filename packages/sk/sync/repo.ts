@@ -10,6 +10,18 @@ export function buildRepoKey(
 	return `${type}:${identity}:${refKey(ref)}`
 }
 
+/**
+ * Cache key of a registry release; the registry URL keeps releases from
+ * different registries apart.
+ */
+export function buildRegistryKey(
+	registryUrl: string,
+	spec: string,
+	version: string,
+): string {
+	return `registry:${registryUrl}/${spec}:version:${version}`
+}
+
 export function buildRepoDir(tempRoot: string, key: string, alias: string): string {
 	const hash = createHash("sha256").update(key).digest("hex").slice(0, 12)
 	const safeAlias = alias
@@ -1,5 +1,3 @@
-import { mkdtemp } from "node:fs/promises"
-import { tmpdir } from "node:os"
 import path from "node:path"
 import {
 	type AbsolutePath,
@@ -8,45 +6,121 @@ import {
 	detectStructure,
 	type GitRef,
 	type ManifestInfo,
+	normalizeDeclarationToKey,
 	type Result,
-	type ValidatedDeclaration,
+	type SkillNaming,
 	validateManifest,
 } from "@skills-supply/core"
+import { type ComponentFile, planComponentInstall } from "@/agents/components"
+import { inspectInstalledSkill } from "@/agents/inspect"
 import type { AgentInstallPlan } from "@/agents/install"
-import { applyAgentInstall, planAgentInstall } from "@/agents/install"
-import { reconcileAgentSkills } from "@/agents/reconcile"
-import { buildAgentState, readAgentState, writeAgentState } from "@/agents/state"
-import type { ResolvedAgent } from "@/agents/types"
-import { readTextFile, removePath, safeStat } from "@/io/fs"
-import { extractSkills } from "@/packages/extract"
+import { planAgentInstall } from "@/agents/install"
+import { type InstructionsPlan, planInstructions } from "@/agents/instructions"
+import { type McpPlan, planMcpServers } from "@/agents/mcp"
+import { DEFAULT_SKILL_NAMING } from "@/agents/naming"
+import {
+	type AgentInstallState,
+	buildAgentState,
+	readAgentState,
+	type SkillProvenance,
+	writeAgentState,
+} from "@/agents/state"
+import type { ConfigFile, ResolvedAgent } from "@/agents/types"
+import { resolveCacheRoot } from "@/cache/fs"
+import { SK_REGISTRY_URL } from "@/env"
+import { readTextFile, safeLstat, safeStat } from "@/io/fs"
+import { hashDirectory } from "@/io/hash"
+import { extractPluginComponents, hasPluginComponents } from "@/packages/components"
+import { extractSkills, filterSkills } from "@/packages/extract"
 import {
-	fetchGithubRepository,
-	fetchGitRepository,
 	fetchLocalPackage,
+	githubRemoteUrl,
 	joinRepoPath,
 	normalizeSparsePath,
 	parseGithubSlug,
 } from "@/packages/fetch"
-import { resolveManifestPackages } from "@/packages/resolve"
+import { extractPackageInstructions } from "@/packages/instructions"
+import {
+	filterPackagesForAgent,
+	resolveManifestPackages,
+	toValidatedDeclaration,
+} from "@/packages/resolve"
 import type {
 	CanonicalPackage,
 	FetchedPackage,
 	GithubPackage,
 	GitPackage,
+	LocalPackage,
+	PluginComponents,
+	RegistryPackage,
 } from "@/packages/types"
+import { createRepoCache, fetchCachedRepository } from "@/sync/cache"
+import { detectSkillDrift } from "@/sync/check"
+import {
+	type ClaudePluginPlan,
+	type NativeClaudePlugins,
+	NO_NATIVE_CLAUDE_PLUGINS,
+	planClaudePlugins,
+	removeClaudePlugins,
+} from "@/sync/claude"
 import { failSync } from "@/sync/errors"
+import {
+	findPinnedPackage,
+	keepUnsyncedLockEntries,
+	loadSyncLock,
+	lockExtractedPackages,
+	recordLockedPackages,
+	resolvePinnedRef,
+	saveSyncLock,
+} from "@/sync/lock"
 import { type ResolvedClaudePlugin, resolveAgentPackages } from "@/sync/marketplace"
-import { buildRepoDir, buildRepoKey } from "@/sync/repo"
-import type { ExtractedPackage, SyncOptions, SyncResult, SyncSummary } from "@/sync/types"
+import { fetchRegistryPackage } from "@/sync/registry"
+import { buildRepoKey } from "@/sync/repo"
+import { applyAgentChanges } from "@/sync/transaction"
+import { resolveTransitivePackages } from "@/sync/transitive"
+import type {
+	AgentSkillChanges,
+	CachedRepo,
+	ExtractedPackage,
+	InstructionsChanges,
+	LocalResyncSummary,
+	McpServerChanges,
+	NativePluginChanges,
+	SkillDrift,
+	SyncError,
+	SyncLockContext,
+	SyncOptions,
+	SyncRepoCache,
+	SyncResult,
+	SyncSummary,
+} from "@/sync/types"
 import { validateExtractedPackages } from "@/sync/validate"
 import type { PackageOrigin } from "@/types/context"
 import type { SkError } from "@/types/errors"
+import { mapWithConcurrency } from "@/utils/pool"
+
+export const DEFAULT_FETCH_JOBS = 4
 
 interface AgentSyncSummary {
 	agent: ResolvedAgent
-	installed: number
-	removed: number
+	installed: string[]
+	removed: string[]
+	plugins?: NativePluginChanges
+	mcpServers?: McpServerChanges
+	instructions?: InstructionsChanges
 	warnings: string[]
+	drift?: SkillDrift[]
+}
+
+interface AgentRollback {
+	agent: ResolvedAgent
+	error: SyncError
+}
+
+interface FetchOptions {
+	/** Maximum number of concurrent fetches */
+	jobs: number
+	registryUrl: string
 }
 
 interface RepoGroupBase {
@@ -88,45 +162,152 @@ export async function runSync(options: SyncOptions): Promise<SyncResult<SyncSumm
 		})
 	}
 
-	const packages = resolveManifestPackages(manifest)
-	if (packages.length === 0) {
-		return syncWithoutDependencies(agents, options.dryRun)
+	const lockResult = await loadSyncLock(manifest, options.update)
+	if (!lockResult.ok) {
+		return lockResult
+	}
+
+	const lock = lockResult.value
+	const declared = resolveManifestPackages(manifest)
+	if (declared.length === 0) {
+		const summary = await syncWithoutDependencies(agents, options)
+		if (!summary.ok || options.dryRun || options.readOnlyLock) {
+			return summary
+		}
+
+		const saved = await saveSyncLock(manifest, lock)
+		return saved.ok ? summary : saved
 	}
 
 	const warnings: string[] = []
-	let installed = 0
-	let removed = 0
+	const agentChanges: AgentSkillChanges[] = []
+	const drift: SkillDrift[] = []
+	const repoCache =
+		options.repoCache ??
+		createRepoCache(options.cacheRoot ?? resolveCacheRoot(), options.onProgress)
+	const fetchOptions: FetchOptions = {
+		jobs: options.jobs ?? manifest.settings?.jobs ?? DEFAULT_FETCH_JOBS,
+		registryUrl: options.registryUrl ?? SK_REGISTRY_URL,
+	}
+
+	// Packages fetched while walking the graph stay in repoCache for the agents
+	const packagesResult =
+		options.transitive === false
+			? { ok: true as const, value: declared }
+			: await resolveTransitivePackages(declared, (level) =>
+					fetchPackagesForAgent(level, repoCache, lock, fetchOptions),
+				)
+	if (!packagesResult.ok) {
+		return packagesResult
+	}
+	const packages = packagesResult.value
 
+	const sharedInstructions = sharedInstructionAliases(agents, packages)
+	const rolledBack: AgentRollback[] = []
+	const synced: ResolvedAgent[] = []
 	for (const agent of agents) {
-		const agentResult = await syncAgent(agent, packages, options)
+		const agentResult = await syncAgent(
+			agent,
+			filterPackagesForAgent(packages, agent.id),
+			options,
+			lock,
+			repoCache,
+			fetchOptions,
+			sharedInstructions.get(agent),
+		)
+		// Only the failed agent is rolled back; the others still sync. An agent
+		// failing before apply wrote nothing, which stops the sync unless
+		// another agent already synced and the lock must record it
 		if (!agentResult.ok) {
-			return agentResult
+			if (agentResult.error.stage !== "apply" && synced.length === 0) {
+				return agentResult
+			}
+			rolledBack.push({ agent, error: agentResult.error })
+			continue
 		}
 
-		installed += agentResult.value.installed
-		removed += agentResult.value.removed
+		synced.push(agent)
+		agentChanges.push({
+			agentId: agent.id,
+			installed: agentResult.value.installed,
+			instructions: agentResult.value.instructions,
+			mcpServers: agentResult.value.mcpServers,
+			plugins: agentResult.value.plugins,
+			removed: agentResult.value.removed,
+		})
 		warnings.push(...agentResult.value.warnings)
+		drift.push(...(agentResult.value.drift ?? []))
+	}
+
+	const [firstRollback] = rolledBack
+	if (firstRollback && synced.length === 0) {
+		return failRolledBack(firstRollback, rolledBack, [])
+	}
+
+	if (!options.dryRun && !options.readOnlyLock) {
+		keepUnsyncedLockEntries(packages, lock)
+		const saved = await saveSyncLock(manifest, lock)
+		if (!saved.ok) {
+			return saved
+		}
+	}
+
+	if (firstRollback) {
+		return failRolledBack(firstRollback, rolledBack, synced)
 	}
 
 	return {
 		ok: true,
 		value: {
+			agentChanges,
 			agents: agents.map((agent) => agent.displayName),
 			dependencies: packages.length,
+			drift: options.check ? drift : undefined,
 			dryRun: options.dryRun,
-			installed,
+			installed: countChanges(agentChanges, "installed"),
 			manifests: 1,
-			removed,
+			removed: countChanges(agentChanges, "removed"),
 			warnings,
 		},
 	}
 }
 
+/**
+ * One error for the agents whose changes were rolled back or never written,
+ * naming the agents that synced anyway. The first failure is the cause.
+ */
+function failRolledBack(
+	first: AgentRollback,
+	rolledBack: AgentRollback[],
+	synced: ResolvedAgent[],
+): SyncResult<never> {
+	if (rolledBack.length === 1 && synced.length === 0) {
+		return { error: first.error, ok: false }
+	}
+
+	const names = rolledBack.map(({ agent }) => agent.displayName).join(", ")
+	const others = synced.length
+		? ` Synced ${synced.map((agent) => agent.displayName).join(", ")}.`
+		: ""
+	return {
+		error: {
+			...first.error,
+			cause: first.error,
+			message: `Sync failed for ${names}; ${
+				rolledBack.length === 1 ? "its" : "their"
+			} skills and state were left as they were.${others}`,
+		},
+		ok: false,
+	}
+}
+
 async function syncWithoutDependencies(
 	agents: ResolvedAgent[],
-	dryRun: boolean,
+	options: SyncOptions,
 ): Promise<SyncResult<SyncSummary>> {
-	let removed = 0
+	const { dryRun } = options
+	const agentChanges: AgentSkillChanges[] = []
+	const drift: SkillDrift[] = []
 	let hasState = false
 	const warnings: string[] = []
 
@@ -136,44 +317,106 @@ async function syncWithoutDependencies(
 			return failSync("reconcile", stateResult.error)
 		}
 
-		const previousState = stateResult.value
-		if (!previousState) {
-			continue
+		const previousState = withoutReservedSkills(agent, stateResult.value, options)
+		const mcpPlan = await planAgentMcpServers(agent, previousState, options)
+		if (!mcpPlan.ok) {
+			return mcpPlan
 		}
-
-		hasState = true
-		if (dryRun) {
-			removed += previousState.skills.length
+		warnings.push(...(mcpPlan.value?.warnings ?? []))
+		if (!previousState && !mcpPlan.value?.servers.length) {
 			continue
 		}
 
-		const reconcileResult = await reconcileAgentSkills(
+		const instructionsPlan = await planAgentInstructions(
 			agent,
+			[],
 			previousState,
-			new Set<string>(),
+			undefined,
+			options,
 		)
-		if (!reconcileResult.ok) {
-			return failSync("reconcile", reconcileResult.error)
+		if (!instructionsPlan.ok) {
+			return instructionsPlan
+		}
+		warnings.push(...(instructionsPlan.value?.warnings ?? []))
+
+		hasState = true
+		const guard = await guardModifiedSkills(agent, previousState, options)
+		if (!guard.ok) {
+			return guard
+		}
+		warnings.push(...guard.value)
+
+		const pluginPlan = planAgentClaudePlugins(agent, previousState, undefined)
+		const plugins = describePluginChanges(pluginPlan)
+		const mcpServers = describeMcpChanges(mcpPlan.value)
+		const instructions = describeInstructionsChanges(instructionsPlan.value)
+
+		if (dryRun) {
+			if (options.check) {
+				const agentDrift = await detectSkillDrift(agent, [], previousState)
+				if (!agentDrift.ok) {
+					return agentDrift
+				}
+				drift.push(...agentDrift.value)
+			}
+
+			agentChanges.push({
+				agentId: agent.id,
+				installed: [],
+				instructions,
+				mcpServers,
+				plugins,
+				removed: previousState?.skills ?? [],
+			})
+			continue
 		}
 
-		removed += reconcileResult.value.removed.length
-		const state = buildAgentState([])
-		const writeResult = await writeAgentState(agent, state)
-		if (!writeResult.ok) {
-			return failSync("reconcile", writeResult.error)
+		const applied = await applyAgentChanges(agent, {
+			commit: () =>
+				commitWithPluginRemoval(
+					agent,
+					pluginPlan,
+					buildAgentState(
+						[],
+						{},
+						{
+							instructions: instructionsPlan.value?.blocks,
+							mcp_servers: mcpPlan.value?.servers,
+						},
+					),
+					options,
+				),
+			configs: agentConfigFiles(mcpPlan.value, instructionsPlan.value),
+			plan: { agentId: agent.id, basePath: agent.skillsPath, tasks: [] },
+			remove: previousState?.skills ?? [],
+			removeFiles: previousState?.components,
+		})
+		if (!applied.ok) {
+			return applied
 		}
+
+		agentChanges.push({
+			agentId: agent.id,
+			installed: [],
+			instructions,
+			mcpServers,
+			plugins,
+			removed: applied.value,
+		})
 	}
 
 	return {
 		ok: true,
 		value: {
+			agentChanges,
 			agents: agents.map((agent) => agent.displayName),
 			dependencies: 0,
+			drift: options.check ? drift : undefined,
 			dryRun,
 			installed: 0,
 			manifests: 1,
 			noOpReason: hasState ? undefined : "no-dependencies",
-			removed,
+			removed: countChanges(agentChanges, "removed"),
 			warnings,
 		},
 	}
@@ -183,197 +426,632 @@ async function syncAgent(
 	agent: ResolvedAgent,
 	packages: CanonicalPackage[],
 	options: SyncOptions,
+	lock: SyncLockContext,
+	repoCache: SyncRepoCache,
+	fetchOptions: FetchOptions,
+	sharedInstructions?: ReadonlySet<string>,
 ): Promise<SyncResult<AgentSyncSummary>> {
-	const tempRootResult = await createTempRoot(agent.id)
-	if (!tempRootResult.ok) {
-		return tempRootResult
-	}
-
 	let warnings: string[] = []
-	let result: SyncResult<AgentSyncSummary>
 
-	try {
-		const packageResolution = await resolveAgentPackages({
-			agent,
-			dryRun: options.dryRun,
-			packages,
-			tempRoot: tempRootResult.value,
-		})
-		if (!packageResolution.ok) {
-			result = packageResolution
-			return result
-		}
+	const packageResolution = await resolveAgentPackages({
+		agent,
+		dryRun: options.dryRun,
+		lock,
+		packages,
+		repoCache,
+	})
+	if (!packageResolution.ok) {
+		return packageResolution
+	}
 
-		warnings = warnings.concat(packageResolution.value.warnings)
-		const resolvedPackages = packageResolution.value.packages
-		const resolvedPlugins = packageResolution.value.plugins
+	warnings = warnings.concat(packageResolution.value.warnings)
+	const resolvedPackages = packageResolution.value.packages
+	const resolvedPlugins = packageResolution.value.plugins
+	recordLockedPackages(packageResolution.value.locked, lock)
+
+	const fetchedResult = await fetchPackagesForAgent(
+		resolvedPackages,
+		repoCache,
+		lock,
+		fetchOptions,
+	)
+	if (!fetchedResult.ok) {
+		return fetchedResult
+	}
 
-		const fetchedResult = await fetchPackagesForAgent(
-			resolvedPackages,
-			tempRootResult.value,
-		)
-		if (!fetchedResult.ok) {
-			result = fetchedResult
-			return result
-		}
+	const pluginFetchResult = await fetchClaudePluginPackages(
+		resolvedPlugins,
+		repoCache,
+		fetchOptions.jobs,
+	)
+	if (!pluginFetchResult.ok) {
+		return pluginFetchResult
+	}
 
-		const pluginFetchResult = await fetchClaudePluginPackages(
-			resolvedPlugins,
-			tempRootResult.value,
-		)
-		if (!pluginFetchResult.ok) {
-			result = pluginFetchResult
-			return result
-		}
+	const extractedResult = await detectAndExtractPackages([
+		...fetchedResult.value,
+		...pluginFetchResult.value,
+	])
+	if (!extractedResult.ok) {
+		return extractedResult
+	}
 
-		const extractedResult = await detectAndExtractPackages([
-			...fetchedResult.value,
-			...pluginFetchResult.value,
-		])
-		if (!extractedResult.ok) {
-			result = extractedResult
-			return result
-		}
+	warnings = warnings.concat(extractedResult.value.warnings)
+	const extractedPackages = extractedResult.value.packages
 
-		warnings = warnings.concat(extractedResult.value.warnings)
-		const extractedPackages = extractedResult.value.packages
+	const naming = options.manifest.settings?.naming ?? DEFAULT_SKILL_NAMING
+	const validation = validateExtractedPackages(extractedPackages, naming)
+	if (!validation.ok) {
+		return validation
+	}
 
-		const validation = validateExtractedPackages(extractedPackages)
-		if (!validation.ok) {
-			result = validation
-			return result
-		}
+	const lockedResult = await lockExtractedPackages(
+		extractedPackages,
+		resolvedPlugins,
+		lock,
+	)
+	if (!lockedResult.ok) {
+		return lockedResult
+	}
 
-		const installable = extractedPackages.map((pkg) => ({
+	const installable = extractedPackages
+		.filter((pkg) => pkg.skills.length > 0)
+		.map((pkg) => ({
 			canonical: pkg.canonical,
 			prefix: pkg.prefix,
 			skills: pkg.skills,
 		}))
 
-		const planResult = planAgentInstall(agent, installable)
-		if (!planResult.ok) {
-			result = failSync("install", planResult.error)
-			return result
+	const planResult = planAgentInstall(agent, installable, naming)
+	if (!planResult.ok) {
+		return failSync("install", planResult.error)
+	}
+
+	const reserved = options.reservedSkills?.get(agent.id)
+	const plan = {
+		...planResult.value,
+		tasks: planResult.value.tasks.filter((task) => !reserved?.has(task.targetName)),
+	}
+	for (const task of planResult.value.tasks) {
+		if (reserved?.has(task.targetName)) {
+			warnings.push(
+				`Skipping ${task.targetName} for ${agent.displayName}: the project installs a skill with the same name.`,
+			)
 		}
+	}
 
-		const desiredNames = planResult.value.tasks.map((task) => task.targetName)
-		const desiredSet = new Set(desiredNames)
+	const desiredNames = plan.tasks.map((task) => task.targetName)
+	const desiredSet = new Set(desiredNames)
 
-		const stateResult = await readAgentState(agent)
-		if (!stateResult.ok) {
-			result = failSync("reconcile", stateResult.error)
-			return result
-		}
+	const stateResult = await readAgentState(agent)
+	if (!stateResult.ok) {
+		return failSync("reconcile", stateResult.error)
+	}
 
-		const previousState = stateResult.value
-		if (!previousState) {
-			warnings = warnings.concat(
-				`No prior state for ${agent.displayName}; skipping stale skill removal.`,
-			)
+	const previousState = withoutReservedSkills(agent, stateResult.value, options)
+	if (!previousState) {
+		warnings = warnings.concat(
+			`No prior state for ${agent.displayName}; skipping stale skill removal.`,
+		)
+	}
+
+	const managedSkills = new Set<string>([
+		...(previousState?.skills ?? []),
+		...(options.replaceableSkills?.get(agent.id) ?? []),
+	])
+	const preflight = await preflightTargets(plan, managedSkills)
+	if (!preflight.ok) {
+		return preflight
+	}
+
+	const componentResult = planComponentInstall(agent, extractedPackages)
+	if (!componentResult.ok) {
+		return failSync("install", componentResult.error)
+	}
+	warnings = warnings.concat(componentResult.value.warnings)
+	const componentFiles = componentResult.value.files
+	const desiredComponents = new Set(componentFiles.map((file) => file.path))
+	const componentPreflight = await preflightComponents(
+		agent,
+		componentFiles,
+		new Set(previousState?.components),
+	)
+	if (!componentPreflight.ok) {
+		return componentPreflight
+	}
+
+	// Every managed skill is either reinstalled or removed below
+	const guard = await guardModifiedSkills(agent, previousState, options)
+	if (!guard.ok) {
+		return guard
+	}
+	warnings = warnings.concat(guard.value)
+
+	const pluginPlan = planAgentClaudePlugins(
+		agent,
+		previousState,
+		packageResolution.value.native,
+	)
+	const plugins = describePluginChanges(pluginPlan)
+
+	const mcpPlan = await planAgentMcpServers(agent, previousState, options)
+	if (!mcpPlan.ok) {
+		return mcpPlan
+	}
+	warnings = warnings.concat(mcpPlan.value?.warnings ?? [])
+	const mcpServers = describeMcpChanges(mcpPlan.value)
+
+	const instructionsPlan = await planAgentInstructions(
+		agent,
+		extractedPackages,
+		previousState,
+		sharedInstructions,
+		options,
+	)
+	if (!instructionsPlan.ok) {
+		return instructionsPlan
+	}
+	warnings = warnings.concat(instructionsPlan.value?.warnings ?? [])
+	const instructions = describeInstructionsChanges(instructionsPlan.value)
+
+	if (options.dryRun) {
+		const removed = previousState
+			? previousState.skills.filter((skill) => !desiredSet.has(skill))
+			: []
+		const drift = options.check
+			? await detectSkillDrift(agent, plan.tasks, previousState)
+			: undefined
+		if (drift && !drift.ok) {
+			return drift
 		}
 
-		const managedSkills = new Set<string>(previousState?.skills ?? [])
-		const preflight = await preflightTargets(planResult.value, managedSkills)
-		if (!preflight.ok) {
-			result = preflight
-			return result
+		return {
+			ok: true,
+			value: {
+				agent,
+				drift: drift?.value,
+				installed: desiredNames,
+				instructions,
+				mcpServers,
+				plugins,
+				removed,
+				warnings,
+			},
 		}
+	}
 
-		if (options.dryRun) {
-			const removed = previousState
-				? countStaleSkills(previousState.skills, desiredSet)
-				: 0
-			result = {
-				ok: true,
-				value: {
-					agent,
-					installed: desiredNames.length,
-					removed,
-					warnings,
-				},
+	const applied = await applyAgentChanges(agent, {
+		commit: async () => {
+			const provenance = await recordProvenance(plan, extractedPackages)
+			if (!provenance.ok) {
+				return provenance
 			}
-			return result
+			return commitWithPluginRemoval(
+				agent,
+				pluginPlan,
+				buildAgentState(desiredNames, provenance.value, {
+					components: [...desiredComponents],
+					instructions: instructionsPlan.value?.blocks,
+					marketplaces: pluginPlan?.marketplaces,
+					mcp_servers: mcpPlan.value?.servers,
+					plugins: pluginPlan?.plugins,
+				}),
+				options,
+			)
+		},
+		configs: agentConfigFiles(mcpPlan.value, instructionsPlan.value),
+		files: componentFiles,
+		plan,
+		remove: previousState?.skills.filter((skill) => !desiredSet.has(skill)) ?? [],
+		removeFiles: previousState?.components?.filter(
+			(file) => !desiredComponents.has(file),
+		),
+	})
+	if (!applied.ok) {
+		return applied
+	}
+
+	return {
+		ok: true,
+		value: {
+			agent,
+			installed: desiredNames,
+			instructions,
+			mcpServers,
+			plugins,
+			removed: applied.value,
+			warnings,
+		},
+	}
+}
+
+/**
+ * Plan the plugins Claude Code installs natively against the agent state.
+ * Only the claude-code agent has them; the global layer of a project leaves
+ * them to the sync of the global manifest, which installs them for the user
+ * too.
+ */
+function planAgentClaudePlugins(
+	agent: ResolvedAgent,
+	previousState: AgentInstallState | null,
+	native: NativeClaudePlugins | undefined,
+): ClaudePluginPlan | undefined {
+	if (agent.id !== "claude-code" || agent.layer === "global") {
+		return undefined
+	}
+
+	return planClaudePlugins(previousState, native ?? NO_NATIVE_CLAUDE_PLUGINS)
+}
+
+/**
+ * Take out the native plugins the plan no longer declares, then write the
+ * agent state. Runs as the commit of the agent's changes: a failure before
+ * it rolls back without touching Claude Code, and a failure in it keeps the
+ * previous state, which still lists the plugins, so the next sync retries.
+ */
+async function commitWithPluginRemoval(
+	agent: ResolvedAgent,
+	pluginPlan: ClaudePluginPlan | undefined,
+	state: AgentInstallState,
+	options: Pick<SyncOptions, "manifest">,
+): Promise<SyncResult<void>> {
+	if (pluginPlan) {
+		const removed = await removeClaudePlugins(
+			pluginPlan,
+			options.manifest.origin.sourcePath,
+		)
+		if (!removed.ok) {
+			return removed
 		}
+	}
 
-		const removalResult = await removeManagedTargets(preflight.value)
-		if (!removalResult.ok) {
-			result = removalResult
-			return result
+	return commitAgentState(agent, state)
+}
+
+function describePluginChanges(
+	plan: ClaudePluginPlan | undefined,
+): NativePluginChanges | undefined {
+	if (!plan) {
+		return undefined
+	}
+
+	return {
+		installed: plan.plugins,
+		removedMarketplaces: plan.removeMarketplaces.map((entry) => entry.name),
+		uninstalled: plan.uninstall,
+	}
+}
+
+/**
+ * Plan the manifest's MCP servers into the agent's config file. Agents of
+ * the global layer are left out: the global manifest's servers belong in the
+ * user's own config, which its sync writes.
+ */
+async function planAgentMcpServers(
+	agent: ResolvedAgent,
+	previousState: AgentInstallState | null,
+	options: Pick<SyncOptions, "manifest">,
+): Promise<SyncResult<McpPlan | undefined>> {
+	if (agent.layer === "global") {
+		return { ok: true, value: undefined }
+	}
+
+	const planned = await planMcpServers(
+		agent,
+		options.manifest.mcpServers ?? new Map(),
+		previousState?.mcp_servers ?? [],
+	)
+	return planned.ok ? planned : failSync("install", planned.error)
+}
+
+function describeMcpChanges(plan: McpPlan | undefined): McpServerChanges | undefined {
+	if (!plan || plan.added.length + plan.updated.length + plan.removed.length === 0) {
+		return undefined
+	}
+
+	return { added: plan.added, removed: plan.removed, updated: plan.updated }
+}
+
+/**
+ * Aliases of the packages that the other agents reading the same
+ * instructions file receive, per agent. An agent leaves those blocks in
+ * place when it no longer has the package itself.
+ */
+function sharedInstructionAliases(
+	agents: ResolvedAgent[],
+	packages: CanonicalPackage[],
+): Map<ResolvedAgent, Set<string>> {
+	const shared = new Map<ResolvedAgent, Set<string>>()
+	for (const agent of agents) {
+		const aliases = new Set<string>()
+		for (const other of agents) {
+			if (
+				other === agent ||
+				!other.instructionsPath ||
+				other.instructionsPath !== agent.instructionsPath
+			) {
+				continue
+			}
+			for (const pkg of filterPackagesForAgent(packages, other.id)) {
+				aliases.add(String(pkg.origin.alias))
+			}
 		}
+		shared.set(agent, aliases)
+	}
+	return shared
+}
+
+/**
+ * Plan the instructions packages export into the agent's instructions file.
+ * Like MCP servers, agents of the global layer are left out: the global
+ * manifest's sync writes into the user's own instructions file.
+ */
+async function planAgentInstructions(
+	agent: ResolvedAgent,
+	packages: ExtractedPackage[],
+	previousState: AgentInstallState | null,
+	shared: ReadonlySet<string> | undefined,
+	options: Pick<SyncOptions, "force">,
+): Promise<SyncResult<InstructionsPlan | undefined>> {
+	if (agent.layer === "global") {
+		return { ok: true, value: undefined }
+	}
 
-		const installResult = await applyAgentInstall(planResult.value)
-		if (!installResult.ok) {
-			result = failSync("install", installResult.error)
-			return result
+	const blocks = packages.flatMap((pkg) =>
+		pkg.instructions
+			? [
+					{
+						alias: String(pkg.canonical.origin.alias),
+						contents: pkg.instructions.contents,
+					},
+				]
+			: [],
+	)
+	const planned = await planInstructions(
+		agent,
+		blocks,
+		previousState?.instructions ?? [],
+		{
+			force: options.force,
+			shared,
+		},
+	)
+	return planned.ok ? planned : failSync("install", planned.error)
+}
+
+function describeInstructionsChanges(
+	plan: InstructionsPlan | undefined,
+): InstructionsChanges | undefined {
+	if (!plan?.file) {
+		return undefined
+	}
+
+	return { blocks: plan.diffs, path: plan.file.path }
+}
+
+/** Config files the agent's transaction rewrites */
+function agentConfigFiles(
+	mcp: McpPlan | undefined,
+	instructions: InstructionsPlan | undefined,
+): ConfigFile[] {
+	return [mcp?.config, instructions?.file].filter((file) => file != null)
+}
+
+async function commitAgentState(
+	agent: ResolvedAgent,
+	state: AgentInstallState,
+): Promise<SyncResult<void>> {
+	const written = await writeAgentState(agent, state)
+	return written.ok ? written : failSync("reconcile", written.error)
+}
+
+/**
+ * Re-extract local packages whose files changed and update only the skills
+ * they install, as recorded in each agent's state. Other skills, the fetch of
+ * remote packages and agents.lock are left alone: local packages are never
+ * locked, so the next full sync arrives at the same result.
+ */
+export async function resyncLocalPackages(
+	packages: LocalPackage[],
+	options: Pick<SyncOptions, "agents" | "confirmOverwrite" | "force" | "manifest">,
+): Promise<SyncResult<LocalResyncSummary>> {
+	const fetched: FetchedPackage[] = []
+	for (const pkg of packages) {
+		const result = await fetchLocalPackage(pkg)
+		if (!result.ok) {
+			return failSync("fetch", result.error)
 		}
+		fetched.push(result.value)
+	}
+
+	const extractedResult = await detectAndExtractPackages(fetched)
+	if (!extractedResult.ok) {
+		return extractedResult
+	}
 
-		const reconcileResult = await reconcileAgentSkills(
+	const naming = options.manifest.settings?.naming ?? DEFAULT_SKILL_NAMING
+	const validation = validateExtractedPackages(extractedResult.value.packages, naming)
+	if (!validation.ok) {
+		return validation
+	}
+
+	const agentChanges: AgentSkillChanges[] = []
+	for (const agent of options.agents) {
+		const agentPackages = new Set<CanonicalPackage>(
+			filterPackagesForAgent(packages, agent.id),
+		)
+		const agentResult = await resyncAgentPackages(
 			agent,
-			previousState,
-			desiredSet,
+			extractedResult.value.packages.filter((pkg) =>
+				agentPackages.has(pkg.canonical),
+			),
+			naming,
+			options,
 		)
-		if (!reconcileResult.ok) {
-			result = failSync("reconcile", reconcileResult.error)
-			return result
+		if (!agentResult.ok) {
+			return agentResult
 		}
+		agentChanges.push({ agentId: agent.id, ...agentResult.value })
+	}
 
-		const state = buildAgentState(desiredNames)
-		const writeResult = await writeAgentState(agent, state)
-		if (!writeResult.ok) {
-			result = failSync("reconcile", writeResult.error)
-			return result
+	return {
+		ok: true,
+		value: { agentChanges, warnings: extractedResult.value.warnings },
+	}
+}
+
+async function resyncAgentPackages(
+	agent: ResolvedAgent,
+	packages: ExtractedPackage[],
+	naming: SkillNaming,
+	options: Pick<SyncOptions, "confirmOverwrite" | "force">,
+): Promise<SyncResult<Pick<AgentSkillChanges, "installed" | "removed">>> {
+	const stateResult = await readAgentState(agent)
+	if (!stateResult.ok) {
+		return failSync("reconcile", stateResult.error)
+	}
+
+	const state = stateResult.value
+	const declarations = new Set(
+		packages.map((pkg) =>
+			normalizeDeclarationToKey(toValidatedDeclaration(pkg.canonical)),
+		),
+	)
+	const skills = state?.skills ?? []
+	const owned = skills.filter((skill) =>
+		declarations.has(state?.provenance[skill]?.declaration ?? ""),
+	)
+	const others = new Set(skills.filter((skill) => !owned.includes(skill)))
+	const ownedState = state ? { ...state, skills: owned } : null
+
+	const planResult = planAgentInstall(
+		agent,
+		packages.map((pkg) => ({
+			canonical: pkg.canonical,
+			prefix: pkg.prefix,
+			skills: pkg.skills,
+		})),
+		naming,
+	)
+	if (!planResult.ok) {
+		return failSync("install", planResult.error)
+	}
+
+	const plan = planResult.value
+	for (const task of plan.tasks) {
+		if (others.has(task.targetName)) {
+			return failSync("install", {
+				message: `Skill ${task.targetName} is already installed for ${agent.displayName} by another dependency.`,
+				target: "skill",
+				type: "conflict",
+			})
 		}
+	}
 
-		result = {
-			ok: true,
-			value: {
+	const preflight = await preflightTargets(plan, new Set(owned))
+	if (!preflight.ok) {
+		return preflight
+	}
+
+	const guard = await guardModifiedSkills(agent, ownedState, {
+		...options,
+		dryRun: false,
+	})
+	if (!guard.ok) {
+		return guard
+	}
+
+	const desiredNames = plan.tasks.map((task) => task.targetName)
+	const applied = await applyAgentChanges(agent, {
+		commit: async () => {
+			const provenance = await recordProvenance(plan, packages)
+			if (!provenance.ok) {
+				return provenance
+			}
+			return commitAgentState(
 				agent,
-				installed: installResult.value.length,
-				removed: reconcileResult.value.removed.length,
-				warnings,
-			},
-		}
-		return result
-	} finally {
-		await removePath(tempRootResult.value)
+				buildAgentState(
+					[...others, ...desiredNames],
+					{ ...state?.provenance, ...provenance.value },
+					state ?? {},
+				),
+			)
+		},
+		plan,
+		remove: owned.filter((skill) => !desiredNames.includes(skill)),
+	})
+	if (!applied.ok) {
+		return applied
 	}
+
+	return { ok: true, value: { installed: desiredNames, removed: applied.value } }
 }
 
-async function createTempRoot(agentId: string): Promise<SyncResult<AbsolutePath>> {
-	try {
-		const prefix = path.join(tmpdir(), `sk-${agentId}-`)
-		const tempRoot = await mkdtemp(prefix)
-		const absoluteTempRoot = coerceAbsolutePathDirect(tempRoot)
-		if (!absoluteTempRoot) {
-			return failSync("fetch", {
-				field: "path",
-				message: `Invalid temp directory: ${tempRoot}`,
-				source: "manual",
-				type: "validation",
-			})
+/**
+ * Leave skills another layer owns to that layer: they are neither guarded nor
+ * removed, and drop out of this layer's state on the next write.
+ */
+function withoutReservedSkills(
+	agent: ResolvedAgent,
+	state: AgentInstallState | null,
+	options: Pick<SyncOptions, "reservedSkills">,
+): AgentInstallState | null {
+	const reserved = options.reservedSkills?.get(agent.id)
+	if (!state || !reserved?.size) {
+		return state
+	}
+
+	return { ...state, skills: state.skills.filter((skill) => !reserved.has(skill)) }
+}
+
+/**
+ * Describe where each planned skill came from, hashing copies as installed so
+ * later edits can be told apart.
+ */
+async function recordProvenance(
+	plan: AgentInstallPlan,
+	packages: ExtractedPackage[],
+): Promise<SyncResult<Record<string, SkillProvenance>>> {
+	const extracted = new Map(packages.map((pkg) => [pkg.canonical, pkg]))
+	const provenance: Record<string, SkillProvenance> = {}
+
+	for (const task of plan.tasks) {
+		const { canonical } = task
+		let hash: string | undefined
+		if (task.mode === "copy") {
+			const hashed = await hashDirectory(task.targetPath)
+			if (!hashed.ok) {
+				return failSync("install", hashed.error)
+			}
+			hash = hashed.value
+		}
+
+		const pkg = extracted.get(canonical)
+		provenance[task.targetName] = {
+			alias: String(canonical.origin.alias),
+			commit: pkg?.commit,
+			declaration: normalizeDeclarationToKey(toValidatedDeclaration(canonical)),
+			hash,
+			mode: task.mode,
+			ref:
+				canonical.type === "github" || canonical.type === "git"
+					? canonical.ref?.value
+					: undefined,
+			type: canonical.type,
+			version: pkg?.release?.version,
+			via: canonical.origin.via?.map(String),
 		}
-		return { ok: true, value: absoluteTempRoot }
-	} catch (error) {
-		const absolutePrefix = coerceAbsolutePathDirect(
-			path.join(tmpdir(), `sk-${agentId}-`),
-		)
-		return failSync("fetch", {
-			message: "Unable to create temporary directory.",
-			operation: "mkdtemp",
-			path:
-				absolutePrefix ?? (path.join(tmpdir(), `sk-${agentId}-`) as AbsolutePath),
-			rawError: error instanceof Error ? error : undefined,
-			type: "io",
-		})
 	}
+
+	return { ok: true, value: provenance }
 }
 
 async function fetchPackagesForAgent(
 	packages: CanonicalPackage[],
-	tempRoot: string,
+	repoCache: SyncRepoCache,
+	lock: SyncLockContext,
+	options: FetchOptions,
 ): Promise<SyncResult<FetchedPackage[]>> {
-	const fetched: FetchedPackage[] = []
-
 	for (const pkg of packages) {
 		if (pkg.type === "claude-plugin") {
 			return failSync("fetch", {
@@ -385,80 +1063,38 @@ async function fetchPackagesForAgent(
 		}
 	}
 
-	for (const pkg of packages) {
-		if (pkg.type === "registry") {
-			return failSync("fetch", {
-				field: "dependencies",
-				message: "Registry packages are not supported yet.",
-				source: "manual",
-				type: "validation",
-			})
-		}
-	}
-
-	const groupResult = buildRepoGroups(packages)
+	const groupResult = buildRepoGroups(packages, lock)
 	if (!groupResult.ok) {
 		return groupResult
 	}
 
-	for (const group of groupResult.value) {
-		const repoDir = buildRepoDir(tempRoot, group.key, String(group.origin.alias))
-		const sparsePaths = group.fullCheckout ? undefined : [...group.sparsePaths].sort()
-
-		const repoResult =
-			group.type === "github"
-				? await fetchGithubRepository({
-						destination: repoDir,
-						origin: group.origin,
-						owner: group.owner,
-						ref: group.ref,
-						repo: group.repo,
-						sparsePaths,
-						spec: group.source,
-					})
-				: await fetchGitRepository({
-						destination: repoDir,
-						origin: group.origin,
-						ref: group.ref,
-						remoteUrl: group.remoteUrl,
-						sparsePaths,
-						spec: group.source,
-					})
-
-		if (!repoResult.ok) {
-			return failSync("fetch", repoResult.error)
-		}
-
-		const repoPath = coerceAbsolutePathDirect(repoResult.value.repoPath)
-		if (!repoPath) {
-			return failSync("fetch", {
-				field: "path",
-				message: `Invalid repo path: ${repoResult.value.repoPath}`,
-				source: "manual",
-				type: "validation",
-			})
-		}
+	const groupFetches = await mapWithConcurrency(
+		groupResult.value,
+		options.jobs,
+		(group) => fetchRepoGroup(group, repoCache),
+	)
+	if (!groupFetches.ok) {
+		return groupFetches
+	}
 
-		for (const member of group.packages) {
-			const packagePath = member.normalizedPath
-				? joinRepoPath(repoPath, member.normalizedPath)
-				: repoPath
-			const absolutePackagePath = coerceAbsolutePathDirect(packagePath)
-			if (!absolutePackagePath) {
-				return failSync("fetch", {
-					field: "path",
-					message: `Invalid package path: ${packagePath}`,
-					source: "manual",
-					type: "validation",
-				})
-			}
-			fetched.push({
-				canonical: member.canonical,
-				packagePath: absolutePackagePath,
-				repoPath,
-			})
-		}
+	const fetched = groupFetches.value.flat()
+
+	const registryPackages = packages.filter(
+		(pkg): pkg is RegistryPackage => pkg.type === "registry",
+	)
+	const registryFetches = await mapWithConcurrency(
+		registryPackages,
+		options.jobs,
+		(pkg) =>
+			fetchRegistryPackage(pkg, repoCache, {
+				pinned: findPinnedPackage(pkg, lock),
+				registryUrl: options.registryUrl,
+			}),
+	)
+	if (!registryFetches.ok) {
+		return registryFetches
 	}
+	fetched.push(...registryFetches.value)
 
 	for (const pkg of packages) {
 		if (pkg.type !== "local") {
@@ -475,142 +1111,146 @@ async function fetchPackagesForAgent(
 	return { ok: true, value: fetched }
 }
 
-async function fetchClaudePluginPackages(
-	plugins: ResolvedClaudePlugin[],
-	tempRoot: AbsolutePath,
+async function fetchRepoGroup(
+	group: RepoGroup,
+	repoCache: SyncRepoCache,
 ): Promise<SyncResult<FetchedPackage[]>> {
-	if (plugins.length === 0) {
-		return { ok: true, value: [] }
+	const sparsePaths = group.fullCheckout ? undefined : [...group.sparsePaths].sort()
+	const repoResult = await fetchCachedRepository(repoCache, {
+		key: group.key,
+		origin: group.origin,
+		ref: group.ref,
+		remoteUrl:
+			group.type === "github"
+				? githubRemoteUrl(group.owner, group.repo)
+				: group.remoteUrl,
+		source: group.source,
+		sparsePaths,
+	})
+	if (!repoResult.ok) {
+		return repoResult
 	}
 
+	const { commit, repoPath } = repoResult.value
 	const fetched: FetchedPackage[] = []
-	const repoCache = new Map<string, AbsolutePath>()
+	for (const member of group.packages) {
+		const packagePath = member.normalizedPath
+			? joinRepoPath(repoPath, member.normalizedPath)
+			: repoPath
+		const absolutePackagePath = coerceAbsolutePathDirect(packagePath)
+		if (!absolutePackagePath) {
+			return failSync("fetch", {
+				field: "path",
+				message: `Invalid package path: ${packagePath}`,
+				source: "manual",
+				type: "validation",
+			})
+		}
+		fetched.push({
+			canonical: member.canonical,
+			commit,
+			packagePath: absolutePackagePath,
+			repoPath,
+		})
+	}
 
-	for (const plugin of plugins) {
-		const source = plugin.source
+	return { ok: true, value: fetched }
+}
 
-		if (source.type === "local") {
-			const stats = await safeStat(source.path)
-			if (!stats.ok) {
-				return failSync("fetch", stats.error)
-			}
+async function fetchClaudePluginPackages(
+	plugins: ResolvedClaudePlugin[],
+	repoCache: SyncRepoCache,
+	jobs: number,
+): Promise<SyncResult<FetchedPackage[]>> {
+	return mapWithConcurrency(plugins, jobs, (plugin) =>
+		fetchClaudePlugin(plugin, repoCache),
+	)
+}
 
-			if (!stats.value) {
-				return failSync("fetch", {
-					field: "source",
-					message: `Plugin source does not exist: ${source.path}`,
-					path: source.path,
-					source: "manual",
-					type: "validation",
-				})
-			}
+async function fetchClaudePlugin(
+	plugin: ResolvedClaudePlugin,
+	repoCache: SyncRepoCache,
+): Promise<SyncResult<FetchedPackage>> {
+	const source = plugin.source
 
-			if (!stats.value.isDirectory()) {
-				return failSync("fetch", {
-					field: "source",
-					message: `Plugin source is not a directory: ${source.path}`,
-					path: source.path,
-					source: "manual",
-					type: "validation",
-				})
-			}
+	if (source.type === "local") {
+		const stats = await safeStat(source.path)
+		if (!stats.ok) {
+			return failSync("fetch", stats.error)
+		}
 
-			fetched.push({
-				canonical: plugin.canonical,
-				packagePath: source.path,
-				repoPath: source.path,
+		if (!stats.value) {
+			return failSync("fetch", {
+				field: "source",
+				message: `Plugin source does not exist: ${source.path}`,
+				path: source.path,
+				source: "manual",
+				type: "validation",
 			})
-			continue
 		}
 
-		if (source.type === "github") {
-			const parsed = parseGithubSlug(source.gh, plugin.canonical.origin)
-			if (!parsed.ok) {
-				return failSync("fetch", parsed.error)
-			}
-
-			const key = buildRepoKey("github", source.gh, undefined)
-			let repoPath = repoCache.get(key)
-			if (!repoPath) {
-				const repoDir = buildRepoDir(
-					String(tempRoot),
-					key,
-					String(plugin.canonical.origin.alias),
-				)
-				const repoResult = await fetchGithubRepository({
-					destination: repoDir,
-					origin: plugin.canonical.origin,
-					owner: parsed.value.owner,
-					repo: parsed.value.repo,
-					spec: source.gh,
-				})
-				if (!repoResult.ok) {
-					return failSync("fetch", repoResult.error)
-				}
-
-				const resolved = coerceAbsolutePathDirect(repoResult.value.repoPath)
-				if (!resolved) {
-					return failSync("fetch", {
-						field: "path",
-						message: `Invalid repo path: ${repoResult.value.repoPath}`,
-						source: "manual",
-						type: "validation",
-					})
-				}
-				repoPath = resolved
-				repoCache.set(key, repoPath)
-			}
-
-			fetched.push({
-				canonical: plugin.canonical,
-				packagePath: repoPath,
-				repoPath,
+		if (!stats.value.isDirectory()) {
+			return failSync("fetch", {
+				field: "source",
+				message: `Plugin source is not a directory: ${source.path}`,
+				path: source.path,
+				source: "manual",
+				type: "validation",
 			})
-			continue
 		}
 
-		const key = buildRepoKey("git", source.url, undefined)
-		let repoPath = repoCache.get(key)
-		if (!repoPath) {
-			const repoDir = buildRepoDir(
-				String(tempRoot),
-				key,
-				String(plugin.canonical.origin.alias),
-			)
-			const repoResult = await fetchGitRepository({
-				destination: repoDir,
-				origin: plugin.canonical.origin,
-				remoteUrl: source.url,
-				spec: source.url,
-			})
-			if (!repoResult.ok) {
-				return failSync("fetch", repoResult.error)
-			}
+		return {
+			ok: true,
+			value: {
+				canonical: plugin.canonical,
+				packagePath: source.path,
+				repoPath: source.path,
+			},
+		}
+	}
 
-			const resolved = coerceAbsolutePathDirect(repoResult.value.repoPath)
-			if (!resolved) {
-				return failSync("fetch", {
-					field: "path",
-					message: `Invalid repo path: ${repoResult.value.repoPath}`,
-					source: "manual",
-					type: "validation",
-				})
-			}
-			repoPath = resolved
-			repoCache.set(key, repoPath)
+	let repo: SyncResult<CachedRepo>
+	if (source.type === "github") {
+		const parsed = parseGithubSlug(source.gh, plugin.canonical.origin)
+		if (!parsed.ok) {
+			return failSync("fetch", parsed.error)
 		}
 
-		fetched.push({
-			canonical: plugin.canonical,
-			packagePath: repoPath,
-			repoPath,
+		repo = await fetchCachedRepository(repoCache, {
+			key: buildRepoKey("github", source.gh, plugin.lockedRef),
+			origin: plugin.canonical.origin,
+			ref: plugin.lockedRef,
+			remoteUrl: githubRemoteUrl(parsed.value.owner, parsed.value.repo),
+			source: source.gh,
 		})
+	} else {
+		repo = await fetchCachedRepository(repoCache, {
+			key: buildRepoKey("git", source.url, plugin.lockedRef),
+			origin: plugin.canonical.origin,
+			ref: plugin.lockedRef,
+			remoteUrl: source.url,
+			source: source.url,
+		})
+	}
+	if (!repo.ok) {
+		return repo
 	}
 
-	return { ok: true, value: fetched }
+	return {
+		ok: true,
+		value: {
+			canonical: plugin.canonical,
+			commit: repo.value.commit,
+			packagePath: repo.value.repoPath,
+			repoPath: repo.value.repoPath,
+		},
+	}
 }
 
-function buildRepoGroups(packages: CanonicalPackage[]): SyncResult<RepoGroup[]> {
+function buildRepoGroups(
+	packages: CanonicalPackage[],
+	lock: SyncLockContext,
+): SyncResult<RepoGroup[]> {
 	const groups = new Map<string, RepoGroup>()
 
 	for (const pkg of packages) {
@@ -625,11 +1265,13 @@ function buildRepoGroups(packages: CanonicalPackage[]): SyncResult<RepoGroup[]>
 				return failSync("fetch", pathResult.error)
 			}
 
-			const key = buildRepoKey("github", pkg.gh, pkg.ref)
+			const ref = resolvePinnedRef(pkg, lock) ?? pkg.ref
+			const key = buildRepoKey("github", pkg.gh, ref)
 			const group = getOrCreateGithubGroup(
 				groups,
 				key,
 				pkg,
+				ref,
 				parsed.value.owner,
 				parsed.value.repo,
 			)
@@ -643,8 +1285,9 @@ function buildRepoGroups(packages: CanonicalPackage[]): SyncResult<RepoGroup[]>
 				return failSync("fetch", pathResult.error)
 			}
 
-			const key = buildRepoKey("git", pkg.url, pkg.ref)
-			const group = getOrCreateGitGroup(groups, key, pkg)
+			const ref = resolvePinnedRef(pkg, lock) ?? pkg.ref
+			const key = buildRepoKey("git", pkg.url, ref)
+			const group = getOrCreateGitGroup(groups, key, pkg, ref)
 			pushGroupMember(group, pkg, pathResult.value)
 		}
 	}
@@ -656,6 +1299,7 @@ function getOrCreateGithubGroup(
 	groups: Map<string, RepoGroup>,
 	key: string,
 	pkg: GithubPackage,
+	ref: GitRef | undefined,
 	owner: string,
 	repo: string,
 ): GithubGroup {
@@ -670,7 +1314,7 @@ function getOrCreateGithubGroup(
 		origin: pkg.origin,
 		owner,
 		packages: [],
-		ref: pkg.ref,
+		ref,
 		repo,
 		source: pkg.gh,
 		sparsePaths: new Set<string>(),
@@ -685,6 +1329,7 @@ function getOrCreateGitGroup(
 	groups: Map<string, RepoGroup>,
 	key: string,
 	pkg: GitPackage,
+	ref: GitRef | undefined,
 ): GitGroup {
 	const existing = groups.get(key)
 	if (existing && existing.type === "git") {
@@ -696,7 +1341,7 @@ function getOrCreateGitGroup(
 		key,
 		origin: pkg.origin,
 		packages: [],
-		ref: pkg.ref,
+		ref,
 		remoteUrl: pkg.url,
 		source: pkg.url,
 		sparsePaths: new Set<string>(),
@@ -721,7 +1366,7 @@ function pushGroupMember(
 	group.sparsePaths.add(normalizedPath)
 }
 
-async function detectAndExtractPackages(
+export async function detectAndExtractPackages(
 	fetched: FetchedPackage[],
 ): Promise<SyncResult<{ packages: ExtractedPackage[]; warnings: string[] }>> {
 	const extracted: ExtractedPackage[] = []
@@ -742,28 +1387,64 @@ async function detectAndExtractPackages(
 			return failSync("detect", selected.error)
 		}
 
-		const skills = await extractSkills({
+		const detected = {
 			canonical: pkg.canonical,
 			detection: selected.value,
 			packagePath: pkg.packagePath,
-		})
+		}
+		let components: PluginComponents | undefined
+		if (pkg.canonical.type === "claude-plugin") {
+			const extractedComponents = await extractPluginComponents(detected)
+			if (!extractedComponents.ok) {
+				return failSync("extract", extractedComponents.error)
+			}
+			if (hasPluginComponents(extractedComponents.value)) {
+				components = extractedComponents.value
+			}
+		}
+
+		const instructions = await extractPackageInstructions(detected)
+		if (!instructions.ok) {
+			return failSync("extract", instructions.error)
+		}
+
+		const skills = await extractSkills(detected)
 		if (!skills.ok) {
-			if (
-				selected.value.method === "plugin" &&
-				skills.error.type === "validation" &&
-				skills.error.field === "skills"
-			) {
+			// The auto-discovered skills directory of a manifest package
+			// may not exist at all
+			const missingSkills =
+				(skills.error.type === "validation" &&
+					(skills.error.field === "skills" ||
+						skills.error.field === "exports.auto_discover.skills")) ||
+				(skills.error.type === "not_found" && skills.error.target === "root_dir")
+			if (!missingSkills) {
+				return failSync("extract", skills.error)
+			}
+			// A plugin of only commands or subagents, or a package of only
+			// instructions, still syncs to the agents that can use them
+			if (!components && !instructions.value) {
+				if (selected.value.method !== "plugin") {
+					return failSync("extract", skills.error)
+				}
 				const alias = String(pkg.canonical.origin.alias)
 				warnings.push(`Skipping plugin "${alias}": ${skills.error.message}`)
 				continue
 			}
-			return failSync("extract", skills.error)
+		}
+
+		const selectedSkills = filterSkills(skills.ok ? skills.value : [], detected)
+		if (!selectedSkills.ok) {
+			return failSync("extract", selectedSkills.error)
 		}
 
 		extracted.push({
 			canonical: pkg.canonical,
-			prefix: String(pkg.canonical.origin.alias),
-			skills: skills.value,
+			commit: pkg.commit,
+			components,
+			instructions: instructions.value,
+			prefix: String(pkg.canonical.prefix ?? pkg.canonical.origin.alias),
+			release: pkg.release,
+			skills: selectedSkills.value,
 		})
 	}
 
@@ -860,46 +1541,10 @@ async function loadManifestInfo(
 	return { ok: true, value: parsed.value }
 }
 
-function toValidatedDeclaration(pkg: CanonicalPackage): ValidatedDeclaration {
-	switch (pkg.type) {
-		case "registry":
-			return {
-				name: pkg.name,
-				org: pkg.org,
-				type: "registry",
-				version: pkg.version,
-			}
-		case "github":
-			return {
-				gh: pkg.gh,
-				path: pkg.path,
-				ref: pkg.ref,
-				type: "github",
-			}
-		case "git":
-			return {
-				path: pkg.path,
-				ref: pkg.ref,
-				type: "git",
-				url: pkg.url,
-			}
-		case "local":
-			return { path: pkg.absolutePath, type: "local" }
-		case "claude-plugin":
-			return {
-				marketplace: pkg.marketplace,
-				plugin: pkg.plugin,
-				type: "claude-plugin",
-			}
-	}
-}
-
 async function preflightTargets(
 	plan: AgentInstallPlan,
 	managedSkills: Set<string>,
-): Promise<SyncResult<string[]>> {
-	const removable: string[] = []
-
+): Promise<SyncResult<void>> {
 	for (const task of plan.tasks) {
 		const stats = await safeStat(task.targetPath)
 		if (!stats.ok) {
@@ -917,30 +1562,105 @@ async function preflightTargets(
 				type: "conflict",
 			})
 		}
+	}
+
+	for (const task of plan.tasks) {
+		if (!task.rule || managedSkills.has(task.targetName)) {
+			continue
+		}
 
-		removable.push(task.targetPath)
+		const stats = await safeLstat(task.rule.path)
+		if (!stats.ok) {
+			return failSync("install", stats.error)
+		}
+		if (stats.value) {
+			return failSync("install", {
+				message: `Rule file already exists and is not managed by sk: ${task.rule.path}`,
+				path: task.rule.path,
+				target: "skill",
+				type: "conflict",
+			})
+		}
 	}
 
-	return { ok: true, value: removable }
+	return { ok: true, value: undefined }
 }
 
-async function removeManagedTargets(paths: string[]): Promise<SyncResult<void>> {
-	for (const targetPath of paths) {
-		const removal = await removePath(targetPath)
-		if (!removal.ok) {
-			return failSync("install", removal.error)
+async function preflightComponents(
+	agent: ResolvedAgent,
+	files: ComponentFile[],
+	managedFiles: Set<string>,
+): Promise<SyncResult<void>> {
+	for (const file of files) {
+		const stats = await safeLstat(path.join(agent.rootPath, file.path))
+		if (!stats.ok) {
+			return failSync("install", stats.error)
+		}
+
+		if (stats.value && !managedFiles.has(file.path)) {
+			return failSync("install", {
+				message: `Component target already exists and is not managed by sk: ${file.path}`,
+				target: "component",
+				type: "conflict",
+			})
 		}
 	}
 
 	return { ok: true, value: undefined }
 }
 
-function countStaleSkills(skills: string[], desired: Set<string>): number {
-	let count = 0
-	for (const skill of skills) {
-		if (!desired.has(skill)) {
-			count += 1
+/**
+ * Fail, or ask first, when managed skills that sync is about to overwrite or
+ * remove were edited since sk installed them. Dry runs only warn.
+ */
+async function guardModifiedSkills(
+	agent: ResolvedAgent,
+	state: AgentInstallState | null,
+	options: Pick<SyncOptions, "confirmOverwrite" | "dryRun" | "force">,
+): Promise<SyncResult<string[]>> {
+	if (options.force || !state) {
+		return { ok: true, value: [] }
+	}
+
+	const modified: string[] = []
+	for (const skill of state.skills) {
+		const status = await inspectInstalledSkill(agent, skill, state.provenance[skill])
+		if (!status.ok) {
+			return failSync("reconcile", status.error)
+		}
+		if (status.value === "modified") {
+			modified.push(skill)
 		}
 	}
-	return count
+
+	if (modified.length === 0) {
+		return { ok: true, value: [] }
+	}
+
+	const names = modified.join(", ")
+	if (options.dryRun) {
+		return {
+			ok: true,
+			value: [
+				`Skills edited since install would be overwritten for ${agent.displayName}: ${names}. Use --force to sync them anyway.`,
+			],
+		}
+	}
+
+	if (await options.confirmOverwrite?.(agent, modified)) {
+		return { ok: true, value: [] }
+	}
+
+	return failSync("reconcile", {
+		message: `Skills edited since sk installed them for ${agent.displayName}: ${names}. Re-run with --force to overwrite them.`,
+		target: "skill",
+		type: "conflict",
+	})
+}
+
+function countChanges(
+	changes: AgentSkillChanges[],
+	kind: "installed" | "removed",
+): number {
+	return changes.reduce((total, change) => total + change[kind].length, 0)
 }
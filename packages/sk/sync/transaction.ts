@@ -0,0 +1,393 @@
+import { mkdtemp, rmdir } from "node:fs/promises"
+import path from "node:path"
+import type { ComponentFile } from "@/agents/components"
+import { type AgentInstallPlan, applyAgentInstall } from "@/agents/install"
+import { ruleFileName } from "@/agents/rules"
+import { resolveStatePath } from "@/agents/state"
+import type { ConfigFile, ResolvedAgent } from "@/agents/types"
+import {
+	ensureDir,
+	movePath,
+	readTextFile,
+	removePath,
+	safeLstat,
+	writeTextFile,
+} from "@/io/fs"
+import type { SyncResult } from "@/sync/types"
+import type { SkError } from "@/types/errors"
+
+export interface AgentChangeSet {
+	plan: AgentInstallPlan
+	/** Names of installed skills to remove */
+	remove: string[]
+	/** Converted plugin components to write, relative to the agent root */
+	files?: ComponentFile[]
+	/** Converted plugin components to remove, relative to the agent root */
+	removeFiles?: string[]
+	/**
+	 * Files outside the skills directory to rewrite in place, such as the
+	 * MCP config and instructions file
+	 */
+	configs?: ConfigFile[]
+	/**
+	 * Runs once the skills are in place, to record them in the agent state.
+	 * A failure rolls the skills back and restores the previous state file.
+	 */
+	commit: () => Promise<SyncResult<void>>
+}
+
+interface Move {
+	from: string
+	to: string
+}
+
+/** A config file as it was before being rewritten, null when it did not exist */
+interface ConfigBackup {
+	path: string
+	previous: string | null
+}
+
+type StepResult<T> = { ok: true; value: T } | { ok: false; error: SkError }
+
+/**
+ * Apply the install plan and removals of one agent as a unit. Skills, their
+ * rule files and component files are written into a staging directory next
+ * to the skills directory and renamed into place, after everything they
+ * replace or remove was moved aside into the same staging directory. Config
+ * files, which may live outside the agent directory, are rewritten in place
+ * with their previous contents kept in memory. When any step fails,
+ * including commit, the moves and rewrites are undone: the agent keeps its
+ * previous skills, config and state. Returns the removed skill names.
+ */
+export async function applyAgentChanges(
+	agent: ResolvedAgent,
+	changes: AgentChangeSet,
+): Promise<SyncResult<string[]>> {
+	const ensured = await ensureDir(agent.skillsPath)
+	if (!ensured.ok) {
+		return failApply(agent, ensured.error, null)
+	}
+
+	let stagingPath: string
+	try {
+		stagingPath = await mkdtemp(resolveStagingPrefix(agent))
+	} catch (error) {
+		return failApply(
+			agent,
+			{
+				message: `Unable to create a staging directory next to ${agent.skillsPath}.`,
+				operation: "mkdtemp",
+				path: agent.skillsPath,
+				rawError: error instanceof Error ? error : undefined,
+				type: "io",
+			},
+			null,
+		)
+	}
+
+	const moves: Move[] = []
+	const backups: ConfigBackup[] = []
+	const applied = await stageAndSwap(agent, changes, stagingPath, moves, backups)
+	if (!applied.ok) {
+		const configsRestored = await restoreConfigs(backups)
+		const restored = (await undoMoves(moves)) && configsRestored
+		if (restored) {
+			await removePath(stagingPath)
+			// Moving files in created their directories, which have nothing to hold now
+			for (const file of changes.files ?? []) {
+				await removeEmptyDir(path.dirname(path.join(agent.rootPath, file.path)))
+			}
+		}
+		return failApply(agent, applied.error, restored ? null : stagingPath)
+	}
+
+	// Leftovers only cost disk space, so a failed cleanup does not fail sync
+	await removePath(stagingPath)
+	for (const skill of changes.remove) {
+		await removeEmptyParent(agent, skill)
+	}
+	for (const file of changes.removeFiles ?? []) {
+		await removeEmptyDir(path.dirname(path.join(agent.rootPath, file)))
+	}
+
+	return { ok: true, value: changes.remove }
+}
+
+/**
+ * Path prefix of the staging directories of an agent, siblings of its skills
+ * directory so that moving skills in and out of them is a rename.
+ */
+export function resolveStagingPrefix(agent: ResolvedAgent): string {
+	return path.join(
+		path.dirname(agent.skillsPath),
+		`.${path.basename(agent.skillsPath)}-sk-`,
+	)
+}
+
+async function stageAndSwap(
+	agent: ResolvedAgent,
+	changes: AgentChangeSet,
+	stagingPath: string,
+	moves: Move[],
+	backups: ConfigBackup[],
+): Promise<StepResult<void>> {
+	const { plan } = changes
+	const stagedBase = path.join(stagingPath, "new") as typeof plan.basePath
+	const stagedRules = path.join(stagingPath, "rules")
+	const staged = {
+		...plan,
+		basePath: stagedBase,
+		tasks: plan.tasks.map((task) => ({
+			...task,
+			...(task.rule && {
+				rule: {
+					...task.rule,
+					path: path.join(
+						stagedRules,
+						path.basename(task.rule.path),
+					) as typeof task.rule.path,
+				},
+			}),
+			targetPath: path.join(stagedBase, task.targetName) as typeof task.targetPath,
+		})),
+	}
+	const installed = await applyAgentInstall(staged)
+	if (!installed.ok) {
+		return installed
+	}
+
+	const files = changes.files ?? []
+	const stagedFilesPath = path.join(stagingPath, "files")
+	for (const file of files) {
+		const stagedFile = path.join(stagedFilesPath, file.path)
+		const ensured = await ensureDir(path.dirname(stagedFile))
+		if (!ensured.ok) {
+			return ensured
+		}
+		const written = await writeTextFile(stagedFile, file.contents)
+		if (!written.ok) {
+			return written
+		}
+	}
+
+	const replaced = new Set([
+		...changes.remove,
+		...plan.tasks.map((task) => task.targetName),
+	])
+	const backedUp = await backUpTargets(
+		agent.skillsPath,
+		replaced,
+		path.join(stagingPath, "backup"),
+		moves,
+	)
+	if (!backedUp.ok) {
+		return backedUp
+	}
+
+	// Rules of replaced and removed skills go with them
+	const rules = agent.rules
+	if (rules) {
+		const backedUpRules = await backUpTargets(
+			rules.path,
+			[...replaced].map((name) => ruleFileName(rules.format, name)),
+			path.join(stagingPath, "backup-rules"),
+			moves,
+		)
+		if (!backedUpRules.ok) {
+			return backedUpRules
+		}
+	}
+
+	const replacedFiles = new Set([
+		...(changes.removeFiles ?? []),
+		...files.map((file) => file.path),
+	])
+	const backedUpFiles = await backUpTargets(
+		agent.rootPath,
+		replacedFiles,
+		path.join(stagingPath, "backup-files"),
+		moves,
+	)
+	if (!backedUpFiles.ok) {
+		return backedUpFiles
+	}
+
+	for (const [index, task] of plan.tasks.entries()) {
+		const stagedTask = staged.tasks[index]
+		if (!stagedTask) {
+			continue
+		}
+		const moved = await move(stagedTask.targetPath, task.targetPath, moves)
+		if (!moved.ok) {
+			return moved
+		}
+		if (task.rule && stagedTask.rule) {
+			const movedRule = await move(stagedTask.rule.path, task.rule.path, moves)
+			if (!movedRule.ok) {
+				return movedRule
+			}
+		}
+	}
+
+	for (const file of files) {
+		const moved = await move(
+			path.join(stagedFilesPath, file.path),
+			path.join(agent.rootPath, file.path),
+			moves,
+		)
+		if (!moved.ok) {
+			return moved
+		}
+	}
+
+	for (const config of changes.configs ?? []) {
+		const written = await rewriteConfig(config, backups)
+		if (!written.ok) {
+			return written
+		}
+	}
+
+	return commitState(agent, changes)
+}
+
+async function rewriteConfig(
+	config: ConfigFile,
+	backups: ConfigBackup[],
+): Promise<StepResult<void>> {
+	const stats = await safeLstat(config.path)
+	if (!stats.ok) {
+		return stats
+	}
+	const previous = stats.value ? await readTextFile(config.path) : null
+	if (previous && !previous.ok) {
+		return previous
+	}
+
+	if (config.contents === null) {
+		backups.push({ path: config.path, previous: previous?.value ?? null })
+		return removePath(config.path)
+	}
+
+	const ensured = await ensureDir(path.dirname(config.path))
+	if (!ensured.ok) {
+		return ensured
+	}
+	backups.push({ path: config.path, previous: previous?.value ?? null })
+	return writeTextFile(config.path, config.contents)
+}
+
+/** Put rewritten config files back, newest first; false when any could not be. */
+async function restoreConfigs(backups: ConfigBackup[]): Promise<boolean> {
+	let restored = true
+	for (const backup of [...backups].reverse()) {
+		const undone =
+			backup.previous === null
+				? await removePath(backup.path)
+				: await writeTextFile(backup.path, backup.previous)
+		restored &&= undone.ok
+	}
+	return restored
+}
+
+/**
+ * Run commit, putting the previous state file back when it fails: a partly
+ * written file would no longer describe the restored skills.
+ */
+async function commitState(
+	agent: ResolvedAgent,
+	changes: AgentChangeSet,
+): Promise<StepResult<void>> {
+	const statePath = resolveStatePath(agent)
+	const stats = await safeLstat(statePath)
+	if (!stats.ok) {
+		return stats
+	}
+	const previous = stats.value ? await readTextFile(statePath) : null
+	if (previous && !previous.ok) {
+		return previous
+	}
+
+	const committed = await changes.commit()
+	if (committed.ok) {
+		return committed
+	}
+
+	const restored = previous
+		? await writeTextFile(statePath, previous.value)
+		: await removePath(statePath)
+	return restored.ok ? committed : restored
+}
+
+/** Move the existing entries among targets, relative to basePath, aside. */
+async function backUpTargets(
+	basePath: string,
+	targets: Iterable<string>,
+	backupPath: string,
+	moves: Move[],
+): Promise<StepResult<void>> {
+	for (const target of targets) {
+		const targetPath = path.join(basePath, target)
+		const stats = await safeLstat(targetPath)
+		if (!stats.ok) {
+			return stats
+		}
+		if (stats.value) {
+			const moved = await move(targetPath, path.join(backupPath, target), moves)
+			if (!moved.ok) {
+				return moved
+			}
+		}
+	}
+
+	return { ok: true, value: undefined }
+}
+
+async function move(from: string, to: string, moves: Move[]): Promise<StepResult<void>> {
+	const moved = await movePath(from, to)
+	if (moved.ok) {
+		moves.push({ from, to })
+	}
+	return moved
+}
+
+/** Undo moves newest first; false when any of them could not be undone. */
+async function undoMoves(moves: Move[]): Promise<boolean> {
+	let restored = true
+	for (const { from, to } of [...moves].reverse()) {
+		const undone = await movePath(to, from)
+		restored &&= undone.ok
+	}
+	return restored
+}
+
+// Template naming nests skills in a per-package directory, which goes once
+// its last skill is removed
+async function removeEmptyParent(agent: ResolvedAgent, skill: string): Promise<void> {
+	const parentPath = path.dirname(path.join(agent.skillsPath, skill))
+	if (parentPath === path.normalize(agent.skillsPath)) {
+		return
+	}
+	await removeEmptyDir(parentPath)
+}
+
+async function removeEmptyDir(dirPath: string): Promise<void> {
+	try {
+		await rmdir(dirPath)
+	} catch {
+		// Still holds other entries, or is already gone
+	}
+}
+
+function failApply(
+	agent: ResolvedAgent,
+	error: SkError,
+	backupPath: string | null,
+): SyncResult<never> {
+	const message = backupPath
+		? `Sync failed for ${agent.displayName} and could not be rolled back. Skills it replaced or removed are kept in ${backupPath}.`
+		: `Sync failed for ${agent.displayName}; its skills and state were left as they were.`
+	return {
+		error: { ...error, cause: error, message, stage: "apply" },
+		ok: false,
+	}
+}
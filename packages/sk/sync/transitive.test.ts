@@ -0,0 +1,207 @@
+import { mkdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import { formatPackageChain } from "@/packages/resolve"
+import type { CanonicalPackage, FetchedPackage } from "@/packages/types"
+import { type FetchLevel, resolveTransitivePackages } from "@/sync/transitive"
+import { abs, alias, ghRef, nes } from "@/tests/helpers/branded"
+
+import "@/tests/helpers/assertions"
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+	const dir = path.join(tmpdir(), `sk-transitive-${Date.now()}`)
+	await mkdir(dir, { recursive: true })
+	try {
+		return await fn(dir)
+	} finally {
+		await rm(dir, { force: true, recursive: true })
+	}
+}
+
+/**
+ * Write a package manifest under root/<name> declaring the given
+ * dependencies, written as TOML inline tables.
+ */
+async function writePackage(
+	root: string,
+	name: string,
+	dependencies: Record<string, string> = {},
+): Promise<void> {
+	const dir = path.join(root, name)
+	await mkdir(dir, { recursive: true })
+	const lines = Object.entries(dependencies).map(
+		([dependency, table]) => `${dependency} = ${table}`,
+	)
+	await writeFile(
+		path.join(dir, "agents.toml"),
+		`[package]\nname = "${name}"\nversion = "1.0.0"\n\n[dependencies]\n${lines.join("\n")}\n`,
+	)
+}
+
+function localPackage(root: string, name: string): CanonicalPackage {
+	return {
+		absolutePath: abs(path.join(root, name)),
+		fetchStrategy: { mode: "symlink" },
+		origin: { alias: alias(name), manifestPath: abs(path.join(root, "agents.toml")) },
+		type: "local",
+	}
+}
+
+/** Local packages live at their path; GitHub packages at root/<repo> */
+function fetchFrom(root: string): FetchLevel {
+	return async (packages) => ({
+		ok: true,
+		value: packages.map((pkg): FetchedPackage => {
+			if (pkg.type !== "local" && pkg.type !== "github") {
+				throw new Error(`Unexpected ${pkg.type} package in test.`)
+			}
+			const packagePath =
+				pkg.type === "local"
+					? pkg.absolutePath
+					: abs(path.join(root, path.basename(pkg.gh)))
+			return { canonical: pkg, packagePath, repoPath: packagePath }
+		}),
+	})
+}
+
+function chains(packages: CanonicalPackage[]): string[] {
+	return packages.map((pkg) => formatPackageChain(pkg.origin))
+}
+
+describe("resolveTransitivePackages", () => {
+	it("adds dependencies of dependencies with the chain that pulled them in", async () => {
+		await withTempDir(async (dir) => {
+			await writePackage(dir, "app", { utils: '{ path = "../utils" }' })
+			await writePackage(dir, "utils", { base: '{ path = "../base" }' })
+			await writePackage(dir, "base")
+
+			const result = await resolveTransitivePackages(
+				[localPackage(dir, "app")],
+				fetchFrom(dir),
+			)
+
+			expect(result.ok && chains(result.value)).toEqual([
+				"app",
+				"app > utils",
+				"app > utils > base",
+			])
+		})
+	})
+
+	it("installs a declaration reached by two paths once", async () => {
+		await withTempDir(async (dir) => {
+			await writePackage(dir, "one", { base: '{ path = "../base" }' })
+			await writePackage(dir, "two", { base: '{ path = "../base" }' })
+			await writePackage(dir, "base")
+
+			const result = await resolveTransitivePackages(
+				[localPackage(dir, "one"), localPackage(dir, "two")],
+				fetchFrom(dir),
+			)
+
+			expect(result.ok && chains(result.value)).toEqual([
+				"one",
+				"two",
+				"one > base",
+			])
+		})
+	})
+
+	it("walks a root package that another root also depends on", async () => {
+		await withTempDir(async (dir) => {
+			await writePackage(dir, "a", { b: '{ path = "../b" }' })
+			await writePackage(dir, "b", { c: '{ path = "../c" }' })
+			await writePackage(dir, "c")
+
+			for (const order of [
+				["a", "b"],
+				["b", "a"],
+			]) {
+				const result = await resolveTransitivePackages(
+					order.map((name) => localPackage(dir, name)),
+					fetchFrom(dir),
+				)
+
+				expect(result.ok && chains(result.value)).toEqual([...order, "b > c"])
+			}
+		})
+	})
+
+	it("ignores agents.toml files without a [package] section", async () => {
+		await withTempDir(async (dir) => {
+			await mkdir(path.join(dir, "plain"))
+			await writeFile(
+				path.join(dir, "plain", "agents.toml"),
+				'[dependencies]\nbase = { path = "../base" }\n',
+			)
+
+			const result = await resolveTransitivePackages(
+				[localPackage(dir, "plain")],
+				fetchFrom(dir),
+			)
+
+			expect(result.ok && chains(result.value)).toEqual(["plain"])
+		})
+	})
+
+	it("fails on dependency cycles", async () => {
+		await withTempDir(async (dir) => {
+			await writePackage(dir, "a", { b: '{ path = "../b" }' })
+			await writePackage(dir, "b", { a: '{ path = "../a" }' })
+
+			const result = await resolveTransitivePackages(
+				[localPackage(dir, "a")],
+				fetchFrom(dir),
+			)
+
+			expect(result).toBeErrContaining("Dependency cycle: a > b > a")
+		})
+	})
+
+	it("fails when two packages pin the same repository to different refs", async () => {
+		await withTempDir(async (dir) => {
+			await writePackage(dir, "one", {
+				lint: '{ gh = "org/lint", tag = "v1.0.0" }',
+			})
+			await writePackage(dir, "two", {
+				lint: '{ gh = "org/lint", tag = "v2.0.0" }',
+			})
+			await writePackage(dir, "lint")
+
+			const result = await resolveTransitivePackages(
+				[localPackage(dir, "one"), localPackage(dir, "two")],
+				fetchFrom(dir),
+			)
+
+			expect(result).toBeErrContaining("by one > lint")
+			expect(result).toBeErrContaining("by two > lint")
+		})
+	})
+
+	it("lets the root manifest choose the ref of a conflicting package", async () => {
+		await withTempDir(async (dir) => {
+			await writePackage(dir, "one", {
+				lint: '{ gh = "org/lint", tag = "v1.0.0" }',
+			})
+			await writePackage(dir, "lint")
+			const pinned: CanonicalPackage = {
+				fetchStrategy: { mode: "clone", sparse: false },
+				gh: ghRef("org/lint"),
+				origin: {
+					alias: alias("lint"),
+					manifestPath: abs(path.join(dir, "agents.toml")),
+				},
+				ref: { type: "tag", value: nes("v2.0.0") },
+				type: "github",
+			}
+
+			const result = await resolveTransitivePackages(
+				[localPackage(dir, "one"), pinned],
+				fetchFrom(dir),
+			)
+
+			expect(result.ok && chains(result.value)).toEqual(["one", "lint"])
+		})
+	})
+})
@@ -0,0 +1,292 @@
+import path from "node:path"
+import {
+	type AbsolutePath,
+	type AgentId,
+	type Alias,
+	MANIFEST_FILENAME,
+	normalizeDeclarationToKey,
+} from "@skills-supply/core"
+import { readTextFile, safeStat } from "@/io/fs"
+import { parseManifest } from "@/manifest/parse"
+import {
+	formatPackageChain,
+	resolveManifestPackages,
+	toValidatedDeclaration,
+} from "@/packages/resolve"
+import type { CanonicalPackage, FetchedPackage } from "@/packages/types"
+import { failSync } from "@/sync/errors"
+import type { SyncResult } from "@/sync/types"
+
+export type FetchLevel = (
+	packages: CanonicalPackage[],
+) => Promise<SyncResult<FetchedPackage[]>>
+
+interface GraphNode {
+	/** Declaration key as written in the manifest that declared the package */
+	key: string
+	pkg: CanonicalPackage
+	/** Declaration keys of the packages above this one, root first */
+	ancestors: string[]
+}
+
+/**
+ * Add the dependencies declared by package manifests to the root manifest's
+ * packages. The graph is walked breadth first, so a package reached by
+ * several paths keeps the shortest chain. Identical declarations are
+ * installed once; the same package pinned to two refs is a conflict unless
+ * the root manifest declares it, in which case the root declaration wins.
+ *
+ * Claude plugins are not walked: their dependencies live in the marketplace.
+ */
+export async function resolveTransitivePackages(
+	roots: CanonicalPackage[],
+	fetchLevel: FetchLevel,
+): Promise<SyncResult<CanonicalPackage[]>> {
+	const nodes: GraphNode[] = roots.map((pkg) => ({
+		ancestors: [],
+		key: declarationKey(pkg),
+		pkg,
+	}))
+	const byKey = new Map<string, GraphNode>()
+	const byAlias = new Map<Alias, GraphNode>()
+	const byIdentity = new Map<string, GraphNode>()
+	for (const node of nodes) {
+		register(node)
+	}
+
+	function register(node: GraphNode): void {
+		if (!byKey.has(node.key)) {
+			byKey.set(node.key, node)
+		}
+		byAlias.set(node.pkg.origin.alias, node)
+		const identity = packageIdentity(node.pkg)
+		if (identity && !byIdentity.has(identity)) {
+			byIdentity.set(identity, node)
+		}
+	}
+
+	let level = nodes
+	while (level.length > 0) {
+		const walkable = level.filter((node) => node.pkg.type !== "claude-plugin")
+		const fetched = await fetchLevel(walkable.map((node) => node.pkg))
+		if (!fetched.ok) {
+			return fetched
+		}
+
+		// Keyed by alias: a node's pkg is replaced when another parent widens
+		// its agents, possibly before the node is walked
+		const packagePaths = new Map(
+			fetched.value.map((entry) => [
+				entry.canonical.origin.alias,
+				entry.packagePath,
+			]),
+		)
+		const next: GraphNode[] = []
+		for (const parent of walkable) {
+			const packagePath = packagePaths.get(parent.pkg.origin.alias)
+			if (!packagePath) {
+				continue
+			}
+
+			const children = await readPackageDependencies(parent.pkg, packagePath)
+			if (!children.ok) {
+				return children
+			}
+
+			const ancestors = [...parent.ancestors, parent.key]
+			for (const child of children.value) {
+				const key = declarationKey(child)
+				const pkg = linkChild(child, parent.pkg)
+				if (ancestors.includes(key)) {
+					return failCycle(pkg)
+				}
+
+				const existing = byKey.get(key)
+				if (existing) {
+					existing.pkg = withAgents(
+						existing.pkg,
+						unionAgents(existing.pkg, pkg),
+					)
+					continue
+				}
+
+				const identity = packageIdentity(pkg)
+				const sameIdentity = identity ? byIdentity.get(identity) : undefined
+				if (
+					identity &&
+					sameIdentity &&
+					formatPin(sameIdentity.pkg) !== formatPin(pkg)
+				) {
+					if (!sameIdentity.pkg.origin.via) {
+						continue
+					}
+					return failConflict(identity, sameIdentity.pkg, pkg)
+				}
+
+				const aliasOwner = byAlias.get(pkg.origin.alias)
+				if (aliasOwner) {
+					return failAliasConflict(aliasOwner.pkg, pkg)
+				}
+
+				const node: GraphNode = { ancestors, key, pkg }
+				nodes.push(node)
+				register(node)
+				next.push(node)
+			}
+		}
+
+		level = next
+	}
+
+	return { ok: true, value: nodes.map((node) => node.pkg) }
+}
+
+/**
+ * Dependencies declared by a fetched package. Only manifests with a
+ * [package] section describe a package; others are ignored.
+ */
+async function readPackageDependencies(
+	parent: CanonicalPackage,
+	packagePath: AbsolutePath,
+): Promise<SyncResult<CanonicalPackage[]>> {
+	const manifestPath = path.join(packagePath, MANIFEST_FILENAME) as AbsolutePath
+	const stats = await safeStat(manifestPath)
+	if (!stats.ok) {
+		return failSync("discover", stats.error)
+	}
+	if (!stats.value?.isFile()) {
+		return { ok: true, value: [] }
+	}
+
+	const contents = await readTextFile(manifestPath)
+	if (!contents.ok) {
+		return failSync("discover", contents.error)
+	}
+
+	const parsed = parseManifest(contents.value, manifestPath, "cwd")
+	if (!parsed.ok) {
+		return failSync("parse", {
+			cause: parsed.error,
+			field: "dependencies",
+			message: `Invalid manifest in dependency ${formatPackageChain(parent.origin)}: ${parsed.error.message}`,
+			path: manifestPath,
+			source: "manual",
+			type: "validation",
+		})
+	}
+
+	if (!parsed.value.package) {
+		return { ok: true, value: [] }
+	}
+
+	return { ok: true, value: resolveManifestPackages(parsed.value) }
+}
+
+/**
+ * Record the chain that pulled child in. A child only goes to the agents
+ * its parent goes to.
+ */
+function linkChild(child: CanonicalPackage, parent: CanonicalPackage): CanonicalPackage {
+	const agents =
+		parent.agents && child.agents
+			? child.agents.filter((agent) => parent.agents?.includes(agent))
+			: (child.agents ?? parent.agents)
+
+	return {
+		...withAgents(child, agents),
+		origin: {
+			...child.origin,
+			via: [...(parent.origin.via ?? []), parent.origin.alias],
+		},
+	}
+}
+
+function withAgents(
+	pkg: CanonicalPackage,
+	agents: AgentId[] | undefined,
+): CanonicalPackage {
+	const { agents: _previous, ...rest } = pkg
+	return agents ? { ...rest, agents } : rest
+}
+
+function unionAgents(a: CanonicalPackage, b: CanonicalPackage): AgentId[] | undefined {
+	if (!a.agents || !b.agents) {
+		return undefined
+	}
+	return [...new Set([...a.agents, ...b.agents])]
+}
+
+function declarationKey(pkg: CanonicalPackage): string {
+	return normalizeDeclarationToKey(toValidatedDeclaration(pkg))
+}
+
+/**
+ * What a package is, regardless of the ref or version it is pinned to.
+ * Local packages and Claude plugins are never in conflict.
+ */
+function packageIdentity(pkg: CanonicalPackage): string | null {
+	switch (pkg.type) {
+		case "github":
+			return `gh:${pkg.gh.toLowerCase()}${pkg.path ? `/${pkg.path}` : ""}`
+		case "git":
+			return `git:${pkg.url}${pkg.path ? `#${pkg.path}` : ""}`
+		case "registry":
+			return `registry:${pkg.org ? `${pkg.org}/` : ""}${pkg.name}`
+		case "local":
+		case "claude-plugin":
+			return null
+	}
+}
+
+function formatPin(pkg: CanonicalPackage): string {
+	switch (pkg.type) {
+		case "github":
+		case "git":
+			return pkg.ref ? `${pkg.ref.type} ${pkg.ref.value}` : "the default branch"
+		case "registry":
+			return pkg.version
+		case "local":
+		case "claude-plugin":
+			return "-"
+	}
+}
+
+function failCycle(pkg: CanonicalPackage): SyncResult<never> {
+	return failSync("resolve", {
+		message: `Dependency cycle: ${formatPackageChain(pkg.origin)}.`,
+		path: pkg.origin.manifestPath,
+		target: "dependencies",
+		type: "conflict",
+	})
+}
+
+function failConflict(
+	identity: string,
+	first: CanonicalPackage,
+	second: CanonicalPackage,
+): SyncResult<never> {
+	return failSync("resolve", {
+		message:
+			`${identity} is pinned to ${formatPin(first)} by ${formatPackageChain(first.origin)} ` +
+			`and to ${formatPin(second)} by ${formatPackageChain(second.origin)}. ` +
+			"Declare it in agents.toml to choose one.",
+		path: second.origin.manifestPath,
+		target: "dependencies",
+		type: "conflict",
+	})
+}
+
+function failAliasConflict(
+	first: CanonicalPackage,
+	second: CanonicalPackage,
+): SyncResult<never> {
+	return failSync("resolve", {
+		message:
+			`${formatPackageChain(first.origin)} and ${formatPackageChain(second.origin)} ` +
+			`are different packages with the alias "${second.origin.alias}". ` +
+			"Declare one of them in agents.toml under another alias.",
+		path: second.origin.manifestPath,
+		target: "dependencies",
+		type: "conflict",
+	})
+}
@@ -1,7 +1,16 @@
-import type { Result } from "@skills-supply/core"
+import type { AbsolutePath, AgentId, Alias, Result } from "@skills-supply/core"
+import type { InstructionBlockDiff } from "@/agents/instructions"
 import type { ResolvedAgent } from "@/agents/types"
+import type { LockedPackage, Lockfile } from "@/lock/types"
 import type { Manifest } from "@/manifest/types"
-import type { CanonicalPackage, Skill } from "@/packages/types"
+import type {
+	CanonicalPackage,
+	PackageInstructions,
+	PluginComponents,
+	RegistryReleasePin,
+	Skill,
+} from "@/packages/types"
+import type { ManifestLayer } from "@/types/context"
 import type { SkError } from "@/types/errors"
 
 export type SyncStage =
@@ -15,6 +24,7 @@ export type SyncStage =
 	| "extract"
 	| "validate"
 	| "install"
+	| "apply"
 	| "reconcile"
 
 export type SyncError = SkError & { stage: SyncStage }
@@ -25,6 +35,15 @@ export interface ExtractedPackage {
 	canonical: CanonicalPackage
 	prefix: string
 	skills: Skill[]
+	commit?: string
+	release?: RegistryReleasePin
+	/**
+	 * Commands, subagents, hooks and MCP servers of Claude plugins, converted
+	 * for agents other than Claude Code. Such a plugin may have no skills.
+	 */
+	components?: PluginComponents
+	/** Exported instructions; a package that has them may have no skills */
+	instructions?: PackageInstructions
 }
 
 export interface SyncSummary {
@@ -36,10 +55,156 @@ export interface SyncSummary {
 	removed: number
 	noOpReason?: "no-dependencies"
 	warnings: string[]
+	/** Installed and removed skill directory names, per synced agent */
+	agentChanges: AgentSkillChanges[]
+	/** Differences between the plan and the skills on disk, for check runs */
+	drift?: SkillDrift[]
+}
+
+/** Result of re-extracting changed local packages in watch mode */
+export interface LocalResyncSummary {
+	/** Skills of the changed packages installed and removed, per agent */
+	agentChanges: AgentSkillChanges[]
+	warnings: string[]
+}
+
+export interface SkillDrift {
+	agentId: AgentId
+	skill: string
+	kind:
+		| "missing"
+		| "extra"
+		| "modified"
+		| "wrong-mode"
+		| "rule-missing"
+		| "rule-modified"
+	/** Workspace member relative to the workspace root, for workspace syncs */
+	member?: string
+	/** Set to "global" for skills of the global manifest applied to a project */
+	layer?: ManifestLayer
+}
+
+export interface AgentSkillChanges {
+	agentId: AgentId
+	installed: string[]
+	removed: string[]
+	/** Plugins Claude Code installs natively, for the claude-code agent */
+	plugins?: NativePluginChanges
+	/** MCP servers written into the agent's config file */
+	mcpServers?: McpServerChanges
+	/** Instructions blocks written into the agent's instructions file */
+	instructions?: InstructionsChanges
+	/** Workspace member relative to the workspace root, for workspace syncs */
+	member?: string
+	/** Set to "global" for skills of the global manifest applied to a project */
+	layer?: ManifestLayer
+}
+
+export interface NativePluginChanges {
+	/** Declared plugins, as "<plugin>@<marketplace name>" */
+	installed: string[]
+	/** Plugins sk installed that are no longer declared */
+	uninstalled: string[]
+	/** Names of marketplaces sk added that no declared plugin uses anymore */
+	removedMarketplaces: string[]
+}
+
+export interface McpServerChanges {
+	added: string[]
+	updated: string[]
+	/** Servers sk wrote before that the manifest no longer declares */
+	removed: string[]
+}
+
+export interface InstructionsChanges {
+	/** The agent's instructions file, such as AGENTS.md */
+	path: string
+	/** Blocks added, rewritten or removed, with their contents before and after */
+	blocks: InstructionBlockDiff[]
 }
 
 export interface SyncOptions {
 	dryRun: boolean
+	/** Dry run that also compares the plan with the skills on disk */
+	check?: boolean
 	agents: ResolvedAgent[]
 	manifest: Manifest
+	/**
+	 * Ignore agents.lock pins and re-resolve dependencies: every dependency
+	 * when true, or only the listed aliases.
+	 */
+	update?: boolean | Alias[]
+	/** Repository cache directory; defaults to ~/.sk/cache */
+	cacheRoot?: AbsolutePath
+	/**
+	 * Repositories fetched by an earlier run, such as another workspace
+	 * member; a fresh cache over cacheRoot when absent
+	 */
+	repoCache?: SyncRepoCache
+	/**
+	 * Maximum number of repositories fetched concurrently; defaults to
+	 * [settings] jobs in the manifest, then DEFAULT_FETCH_JOBS.
+	 */
+	jobs?: number
+	onProgress?: (event: RepoFetchEvent) => void
+	/** Overwrite and remove managed skills even when they were edited since install */
+	force?: boolean
+	/**
+	 * Asked before edited managed skills are overwritten or removed. Without
+	 * it, or when it resolves to false, sync fails instead.
+	 */
+	confirmOverwrite?: (agent: ResolvedAgent, skills: string[]) => Promise<boolean>
+	/**
+	 * Also install the dependencies declared in the agents.toml of each
+	 * package, recursively; defaults to true
+	 */
+	transitive?: boolean
+	/** Registry base URL; defaults to SK_REGISTRY_URL */
+	registryUrl?: string
+	/** Use agents.lock pins without rewriting the lockfile */
+	readOnlyLock?: boolean
+	/**
+	 * Skill names per agent that another layer installed in the same
+	 * directories. This sync may overwrite them as if it managed them.
+	 */
+	replaceableSkills?: ReadonlyMap<AgentId, ReadonlySet<string>>
+	/**
+	 * Skill names per agent that another layer owns. This sync skips them
+	 * with a warning and neither overwrites nor removes them.
+	 */
+	reservedSkills?: ReadonlyMap<AgentId, ReadonlySet<string>>
+}
+
+export interface SyncLockContext {
+	/** Lockfile read before sync, or null when none exists */
+	previous: Lockfile | null
+	update: boolean | ReadonlySet<Alias>
+	/** Entries collected during this sync, merged across agents */
+	entries: Map<Alias, LockedPackage>
 }
+
+export interface CachedRepo {
+	/** Checked out commit, or the tarball digest for registry releases */
+	commit: string
+	repoPath: AbsolutePath
+	/** Sparse checkout paths, or null for a full checkout */
+	sparsePaths: string[] | null
+}
+
+export interface SyncRepoCache {
+	/** Persistent cache directory */
+	root: AbsolutePath
+	/** Repos fetched during this sync by buildRepoKey(), shared across agents */
+	repos: Map<string, CachedRepo>
+	/** Fetches in flight by buildRepoKey(); later fetches of a key wait on them */
+	pending: Map<string, Promise<unknown>>
+	onProgress?: (event: RepoFetchEvent) => void
+}
+
+/**
+ * Progress of one repository fetch. "cached" means the checkout was reused
+ * from the persistent cache without cloning.
+ */
+export type RepoFetchEvent =
+	| { status: "fetching"; source: string }
+	| { status: "fetched" | "cached"; source: string; commit: string }
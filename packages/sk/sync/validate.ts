@@ -1,10 +1,14 @@
+import type { SkillNaming } from "@skills-supply/core"
+import { formatSkillTargetName } from "@/agents/naming"
 import { failSync } from "@/sync/errors"
 import type { ExtractedPackage, SyncResult } from "@/sync/types"
 
 export function validateExtractedPackages(
 	packages: ExtractedPackage[],
+	naming: SkillNaming,
 ): SyncResult<void> {
-	const seenTargets = new Set<string>()
+	// Target name -> alias of the package that produced it
+	const seenTargets = new Map<string, string>()
 
 	for (const pkg of packages) {
 		const prefix = pkg.prefix.trim()
@@ -17,7 +21,7 @@ export function validateExtractedPackages(
 			})
 		}
 
-		if (pkg.skills.length === 0) {
+		if (pkg.skills.length === 0 && !pkg.components && !pkg.instructions) {
 			return failSync("validate", {
 				field: "skills",
 				message: `Package "${pkg.prefix}" has no skills to install.`,
@@ -37,8 +41,10 @@ export function validateExtractedPackages(
 				})
 			}
 
-			const targetName = `${prefix}-${name}`
-			if (seenTargets.has(targetName)) {
+			const alias = String(pkg.canonical.origin.alias)
+			const targetName = formatSkillTargetName(naming, { ...pkg, prefix }, name)
+			const owner = seenTargets.get(targetName)
+			if (owner === alias) {
 				return failSync("validate", {
 					field: "skills",
 					message: `Duplicate skill target detected: ${targetName}`,
@@ -46,8 +52,15 @@ export function validateExtractedPackages(
 					type: "validation",
 				})
 			}
+			if (owner !== undefined) {
+				return failSync("validate", {
+					message: `Packages "${owner}" and "${alias}" both install a skill named "${targetName}". Set a prefix on one of them or use prefixed naming.`,
+					target: "skill",
+					type: "conflict",
+				})
+			}
 
-			seenTargets.add(targetName)
+			seenTargets.set(targetName, alias)
 		}
 	}
 
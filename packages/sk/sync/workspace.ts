@@ -0,0 +1,91 @@
+import type { ResolvedAgent } from "@/agents/types"
+import { resolveCacheRoot } from "@/cache/fs"
+import type { Manifest } from "@/manifest/types"
+import { createRepoCache } from "@/sync/cache"
+import { runLayeredSync } from "@/sync/layers"
+import type { SyncOptions, SyncResult, SyncSummary } from "@/sync/types"
+
+export interface WorkspaceSyncTarget {
+	/** Directory relative to the workspace root; "." for the root itself */
+	member: string
+	agents: ResolvedAgent[]
+	manifest: Manifest
+}
+
+interface MemberSummary {
+	member: string
+	summary: SyncSummary
+}
+
+/**
+ * Sync the manifests of a workspace one after another, each layered over
+ * globalLayer. They share one repository cache, so a repository several
+ * members depend on is fetched once. The combined summary tags changes and
+ * drift with their member.
+ */
+export async function runWorkspaceSync(
+	targets: WorkspaceSyncTarget[],
+	options: Omit<SyncOptions, "agents" | "manifest" | "repoCache">,
+	globalLayer: Manifest | null = null,
+): Promise<SyncResult<SyncSummary>> {
+	const repoCache = createRepoCache(
+		options.cacheRoot ?? resolveCacheRoot(),
+		options.onProgress,
+	)
+	const summaries: MemberSummary[] = []
+
+	for (const target of targets) {
+		const result = await runLayeredSync(
+			{
+				...options,
+				agents: target.agents,
+				manifest: target.manifest,
+				repoCache,
+			},
+			globalLayer,
+		)
+		if (!result.ok) {
+			return result
+		}
+		summaries.push({ member: target.member, summary: result.value })
+	}
+
+	return {
+		ok: true,
+		value: combineSummaries(summaries, options, globalLayer ? 1 : 0),
+	}
+}
+
+function combineSummaries(
+	summaries: MemberSummary[],
+	options: Pick<SyncOptions, "check" | "dryRun">,
+	sharedManifests: number,
+): SyncSummary {
+	const sum = (count: (summary: SyncSummary) => number): number =>
+		summaries.reduce((total, { summary }) => total + count(summary), 0)
+
+	return {
+		agentChanges: summaries.flatMap(({ member, summary }) =>
+			summary.agentChanges.map((changes) => ({ ...changes, member })),
+		),
+		agents: [...new Set(summaries.flatMap(({ summary }) => summary.agents))],
+		dependencies: sum((summary) => summary.dependencies),
+		drift: options.check
+			? summaries.flatMap(({ member, summary }) =>
+					(summary.drift ?? []).map((drift) => ({ ...drift, member })),
+				)
+			: undefined,
+		dryRun: options.dryRun,
+		installed: sum((summary) => summary.installed),
+		manifests: summaries.length + sharedManifests,
+		noOpReason: summaries.every(({ summary }) => summary.noOpReason)
+			? "no-dependencies"
+			: undefined,
+		removed: sum((summary) => summary.removed),
+		warnings: summaries.flatMap(({ member, summary }) =>
+			summary.warnings.map((warning) =>
+				member === "." ? warning : `${member}: ${warning}`,
+			),
+		),
+	}
+}
@@ -8,22 +8,33 @@
  * Uses resolved agent definitions with isolated skills paths.
  */
 
-import { readdir, readFile, rm } from "node:fs/promises"
+import { mkdir, readdir, readFile, rm, symlink, writeFile } from "node:fs/promises"
 import { join } from "node:path"
 import { coerceAbsolutePathDirect } from "@skills-supply/core"
 import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { getAgentById, resolveAgent } from "@/agents/registry"
+import type { AgentInstallState } from "@/agents/state"
 import type { ResolvedAgent } from "@/agents/types"
 import { loadManifest } from "@/manifest/fs"
-import { runSync } from "@/sync/sync"
+import { resolveManifestPackages } from "@/packages/resolve"
+import type { LocalPackage } from "@/packages/types"
+import { runLayeredSync } from "@/sync/layers"
+import { resyncLocalPackages, runSync } from "@/sync/sync"
+import type { SyncOptions } from "@/sync/types"
+import { runWorkspaceSync } from "@/sync/workspace"
 import {
 	createTestProject,
 	exists,
+	installStubClaude,
 	isDirectory,
 	setupFixturePackage,
 	setupFixturePlugin,
 	withTempDir,
 } from "@/tests/helpers"
-import { abs } from "@/tests/helpers/branded"
+import { abs, alias, nes } from "@/tests/helpers/branded"
+import { startRegistryFixture } from "@/tests/helpers/registry"
+
+import "@/tests/helpers/assertions"
 
 function createResolvedAgent(rootPath: string, skillsPath: string): ResolvedAgent {
 	return {
@@ -54,11 +65,7 @@ async function loadProjectManifest(projectDir: string) {
 /**
  * Helper to read the .sk-state.json file from an agent root directory.
  */
-async function readAgentState(rootPath: string): Promise<{
-	version: number
-	skills: string[]
-	updated_at: string
-} | null> {
+async function readAgentState(rootPath: string): Promise<AgentInstallState | null> {
 	const statePath = join(rootPath, ".sk-state.json")
 	try {
 		const content = await readFile(statePath, "utf-8")
@@ -161,7 +168,7 @@ describe("sync e2e", () => {
 				// Assert: State file should be created
 				const state = await readAgentState(agentRootDir)
 				expect(state).not.toBeNull()
-				expect(state?.version).toBe(1)
+				expect(state?.version).toBe(2)
 				expect(state?.skills.length).toBeGreaterThan(0)
 
 				// Assert: Skill directories should be installed
@@ -556,6 +563,1152 @@ describe("sync e2e", () => {
 		})
 	})
 
+	describe("lockfile", () => {
+		it("writes agents.lock with skill hashes and drops removed aliases", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const pkg1Dir = join(dir, "pkg1")
+				await setupFixturePackage(pkg1Dir, {
+					name: "pkg1",
+					skills: [{ content: "# One", name: "one" }],
+				})
+
+				const pkg2Dir = join(dir, "pkg2")
+				await setupFixturePackage(pkg2Dir, {
+					name: "pkg2",
+					skills: [{ content: "# Two", name: "two" }],
+				})
+
+				const projectDir = join(dir, "project")
+				await createTestProject(projectDir, {
+					agents: ["claude-code"],
+					dependencies: {
+						pkg1: `local:${pkg1Dir}`,
+						pkg2: `local:${pkg2Dir}`,
+					},
+				})
+
+				const { rootPath: agentRootDir, skillsPath: agentSkillsDir } =
+					buildAgentPaths(dir)
+				const agent = createResolvedAgent(agentRootDir, agentSkillsDir)
+
+				const firstResult = await runSync({
+					agents: [agent],
+					dryRun: false,
+					manifest: await loadProjectManifest(projectDir),
+				})
+				expect(firstResult.ok).toBe(true)
+
+				const lockPath = join(projectDir, "agents.lock")
+				const firstLock = await readFile(lockPath, "utf-8")
+				expect(firstLock).toContain("[packages.pkg1]")
+				expect(firstLock).toContain("[packages.pkg2]")
+				expect(firstLock).toMatch(/one = "sha256-[0-9a-f]{64}"/)
+
+				await createTestProject(projectDir, {
+					agents: ["claude-code"],
+					dependencies: {
+						pkg1: `local:${pkg1Dir}`,
+					},
+				})
+
+				const secondResult = await runSync({
+					agents: [agent],
+					dryRun: false,
+					manifest: await loadProjectManifest(projectDir),
+				})
+				expect(secondResult.ok).toBe(true)
+
+				const secondLock = await readFile(lockPath, "utf-8")
+				expect(secondLock).toContain("[packages.pkg1]")
+				expect(secondLock).not.toContain("[packages.pkg2]")
+			})
+		})
+
+		it("keeps a locked release when its skill filter is added and removed", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const registry = await startRegistryFixture(join(dir, "registry"))
+				try {
+					await registry.publish({
+						files: {
+							"agents.toml":
+								'[package]\nname = "tools"\nversion = "1.0.0"\n',
+							"skills/format/SKILL.md":
+								"---\nname: format\n---\n\n# Format\n",
+							"skills/lint/SKILL.md": "---\nname: lint\n---\n\n# Lint\n",
+						},
+						name: "tools",
+						version: "1.0.0",
+					})
+
+					const projectDir = join(dir, "project")
+					const writeManifest = (filter: string) =>
+						writeFile(
+							join(projectDir, "agents.toml"),
+							[
+								"[agents]",
+								"claude-code = true",
+								"",
+								"[dependencies]",
+								`tools = { registry = "tools", version = "^1.0.0"${filter} }`,
+								"",
+							].join("\n"),
+						)
+					await mkdir(projectDir, { recursive: true })
+
+					const { rootPath, skillsPath } = buildAgentPaths(dir)
+					const agent = createResolvedAgent(rootPath, skillsPath)
+					const sync = async () =>
+						runSync({
+							agents: [agent],
+							cacheRoot: abs(join(dir, "cache")),
+							dryRun: false,
+							manifest: await loadProjectManifest(projectDir),
+							registryUrl: registry.url,
+						})
+
+					await writeManifest("")
+					expect(await sync()).toBeOk()
+
+					await writeManifest(', skills = ["lint"]')
+					expect(await sync()).toBeOk()
+					expect(await listInstalledSkills(skillsPath)).toEqual(["tools-lint"])
+
+					await writeManifest("")
+					expect(await sync()).toBeOk()
+					expect((await listInstalledSkills(skillsPath)).sort()).toEqual([
+						"tools-format",
+						"tools-lint",
+					])
+					const lock = await readFile(join(projectDir, "agents.lock"), "utf-8")
+					expect(lock).toMatch(/format = "sha256-[0-9a-f]{64}"/)
+				} finally {
+					await registry.close()
+				}
+			})
+		})
+
+		it("does not write agents.lock in dry run mode", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const pkgDir = join(dir, "my-pkg")
+				await setupFixturePackage(pkgDir, {
+					name: "my-pkg",
+					skills: [{ content: "# Hello", name: "hello" }],
+				})
+
+				const projectDir = join(dir, "project")
+				await createTestProject(projectDir, {
+					agents: ["claude-code"],
+					dependencies: {
+						"my-pkg": `local:${pkgDir}`,
+					},
+				})
+
+				const { rootPath: agentRootDir, skillsPath: agentSkillsDir } =
+					buildAgentPaths(dir)
+				const result = await runSync({
+					agents: [createResolvedAgent(agentRootDir, agentSkillsDir)],
+					dryRun: true,
+					manifest: await loadProjectManifest(projectDir),
+				})
+
+				expect(result.ok).toBe(true)
+				expect(await exists(join(projectDir, "agents.lock"))).toBe(false)
+			})
+		})
+	})
+
+	describe("edited skills", () => {
+		const lintSkill = "---\nname: lint\n---\n\n# Lint\n"
+
+		async function syncRegistrySkill(
+			fn: (
+				sync: (options?: Partial<SyncOptions>) => ReturnType<typeof runSync>,
+				skillPath: string,
+			) => Promise<void>,
+		): Promise<void> {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const registry = await startRegistryFixture(join(dir, "registry"))
+				try {
+					await registry.publish({
+						files: {
+							"agents.toml":
+								'[package]\nname = "tools"\nversion = "1.0.0"\n',
+							"skills/lint/SKILL.md": lintSkill,
+						},
+						name: "tools",
+						version: "1.0.0",
+					})
+
+					const projectDir = join(dir, "project")
+					await createTestProject(projectDir, {
+						agents: ["claude-code"],
+						dependencies: { tools: "tools@^1.0.0" },
+					})
+
+					const { rootPath, skillsPath } = buildAgentPaths(dir)
+					const agent = createResolvedAgent(rootPath, skillsPath)
+					const manifest = await loadProjectManifest(projectDir)
+					const sync = (options: Partial<SyncOptions> = {}) =>
+						runSync({
+							agents: [agent],
+							cacheRoot: abs(join(dir, "cache")),
+							dryRun: false,
+							manifest,
+							registryUrl: registry.url,
+							...options,
+						})
+
+					expect((await sync()).ok).toBe(true)
+					await fn(sync, join(skillsPath, "tools-lint", "SKILL.md"))
+				} finally {
+					await registry.close()
+				}
+			})
+		}
+
+		it("refuses to overwrite an edited copy without --force", async () => {
+			await syncRegistrySkill(async (sync, skillPath) => {
+				await writeFile(skillPath, "# My lint rules\n")
+
+				const refused = await sync()
+				expect(refused).toBeErrContaining("Re-run with --force")
+				expect(await readFile(skillPath, "utf-8")).toBe("# My lint rules\n")
+
+				const forced = await sync({ force: true })
+				expect(forced.ok).toBe(true)
+				expect(await readFile(skillPath, "utf-8")).toBe(lintSkill)
+			})
+		})
+
+		it("asks before overwriting an edited copy", async () => {
+			await syncRegistrySkill(async (sync, skillPath) => {
+				await writeFile(skillPath, "# My lint rules\n")
+				const asked: string[][] = []
+
+				const declined = await sync({
+					confirmOverwrite: async (_agent, skills) => {
+						asked.push(skills)
+						return false
+					},
+				})
+				const accepted = await sync({ confirmOverwrite: async () => true })
+
+				expect(asked).toEqual([["tools-lint"]])
+				expect(declined.ok).toBe(false)
+				expect(accepted.ok).toBe(true)
+				expect(await readFile(skillPath, "utf-8")).toBe(lintSkill)
+			})
+		})
+
+		it("reports edited copies as modified on --check", async () => {
+			await syncRegistrySkill(async (sync, skillPath) => {
+				await writeFile(skillPath, "# My lint rules\n")
+
+				const result = await sync({ check: true, dryRun: true })
+
+				expect(result.ok && result.value.drift).toEqual([
+					{ agentId: "claude-code", kind: "modified", skill: "tools-lint" },
+				])
+				expect(await readFile(skillPath, "utf-8")).toBe("# My lint rules\n")
+			})
+		})
+
+		it("only warns about edited copies on a dry run", async () => {
+			await syncRegistrySkill(async (sync, skillPath) => {
+				await writeFile(skillPath, "# My lint rules\n")
+
+				const result = await sync({ dryRun: true })
+
+				expect(result.ok && result.value.warnings).toEqual([
+					expect.stringContaining("tools-lint"),
+				])
+			})
+		})
+	})
+
+	describe("check", () => {
+		async function syncLocalSkills(
+			fn: (
+				check: () => ReturnType<typeof runSync>,
+				skillsPath: string,
+			) => Promise<void>,
+		): Promise<void> {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const pkgDir = join(dir, "pkg")
+				await setupFixturePackage(pkgDir, {
+					name: "pkg",
+					skills: [
+						{ content: "# Alpha", name: "alpha" },
+						{ content: "# Beta", name: "beta" },
+					],
+				})
+				const projectDir = join(dir, "project")
+				await createTestProject(projectDir, {
+					agents: ["claude-code"],
+					dependencies: { pkg: `local:${pkgDir}` },
+				})
+
+				const { rootPath, skillsPath } = buildAgentPaths(dir)
+				const agent = createResolvedAgent(rootPath, skillsPath)
+				const manifest = await loadProjectManifest(projectDir)
+				const synced = await runSync({ agents: [agent], dryRun: false, manifest })
+				expect(synced.ok).toBe(true)
+
+				await fn(
+					() =>
+						runSync({ agents: [agent], check: true, dryRun: true, manifest }),
+					skillsPath,
+				)
+			})
+		}
+
+		it("reports no drift right after a sync", async () => {
+			await syncLocalSkills(async (check) => {
+				const result = await check()
+
+				expect(result.ok && result.value.drift).toEqual([])
+			})
+		})
+
+		it("reports missing and wrong-mode skills without repairing them", async () => {
+			await syncLocalSkills(async (check, skillsPath) => {
+				await rm(join(skillsPath, "pkg-alpha"))
+				await rm(join(skillsPath, "pkg-beta"))
+				await mkdir(join(skillsPath, "pkg-beta"))
+
+				const result = await check()
+
+				expect(result.ok && result.value.drift).toEqual([
+					{ agentId: "claude-code", kind: "missing", skill: "pkg-alpha" },
+					{ agentId: "claude-code", kind: "wrong-mode", skill: "pkg-beta" },
+				])
+				expect(await exists(join(skillsPath, "pkg-alpha"))).toBe(false)
+			})
+		})
+
+		it("reports missing and edited rule files of rule agents", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const pkgDir = join(dir, "pkg")
+				await setupFixturePackage(pkgDir, {
+					name: "pkg",
+					skills: [
+						{ content: "# Alpha", name: "alpha" },
+						{ content: "# Beta", name: "beta" },
+					],
+				})
+				const projectDir = join(dir, "project")
+				await createTestProject(projectDir, {
+					agents: ["cursor"],
+					dependencies: { pkg: `local:${pkgDir}` },
+				})
+
+				const definition = getAgentById("cursor")
+				if (!definition.ok) {
+					throw new Error(definition.error.message)
+				}
+				const agent = resolveAgent(definition.value, {
+					projectRoot: abs(projectDir),
+					type: "local",
+				})
+				const manifest = await loadProjectManifest(projectDir)
+				expect(
+					await runSync({ agents: [agent], dryRun: false, manifest }),
+				).toBeOk()
+
+				const check = () =>
+					runSync({ agents: [agent], check: true, dryRun: true, manifest })
+				const clean = await check()
+				expect(clean.ok && clean.value.drift).toEqual([])
+
+				const rulesPath = join(projectDir, ".cursor", "rules")
+				await rm(join(rulesPath, "pkg-alpha.mdc"))
+				await writeFile(join(rulesPath, "pkg-beta.mdc"), "Edited by hand\n")
+
+				const result = await check()
+
+				expect(result.ok && result.value.drift).toEqual([
+					{ agentId: "cursor", kind: "rule-missing", skill: "pkg-alpha" },
+					{ agentId: "cursor", kind: "rule-modified", skill: "pkg-beta" },
+				])
+				expect(await exists(join(rulesPath, "pkg-alpha.mdc"))).toBe(false)
+			})
+		})
+	})
+
+	describe("transitive dependencies", () => {
+		async function syncNested(
+			options: Partial<SyncOptions>,
+		): Promise<{ result: Awaited<ReturnType<typeof runSync>>; skills: string[] }> {
+			return withTempDir(async (dir) => {
+				tempDir = dir
+
+				await setupFixturePackage(join(dir, "base"), {
+					skills: [{ content: "# Base", name: "base-rules" }],
+				})
+				await setupFixturePackage(join(dir, "team"), {
+					dependencies: { base: "../base" },
+					skills: [{ content: "# Team", name: "review" }],
+				})
+				const projectDir = join(dir, "project")
+				await createTestProject(projectDir, {
+					agents: ["claude-code"],
+					dependencies: { team: `local:${join(dir, "team")}` },
+				})
+
+				const { rootPath, skillsPath } = buildAgentPaths(dir)
+				const agent = createResolvedAgent(rootPath, skillsPath)
+				const manifest = await loadProjectManifest(projectDir)
+				const result = await runSync({
+					agents: [agent],
+					dryRun: false,
+					manifest,
+					...options,
+				})
+
+				const state = await readAgentState(rootPath)
+				expect(state?.provenance["base-base-rules"]?.via).toEqual(
+					options.transitive === false ? undefined : ["team"],
+				)
+				return { result, skills: await listInstalledSkills(skillsPath) }
+			})
+		}
+
+		it("installs dependencies declared by package manifests", async () => {
+			const { result, skills } = await syncNested({})
+
+			expect(result.ok && result.value.dependencies).toBe(2)
+			expect(skills.sort()).toEqual(["base-base-rules", "team-review"])
+		})
+
+		it("skips them with --no-transitive", async () => {
+			const { result, skills } = await syncNested({ transitive: false })
+
+			expect(result.ok && result.value.dependencies).toBe(1)
+			expect(skills).toEqual(["team-review"])
+		})
+	})
+
+	describe("global layer", () => {
+		async function setupLayers(dir: string) {
+			await setupFixturePackage(join(dir, "personal"), {
+				skills: [{ content: "# Personal", name: "notes" }],
+			})
+			await setupFixturePackage(join(dir, "personal-review"), {
+				skills: [{ content: "# Personal review", name: "check" }],
+			})
+			await setupFixturePackage(join(dir, "team-review"), {
+				skills: [{ content: "# Team review", name: "check" }],
+			})
+			const globalDir = join(dir, "global")
+			await createTestProject(globalDir, {
+				dependencies: {
+					notes: `local:${join(dir, "personal")}`,
+					review: `local:${join(dir, "personal-review")}`,
+				},
+			})
+			const projectDir = join(dir, "project")
+			await createTestProject(projectDir, {
+				dependencies: { review: `local:${join(dir, "team-review")}` },
+			})
+
+			const { rootPath, skillsPath } = buildAgentPaths(projectDir)
+			return {
+				agent: createResolvedAgent(rootPath, skillsPath),
+				globalDir,
+				globalManifest: await loadProjectManifest(globalDir),
+				manifest: await loadProjectManifest(projectDir),
+				rootPath,
+				skillsPath,
+			}
+		}
+
+		it("installs global dependencies unless the project declares the alias", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const layers = await setupLayers(dir)
+
+				const result = await runLayeredSync(
+					{ agents: [layers.agent], dryRun: false, manifest: layers.manifest },
+					layers.globalManifest,
+				)
+
+				expect(result).toBeOk()
+				expect(result.ok && result.value.manifests).toBe(2)
+				expect((await listInstalledSkills(layers.skillsPath)).sort()).toEqual([
+					"notes-notes",
+					"review-check",
+				])
+				expect(
+					await readFile(
+						join(layers.skillsPath, "review-check", "SKILL.md"),
+						"utf-8",
+					),
+				).toContain("# Team review")
+				expect((await readAgentState(layers.rootPath))?.skills).toEqual([
+					"review-check",
+				])
+				const layerState = JSON.parse(
+					await readFile(
+						join(layers.rootPath, ".sk-state.global.json"),
+						"utf-8",
+					),
+				) as AgentInstallState
+				expect(layerState.skills).toEqual(["notes-notes"])
+				expect(await exists(join(layers.globalDir, "agents.lock"))).toBe(false)
+			})
+		})
+
+		it("removes only the global skills once the layer is turned off", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const layers = await setupLayers(dir)
+				const options = {
+					agents: [layers.agent],
+					dryRun: false,
+					manifest: layers.manifest,
+				}
+				await runLayeredSync(options, layers.globalManifest)
+
+				const result = await runLayeredSync(options, null)
+
+				expect(result).toBeOk()
+				expect(await listInstalledSkills(layers.skillsPath)).toEqual([
+					"review-check",
+				])
+			})
+		})
+
+		it("skips a global skill that has the name of a project skill", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const layers = await setupLayers(dir)
+				// The project installs team-review as review-check under another alias
+				const project = {
+					...layers.manifest,
+					dependencies: new Map(
+						[...layers.manifest.dependencies].map(([, declaration]) => [
+							alias("team"),
+							{ ...declaration, prefix: nes("review") },
+						]),
+					),
+				}
+
+				const result = await runLayeredSync(
+					{ agents: [layers.agent], dryRun: false, manifest: project },
+					layers.globalManifest,
+				)
+
+				expect(result).toBeOk()
+				expect(result.ok && result.value.warnings).toContainEqual(
+					expect.stringContaining("Skipping review-check"),
+				)
+				expect(
+					await readFile(
+						join(layers.skillsPath, "review-check", "SKILL.md"),
+						"utf-8",
+					),
+				).toContain("# Team review")
+			})
+		})
+	})
+
+	describe("local package resync", () => {
+		async function setupWatched(dir: string) {
+			await setupFixturePackage(join(dir, "drafts"), {
+				skills: [
+					{ content: "# Outline", name: "outline" },
+					{ content: "# Polish", name: "polish" },
+				],
+			})
+			await setupFixturePackage(join(dir, "shared"), {
+				skills: [{ content: "# Shared", name: "style" }],
+			})
+			const projectDir = join(dir, "project")
+			await createTestProject(projectDir, {
+				agents: ["claude-code"],
+				dependencies: {
+					drafts: `local:${join(dir, "drafts")}`,
+					shared: `local:${join(dir, "shared")}`,
+				},
+			})
+
+			const { rootPath, skillsPath } = buildAgentPaths(dir)
+			const agent = createResolvedAgent(rootPath, skillsPath)
+			const manifest = await loadProjectManifest(projectDir)
+			expect(await runSync({ agents: [agent], dryRun: false, manifest })).toBeOk()
+
+			const drafts = resolveManifestPackages(manifest).filter(
+				(pkg): pkg is LocalPackage =>
+					pkg.type === "local" && String(pkg.origin.alias) === "drafts",
+			)
+			return { agent, drafts, manifest, rootPath, skillsPath }
+		}
+
+		it("updates only the skills of the changed package", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const watched = await setupWatched(dir)
+				await rm(join(dir, "drafts", "skills", "polish"), { recursive: true })
+				await mkdir(join(dir, "drafts", "skills", "review"))
+				await writeFile(
+					join(dir, "drafts", "skills", "review", "SKILL.md"),
+					"---\nname: review\n---\n\n# Review\n",
+				)
+
+				const result = await resyncLocalPackages(watched.drafts, {
+					agents: [watched.agent],
+					manifest: watched.manifest,
+				})
+
+				expect(result).toBeOk()
+				expect(result.ok && result.value.agentChanges).toEqual([
+					{
+						agentId: "claude-code",
+						installed: ["drafts-outline", "drafts-review"],
+						removed: ["drafts-polish"],
+					},
+				])
+				expect((await listInstalledSkills(watched.skillsPath)).sort()).toEqual([
+					"drafts-outline",
+					"drafts-review",
+					"shared-style",
+				])
+				expect((await readAgentState(watched.rootPath))?.skills).toEqual([
+					"drafts-outline",
+					"drafts-review",
+					"shared-style",
+				])
+			})
+		})
+
+		it("fails on invalid frontmatter without touching installed skills", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const watched = await setupWatched(dir)
+				await writeFile(
+					join(dir, "drafts", "skills", "polish", "SKILL.md"),
+					"# No frontmatter\n",
+				)
+
+				const result = await resyncLocalPackages(watched.drafts, {
+					agents: [watched.agent],
+					manifest: watched.manifest,
+				})
+
+				expect(result.ok).toBe(false)
+				expect((await listInstalledSkills(watched.skillsPath)).sort()).toEqual([
+					"drafts-outline",
+					"drafts-polish",
+					"shared-style",
+				])
+			})
+		})
+	})
+
+	describe("plugin components", () => {
+		async function setupPluginProject(dir: string) {
+			const pluginDir = join(dir, "tools")
+			await setupFixturePlugin(pluginDir, {
+				includeMarketplace: true,
+				name: "tools",
+				skills: [{ name: "lint" }],
+			})
+			await mkdir(join(pluginDir, "commands"))
+			await writeFile(
+				join(pluginDir, "commands", "review.md"),
+				"---\ndescription: Review a PR\nallowed-tools: Bash(gh:*)\n---\n\nReview PR $ARGUMENTS.\n",
+			)
+			await mkdir(join(pluginDir, "agents"))
+			await writeFile(
+				join(pluginDir, "agents", "auditor.md"),
+				"---\nname: auditor\ndescription: Audits code\n---\n\nYou audit code.\n",
+			)
+			await mkdir(join(pluginDir, "hooks"))
+			await writeFile(join(pluginDir, "hooks", "hooks.json"), '{"hooks":{}}')
+
+			const projectDir = join(dir, "project")
+			await mkdir(projectDir)
+			await writeFile(
+				join(projectDir, "agents.toml"),
+				`[agents]\nopencode = true\n\n[dependencies]\ntools = { type = "claude-plugin", plugin = "tools", marketplace = "${pluginDir}" }\n`,
+			)
+
+			const definition = getAgentById("opencode")
+			if (!definition.ok) {
+				throw new Error(definition.error.message)
+			}
+			const agent = resolveAgent(definition.value, {
+				projectRoot: abs(projectDir),
+				type: "local",
+			})
+			const manifest = await loadProjectManifest(projectDir)
+			return { agent, manifest, pluginDir }
+		}
+
+		it("converts commands and subagents and warns about hooks", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const { agent, manifest } = await setupPluginProject(dir)
+
+				const result = await runSync({ agents: [agent], dryRun: false, manifest })
+
+				expect(result).toBeOk()
+				expect(result.ok && result.value.warnings).toContain(
+					'OpenCode has no equivalent of Claude plugin hooks; skipped the hooks of "tools".',
+				)
+				expect(
+					await readFile(
+						join(agent.rootPath, "command", "tools-review.md"),
+						"utf8",
+					),
+				).toBe('---\ndescription: "Review a PR"\n---\n\nReview PR $ARGUMENTS.\n')
+				expect(
+					await readFile(
+						join(agent.rootPath, "agent", "tools-auditor.md"),
+						"utf8",
+					),
+				).toBe(
+					'---\ndescription: "Audits code"\nmode: "subagent"\n---\n\nYou audit code.\n',
+				)
+				expect((await readAgentState(agent.rootPath))?.components).toEqual([
+					"agent/tools-auditor.md",
+					"command/tools-review.md",
+				])
+			})
+		})
+
+		it("removes converted files the plugin no longer has", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const { agent, manifest, pluginDir } = await setupPluginProject(dir)
+				expect(
+					await runSync({ agents: [agent], dryRun: false, manifest }),
+				).toBeOk()
+
+				await rm(join(pluginDir, "commands", "review.md"))
+				expect(
+					await runSync({ agents: [agent], dryRun: false, manifest }),
+				).toBeOk()
+
+				expect(await exists(join(agent.rootPath, "command"))).toBe(false)
+				expect((await readAgentState(agent.rootPath))?.components).toEqual([
+					"agent/tools-auditor.md",
+				])
+			})
+		})
+
+		it("refuses to overwrite a file sk did not write", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const { agent, manifest } = await setupPluginProject(dir)
+				await mkdir(join(agent.rootPath, "command"), { recursive: true })
+				await writeFile(
+					join(agent.rootPath, "command", "tools-review.md"),
+					"Mine",
+				)
+
+				const result = await runSync({ agents: [agent], dryRun: false, manifest })
+
+				expect(result).toBeErrContaining(
+					"not managed by sk: command/tools-review.md",
+				)
+			})
+		})
+	})
+
+	describe("native Claude plugins", () => {
+		async function setupNativePlugin(dir: string) {
+			const pluginDir = join(dir, "tools")
+			await setupFixturePlugin(pluginDir, {
+				includeMarketplace: true,
+				name: "tools",
+				skills: [{ name: "lint" }],
+			})
+			const projectDir = join(dir, "project")
+			await mkdir(projectDir)
+			await writeFile(
+				join(projectDir, "agents.toml"),
+				`[agents]\nclaude-code = true\n\n[dependencies]\ntools = { type = "claude-plugin", plugin = "tools", marketplace = "${pluginDir}" }\n`,
+			)
+
+			const { rootPath, skillsPath } = buildAgentPaths(dir)
+			const agent = createResolvedAgent(rootPath, skillsPath)
+			return { agent, pluginDir, projectDir }
+		}
+
+		it("records the plugins and marketplaces it installs", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const claude = await installStubClaude(dir)
+				try {
+					const { agent, pluginDir, projectDir } = await setupNativePlugin(dir)
+					const manifest = await loadProjectManifest(projectDir)
+
+					const result = await runSync({
+						agents: [agent],
+						dryRun: false,
+						manifest,
+					})
+
+					expect(result).toBeOk()
+					expect(await claude.calls()).toEqual([
+						`plugin marketplace add ${pluginDir}`,
+						`plugin install tools@${pluginDir}`,
+					])
+					const state = await readAgentState(agent.rootPath)
+					expect(state?.plugins).toEqual(["tools@dev-marketplace"])
+					expect(state?.marketplaces).toEqual([
+						{ name: "dev-marketplace", spec: pluginDir },
+					])
+				} finally {
+					claude.restore()
+				}
+			})
+		})
+
+		it("uninstalls removed plugins and their unused marketplace", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const claude = await installStubClaude(dir)
+				try {
+					const { agent, projectDir } = await setupNativePlugin(dir)
+					const manifest = await loadProjectManifest(projectDir)
+					expect(
+						await runSync({ agents: [agent], dryRun: false, manifest }),
+					).toBeOk()
+					await createTestProject(projectDir, { agents: ["claude-code"] })
+					const emptied = await loadProjectManifest(projectDir)
+					const installCalls = (await claude.calls()).length
+
+					const planned = await runSync({
+						agents: [agent],
+						dryRun: true,
+						manifest: emptied,
+					})
+					expect(planned.ok && planned.value.agentChanges[0]?.plugins).toEqual({
+						installed: [],
+						removedMarketplaces: ["dev-marketplace"],
+						uninstalled: ["tools@dev-marketplace"],
+					})
+					expect(await claude.calls()).toHaveLength(installCalls)
+
+					const result = await runSync({
+						agents: [agent],
+						dryRun: false,
+						manifest: emptied,
+					})
+
+					expect(result).toBeOk()
+					expect((await claude.calls()).slice(installCalls)).toEqual([
+						"plugin uninstall tools@dev-marketplace",
+						"plugin marketplace remove dev-marketplace",
+					])
+					const state = await readAgentState(agent.rootPath)
+					expect(state?.plugins).toBeUndefined()
+					expect(state?.marketplaces).toBeUndefined()
+				} finally {
+					claude.restore()
+				}
+			})
+		})
+
+		it("keeps removed plugins installed when the agent's changes fail", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const claude = await installStubClaude(dir)
+				try {
+					const { projectDir } = await setupNativePlugin(dir)
+					const definition = getAgentById("claude-code")
+					if (!definition.ok) {
+						throw new Error(definition.error.message)
+					}
+					const agent = resolveAgent(definition.value, {
+						projectRoot: abs(projectDir),
+						type: "local",
+					})
+					expect(
+						await runSync({
+							agents: [agent],
+							dryRun: false,
+							manifest: await loadProjectManifest(projectDir),
+						}),
+					).toBeOk()
+
+					// The plugin is dropped for a server whose config cannot be
+					// written, which fails the agent's changes after the plugin plan
+					await writeFile(
+						join(projectDir, "agents.toml"),
+						'[agents]\nclaude-code = true\n\n[mcp_servers.github]\ncommand = "npx"\n',
+					)
+					await symlink(
+						join(dir, "missing", ".mcp.json"),
+						join(projectDir, ".mcp.json"),
+					)
+					const installCalls = (await claude.calls()).length
+
+					const result = await runSync({
+						agents: [agent],
+						dryRun: false,
+						manifest: await loadProjectManifest(projectDir),
+					})
+
+					expect(result).toBeErr()
+					expect(await claude.calls()).toHaveLength(installCalls)
+					const state = await readAgentState(agent.rootPath)
+					expect(state?.plugins).toEqual(["tools@dev-marketplace"])
+				} finally {
+					claude.restore()
+				}
+			})
+		})
+	})
+
+	describe("MCP servers", () => {
+		const GITHUB_SERVER =
+			'[mcp_servers.github]\ncommand = "npx"\nargs = ["-y", "@modelcontextprotocol/server-github"]\n'
+
+		async function setupMcpProject(dir: string, servers: string) {
+			const projectDir = join(dir, "project")
+			await mkdir(projectDir, { recursive: true })
+			await writeFile(
+				join(projectDir, "agents.toml"),
+				`[agents]\nclaude-code = true\n\n${servers}`,
+			)
+
+			const definition = getAgentById("claude-code")
+			if (!definition.ok) {
+				throw new Error(definition.error.message)
+			}
+			const agent = resolveAgent(definition.value, {
+				projectRoot: abs(projectDir),
+				type: "local",
+			})
+			const manifest = await loadProjectManifest(projectDir)
+			return { agent, manifest, projectDir }
+		}
+
+		it("writes declared servers next to the ones sk did not write", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				await mkdir(join(dir, "project"))
+				await writeFile(
+					join(dir, "project", ".mcp.json"),
+					JSON.stringify({ mcpServers: { local: { command: "./serve" } } }),
+				)
+				const { agent, manifest, projectDir } = await setupMcpProject(
+					dir,
+					GITHUB_SERVER,
+				)
+
+				const result = await runSync({ agents: [agent], dryRun: false, manifest })
+
+				expect(result).toBeOk()
+				const config = JSON.parse(
+					await readFile(join(projectDir, ".mcp.json"), "utf8"),
+				)
+				expect(config.mcpServers).toEqual({
+					github: {
+						args: ["-y", "@modelcontextprotocol/server-github"],
+						command: "npx",
+						type: "stdio",
+					},
+					local: { command: "./serve" },
+				})
+				const state = await readAgentState(agent.rootPath)
+				expect(state?.mcp_servers).toEqual(["github"])
+			})
+		})
+
+		it("removes servers the manifest no longer declares", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				const first = await setupMcpProject(dir, GITHUB_SERVER)
+				expect(
+					await runSync({
+						agents: [first.agent],
+						dryRun: false,
+						manifest: first.manifest,
+					}),
+				).toBeOk()
+
+				const { agent, manifest, projectDir } = await setupMcpProject(dir, "")
+				const result = await runSync({ agents: [agent], dryRun: false, manifest })
+
+				expect(result).toBeOk()
+				expect(result.ok && result.value.agentChanges[0]?.mcpServers).toEqual({
+					added: [],
+					removed: ["github"],
+					updated: [],
+				})
+				expect(await readFile(join(projectDir, ".mcp.json"), "utf8")).toBe("{}\n")
+			})
+		})
+	})
+
+	describe("instructions", () => {
+		async function setupInstructionsProject(dir: string, withStyle: boolean) {
+			const styleDir = join(dir, "style")
+			await mkdir(styleDir, { recursive: true })
+			await writeFile(
+				join(styleDir, "agents.toml"),
+				'[package]\nname = "style"\nversion = "1.0.0"\n\n[exports]\ninstructions = "INSTRUCTIONS.md"\n',
+			)
+			await writeFile(join(styleDir, "INSTRUCTIONS.md"), "Use tabs.\n")
+
+			const projectDir = join(dir, "project")
+			await createTestProject(projectDir, {
+				agents: ["codex"],
+				dependencies: withStyle ? { style: `local:${styleDir}` } : {},
+			})
+
+			const definition = getAgentById("codex")
+			if (!definition.ok) {
+				throw new Error(definition.error.message)
+			}
+			const agent = resolveAgent(definition.value, {
+				projectRoot: abs(projectDir),
+				type: "local",
+			})
+			const manifest = await loadProjectManifest(projectDir)
+			return { agent, manifest, projectDir }
+		}
+
+		it("writes a block into AGENTS.md and keeps the text around it", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				await mkdir(join(dir, "project"))
+				await writeFile(join(dir, "project", "AGENTS.md"), "# Project\n")
+				const { agent, manifest, projectDir } = await setupInstructionsProject(
+					dir,
+					true,
+				)
+
+				const result = await runSync({ agents: [agent], dryRun: false, manifest })
+
+				expect(result).toBeOk()
+				expect(result.ok && result.value.agentChanges[0]?.instructions).toEqual({
+					blocks: [{ after: "Use tabs.", alias: "style", before: null }],
+					path: join(projectDir, "AGENTS.md"),
+				})
+				expect(await readFile(join(projectDir, "AGENTS.md"), "utf8")).toMatch(
+					/^# Project\n\n<!-- sk:begin alias=style hash=[0-9a-f]{12} -->\nUse tabs\.\n<!-- sk:end alias=style -->\n$/,
+				)
+				const state = await readAgentState(agent.rootPath)
+				expect(state?.instructions).toEqual(["style"])
+			})
+		})
+
+		it("removes the block once the package is gone", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+				await mkdir(join(dir, "project"))
+				await writeFile(join(dir, "project", "AGENTS.md"), "# Project\n")
+				const first = await setupInstructionsProject(dir, true)
+				expect(
+					await runSync({
+						agents: [first.agent],
+						dryRun: false,
+						manifest: first.manifest,
+					}),
+				).toBeOk()
+
+				const { agent, manifest, projectDir } = await setupInstructionsProject(
+					dir,
+					false,
+				)
+				const result = await runSync({ agents: [agent], dryRun: false, manifest })
+
+				expect(result).toBeOk()
+				expect(await readFile(join(projectDir, "AGENTS.md"), "utf8")).toBe(
+					"# Project\n",
+				)
+			})
+		})
+	})
+
+	describe("workspaces", () => {
+		it("syncs each member into its own agent directory", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				await setupFixturePackage(join(dir, "shared"), {
+					skills: [{ content: "# Shared", name: "style" }],
+				})
+				await setupFixturePackage(join(dir, "web-only"), {
+					skills: [{ content: "# Web", name: "react" }],
+				})
+				const webDir = join(dir, "apps", "web")
+				const apiDir = join(dir, "apps", "api")
+				await createTestProject(webDir, {
+					dependencies: {
+						shared: `local:${join(dir, "shared")}`,
+						web: `local:${join(dir, "web-only")}`,
+					},
+				})
+				await createTestProject(apiDir, {
+					dependencies: { shared: `local:${join(dir, "shared")}` },
+				})
+
+				const webAgent = buildAgentPaths(webDir)
+				const apiAgent = buildAgentPaths(apiDir)
+				const result = await runWorkspaceSync(
+					[
+						{
+							agents: [
+								createResolvedAgent(
+									apiAgent.rootPath,
+									apiAgent.skillsPath,
+								),
+							],
+							manifest: await loadProjectManifest(apiDir),
+							member: "apps/api",
+						},
+						{
+							agents: [
+								createResolvedAgent(
+									webAgent.rootPath,
+									webAgent.skillsPath,
+								),
+							],
+							manifest: await loadProjectManifest(webDir),
+							member: "apps/web",
+						},
+					],
+					{ dryRun: false },
+				)
+
+				expect(result).toBeOk()
+				if (!result.ok) return
+				expect(result.value.manifests).toBe(2)
+				expect(result.value.dependencies).toBe(3)
+				expect(
+					result.value.agentChanges.map((changes) => changes.member),
+				).toEqual(["apps/api", "apps/web"])
+				expect(await listInstalledSkills(apiAgent.skillsPath)).toEqual([
+					"shared-style",
+				])
+				expect((await listInstalledSkills(webAgent.skillsPath)).sort()).toEqual([
+					"shared-style",
+					"web-react",
+				])
+				expect(await exists(join(apiDir, "agents.lock"))).toBe(true)
+				expect(await exists(join(webDir, "agents.lock"))).toBe(true)
+			})
+		})
+	})
+
 	describe("error cases", () => {
 		it("fails when local package path does not exist", async () => {
 			await withTempDir(async (dir) => {
@@ -589,5 +1742,53 @@ describe("sync e2e", () => {
 				}
 			})
 		})
+
+		it("records the agents that synced when a later agent fails before apply", async () => {
+			await withTempDir(async (dir) => {
+				tempDir = dir
+
+				const pkgDir = join(dir, "pkg")
+				await setupFixturePackage(pkgDir, {
+					name: "pkg",
+					skills: [{ content: "# Alpha", name: "alpha" }],
+				})
+				const projectDir = join(dir, "project")
+				await createTestProject(projectDir, {
+					agents: ["claude-code"],
+					dependencies: { pkg: `local:${pkgDir}` },
+				})
+
+				const first = createResolvedAgent(
+					join(dir, "first"),
+					join(dir, "first", "skills"),
+				)
+				const second = {
+					...createResolvedAgent(
+						join(dir, "second"),
+						join(dir, "second", "skills"),
+					),
+					displayName: "Second Agent",
+				}
+				// A skill directory sk does not manage fails the second agent's preflight
+				await mkdir(join(second.skillsPath, "pkg-alpha"), { recursive: true })
+
+				const result = await runSync({
+					agents: [first, second],
+					dryRun: false,
+					manifest: await loadProjectManifest(projectDir),
+				})
+
+				expect(result.ok).toBe(false)
+				if (!result.ok) {
+					expect(result.error.stage).toBe("install")
+					expect(result.error.message).toContain("Sync failed for Second Agent")
+					expect(result.error.message).toContain("Synced Test Agent.")
+				}
+				expect(await exists(join(first.skillsPath, "pkg-alpha"))).toBe(true)
+				expect(
+					await readFile(join(projectDir, "agents.lock"), "utf-8"),
+				).toContain("[packages.pkg]")
+			})
+		})
 	})
 })
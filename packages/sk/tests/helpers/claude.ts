@@ -0,0 +1,60 @@
+/**
+ * Claude CLI test helpers
+ *
+ * A stub `claude` executable put first on PATH records the plugin commands
+ * sync runs, so native plugin installs can be tested without Claude Code.
+ */
+
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises"
+import { delimiter, join } from "node:path"
+
+export interface StubClaude {
+	/** Arguments of each call, joined with spaces, oldest first */
+	calls: () => Promise<string[]>
+	/** Put the previous PATH back */
+	restore: () => void
+}
+
+/**
+ * Install a stub `claude` into dir and put it first on PATH. Calls whose
+ * arguments mention a name in failWith exit 1 printing that message, the
+ * way the real CLI reports plugins that are already there or missing.
+ *
+ * @example
+ * const claude = await installStubClaude(dir, { "old-plugin": "not installed" })
+ * try { ... } finally { claude.restore() }
+ */
+export async function installStubClaude(
+	dir: string,
+	failWith: Record<string, string> = {},
+): Promise<StubClaude> {
+	const binDir = join(dir, "bin")
+	const logPath = join(dir, "claude-calls.log")
+	await mkdir(binDir, { recursive: true })
+	await writeFile(logPath, "")
+
+	const failures = Object.entries(failWith)
+		.map(([name, message]) => `\t*${name}*) echo "${message}" >&2; exit 1 ;;`)
+		.join("\n")
+	const script = `#!/bin/sh
+echo "$*" >> "${logPath}"
+case "$*" in
+${failures}
+esac
+exit 0
+`
+	const binPath = join(binDir, "claude")
+	await writeFile(binPath, script)
+	await chmod(binPath, 0o755)
+
+	const previousPath = process.env.PATH
+	process.env.PATH = `${binDir}${delimiter}${previousPath ?? ""}`
+
+	return {
+		calls: async () =>
+			(await readFile(logPath, "utf8")).split("\n").filter((line) => line),
+		restore: () => {
+			process.env.PATH = previousPath
+		},
+	}
+}
@@ -87,6 +87,7 @@ export async function runSync(options: TestSyncOptions): Promise<TestSyncResult>
 		result: {
 			ok: true,
 			value: {
+				agentChanges: [],
 				agents: [],
 				dependencies: 0,
 				dryRun: syncOptions.dryRun,
@@ -204,6 +204,8 @@ export interface FixturePackageOptions {
 	skillsDir?: string
 	/** Whether to create an agents.toml (defaults to true) */
 	createManifest?: boolean
+	/** Local dependencies declared by the manifest, as alias -> path */
+	dependencies?: Record<string, string>
 }
 
 /**
@@ -224,6 +226,7 @@ export async function setupFixturePackage(
 		skills = [],
 		skillsDir = "skills",
 		createManifest = true,
+		dependencies = {},
 	} = options
 
 	// Create package directory
@@ -231,13 +234,19 @@ export async function setupFixturePackage(
 
 	// Create manifest
 	if (createManifest) {
-		const manifest = `[package]
+		const dependencyLines = Object.entries(dependencies).map(
+			([alias, dependencyPath]) => `${alias} = { path = "${dependencyPath}" }`,
+		)
+		let manifest = `[package]
 name = "${name}"
 version = "${version}"
 
 [exports.auto_discover]
 skills = "${skillsDir}"
 `
+		if (dependencyLines.length > 0) {
+			manifest += `\n[dependencies]\n${dependencyLines.join("\n")}\n`
+		}
 		await writeFile(join(pkgDir, "agents.toml"), manifest)
 	}
 
@@ -0,0 +1,47 @@
+/**
+ * Git test helpers
+ *
+ * Utilities for building local git repositories that stand in for remotes.
+ * `git ls-remote` and `git clone` accept plain paths, so no network is needed.
+ */
+
+import { execFileSync } from "node:child_process"
+
+function git(repoDir: string, args: string[]): string {
+	return execFileSync("git", ["-C", repoDir, ...args], { encoding: "utf8" }).trim()
+}
+
+/**
+ * Turn an existing directory into a git repository with one commit.
+ * Returns the commit SHA.
+ *
+ * @example
+ * await setupFixturePackage(repoDir, { skills: [...] })
+ * const first = initFixtureGitRepo(repoDir, { tag: "v1.0.0" })
+ */
+export function initFixtureGitRepo(
+	repoDir: string,
+	options: { tag?: string } = {},
+): string {
+	git(repoDir, ["init", "--quiet", "--initial-branch=main"])
+	git(repoDir, ["config", "user.email", "test@example.com"])
+	git(repoDir, ["config", "user.name", "Test"])
+	return commitFixtureGitRepo(repoDir, "initial", options)
+}
+
+/**
+ * Commit every change in the repository, optionally tagging the commit.
+ * Returns the commit SHA.
+ */
+export function commitFixtureGitRepo(
+	repoDir: string,
+	message: string,
+	options: { tag?: string } = {},
+): string {
+	git(repoDir, ["add", "-A"])
+	git(repoDir, ["commit", "--quiet", "--allow-empty", "-m", message])
+	if (options.tag) {
+		git(repoDir, ["tag", options.tag])
+	}
+	return git(repoDir, ["rev-parse", "HEAD"])
+}
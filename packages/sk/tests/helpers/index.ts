@@ -9,5 +9,8 @@
 
 export * from "@/tests/helpers/assertions"
 export * from "@/tests/helpers/branded"
+export * from "@/tests/helpers/claude"
 export * from "@/tests/helpers/e2e"
 export * from "@/tests/helpers/fs"
+export * from "@/tests/helpers/git"
+export * from "@/tests/helpers/registry"
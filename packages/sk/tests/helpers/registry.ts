@@ -0,0 +1,126 @@
+/**
+ * Registry test helpers
+ *
+ * A local HTTP server that speaks the registry protocol, serving package
+ * indexes and release tarballs built from fixture files on disk.
+ */
+
+import { execFileSync } from "node:child_process"
+import { createHash } from "node:crypto"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { dirname, join } from "node:path"
+
+export interface FixtureRelease {
+	name: string
+	org?: string
+	version: string
+	/** Files relative to the package root, e.g. { "skills/alpha/SKILL.md": "# Alpha" } */
+	files: Record<string, string>
+}
+
+export interface RegistryFixture {
+	/** Base registry URL, equivalent to SK_REGISTRY_URL */
+	url: string
+	/** Number of requests served, keyed by request path */
+	requests: Map<string, number>
+	/** Build a release tarball and add it to the package index */
+	publish(release: FixtureRelease): Promise<void>
+	/** Path of a published tarball, for tampering with its contents */
+	tarballPath(name: string, version: string, org?: string): string
+	close(): Promise<void>
+}
+
+/**
+ * Start a registry server on a random port, storing tarballs under dir.
+ *
+ * @example
+ * const registry = await startRegistryFixture(dir)
+ * await registry.publish({ name: "tools", version: "1.0.0", files: {...} })
+ * // fetch from registry.url
+ * await registry.close()
+ */
+export async function startRegistryFixture(dir: string): Promise<RegistryFixture> {
+	const requests = new Map<string, number>()
+	const integrities = new Map<string, Map<string, string>>()
+	let url = ""
+
+	const packagePath = (name: string, org?: string) =>
+		org ? `orgs/${org}/packages/${name}` : `packages/${name}`
+	const tarballPath = (name: string, version: string, org?: string) =>
+		join(dir, packagePath(name, org), `${name}-${version}.tgz`)
+
+	const server: Server = createServer((request, response) => {
+		const path = new URL(request.url ?? "/", "http://localhost").pathname.slice(1)
+		requests.set(path, (requests.get(path) ?? 0) + 1)
+
+		const tarball = /^(.+)\/-\/([^/]+\.tgz)$/.exec(path)
+		if (tarball?.[1] && tarball[2]) {
+			readFile(join(dir, tarball[1], tarball[2])).then(
+				(data) => {
+					response.writeHead(200, { "Content-Type": "application/gzip" })
+					response.end(data)
+				},
+				() => {
+					response.writeHead(404)
+					response.end()
+				},
+			)
+			return
+		}
+
+		const releases = integrities.get(path)
+		if (!releases) {
+			response.writeHead(404)
+			response.end()
+			return
+		}
+
+		const match = /^(?:orgs\/([^/]+)\/)?packages\/([^/]+)$/.exec(path)
+		const name = match?.[2] ?? ""
+		const org = match?.[1]
+		const versions = [...releases].map(([version, integrity]) => ({
+			integrity,
+			tarball: `${url}/${path}/-/${name}-${version}.tgz`,
+			version,
+		}))
+		response.writeHead(200, { "Content-Type": "application/json" })
+		response.end(JSON.stringify({ name, org, versions }))
+	})
+
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+	const { port } = server.address() as AddressInfo
+	url = `http://127.0.0.1:${port}`
+
+	return {
+		close: () =>
+			new Promise<void>((resolve, reject) =>
+				server.close((error) => (error ? reject(error) : resolve())),
+			),
+		async publish(release) {
+			const staging = join(dir, ".staging", "package")
+			await rm(dirname(staging), { force: true, recursive: true })
+			for (const [file, contents] of Object.entries(release.files)) {
+				await mkdir(dirname(join(staging, file)), { recursive: true })
+				await writeFile(join(staging, file), contents)
+			}
+
+			const target = tarballPath(release.name, release.version, release.org)
+			await mkdir(dirname(target), { recursive: true })
+			execFileSync("tar", ["-czf", target, "-C", dirname(staging), "package"])
+			await rm(dirname(staging), { force: true, recursive: true })
+
+			const digest = createHash("sha256")
+				.update(await readFile(target))
+				.digest("base64")
+			const key = packagePath(release.name, release.org)
+			const releases = integrities.get(key) ?? new Map<string, string>()
+			releases.set(release.version, `sha256-${digest}`)
+			integrities.set(key, releases)
+		},
+		requests,
+		tarballPath,
+		url,
+	}
+}
@@ -0,0 +1,117 @@
+/**
+ * Integration tests for installed skill inspection
+ *
+ * Compares skill directories on disk against the provenance recorded in the
+ * agent state file.
+ */
+
+import { mkdir, rm, symlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { inspectInstalledSkill } from "@/agents/inspect"
+import type { SkillProvenance } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import { hashDirectory } from "@/io/hash"
+import { abs } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+
+import "@/tests/helpers/assertions"
+
+function makeAgent(rootPath: string): ResolvedAgent {
+	return {
+		displayName: "Claude Code",
+		id: "claude-code",
+		rootPath: abs(rootPath),
+		skillsPath: abs(join(rootPath, "skills")),
+	}
+}
+
+async function installCopy(agent: ResolvedAgent, name: string): Promise<SkillProvenance> {
+	const skillPath = join(agent.skillsPath, name)
+	await mkdir(skillPath, { recursive: true })
+	await writeFile(join(skillPath, "SKILL.md"), "# Lint\n")
+	const hash = await hashDirectory(skillPath)
+	if (!hash.ok) {
+		throw new Error(hash.error.message)
+	}
+
+	return {
+		alias: "tools",
+		declaration: "gh:org/tools,type:github",
+		hash: hash.value,
+		mode: "copy",
+		type: "github",
+	}
+}
+
+describe("inspectInstalledSkill", () => {
+	it("reports an untouched copy as ok", async () => {
+		await withTempDir(async (dir) => {
+			const agent = makeAgent(dir)
+			const provenance = await installCopy(agent, "tools-lint")
+
+			const result = await inspectInstalledSkill(agent, "tools-lint", provenance)
+
+			expect(result).toEqual({ ok: true, value: "ok" })
+		})
+	})
+
+	it("reports an edited copy as modified", async () => {
+		await withTempDir(async (dir) => {
+			const agent = makeAgent(dir)
+			const provenance = await installCopy(agent, "tools-lint")
+			await writeFile(join(agent.skillsPath, "tools-lint", "SKILL.md"), "# Mine\n")
+
+			const result = await inspectInstalledSkill(agent, "tools-lint", provenance)
+
+			expect(result).toEqual({ ok: true, value: "modified" })
+		})
+	})
+
+	it("reports a deleted skill as missing", async () => {
+		await withTempDir(async (dir) => {
+			const agent = makeAgent(dir)
+			const provenance = await installCopy(agent, "tools-lint")
+			await rm(join(agent.skillsPath, "tools-lint"), { recursive: true })
+
+			const result = await inspectInstalledSkill(agent, "tools-lint", provenance)
+
+			expect(result).toEqual({ ok: true, value: "missing" })
+		})
+	})
+
+	it("reports skills without provenance as unknown", async () => {
+		await withTempDir(async (dir) => {
+			const agent = makeAgent(dir)
+			await installCopy(agent, "tools-lint")
+
+			const result = await inspectInstalledSkill(agent, "tools-lint", undefined)
+
+			expect(result).toEqual({ ok: true, value: "unknown" })
+		})
+	})
+
+	it("checks symlinks by their target rather than their contents", async () => {
+		await withTempDir(async (dir) => {
+			const agent = makeAgent(dir)
+			const source = join(dir, "source")
+			await mkdir(source)
+			await mkdir(agent.skillsPath, { recursive: true })
+			await symlink(source, join(agent.skillsPath, "local-lint"), "dir")
+			const provenance: SkillProvenance = {
+				alias: "local",
+				declaration: "path:/tmp/source,type:local",
+				mode: "symlink",
+				type: "local",
+			}
+
+			await writeFile(join(source, "SKILL.md"), "# Edited live\n")
+			const linked = await inspectInstalledSkill(agent, "local-lint", provenance)
+			await rm(source, { recursive: true })
+			const broken = await inspectInstalledSkill(agent, "local-lint", provenance)
+
+			expect(linked).toEqual({ ok: true, value: "ok" })
+			expect(broken).toEqual({ ok: true, value: "missing" })
+		})
+	})
+})
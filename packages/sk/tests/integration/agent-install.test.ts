@@ -321,6 +321,70 @@ describe("planAgentInstall", () => {
 			}
 		})
 	})
+
+	it("installs bare skill names", async () => {
+		await withTempDir(async (dir) => {
+			const skill = await createSkillSource(dir, "skill1", { "a.md": "A" })
+
+			const agent = makeAgent(join(dir, "agent-skills"))
+			const packages = [
+				makeInstallablePackage(makeLocalPackage(dir), "pkg-a", [
+					makeSkill("skill1", skill),
+				]),
+			]
+
+			const result = planAgentInstall(agent, packages, { type: "bare" })
+
+			expect(result).toBeOk()
+			if (result.ok) {
+				expect(result.value.tasks.map((t) => t.targetName)).toEqual(["skill1"])
+			}
+		})
+	})
+
+	it("reports both packages when bare names conflict", async () => {
+		await withTempDir(async (dir) => {
+			const skill = await createSkillSource(dir, "skill1", { "a.md": "A" })
+
+			const agent = makeAgent(join(dir, "agent-skills"))
+			const packages = [
+				makeInstallablePackage(makeLocalPackage(dir), "pkg-a", [
+					makeSkill("skill1", skill),
+				]),
+				makeInstallablePackage(makeGithubPackage(), "pkg-b", [
+					makeSkill("skill1", skill),
+				]),
+			]
+
+			const result = planAgentInstall(agent, packages, { type: "bare" })
+
+			expect(result).toBeErr()
+			if (!result.ok) {
+				expect(result.error.message).toContain(
+					'Packages "pkg-a" and "pkg-b" both install a skill named "skill1"',
+				)
+			}
+		})
+	})
+
+	it("keeps an explicit prefix under bare naming", async () => {
+		await withTempDir(async (dir) => {
+			const skill = await createSkillSource(dir, "skill1", { "a.md": "A" })
+
+			const agent = makeAgent(join(dir, "agent-skills"))
+			const packages = [
+				makeInstallablePackage(
+					{ ...makeGithubPackage(), prefix: nes("gh") },
+					"gh",
+					[makeSkill("skill1", skill)],
+				),
+			]
+
+			const result = planAgentInstall(agent, packages, { type: "bare" })
+
+			expect(result.ok && result.value.tasks[0]?.targetName).toBe("gh-skill1")
+		})
+	})
 })
 
 // =============================================================================
@@ -344,6 +408,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -375,6 +440,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -406,6 +472,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -456,6 +523,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -492,6 +560,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeLocalPackage(skillSource),
 							mode: "symlink",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -541,6 +610,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -584,6 +654,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -622,6 +693,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -651,6 +723,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: abs(join(dir, "nonexistent-source")),
@@ -685,6 +758,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: sourceFile,
@@ -722,6 +796,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill",
 							sourcePath: skillSource,
@@ -745,6 +820,134 @@ describe("applyAgentInstall", () => {
 		})
 	})
 
+	describe("template naming", () => {
+		it("installs skills into nested package directories", async () => {
+			await withTempDir(async (dir) => {
+				const skillSource = await createSkillSource(dir, "skill", {
+					"index.md": "# Test Skill",
+				})
+
+				const agent = makeAgent(join(dir, "agent-skills"))
+				const plan = planAgentInstall(
+					agent,
+					[
+						makeInstallablePackage(makeGithubPackage(), "tools", [
+							makeSkill("skill", skillSource),
+						]),
+					],
+					{ template: nes("{alias}/{skill}"), type: "template" },
+				)
+				expect(plan).toBeOk()
+				if (!plan.ok) return
+
+				const result = await applyAgentInstall(plan.value)
+
+				expect(result).toBeOk()
+				expect(
+					await readFile(
+						join(dir, "agent-skills", "tools", "skill", "index.md"),
+						"utf8",
+					),
+				).toBe("# Test Skill")
+			})
+		})
+	})
+
+	describe("rule formats", () => {
+		it("writes a rule file that links into the installed skill", async () => {
+			await withTempDir(async (dir) => {
+				const skillSource = await createSkillSource(dir, "review", {
+					"check.sh": "npm test",
+					"SKILL.md": [
+						"---",
+						"name: review",
+						"description: Review pull requests",
+						"---",
+						"",
+						"Run [the checks](check.sh) first.",
+						"",
+					].join("\n"),
+				})
+
+				const agent: ResolvedAgent = {
+					...makeAgent(join(dir, ".cursor", "skills")),
+					displayName: "Cursor",
+					id: "cursor",
+					rules: { format: "cursor", path: abs(join(dir, ".cursor", "rules")) },
+				}
+				const plan = planAgentInstall(agent, [
+					makeInstallablePackage(makeGithubPackage(), "pkg", [
+						makeSkill("review", skillSource),
+					]),
+				])
+				expect(plan).toBeOk()
+				if (!plan.ok) return
+
+				const result = await applyAgentInstall(plan.value)
+
+				expect(result).toBeOk()
+				expect(
+					await exists(
+						join(dir, ".cursor", "skills", "pkg-review", "check.sh"),
+					),
+				).toBe(true)
+				expect(
+					await readFile(
+						join(dir, ".cursor", "rules", "pkg-review.mdc"),
+						"utf8",
+					),
+				).toBe(
+					[
+						"---",
+						'description: "Review pull requests"',
+						"globs:",
+						"alwaysApply: false",
+						"---",
+						"",
+						"Run [the checks](../skills/pkg-review/check.sh) first.",
+						"",
+						"## Supporting files",
+						"",
+						"- [check.sh](../skills/pkg-review/check.sh)",
+						"",
+					].join("\n"),
+				)
+			})
+		})
+
+		it("fails when the skill has no SKILL.md to render", async () => {
+			await withTempDir(async (dir) => {
+				const skillSource = await createSkillSource(dir, "review", {
+					"index.md": "# Review",
+				})
+
+				const agent: ResolvedAgent = {
+					...makeAgent(join(dir, ".windsurf", "skills")),
+					displayName: "Windsurf",
+					id: "windsurf",
+					rules: {
+						format: "windsurf",
+						path: abs(join(dir, ".windsurf", "rules")),
+					},
+				}
+				const plan = planAgentInstall(agent, [
+					makeInstallablePackage(makeGithubPackage(), "pkg", [
+						makeSkill("review", skillSource),
+					]),
+				])
+				expect(plan).toBeOk()
+				if (!plan.ok) return
+
+				const result = await applyAgentInstall(plan.value)
+
+				expect(result).toBeErr()
+				expect(
+					await exists(join(dir, ".windsurf", "rules", "pkg-review.md")),
+				).toBe(false)
+			})
+		})
+	})
+
 	describe("multiple skills in one install", () => {
 		it("installs multiple skills from one plan", async () => {
 			await withTempDir(async (dir) => {
@@ -765,6 +968,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill1",
 							sourcePath: skill1,
@@ -773,6 +977,7 @@ describe("applyAgentInstall", () => {
 						},
 						{
 							agentId: "claude-code",
+							canonical: makeLocalPackage(skill2),
 							mode: "symlink",
 							skillName: "skill2",
 							sourcePath: skill2,
@@ -781,6 +986,7 @@ describe("applyAgentInstall", () => {
 						},
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill3",
 							sourcePath: skill3,
@@ -831,6 +1037,7 @@ describe("applyAgentInstall", () => {
 					tasks: [
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill1",
 							sourcePath: skill1,
@@ -839,6 +1046,7 @@ describe("applyAgentInstall", () => {
 						},
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill2",
 							sourcePath: abs(join(dir, "nonexistent")), // Will fail
@@ -847,6 +1055,7 @@ describe("applyAgentInstall", () => {
 						},
 						{
 							agentId: "claude-code",
+							canonical: makeGithubPackage(),
 							mode: "copy",
 							skillName: "skill3",
 							sourcePath: skill3,
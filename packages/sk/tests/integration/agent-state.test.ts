@@ -12,6 +12,7 @@ import {
 	buildAgentState,
 	readAgentState,
 	resolveStatePath,
+	type SkillProvenance,
 	writeAgentState,
 } from "@/agents/state"
 import type { AgentId, ResolvedAgent } from "@/agents/types"
@@ -21,6 +22,15 @@ import { exists, isFile, withTempDir } from "@/tests/helpers/fs"
 // Import assertions to register custom matchers
 import "@/tests/helpers/assertions"
 
+const TOOLS_PROVENANCE: SkillProvenance = {
+	alias: "tools",
+	commit: "0123456789abcdef0123456789abcdef01234567",
+	declaration: "gh:org/tools,type:github",
+	hash: "sha256-abc",
+	mode: "copy",
+	type: "github",
+}
+
 /**
  * Creates a minimal resolved agent for testing.
  */
@@ -67,6 +77,35 @@ describe("readAgentState", () => {
 				expect(result.value.version).toBe(1)
 				expect(result.value.skills).toEqual(["greeting", "farewell"])
 				expect(result.value.updated_at).toBe("2025-01-15T10:30:00.000Z")
+				// Version 1 files predate provenance
+				expect(result.value.provenance).toEqual({})
+			}
+		})
+	})
+
+	it("reads per-skill provenance from a version 2 file", async () => {
+		await withTempDir(async (dir) => {
+			const agent = createTestAgent(dir)
+			const statePath = resolveStatePath(agent)
+
+			await writeFile(
+				statePath,
+				JSON.stringify({
+					provenance: { "tools-lint": TOOLS_PROVENANCE },
+					skills: ["tools-lint", "unmanaged"],
+					updated_at: "2025-01-15T10:30:00.000Z",
+					version: 2,
+				}),
+			)
+
+			const result = await readAgentState(agent)
+
+			expect(result).toBeOk()
+			if (result.ok && result.value) {
+				expect(result.value.version).toBe(2)
+				expect(result.value.provenance).toEqual({
+					"tools-lint": TOOLS_PROVENANCE,
+				})
 			}
 		})
 	})
@@ -268,6 +307,29 @@ describe("readAgentState", () => {
 			})
 		})
 
+		it("accepts skills nested one directory deep by template naming", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						skills: ["superpowers/tdd"],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 1,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeOk()
+				if (result.ok && result.value) {
+					expect(result.value.skills).toEqual(["superpowers/tdd"])
+				}
+			})
+		})
+
 		it("rejects dot and double-dot skill names", async () => {
 			await withTempDir(async (dir) => {
 				const agent = createTestAgent(dir)
@@ -291,6 +353,166 @@ describe("readAgentState", () => {
 			})
 		})
 
+		it("rejects provenance for skills the state does not list", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						provenance: { "tools-lint": TOOLS_PROVENANCE },
+						skills: [],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining("lists unknown skill")
+			})
+		})
+
+		it("rejects provenance with an unknown install mode", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						provenance: {
+							"tools-lint": { ...TOOLS_PROVENANCE, mode: "hardlink" },
+						},
+						skills: ["tools-lint"],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining("is invalid")
+			})
+		})
+
+		it("rejects a dependency chain that is not a list of aliases", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						provenance: {
+							"tools-lint": { ...TOOLS_PROVENANCE, via: "team" },
+						},
+						skills: ["tools-lint"],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining("is invalid")
+			})
+		})
+
+		it("rejects component paths outside the agent root", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						components: ["prompts/../../escape.md"],
+						provenance: {},
+						skills: [],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining("components must be relative file paths")
+			})
+		})
+
+		it("rejects marketplaces without a name", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						marketplaces: [{ spec: "obra/superpowers-marketplace" }],
+						plugins: ["superpowers@superpowers-marketplace"],
+						provenance: {},
+						skills: [],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining("marketplaces must list a spec and name")
+			})
+		})
+
+		it("rejects mcp_servers that are not names", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						mcp_servers: [{ name: "github" }],
+						provenance: {},
+						skills: [],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining(
+					"mcp_servers must be an array of strings",
+				)
+			})
+		})
+
+		it("rejects instructions that are not aliases", async () => {
+			await withTempDir(async (dir) => {
+				const agent = createTestAgent(dir)
+				const statePath = resolveStatePath(agent)
+
+				await writeFile(
+					statePath,
+					JSON.stringify({
+						instructions: "docs",
+						provenance: {},
+						skills: [],
+						updated_at: "2025-01-15T10:30:00.000Z",
+						version: 2,
+					}),
+				)
+
+				const result = await readAgentState(agent)
+
+				expect(result).toBeErrContaining(
+					"instructions must be an array of strings",
+				)
+			})
+		})
+
 		it("rejects missing updated_at field", async () => {
 			await withTempDir(async (dir) => {
 				const agent = createTestAgent(dir)
@@ -373,7 +595,7 @@ describe("writeAgentState", () => {
 			const content = await readFile(statePath, "utf-8")
 			const parsed = JSON.parse(content)
 
-			expect(parsed.version).toBe(1)
+			expect(parsed.version).toBe(2)
 			expect(parsed.skills).toEqual(["farewell", "greeting"]) // sorted
 			expect(parsed.updated_at).toBeDefined()
 		})
@@ -461,7 +683,7 @@ describe("buildAgentState", () => {
 		const state = buildAgentState(["zebra", "alpha", "alpha", "beta"])
 
 		expect(state.skills).toEqual(["alpha", "beta", "zebra"])
-		expect(state.version).toBe(1)
+		expect(state.version).toBe(2)
 		expect(state.updated_at).toBeDefined()
 	})
 
@@ -469,7 +691,7 @@ describe("buildAgentState", () => {
 		const state = buildAgentState([])
 
 		expect(state.skills).toEqual([])
-		expect(state.version).toBe(1)
+		expect(state.version).toBe(2)
 	})
 
 	it("generates valid ISO timestamp", async () => {
@@ -490,6 +712,14 @@ describe("resolveStatePath", () => {
 		expect(statePath).toBe("/home/user/.claude/.sk-state.json")
 	})
 
+	it("keeps the global layer of a project in its own file", async () => {
+		const agent = createTestAgent("/repo/.claude")
+
+		const statePath = resolveStatePath({ ...agent, layer: "global" })
+
+		expect(statePath).toBe("/repo/.claude/.sk-state.global.json")
+	})
+
 	it("handles trailing slash in root path", async () => {
 		const agent = createTestAgent("/home/user/.claude/")
 
@@ -522,6 +752,44 @@ describe("read/write roundtrip", () => {
 		})
 	})
 
+	it("keeps provenance only for the recorded skills", async () => {
+		await withTempDir(async (dir) => {
+			const agent = createTestAgent(dir)
+			const state = buildAgentState(["tools-lint"], {
+				"tools-format": { ...TOOLS_PROVENANCE },
+				"tools-lint": TOOLS_PROVENANCE,
+			})
+
+			expect(await writeAgentState(agent, state)).toBeOk()
+			const readResult = await readAgentState(agent)
+
+			expect(readResult.ok && readResult.value?.provenance).toEqual({
+				"tools-lint": TOOLS_PROVENANCE,
+			})
+		})
+	})
+
+	it("keeps converted plugin components", async () => {
+		await withTempDir(async (dir) => {
+			const agent = createTestAgent(dir, "codex")
+			const state = buildAgentState(
+				[],
+				{},
+				{
+					components: ["prompts/tools-review.md", "prompts/tools-commit.md"],
+				},
+			)
+
+			expect(await writeAgentState(agent, state)).toBeOk()
+			const readResult = await readAgentState(agent)
+
+			expect(readResult.ok && readResult.value?.components).toEqual([
+				"prompts/tools-commit.md",
+				"prompts/tools-review.md",
+			])
+		})
+	})
+
 	it("supports multiple agents with separate state files", async () => {
 		await withTempDir(async (dir) => {
 			const claudeDir = join(dir, "claude-skills")
@@ -0,0 +1,161 @@
+/**
+ * Integration tests for native Claude Code plugins
+ *
+ * Tests the claude.ts module against a stub `claude` executable on PATH:
+ * which plugins and marketplaces are taken out after a manifest change, and
+ * the commands that run to do it.
+ */
+
+import { describe, expect, it } from "vitest"
+import { buildAgentState } from "@/agents/state"
+import {
+	NO_NATIVE_CLAUDE_PLUGINS,
+	planClaudePlugins,
+	removeClaudePlugins,
+	runClaudePluginCommand,
+} from "@/sync/claude"
+import { abs } from "@/tests/helpers/branded"
+import { installStubClaude } from "@/tests/helpers/claude"
+import { withTempDir } from "@/tests/helpers/fs"
+
+import "@/tests/helpers/assertions"
+
+const MANIFEST_PATH = abs("/project/agents.toml")
+const OBRA = { name: "superpowers-marketplace", spec: "obra/superpowers-marketplace" }
+const TEAM = { name: "team-plugins", spec: "org/team-plugins" }
+
+describe("planClaudePlugins", () => {
+	it("uninstalls plugins and removes marketplaces that are no longer declared", () => {
+		const previous = buildAgentState(
+			[],
+			{},
+			{
+				marketplaces: [OBRA, TEAM],
+				plugins: ["superpowers@superpowers-marketplace", "review@team-plugins"],
+			},
+		)
+
+		const plan = planClaudePlugins(previous, {
+			added: [],
+			marketplaces: [OBRA],
+			plugins: ["superpowers@superpowers-marketplace"],
+		})
+
+		expect(plan).toEqual({
+			marketplaces: [OBRA],
+			plugins: ["superpowers@superpowers-marketplace"],
+			removeMarketplaces: [TEAM],
+			uninstall: ["review@team-plugins"],
+		})
+	})
+
+	it("only tracks marketplaces this sync or an earlier one added", () => {
+		const plan = planClaudePlugins(null, {
+			added: [TEAM.spec],
+			marketplaces: [OBRA, TEAM],
+			plugins: ["superpowers@superpowers-marketplace", "review@team-plugins"],
+		})
+
+		expect(plan.marketplaces).toEqual([TEAM])
+
+		const removed = planClaudePlugins(
+			buildAgentState([], {}, { marketplaces: plan.marketplaces }),
+			NO_NATIVE_CLAUDE_PLUGINS,
+		)
+		expect(removed.removeMarketplaces).toEqual([TEAM])
+	})
+})
+
+describe("removeClaudePlugins", () => {
+	it("runs uninstall and marketplace remove", async () => {
+		await withTempDir(async (dir) => {
+			const claude = await installStubClaude(dir)
+			try {
+				const result = await removeClaudePlugins(
+					{
+						marketplaces: [],
+						plugins: [],
+						removeMarketplaces: [TEAM],
+						uninstall: ["review@team-plugins"],
+					},
+					MANIFEST_PATH,
+				)
+
+				expect(result).toBeOk()
+				expect(await claude.calls()).toEqual([
+					"plugin uninstall review@team-plugins",
+					"plugin marketplace remove team-plugins",
+				])
+			} finally {
+				claude.restore()
+			}
+		})
+	})
+
+	it("treats plugins already gone as removed", async () => {
+		await withTempDir(async (dir) => {
+			const claude = await installStubClaude(dir, {
+				review: "Plugin review@team-plugins is not installed",
+			})
+			try {
+				const result = await removeClaudePlugins(
+					{
+						marketplaces: [],
+						plugins: [],
+						removeMarketplaces: [],
+						uninstall: ["review@team-plugins"],
+					},
+					MANIFEST_PATH,
+				)
+
+				expect(result).toBeOk()
+			} finally {
+				claude.restore()
+			}
+		})
+	})
+})
+
+describe("runClaudePluginCommand", () => {
+	it("reports work already done without failing", async () => {
+		await withTempDir(async (dir) => {
+			const claude = await installStubClaude(dir, {
+				"team-plugins": "Marketplace team-plugins is already installed",
+			})
+			try {
+				expect(
+					await runClaudePluginCommand(
+						["marketplace", "add", TEAM.spec],
+						MANIFEST_PATH,
+					),
+				).toEqual({ ok: true, value: false })
+				expect(
+					await runClaudePluginCommand(
+						["marketplace", "add", OBRA.spec],
+						MANIFEST_PATH,
+					),
+				).toEqual({ ok: true, value: true })
+			} finally {
+				claude.restore()
+			}
+		})
+	})
+
+	it("fails on other errors", async () => {
+		await withTempDir(async (dir) => {
+			const claude = await installStubClaude(dir, { review: "Network error" })
+			try {
+				const result = await runClaudePluginCommand(
+					["install", "review@team-plugins"],
+					MANIFEST_PATH,
+				)
+
+				expect(result).toBeErrContaining(
+					"claude plugin install review@team-plugins",
+				)
+			} finally {
+				claude.restore()
+			}
+		})
+	})
+})
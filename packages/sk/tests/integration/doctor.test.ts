@@ -0,0 +1,129 @@
+/**
+ * Integration tests for sk doctor
+ *
+ * Runs the project checks against real directories. git and agent detection
+ * depend on the machine, so assertions only look at the checks they target.
+ */
+
+import { mkdir, symlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { normalizeDeclarationToKey } from "@skills-supply/core"
+import { describe, expect, it } from "vitest"
+import { getAgentById, resolveAgent } from "@/agents/registry"
+import { resolveStatePath } from "@/agents/state"
+import type { ResolvedAgent } from "@/agents/types"
+import { type DoctorCheck, findBrokenSymlinks, runDoctor } from "@/commands/doctor"
+import { createEmptyLockfile, writeLockfile } from "@/lock/fs"
+import { loadManifest } from "@/manifest/fs"
+import { createTestProject, withTempDir } from "@/tests/helpers"
+import { abs, alias } from "@/tests/helpers/branded"
+
+function resolveClaude(projectDir: string): ResolvedAgent {
+	const lookup = getAgentById("claude-code")
+	if (!lookup.ok) {
+		throw new Error(lookup.error.message)
+	}
+	return resolveAgent(lookup.value, { projectRoot: abs(projectDir), type: "local" })
+}
+
+function findCheck(checks: DoctorCheck[], id: string): DoctorCheck | undefined {
+	return checks.find((check) => check.id === id)
+}
+
+describe("findBrokenSymlinks", () => {
+	it("lists links whose target is gone", async () => {
+		await withTempDir(async (dir) => {
+			const skillsPath = join(dir, "skills")
+			await mkdir(join(dir, "source"))
+			await mkdir(skillsPath)
+			await symlink(join(dir, "source"), join(skillsPath, "live"), "dir")
+			await symlink(join(dir, "gone"), join(skillsPath, "dead"), "dir")
+
+			const result = await findBrokenSymlinks(abs(skillsPath))
+
+			expect(result).toEqual({ ok: true, value: ["dead"] })
+		})
+	})
+
+	it("treats a missing skills directory as clean", async () => {
+		await withTempDir(async (dir) => {
+			const result = await findBrokenSymlinks(abs(join(dir, "skills")))
+
+			expect(result).toEqual({ ok: true, value: [] })
+		})
+	})
+})
+
+describe("runDoctor", () => {
+	it("fails on an invalid state file and warns about broken symlinks", async () => {
+		await withTempDir(async (dir) => {
+			await createTestProject(dir, { agents: ["claude-code"] })
+			const agent = resolveClaude(dir)
+			await mkdir(agent.skillsPath, { recursive: true })
+			await writeFile(resolveStatePath(agent), "{ not json")
+			await symlink(join(dir, "gone"), join(agent.skillsPath, "dead"), "dir")
+
+			const report = await runDoctor(abs(dir), abs(dir))
+
+			expect(findCheck(report.checks, "manifest:local")?.status).toBe("ok")
+			expect(findCheck(report.checks, "state:claude-code")?.status).toBe("fail")
+			expect(findCheck(report.checks, "symlinks:claude-code")).toMatchObject({
+				message: expect.stringContaining("dead"),
+				status: "warn",
+			})
+			expect(report.failed).toBeGreaterThan(0)
+		})
+	})
+
+	it("fails when an unmanaged skill blocks a locked one", async () => {
+		await withTempDir(async (dir) => {
+			await createTestProject(dir, {
+				agents: ["claude-code"],
+				dependencies: { tools: "tools@^1.0.0" },
+			})
+			const loaded = await loadManifest(abs(join(dir, "agents.toml")), "cwd")
+			if (!loaded.ok) {
+				throw new Error(loaded.error.message)
+			}
+			const declaration = loaded.value.manifest.dependencies.get(alias("tools"))
+			if (!declaration) {
+				throw new Error("Missing tools dependency.")
+			}
+
+			const lockfile = createEmptyLockfile()
+			lockfile.packages.set(alias("tools"), {
+				alias: alias("tools"),
+				declaration: normalizeDeclarationToKey(declaration),
+				skills: [{ hash: "sha256-aaa", name: "lint" }],
+				type: "registry",
+				version: "1.0.0",
+			})
+			await writeLockfile(abs(join(dir, "agents.lock")), lockfile)
+
+			const agent = resolveClaude(dir)
+			await mkdir(join(agent.skillsPath, "tools-lint"), { recursive: true })
+
+			const report = await runDoctor(abs(dir), abs(dir))
+
+			expect(findCheck(report.checks, "collisions:claude-code")).toMatchObject({
+				message: expect.stringContaining("tools-lint"),
+				status: "fail",
+			})
+		})
+	})
+
+	it("warns when the manifest is found in a parent directory", async () => {
+		await withTempDir(async (dir) => {
+			await createTestProject(dir, { agents: ["claude-code"] })
+			const nested = join(dir, "packages", "app")
+			await mkdir(nested, { recursive: true })
+
+			const report = await runDoctor(abs(nested), abs(dir))
+
+			expect(findCheck(report.checks, "manifest:local")).toMatchObject({
+				message: expect.stringContaining("parent directory"),
+				status: "warn",
+			})
+		})
+	})
+})
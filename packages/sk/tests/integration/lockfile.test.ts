@@ -0,0 +1,158 @@
+/**
+ * Integration tests for agents.lock
+ *
+ * Tests the read/write cycle of the lockfile using real filesystem operations.
+ */
+
+import { writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import {
+	createEmptyLockfile,
+	findLockedPackage,
+	readLockfile,
+	writeLockfile,
+} from "@/lock/fs"
+import type { LockedPackage } from "@/lock/types"
+import { abs, alias, ghRef, nes } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+
+import "@/tests/helpers/assertions"
+
+function createLockedPackage(): LockedPackage {
+	return {
+		alias: alias("superpowers"),
+		commit: "0123456789abcdef0123456789abcdef01234567",
+		declaration: "gh:obra/superpowers,path:skills,type:github",
+		path: "skills",
+		skills: [
+			{ hash: "sha256-bbb", name: "writing" },
+			{ hash: "sha256-aaa", name: "brainstorming" },
+		],
+		type: "github",
+	}
+}
+
+describe("readLockfile", () => {
+	it("returns null when agents.lock does not exist", async () => {
+		await withTempDir(async (dir) => {
+			const result = await readLockfile(abs(join(dir, "agents.lock")))
+
+			expect(result).toBeOk()
+			if (result.ok) {
+				expect(result.value).toBeNull()
+			}
+		})
+	})
+
+	it("round-trips packages written by writeLockfile", async () => {
+		await withTempDir(async (dir) => {
+			const lockPath = abs(join(dir, "agents.lock"))
+			const lockfile = createEmptyLockfile()
+			const entry = createLockedPackage()
+			lockfile.packages.set(entry.alias, entry)
+
+			const written = await writeLockfile(lockPath, lockfile)
+			expect(written).toBeOk()
+
+			const result = await readLockfile(lockPath)
+			expect(result).toBeOk()
+			if (!result.ok || !result.value) {
+				return
+			}
+
+			const read = result.value.packages.get(entry.alias)
+			expect(read?.commit).toBe(entry.commit)
+			expect(read?.path).toBe("skills")
+			expect(read?.skills).toEqual([
+				{ hash: "sha256-aaa", name: "brainstorming" },
+				{ hash: "sha256-bbb", name: "writing" },
+			])
+		})
+	})
+
+	it("round-trips the marketplace entry of claude-plugin packages", async () => {
+		await withTempDir(async (dir) => {
+			const lockPath = abs(join(dir, "agents.lock"))
+			const lockfile = createEmptyLockfile()
+			lockfile.packages.set(alias("frontend"), {
+				alias: alias("frontend"),
+				declaration:
+					"marketplace:owner/market,plugin:frontend,type:claude-plugin",
+				marketplace: {
+					commit: "fedcba9876543210fedcba9876543210fedcba98",
+					plugin: "frontend",
+					source: "gh:owner/frontend,type:github",
+					spec: "owner/market",
+				},
+				skills: [],
+				type: "claude-plugin",
+			})
+
+			await writeLockfile(lockPath, lockfile)
+			const result = await readLockfile(lockPath)
+
+			expect(result).toBeOk()
+			if (result.ok) {
+				expect(
+					result.value?.packages.get(alias("frontend"))?.marketplace,
+				).toEqual({
+					commit: "fedcba9876543210fedcba9876543210fedcba98",
+					plugin: "frontend",
+					source: "gh:owner/frontend,type:github",
+					spec: "owner/market",
+					version: undefined,
+				})
+			}
+		})
+	})
+
+	it("rejects unsupported lockfile versions", async () => {
+		await withTempDir(async (dir) => {
+			const lockPath = join(dir, "agents.lock")
+			await writeFile(lockPath, "version = 99\n")
+
+			const result = await readLockfile(abs(lockPath))
+
+			expect(result).toBeErr()
+			if (!result.ok) {
+				expect(result.error.type).toBe("validation")
+			}
+		})
+	})
+
+	it("reports invalid TOML as a parse error", async () => {
+		await withTempDir(async (dir) => {
+			const lockPath = join(dir, "agents.lock")
+			await writeFile(lockPath, "version = [")
+
+			const result = await readLockfile(abs(lockPath))
+
+			expect(result).toBeErr()
+			if (!result.ok) {
+				expect(result.error.type).toBe("parse")
+			}
+		})
+	})
+})
+
+describe("findLockedPackage", () => {
+	it("ignores entries produced by a different declaration", () => {
+		const lockfile = createEmptyLockfile()
+		const entry = createLockedPackage()
+		lockfile.packages.set(entry.alias, entry)
+
+		const same = findLockedPackage(lockfile, entry.alias, {
+			gh: ghRef("obra/superpowers"),
+			path: nes("skills"),
+			type: "github",
+		})
+		const changed = findLockedPackage(lockfile, entry.alias, {
+			gh: ghRef("obra/superpowers"),
+			type: "github",
+		})
+
+		expect(same).toBe(entry)
+		expect(changed).toBeUndefined()
+	})
+})
@@ -0,0 +1,162 @@
+/**
+ * Integration tests for registry dependencies
+ *
+ * Serves packages from a local registry fixture and checks range resolution,
+ * integrity verification and cache reuse for locked releases.
+ */
+
+import { readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import type { LockedPackage } from "@/lock/types"
+import type { RegistryPackage } from "@/packages/types"
+import { createRepoCache } from "@/sync/cache"
+import { fetchRegistryPackage } from "@/sync/registry"
+import { abs, alias, nes } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+import { type RegistryFixture, startRegistryFixture } from "@/tests/helpers/registry"
+
+import "@/tests/helpers/assertions"
+
+function makePackage(version: string, org?: string): RegistryPackage {
+	return {
+		fetchStrategy: { mode: "clone", sparse: false },
+		name: nes("tools"),
+		org: org ? nes(org) : undefined,
+		origin: { alias: alias("tools"), manifestPath: abs("/tmp/agents.toml") },
+		registry: nes("tools"),
+		type: "registry",
+		version: nes(version),
+	}
+}
+
+async function withRegistry(
+	fn: (dir: string, registry: RegistryFixture) => Promise<void>,
+): Promise<void> {
+	await withTempDir(async (dir) => {
+		const registry = await startRegistryFixture(join(dir, "registry"))
+		try {
+			for (const version of ["1.0.0", "1.2.0", "2.0.0", "2.1.0-beta.1"]) {
+				await registry.publish({
+					files: { "skills/alpha/SKILL.md": `# Alpha ${version}\n` },
+					name: "tools",
+					version,
+				})
+			}
+			await fn(dir, registry)
+		} finally {
+			await registry.close()
+		}
+	})
+}
+
+describe("fetchRegistryPackage", () => {
+	it("installs the newest release matching the version range", async () => {
+		await withRegistry(async (dir, registry) => {
+			const result = await fetchRegistryPackage(
+				makePackage("^1.0.0"),
+				createRepoCache(abs(join(dir, "cache"))),
+				{ registryUrl: registry.url },
+			)
+
+			expect(result).toBeOk()
+			if (!result.ok) {
+				return
+			}
+			expect(result.value.release?.version).toBe("1.2.0")
+			expect(
+				await readFile(
+					join(result.value.packagePath, "skills", "alpha", "SKILL.md"),
+					"utf8",
+				),
+			).toBe("# Alpha 1.2.0\n")
+		})
+	})
+
+	it("resolves packages scoped to an organization", async () => {
+		await withRegistry(async (dir, registry) => {
+			await registry.publish({
+				files: { "skills/beta/SKILL.md": "# Beta\n" },
+				name: "tools",
+				org: "acme",
+				version: "0.3.1",
+			})
+
+			const result = await fetchRegistryPackage(
+				makePackage("~0.3.0", "acme"),
+				createRepoCache(abs(join(dir, "cache"))),
+				{ registryUrl: registry.url },
+			)
+
+			expect(result.ok && result.value.release?.version).toBe("0.3.1")
+		})
+	})
+
+	it("fails when no release matches", async () => {
+		await withRegistry(async (dir, registry) => {
+			const result = await fetchRegistryPackage(
+				makePackage("^3.0.0"),
+				createRepoCache(abs(join(dir, "cache"))),
+				{ registryUrl: registry.url },
+			)
+
+			expect(result).toBeErrContaining("No release of tools matches ^3.0.0")
+		})
+	})
+
+	it("rejects tarballs that do not match their integrity hash", async () => {
+		await withRegistry(async (dir, registry) => {
+			await writeFile(registry.tarballPath("tools", "2.0.0"), "tampered")
+
+			const result = await fetchRegistryPackage(
+				makePackage("^2.0.0"),
+				createRepoCache(abs(join(dir, "cache"))),
+				{ registryUrl: registry.url },
+			)
+
+			expect(result).toBeErrContaining("Integrity check failed for tools@2.0.0")
+		})
+	})
+
+	it("installs a locked release from the cache without contacting the registry", async () => {
+		await withRegistry(async (dir, registry) => {
+			const cacheRoot = abs(join(dir, "cache"))
+			const first = await fetchRegistryPackage(
+				makePackage("^1.0.0"),
+				createRepoCache(cacheRoot),
+				{ registryUrl: registry.url },
+			)
+			expect(first).toBeOk()
+			if (!first.ok || !first.value.release) {
+				return
+			}
+
+			const pinned: LockedPackage = {
+				alias: alias("tools"),
+				declaration: "registry:tools@^1.0.0",
+				integrity: first.value.release.integrity,
+				skills: [],
+				type: "registry",
+				version: first.value.release.version,
+			}
+			await registry.publish({
+				files: { "skills/alpha/SKILL.md": "# Alpha 1.3.0\n" },
+				name: "tools",
+				version: "1.3.0",
+			})
+			registry.requests.clear()
+
+			const second = await fetchRegistryPackage(
+				makePackage("^1.0.0"),
+				createRepoCache(cacheRoot),
+				{ pinned, registryUrl: registry.url },
+			)
+			expect(second).toBeOk()
+			if (second.ok) {
+				expect(second.value.release?.version).toBe("1.2.0")
+				expect(second.value.repoPath).toBe(first.value.repoPath)
+			}
+			expect(registry.requests.size).toBe(0)
+		})
+	})
+})
@@ -0,0 +1,199 @@
+/**
+ * Integration tests for the persistent repository cache
+ *
+ * Fetches local git repositories through the cache and checks reuse across
+ * syncs, sparse path widening and pruning.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { listCacheEntries, pruneCache } from "@/cache/fs"
+import { createRepoCache, fetchCachedRepository } from "@/sync/cache"
+import { buildRepoKey } from "@/sync/repo"
+import { abs, alias } from "@/tests/helpers/branded"
+import { exists, withTempDir } from "@/tests/helpers/fs"
+import { commitFixtureGitRepo, initFixtureGitRepo } from "@/tests/helpers/git"
+
+import "@/tests/helpers/assertions"
+
+async function setupRemote(dir: string): Promise<{ remote: string; commit: string }> {
+	const remote = join(dir, "remote")
+	await mkdir(join(remote, "skills", "alpha"), { recursive: true })
+	await mkdir(join(remote, "skills", "beta"), { recursive: true })
+	await writeFile(join(remote, "skills", "alpha", "SKILL.md"), "# Alpha\n")
+	await writeFile(join(remote, "skills", "beta", "SKILL.md"), "# Beta\n")
+	const commit = initFixtureGitRepo(remote)
+	return { commit, remote }
+}
+
+function makePlan(remote: string, sparsePaths?: string[]) {
+	return {
+		key: buildRepoKey("git", remote, undefined),
+		origin: { alias: alias("tools"), manifestPath: abs(join(remote, "agents.toml")) },
+		remoteUrl: remote,
+		source: remote,
+		sparsePaths,
+	}
+}
+
+describe("fetchCachedRepository", () => {
+	it("reuses a cached checkout while the remote commit matches", async () => {
+		await withTempDir(async (dir) => {
+			const { commit, remote } = await setupRemote(dir)
+			const cacheRoot = abs(join(dir, "cache"))
+
+			const first = await fetchCachedRepository(
+				createRepoCache(cacheRoot),
+				makePlan(remote),
+			)
+			expect(first).toBeOk()
+			if (!first.ok) {
+				return
+			}
+			expect(first.value.commit).toBe(commit)
+			expect(await exists(join(first.value.repoPath, "skills", "alpha"))).toBe(true)
+
+			const before = await listCacheEntries(cacheRoot)
+			const second = await fetchCachedRepository(
+				createRepoCache(cacheRoot),
+				makePlan(remote),
+			)
+			expect(second).toBeOk()
+			if (!second.ok || !before.ok) {
+				return
+			}
+			expect(second.value.repoPath).toBe(first.value.repoPath)
+
+			const after = await listCacheEntries(cacheRoot)
+			expect(after.ok && after.value).toHaveLength(1)
+			expect(after.ok && after.value[0]?.fetchedAt).toBe(before.value[0]?.fetchedAt)
+		})
+	})
+
+	it("fetches a new checkout when the remote moves", async () => {
+		await withTempDir(async (dir) => {
+			const { commit, remote } = await setupRemote(dir)
+			const cacheRoot = abs(join(dir, "cache"))
+
+			await fetchCachedRepository(createRepoCache(cacheRoot), makePlan(remote))
+			await writeFile(join(remote, "skills", "alpha", "SKILL.md"), "# Alpha v2\n")
+			const head = commitFixtureGitRepo(remote, "update alpha")
+
+			const result = await fetchCachedRepository(
+				createRepoCache(cacheRoot),
+				makePlan(remote),
+			)
+			expect(result).toBeOk()
+			if (result.ok) {
+				expect(result.value.commit).toBe(head)
+			}
+
+			const entries = await listCacheEntries(cacheRoot)
+			expect(
+				entries.ok && entries.value.map((entry) => entry.commit).sort(),
+			).toEqual([commit, head].sort())
+		})
+	})
+
+	it("fetches each repo once per sync and widens sparse checkouts", async () => {
+		await withTempDir(async (dir) => {
+			const { remote } = await setupRemote(dir)
+			const cache = createRepoCache(abs(join(dir, "cache")))
+
+			const alpha = await fetchCachedRepository(
+				cache,
+				makePlan(remote, ["skills/alpha"]),
+			)
+			expect(alpha).toBeOk()
+			if (!alpha.ok) {
+				return
+			}
+			expect(alpha.value.sparsePaths).toEqual(["skills/alpha"])
+			expect(await exists(join(alpha.value.repoPath, "skills", "beta"))).toBe(false)
+
+			const again = await fetchCachedRepository(
+				cache,
+				makePlan(remote, ["skills/alpha"]),
+			)
+			expect(again.ok && again.value).toBe(alpha.value)
+
+			const beta = await fetchCachedRepository(
+				cache,
+				makePlan(remote, ["skills/beta"]),
+			)
+			expect(beta).toBeOk()
+			if (beta.ok) {
+				expect(beta.value.commit).toBe(alpha.value.commit)
+				expect(beta.value.sparsePaths).toEqual(["skills/alpha", "skills/beta"])
+				expect(await exists(join(beta.value.repoPath, "skills", "beta"))).toBe(
+					true,
+				)
+			}
+		})
+	})
+
+	it("runs concurrent fetches of the same repo one at a time", async () => {
+		await withTempDir(async (dir) => {
+			const { remote } = await setupRemote(dir)
+			const cacheRoot = abs(join(dir, "cache"))
+			const events: string[] = []
+			const cache = createRepoCache(cacheRoot, (event) => events.push(event.status))
+
+			const [alpha, beta] = await Promise.all([
+				fetchCachedRepository(cache, makePlan(remote, ["skills/alpha"])),
+				fetchCachedRepository(cache, makePlan(remote, ["skills/beta"])),
+			])
+			expect(alpha).toBeOk()
+			expect(beta).toBeOk()
+			if (beta.ok) {
+				expect(beta.value.sparsePaths).toEqual(["skills/alpha", "skills/beta"])
+			}
+			expect(events).toEqual(["fetching", "fetched", "fetching", "fetched"])
+
+			const entries = await listCacheEntries(cacheRoot)
+			expect(entries.ok && entries.value).toHaveLength(1)
+		})
+	})
+})
+
+describe("pruneCache", () => {
+	it("keeps only the most recently used checkout per repo", async () => {
+		await withTempDir(async (dir) => {
+			const { commit, remote } = await setupRemote(dir)
+			const cacheRoot = abs(join(dir, "cache"))
+
+			await fetchCachedRepository(createRepoCache(cacheRoot), makePlan(remote))
+			const head = commitFixtureGitRepo(remote, "second")
+			await fetchCachedRepository(createRepoCache(cacheRoot), makePlan(remote))
+
+			const result = await pruneCache(cacheRoot, { maxAgeDays: 30 })
+			expect(result).toBeOk()
+			if (result.ok) {
+				expect(result.value.removed.map((entry) => entry.commit)).toEqual([
+					commit,
+				])
+			}
+
+			const entries = await listCacheEntries(cacheRoot)
+			expect(entries.ok && entries.value.map((entry) => entry.commit)).toEqual([
+				head,
+			])
+		})
+	})
+
+	it("removes checkouts unused for longer than the max age", async () => {
+		await withTempDir(async (dir) => {
+			const { remote } = await setupRemote(dir)
+			const cacheRoot = abs(join(dir, "cache"))
+			await fetchCachedRepository(createRepoCache(cacheRoot), makePlan(remote))
+
+			const later = new Date(Date.now() + 40 * 24 * 60 * 60 * 1000)
+			const result = await pruneCache(cacheRoot, { maxAgeDays: 30, now: later })
+			expect(result.ok && result.value.removed).toHaveLength(1)
+
+			const entries = await listCacheEntries(cacheRoot)
+			expect(entries.ok && entries.value).toEqual([])
+		})
+	})
+})
@@ -0,0 +1,353 @@
+/**
+ * Integration tests for transactional agent changes
+ *
+ * Tests the transaction.ts module with real filesystem operations: skills, rule
+ * files and component files are staged next to the skills directory and swapped
+ * in, config files are rewritten in place, and every failure leaves the
+ * previous skills, config and state file in place.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import type { AgentInstallPlan } from "@/agents/install"
+import type { ResolvedAgent } from "@/agents/types"
+import type { CanonicalPackage } from "@/packages/types"
+import { applyAgentChanges } from "@/sync/transaction"
+import type { SyncResult } from "@/sync/types"
+import { abs, alias, ghRef } from "@/tests/helpers/branded"
+import { exists, withTempDir } from "@/tests/helpers/fs"
+
+import "@/tests/helpers/assertions"
+
+const githubPackage: CanonicalPackage = {
+	fetchStrategy: { mode: "clone", sparse: false },
+	gh: ghRef("org/repo"),
+	origin: { alias: alias("pkg"), manifestPath: abs("/test/agents.toml") },
+	type: "github",
+}
+
+async function setupAgent(dir: string): Promise<ResolvedAgent> {
+	const rootPath = join(dir, ".agent")
+	const skillsPath = join(rootPath, "skills")
+	await mkdir(join(skillsPath, "pkg-old"), { recursive: true })
+	await writeFile(join(skillsPath, "pkg-old", "SKILL.md"), "# Old")
+	await mkdir(join(skillsPath, "pkg-review"), { recursive: true })
+	await writeFile(join(skillsPath, "pkg-review", "SKILL.md"), "# Review v1")
+	await writeFile(join(rootPath, ".sk-state.json"), '{"previous":true}\n')
+	return {
+		displayName: "Test Agent",
+		id: "claude-code",
+		rootPath: abs(rootPath),
+		skillsPath: abs(skillsPath),
+	}
+}
+
+async function setupPlan(
+	dir: string,
+	agent: ResolvedAgent,
+	skills: string[],
+): Promise<AgentInstallPlan> {
+	const tasks = []
+	for (const skill of skills) {
+		const sourcePath = join(dir, "source", skill)
+		await mkdir(sourcePath, { recursive: true })
+		await writeFile(join(sourcePath, "SKILL.md"), `# ${skill} v2`)
+		tasks.push({
+			agentId: agent.id,
+			canonical: githubPackage,
+			mode: "copy" as const,
+			skillName: skill,
+			sourcePath: abs(sourcePath),
+			targetName: `pkg-${skill}`,
+			targetPath: abs(join(agent.skillsPath, `pkg-${skill}`)),
+		})
+	}
+	return { agentId: agent.id, basePath: agent.skillsPath, tasks }
+}
+
+async function setupRules(
+	agent: ResolvedAgent,
+	plan: AgentInstallPlan,
+): Promise<[ResolvedAgent, AgentInstallPlan]> {
+	const rulesPath = join(agent.rootPath, "rules")
+	await mkdir(rulesPath)
+	await writeFile(join(rulesPath, "pkg-old.md"), "Old rule")
+	await writeFile(join(rulesPath, "pkg-review.md"), "Review rule v1")
+	const tasks = plan.tasks.map((task) => ({
+		...task,
+		rule: {
+			format: "cline" as const,
+			link: `../skills/${task.targetName}`,
+			path: abs(join(rulesPath, `${task.targetName}.md`)),
+		},
+	}))
+	return [
+		{ ...agent, rules: { format: "cline", path: abs(rulesPath) } },
+		{ ...plan, tasks },
+	]
+}
+
+async function writeState(agent: ResolvedAgent): Promise<SyncResult<void>> {
+	await writeFile(join(agent.rootPath, ".sk-state.json"), '{"next":true}\n')
+	return { ok: true, value: undefined }
+}
+
+describe("applyAgentChanges", () => {
+	it("swaps in new skills, removes stale ones and commits", async () => {
+		await withTempDir(async (dir) => {
+			const agent = await setupAgent(dir)
+			const plan = await setupPlan(dir, agent, ["review", "lint"])
+
+			const result = await applyAgentChanges(agent, {
+				commit: () => writeState(agent),
+				plan,
+				remove: ["pkg-old"],
+			})
+
+			expect(result).toEqual({ ok: true, value: ["pkg-old"] })
+			expect((await readdir(agent.skillsPath)).sort()).toEqual([
+				"pkg-lint",
+				"pkg-review",
+			])
+			expect(
+				await readFile(join(agent.skillsPath, "pkg-review", "SKILL.md"), "utf8"),
+			).toBe("# review v2")
+			expect(await readFile(join(agent.rootPath, ".sk-state.json"), "utf8")).toBe(
+				'{"next":true}\n',
+			)
+			expect(await readdir(agent.rootPath)).toEqual([".sk-state.json", "skills"])
+		})
+	})
+
+	it("writes and removes converted plugin components", async () => {
+		await withTempDir(async (dir) => {
+			const agent = await setupAgent(dir)
+			const plan = await setupPlan(dir, agent, ["review"])
+			await mkdir(join(agent.rootPath, "prompts"))
+			await writeFile(join(agent.rootPath, "prompts", "pkg-old.md"), "Old")
+			await writeFile(join(agent.rootPath, "prompts", "pkg-commit.md"), "Commit v1")
+
+			const result = await applyAgentChanges(agent, {
+				commit: () => writeState(agent),
+				files: [
+					{ contents: "Commit v2", path: "prompts/pkg-commit.md" },
+					{ contents: "Plan", path: "prompts/pkg-plan.md" },
+				],
+				plan,
+				remove: [],
+				removeFiles: ["prompts/pkg-old.md"],
+			})
+
+			expect(result).toBeOk()
+			expect((await readdir(join(agent.rootPath, "prompts"))).sort()).toEqual([
+				"pkg-commit.md",
+				"pkg-plan.md",
+			])
+			expect(
+				await readFile(join(agent.rootPath, "prompts", "pkg-commit.md"), "utf8"),
+			).toBe("Commit v2")
+		})
+	})
+
+	it("restores skills and state when commit fails", async () => {
+		await withTempDir(async (dir) => {
+			const agent = await setupAgent(dir)
+			const plan = await setupPlan(dir, agent, ["review", "lint"])
+
+			const result = await applyAgentChanges(agent, {
+				commit: async () => {
+					await writeFile(join(agent.rootPath, ".sk-state.json"), "{")
+					return {
+						error: {
+							message: "Disk full.",
+							operation: "writeFile",
+							path: abs(join(agent.rootPath, ".sk-state.json")),
+							stage: "reconcile",
+							type: "io",
+						},
+						ok: false,
+					}
+				},
+				files: [{ contents: "Plan", path: "prompts/pkg-plan.md" }],
+				plan,
+				remove: ["pkg-old"],
+			})
+
+			expect(result).toBeErrContaining("left as they were")
+			expect(result.ok || result.error.stage).toBe("apply")
+			expect((await readdir(agent.skillsPath)).sort()).toEqual([
+				"pkg-old",
+				"pkg-review",
+			])
+			expect(
+				await readFile(join(agent.skillsPath, "pkg-review", "SKILL.md"), "utf8"),
+			).toBe("# Review v1")
+			expect(await readFile(join(agent.rootPath, ".sk-state.json"), "utf8")).toBe(
+				'{"previous":true}\n',
+			)
+			expect(await readdir(agent.rootPath)).toEqual([".sk-state.json", "skills"])
+		})
+	})
+
+	it("restores rewritten config files when commit fails", async () => {
+		await withTempDir(async (dir) => {
+			const agent = await setupAgent(dir)
+			const plan = await setupPlan(dir, agent, ["review"])
+			await writeFile(join(dir, ".mcp.json"), '{"mcpServers":{}}\n')
+
+			const result = await applyAgentChanges(agent, {
+				commit: async () => ({
+					error: {
+						message: "Disk full.",
+						operation: "writeFile",
+						path: abs(join(agent.rootPath, ".sk-state.json")),
+						stage: "reconcile",
+						type: "io",
+					},
+					ok: false,
+				}),
+				configs: [
+					{
+						contents: '{"mcpServers":{"github":{}}}\n',
+						path: abs(join(dir, ".mcp.json")),
+					},
+					{
+						contents: "[mcp_servers.github]\n",
+						path: abs(join(dir, "config.toml")),
+					},
+				],
+				plan,
+				remove: [],
+			})
+
+			expect(result).toBeErrContaining("left as they were")
+			expect(await readFile(join(dir, ".mcp.json"), "utf8")).toBe(
+				'{"mcpServers":{}}\n',
+			)
+			expect(await exists(join(dir, "config.toml"))).toBe(false)
+		})
+	})
+
+	it("puts back a removed config file when commit fails", async () => {
+		await withTempDir(async (dir) => {
+			const agent = await setupAgent(dir)
+			const plan = await setupPlan(dir, agent, ["review"])
+			await writeFile(join(dir, "AGENTS.md"), "<!-- sk:begin alias=docs -->\n")
+
+			const result = await applyAgentChanges(agent, {
+				commit: async () => ({
+					error: {
+						message: "Disk full.",
+						operation: "writeFile",
+						path: abs(join(agent.rootPath, ".sk-state.json")),
+						stage: "reconcile",
+						type: "io",
+					},
+					ok: false,
+				}),
+				configs: [{ contents: null, path: abs(join(dir, "AGENTS.md")) }],
+				plan,
+				remove: [],
+			})
+
+			expect(result).toBeErrContaining("left as they were")
+			expect(await readFile(join(dir, "AGENTS.md"), "utf8")).toBe(
+				"<!-- sk:begin alias=docs -->\n",
+			)
+		})
+	})
+
+	it("writes the rule files of installed skills and removes stale ones", async () => {
+		await withTempDir(async (dir) => {
+			const skillsAgent = await setupAgent(dir)
+			const [agent, plan] = await setupRules(
+				skillsAgent,
+				await setupPlan(dir, skillsAgent, ["review"]),
+			)
+
+			const result = await applyAgentChanges(agent, {
+				commit: () => writeState(agent),
+				plan,
+				remove: ["pkg-old"],
+			})
+
+			expect(result).toBeOk()
+			expect(await readdir(join(agent.rootPath, "rules"))).toEqual([
+				"pkg-review.md",
+			])
+			expect(
+				await readFile(join(agent.rootPath, "rules", "pkg-review.md"), "utf8"),
+			).toBe("# review\n\nreview\n\n# review v2\n")
+			expect(await readdir(agent.rootPath)).toEqual([
+				".sk-state.json",
+				"rules",
+				"skills",
+			])
+		})
+	})
+
+	it("restores rule files when commit fails", async () => {
+		await withTempDir(async (dir) => {
+			const skillsAgent = await setupAgent(dir)
+			const [agent, plan] = await setupRules(
+				skillsAgent,
+				await setupPlan(dir, skillsAgent, ["review"]),
+			)
+
+			const result = await applyAgentChanges(agent, {
+				commit: async () => ({
+					error: {
+						message: "Disk full.",
+						operation: "writeFile",
+						path: abs(join(agent.rootPath, ".sk-state.json")),
+						stage: "reconcile",
+						type: "io",
+					},
+					ok: false,
+				}),
+				plan,
+				remove: ["pkg-old"],
+			})
+
+			expect(result).toBeErrContaining("left as they were")
+			expect((await readdir(join(agent.rootPath, "rules"))).sort()).toEqual([
+				"pkg-old.md",
+				"pkg-review.md",
+			])
+			expect(
+				await readFile(join(agent.rootPath, "rules", "pkg-review.md"), "utf8"),
+			).toBe("Review rule v1")
+		})
+	})
+
+	it("changes nothing when a skill cannot be staged", async () => {
+		await withTempDir(async (dir) => {
+			const agent = await setupAgent(dir)
+			const plan = await setupPlan(dir, agent, ["review"])
+			const missing = {
+				...plan.tasks[0],
+				skillName: "missing",
+				sourcePath: abs(join(dir, "source", "missing")),
+				targetName: "pkg-missing",
+				targetPath: abs(join(agent.skillsPath, "pkg-missing")),
+			}
+
+			const result = await applyAgentChanges(agent, {
+				commit: () => writeState(agent),
+				plan: { ...plan, tasks: [...plan.tasks, missing] as typeof plan.tasks },
+				remove: ["pkg-old"],
+			})
+
+			expect(result.ok).toBe(false)
+			expect((await readdir(agent.skillsPath)).sort()).toEqual([
+				"pkg-old",
+				"pkg-review",
+			])
+			expect(await exists(join(agent.skillsPath, "pkg-missing"))).toBe(false)
+			expect(await readFile(join(agent.rootPath, ".sk-state.json"), "utf8")).toBe(
+				'{"previous":true}\n',
+			)
+		})
+	})
+})
@@ -1,6 +1,12 @@
 import type { AbsolutePath, Alias } from "@skills-supply/core"
 
-export type ManifestDiscoveredAt = "cwd" | "parent" | "home" | "sk-global"
+export type ManifestDiscoveredAt = "cwd" | "parent" | "home" | "sk-global" | "workspace"
+
+/**
+ * Which manifest installed a skill into a project's agent directories: the
+ * project's own, or the global manifest applied to projects.
+ */
+export type ManifestLayer = "project" | "global"
 
 export type ManifestOrigin = {
 	sourcePath: AbsolutePath
@@ -10,6 +16,11 @@ export type ManifestOrigin = {
 export type PackageOrigin = {
 	alias: Alias
 	manifestPath: AbsolutePath
+	/**
+	 * Aliases of the packages whose manifests pulled this one in, root first.
+	 * Absent for dependencies of the root manifest.
+	 */
+	via?: Alias[]
 }
 
 export type FetchStrategy = { mode: "clone"; sparse: boolean } | { mode: "symlink" }
@@ -0,0 +1,184 @@
+import { join } from "node:path"
+import type { GitRef } from "@skills-supply/core"
+import { describe, expect, it } from "vitest"
+import type { GitPackage, LocalPackage, RegistryPackage } from "@/packages/types"
+import { createRepoCache } from "@/sync/cache"
+import { abs, alias, gitUrl, nes } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+import { commitFixtureGitRepo, initFixtureGitRepo } from "@/tests/helpers/git"
+import { startRegistryFixture } from "@/tests/helpers/registry"
+import { checkOutdated } from "@/upstream/outdated"
+
+function makeGitPackage(repoDir: string, ref?: GitRef): GitPackage {
+	return {
+		fetchStrategy: { mode: "clone", sparse: false },
+		origin: {
+			alias: alias("tools"),
+			manifestPath: abs(join(repoDir, "agents.toml")),
+		},
+		ref,
+		type: "git",
+		url: gitUrl(repoDir),
+	}
+}
+
+describe("checkOutdated", () => {
+	it("classifies a newer semver tag by change level", async () => {
+		await withTempDir(async (dir) => {
+			initFixtureGitRepo(dir, { tag: "v1.0.0" })
+			commitFixtureGitRepo(dir, "patch", { tag: "v1.0.1" })
+			commitFixtureGitRepo(dir, "minor", { tag: "v1.1.0" })
+
+			const result = await checkOutdated(
+				makeGitPackage(dir, { type: "tag", value: nes("v1.0.0") }),
+				undefined,
+				createRepoCache(abs(join(dir, "cache"))),
+			)
+
+			expect(result).toEqual({
+				ok: true,
+				value: {
+					alias: "tools",
+					change: "minor",
+					current: "v1.0.0",
+					latest: "v1.1.0",
+					outdated: true,
+					type: "git",
+				},
+			})
+		})
+	})
+
+	it("reports an up-to-date tag", async () => {
+		await withTempDir(async (dir) => {
+			initFixtureGitRepo(dir, { tag: "v2.0.0" })
+
+			const result = await checkOutdated(
+				makeGitPackage(dir, { type: "tag", value: nes("v2.0.0") }),
+				undefined,
+				createRepoCache(abs(join(dir, "cache"))),
+			)
+
+			expect(result.ok && result.value.change).toBe("none")
+			expect(result.ok && result.value.outdated).toBe(false)
+		})
+	})
+
+	it("compares the locked commit of a branch to the remote head", async () => {
+		await withTempDir(async (dir) => {
+			const first = initFixtureGitRepo(dir)
+			const head = commitFixtureGitRepo(dir, "second")
+
+			const result = await checkOutdated(
+				makeGitPackage(dir, { type: "branch", value: nes("main") }),
+				{
+					alias: alias("tools"),
+					commit: first,
+					declaration: "unused",
+					skills: [],
+					type: "git",
+				},
+				createRepoCache(abs(join(dir, "cache"))),
+			)
+
+			expect(result.ok).toBe(true)
+			if (result.ok) {
+				expect(result.value.current).toBe(first)
+				expect(result.value.latest).toBe(head)
+				expect(result.value.change).toBe("commit")
+				expect(result.value.outdated).toBe(true)
+			}
+		})
+	})
+
+	it("marks a floating ref without a lock entry as unknown", async () => {
+		await withTempDir(async (dir) => {
+			initFixtureGitRepo(dir)
+
+			const result = await checkOutdated(
+				makeGitPackage(dir),
+				undefined,
+				createRepoCache(abs(join(dir, "cache"))),
+			)
+
+			expect(result.ok && result.value.change).toBe("unknown")
+			expect(result.ok && result.value.outdated).toBe(false)
+		})
+	})
+
+	it("compares the locked registry release against the newest release", async () => {
+		await withTempDir(async (dir) => {
+			const registry = await startRegistryFixture(join(dir, "registry"))
+			try {
+				for (const version of ["1.0.0", "1.1.0", "2.0.0-beta.1"]) {
+					await registry.publish({
+						files: { "skills/alpha/SKILL.md": "# Alpha\n" },
+						name: "tools",
+						version,
+					})
+				}
+				const pkg: RegistryPackage = {
+					fetchStrategy: { mode: "clone", sparse: false },
+					name: nes("tools"),
+					origin: {
+						alias: alias("tools"),
+						manifestPath: abs("/tmp/agents.toml"),
+					},
+					registry: nes("tools"),
+					type: "registry",
+					version: nes("^1.0.0"),
+				}
+
+				const result = await checkOutdated(
+					pkg,
+					{
+						alias: alias("tools"),
+						declaration: "registry:tools@^1.0.0",
+						integrity: "sha256-aaa",
+						skills: [],
+						type: "registry",
+						version: "1.0.0",
+					},
+					createRepoCache(abs(join(dir, "cache"))),
+					registry.url,
+				)
+
+				expect(result.ok && result.value).toMatchObject({
+					change: "minor",
+					current: "1.0.0",
+					latest: "1.1.0",
+					outdated: true,
+				})
+			} finally {
+				await registry.close()
+			}
+		})
+	})
+
+	it("reports local dependencies as unsupported", async () => {
+		const pkg: LocalPackage = {
+			absolutePath: abs("/tmp/skills"),
+			fetchStrategy: { mode: "symlink" },
+			origin: { alias: alias("local"), manifestPath: abs("/tmp/agents.toml") },
+			type: "local",
+		}
+
+		const result = await checkOutdated(
+			pkg,
+			undefined,
+			createRepoCache(abs("/tmp/cache")),
+		)
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				alias: "local",
+				change: "unsupported",
+				current: null,
+				latest: null,
+				outdated: false,
+				type: "local",
+			},
+		})
+	})
+})
@@ -0,0 +1,193 @@
+import {
+	compareSemver,
+	findLatestSemverTag,
+	parseSemver,
+	type SemverVersion,
+} from "@skills-supply/core"
+import { SK_REGISTRY_URL } from "@/env"
+import type { LockedPackage } from "@/lock/types"
+import { fetchRegistryIndex } from "@/packages/registry"
+import type {
+	CanonicalPackage,
+	ClaudePluginPackage,
+	RegistryPackage,
+} from "@/packages/types"
+import { failSync } from "@/sync/errors"
+import { loadMarketplacePluginEntry } from "@/sync/marketplace"
+import type { SyncRepoCache, SyncResult } from "@/sync/types"
+import { findLatestTag, findRemoteHead } from "@/upstream/remote"
+import type { GitBackedPackage, OutdatedChange, OutdatedEntry } from "@/upstream/types"
+
+const OUTDATED_CHANGES: ReadonlySet<OutdatedChange> = new Set([
+	"major",
+	"minor",
+	"patch",
+	"prerelease",
+	"commit",
+	"version",
+])
+
+/**
+ * Compare a dependency against its upstream:
+ * - tag: the newest semver tag on the remote
+ * - branch / default HEAD: the remote head against the locked commit
+ * - rev: the remote default HEAD
+ * - claude-plugin: the marketplace.json version against the locked version
+ * - registry: the newest published release against the locked version
+ * Local dependencies have no upstream to compare and are reported as
+ * unsupported.
+ */
+export async function checkOutdated(
+	pkg: CanonicalPackage,
+	locked: LockedPackage | undefined,
+	repoCache: SyncRepoCache,
+	registryUrl: string = SK_REGISTRY_URL,
+): Promise<SyncResult<OutdatedEntry>> {
+	switch (pkg.type) {
+		case "github":
+		case "git":
+			return checkGitPackage(pkg, locked)
+		case "claude-plugin":
+			return checkClaudePlugin(pkg, locked, repoCache)
+		case "registry":
+			return checkRegistryPackage(pkg, locked, registryUrl)
+		case "local":
+			return {
+				ok: true,
+				value: buildEntry(pkg, null, null, "unsupported"),
+			}
+	}
+}
+
+async function checkGitPackage(
+	pkg: GitBackedPackage,
+	locked: LockedPackage | undefined,
+): Promise<SyncResult<OutdatedEntry>> {
+	const ref = pkg.ref
+
+	if (ref?.type === "tag") {
+		const current = parseSemver(ref.value)
+		const latest = await findLatestTag(pkg, {
+			includePrerelease: current ? current.prerelease.length > 0 : false,
+		})
+		if (!latest.ok) {
+			return latest
+		}
+
+		const latestName = latest.value?.name ?? null
+		const latestVersion = latestName ? parseSemver(latestName) : null
+		const change =
+			current && latestVersion ? semverChange(current, latestVersion) : "unknown"
+		return { ok: true, value: buildEntry(pkg, ref.value, latestName, change) }
+	}
+
+	if (ref?.type === "rev") {
+		const head = await findRemoteHead(pkg, undefined)
+		if (!head.ok) {
+			return head
+		}
+
+		const change = head.value.startsWith(ref.value) ? "none" : "commit"
+		return { ok: true, value: buildEntry(pkg, ref.value, head.value, change) }
+	}
+
+	const head = await findRemoteHead(pkg, ref?.value)
+	if (!head.ok) {
+		return head
+	}
+
+	// Without a lock entry there is no record of what the floating ref resolved to.
+	const current = locked?.commit ?? null
+	const change = !current ? "unknown" : current === head.value ? "none" : "commit"
+	return { ok: true, value: buildEntry(pkg, current, head.value, change) }
+}
+
+async function checkClaudePlugin(
+	pkg: ClaudePluginPackage,
+	locked: LockedPackage | undefined,
+	repoCache: SyncRepoCache,
+): Promise<SyncResult<OutdatedEntry>> {
+	const entry = await loadMarketplacePluginEntry(pkg, repoCache)
+	if (!entry.ok) {
+		return entry
+	}
+
+	const current = locked?.marketplace?.version ?? null
+	const latest = entry.value?.version ?? null
+	return {
+		ok: true,
+		value: buildEntry(pkg, current, latest, versionChange(current, latest)),
+	}
+}
+
+async function checkRegistryPackage(
+	pkg: RegistryPackage,
+	locked: LockedPackage | undefined,
+	registryUrl: string,
+): Promise<SyncResult<OutdatedEntry>> {
+	const index = await fetchRegistryIndex(registryUrl, pkg)
+	if (!index.ok) {
+		return failSync("fetch", index.error)
+	}
+
+	const current = locked?.version ?? null
+	const currentVersion = current ? parseSemver(current) : null
+	const latest = findLatestSemverTag(
+		index.value.versions.map((release) => release.version),
+		{
+			includePrerelease: currentVersion
+				? currentVersion.prerelease.length > 0
+				: false,
+		},
+	)
+	return {
+		ok: true,
+		value: buildEntry(pkg, current, latest, versionChange(current, latest)),
+	}
+}
+
+function versionChange(current: string | null, latest: string | null): OutdatedChange {
+	if (!current || !latest) {
+		return "unknown"
+	}
+
+	const currentVersion = parseSemver(current)
+	const latestVersion = parseSemver(latest)
+	if (currentVersion && latestVersion) {
+		return semverChange(currentVersion, latestVersion)
+	}
+
+	return current === latest ? "none" : "version"
+}
+
+function semverChange(current: SemverVersion, latest: SemverVersion): OutdatedChange {
+	if (compareSemver(latest, current) <= 0) {
+		return "none"
+	}
+	if (latest.major !== current.major) {
+		return "major"
+	}
+	if (latest.minor !== current.minor) {
+		return "minor"
+	}
+	if (latest.patch !== current.patch) {
+		return "patch"
+	}
+	return "prerelease"
+}
+
+function buildEntry(
+	pkg: CanonicalPackage,
+	current: string | null,
+	latest: string | null,
+	change: OutdatedChange,
+): OutdatedEntry {
+	return {
+		alias: pkg.origin.alias,
+		change,
+		current,
+		latest,
+		outdated: OUTDATED_CHANGES.has(change),
+		type: pkg.type,
+	}
+}
@@ -0,0 +1,129 @@
+import { join } from "node:path"
+import type { GitRef } from "@skills-supply/core"
+import { describe, expect, it } from "vitest"
+import type { GitPackage } from "@/packages/types"
+import { abs, alias, gitUrl, nes } from "@/tests/helpers/branded"
+import { withTempDir } from "@/tests/helpers/fs"
+import { commitFixtureGitRepo, initFixtureGitRepo } from "@/tests/helpers/git"
+import { findDependencyUpdate } from "@/upstream/remote"
+import { diffSkills } from "@/upstream/skills"
+
+function makeGitPackage(repoDir: string, ref?: GitRef): GitPackage {
+	return {
+		fetchStrategy: { mode: "clone", sparse: false },
+		origin: {
+			alias: alias("tools"),
+			manifestPath: abs(join(repoDir, "agents.toml")),
+		},
+		ref,
+		type: "git",
+		url: gitUrl(repoDir),
+	}
+}
+
+describe("findDependencyUpdate", () => {
+	it("moves a semver tag to the newest release tag", async () => {
+		await withTempDir(async (dir) => {
+			initFixtureGitRepo(dir, { tag: "v1.0.0" })
+			commitFixtureGitRepo(dir, "rc", { tag: "v2.0.0-rc.1" })
+			const latest = commitFixtureGitRepo(dir, "minor", { tag: "v1.2.0" })
+
+			const result = await findDependencyUpdate(
+				makeGitPackage(dir, { type: "tag", value: nes("v1.0.0") }),
+				{ latest: false },
+			)
+
+			expect(result.ok).toBe(true)
+			if (!result.ok) {
+				return
+			}
+			expect(result.value?.kind).toBe("tag")
+			expect(result.value?.from).toBe("v1.0.0")
+			expect(result.value?.to).toBe("v1.2.0")
+			expect(result.value?.nextCommit).toBe(latest)
+			expect(result.value?.next.ref).toEqual({ type: "tag", value: "v1.2.0" })
+		})
+	})
+
+	it("returns null when the tag is already the newest", async () => {
+		await withTempDir(async (dir) => {
+			initFixtureGitRepo(dir, { tag: "v1.0.0" })
+
+			const result = await findDependencyUpdate(
+				makeGitPackage(dir, { type: "tag", value: nes("v1.0.0") }),
+				{ latest: false },
+			)
+
+			expect(result).toEqual({ ok: true, value: null })
+		})
+	})
+
+	it("only moves rev pins with latest", async () => {
+		await withTempDir(async (dir) => {
+			const first = initFixtureGitRepo(dir)
+			const head = commitFixtureGitRepo(dir, "second")
+			const pkg = makeGitPackage(dir, { type: "rev", value: nes(first) })
+
+			const withoutLatest = await findDependencyUpdate(pkg, { latest: false })
+			expect(withoutLatest).toEqual({ ok: true, value: null })
+
+			const withLatest = await findDependencyUpdate(pkg, { latest: true })
+			expect(withLatest.ok).toBe(true)
+			if (withLatest.ok) {
+				expect(withLatest.value?.kind).toBe("rev")
+				expect(withLatest.value?.to).toBe(head)
+			}
+		})
+	})
+
+	it("reports a floating ref whose locked commit is behind the remote", async () => {
+		await withTempDir(async (dir) => {
+			const first = initFixtureGitRepo(dir)
+			const head = commitFixtureGitRepo(dir, "second")
+
+			const result = await findDependencyUpdate(
+				makeGitPackage(dir, { type: "branch", value: nes("main") }),
+				{
+					latest: false,
+					locked: {
+						alias: alias("tools"),
+						commit: first,
+						declaration: "unused",
+						skills: [],
+						type: "git",
+					},
+				},
+			)
+
+			expect(result.ok).toBe(true)
+			if (result.ok) {
+				expect(result.value?.kind).toBe("commit")
+				expect(result.value?.from).toBe(first)
+				expect(result.value?.to).toBe(head)
+			}
+		})
+	})
+})
+
+describe("diffSkills", () => {
+	it("reports added, removed and changed skills", () => {
+		const changes = diffSkills(
+			[
+				{ hash: "sha256-a", name: "alpha" },
+				{ hash: "sha256-b", name: "beta" },
+				{ hash: "sha256-c", name: "gamma" },
+			],
+			[
+				{ hash: "sha256-a", name: "alpha" },
+				{ hash: "sha256-b2", name: "beta" },
+				{ hash: "sha256-d", name: "delta" },
+			],
+		)
+
+		expect(changes).toEqual({
+			added: ["delta"],
+			changed: ["beta"],
+			removed: ["gamma"],
+		})
+	})
+})
@@ -0,0 +1,191 @@
+import {
+	coerceNonEmpty,
+	compareSemver,
+	findLatestSemverTag,
+	parseSemver,
+} from "@skills-supply/core"
+import type { LockedPackage } from "@/lock/types"
+import {
+	githubRemoteUrl,
+	listRemoteTags,
+	parseGithubSlug,
+	type RemoteRef,
+	resolveRemoteHead,
+} from "@/packages/fetch"
+import { failSync } from "@/sync/errors"
+import type { SyncResult } from "@/sync/types"
+import type { DependencyUpdate, GitBackedPackage } from "@/upstream/types"
+
+export function resolveRemoteUrl(pkg: GitBackedPackage): SyncResult<string> {
+	if (pkg.type === "git") {
+		return { ok: true, value: pkg.url }
+	}
+
+	const parsed = parseGithubSlug(pkg.gh, pkg.origin)
+	if (!parsed.ok) {
+		return failSync("resolve", parsed.error)
+	}
+
+	return { ok: true, value: githubRemoteUrl(parsed.value.owner, parsed.value.repo) }
+}
+
+export function packageSpec(pkg: GitBackedPackage): string {
+	return pkg.type === "github" ? pkg.gh : pkg.url
+}
+
+/**
+ * Find the newest semver tag on the package remote, with the commit it points at.
+ */
+export async function findLatestTag(
+	pkg: GitBackedPackage,
+	options: { includePrerelease: boolean },
+): Promise<SyncResult<RemoteRef | null>> {
+	const remoteUrl = resolveRemoteUrl(pkg)
+	if (!remoteUrl.ok) {
+		return remoteUrl
+	}
+
+	const tags = await listRemoteTags(remoteUrl.value, pkg.origin, packageSpec(pkg))
+	if (!tags.ok) {
+		return failSync("fetch", tags.error)
+	}
+
+	const latest = findLatestSemverTag(
+		tags.value.map((tag) => tag.name),
+		options,
+	)
+	return { ok: true, value: tags.value.find((tag) => tag.name === latest) ?? null }
+}
+
+/**
+ * Resolve the commit a branch (or the default HEAD) of the package remote points at.
+ */
+export async function findRemoteHead(
+	pkg: GitBackedPackage,
+	branch: string | undefined,
+): Promise<SyncResult<string>> {
+	const remoteUrl = resolveRemoteUrl(pkg)
+	if (!remoteUrl.ok) {
+		return remoteUrl
+	}
+
+	const head = await resolveRemoteHead(
+		remoteUrl.value,
+		branch,
+		pkg.origin,
+		packageSpec(pkg),
+	)
+	if (!head.ok) {
+		return failSync("fetch", head.error)
+	}
+
+	return head
+}
+
+/**
+ * Check the remote of a git-backed package for a newer ref.
+ * Tags move to the newest semver tag; rev pins move to the remote HEAD only
+ * with `latest`; floating refs compare the locked commit to the remote head.
+ * Returns null when the package is up to date or cannot be updated.
+ */
+export async function findDependencyUpdate(
+	pkg: GitBackedPackage,
+	options: { latest: boolean; locked?: LockedPackage },
+): Promise<SyncResult<DependencyUpdate | null>> {
+	const ref = pkg.ref
+
+	if (ref?.type === "tag") {
+		const current = parseSemver(ref.value)
+		if (!current) {
+			return { ok: true, value: null }
+		}
+
+		const latest = await findLatestTag(pkg, {
+			includePrerelease: current.prerelease.length > 0,
+		})
+		if (!latest.ok) {
+			return latest
+		}
+
+		const latestVersion = latest.value ? parseSemver(latest.value.name) : null
+		const latestTag = latest.value ? coerceNonEmpty(latest.value.name) : null
+		if (
+			!latest.value ||
+			!latestTag ||
+			!latestVersion ||
+			compareSemver(latestVersion, current) <= 0
+		) {
+			return { ok: true, value: null }
+		}
+
+		return {
+			ok: true,
+			value: {
+				alias: pkg.origin.alias,
+				current: pkg,
+				from: ref.value,
+				kind: "tag",
+				next: { ...pkg, ref: { type: "tag", value: latestTag } },
+				nextCommit: latest.value.commit,
+				to: latestTag,
+			},
+		}
+	}
+
+	if (ref?.type === "rev") {
+		if (!options.latest) {
+			return { ok: true, value: null }
+		}
+
+		const head = await findRemoteHead(pkg, undefined)
+		if (!head.ok) {
+			return head
+		}
+
+		const headRev = coerceNonEmpty(head.value)
+		if (!headRev || head.value.startsWith(ref.value)) {
+			return { ok: true, value: null }
+		}
+
+		return {
+			ok: true,
+			value: {
+				alias: pkg.origin.alias,
+				current: pkg,
+				from: ref.value,
+				kind: "rev",
+				next: { ...pkg, ref: { type: "rev", value: headRev } },
+				nextCommit: head.value,
+				to: head.value,
+			},
+		}
+	}
+
+	// Floating refs already track upstream; only the locked commit can be stale.
+	const lockedCommit = options.locked?.commit
+	if (!lockedCommit) {
+		return { ok: true, value: null }
+	}
+
+	const head = await findRemoteHead(pkg, ref?.value)
+	if (!head.ok) {
+		return head
+	}
+
+	if (head.value === lockedCommit) {
+		return { ok: true, value: null }
+	}
+
+	return {
+		ok: true,
+		value: {
+			alias: pkg.origin.alias,
+			current: pkg,
+			from: lockedCommit,
+			kind: "commit",
+			next: pkg,
+			nextCommit: head.value,
+			to: head.value,
+		},
+	}
+}
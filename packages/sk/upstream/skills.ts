@@ -0,0 +1,98 @@
+import { coerceAbsolutePathDirect, type GitRef } from "@skills-supply/core"
+import type { LockedSkill } from "@/lock/types"
+import { joinRepoPath, normalizeSparsePath } from "@/packages/fetch"
+import { fetchCachedRepository } from "@/sync/cache"
+import { failSync } from "@/sync/errors"
+import { hashExtractedSkills } from "@/sync/lock"
+import { buildRepoKey } from "@/sync/repo"
+import { detectAndExtractPackages } from "@/sync/sync"
+import type { SyncRepoCache, SyncResult } from "@/sync/types"
+import { packageSpec, resolveRemoteUrl } from "@/upstream/remote"
+import type { GitBackedPackage, SkillChanges } from "@/upstream/types"
+
+/**
+ * Fetch a git-backed package at a ref through the repo cache and hash the
+ * skills it would install.
+ */
+export async function collectSkillHashes(
+	pkg: GitBackedPackage,
+	ref: GitRef | undefined,
+	repoCache: SyncRepoCache,
+): Promise<SyncResult<LockedSkill[]>> {
+	const spec = packageSpec(pkg)
+	const pathResult = normalizeSparsePath(pkg.path, pkg.origin, spec)
+	if (!pathResult.ok) {
+		return failSync("fetch", pathResult.error)
+	}
+
+	const sparsePath = pathResult.value
+	const remoteUrl = resolveRemoteUrl(pkg)
+	if (!remoteUrl.ok) {
+		return remoteUrl
+	}
+
+	const repoResult = await fetchCachedRepository(repoCache, {
+		key: buildRepoKey(pkg.type, spec, ref),
+		origin: pkg.origin,
+		ref,
+		remoteUrl: remoteUrl.value,
+		source: spec,
+		sparsePaths: sparsePath ? [sparsePath] : undefined,
+	})
+	if (!repoResult.ok) {
+		return repoResult
+	}
+
+	const repoPath = repoResult.value.repoPath
+	const packagePath = coerceAbsolutePathDirect(
+		sparsePath ? joinRepoPath(repoPath, sparsePath) : repoPath,
+	)
+	if (!packagePath) {
+		return failSync("fetch", {
+			field: "path",
+			message: `Invalid package path: ${repoPath}`,
+			source: "manual",
+			type: "validation",
+		})
+	}
+
+	const extracted = await detectAndExtractPackages([
+		{ canonical: pkg, packagePath, repoPath },
+	])
+	if (!extracted.ok) {
+		return extracted
+	}
+
+	const [extractedPackage] = extracted.value.packages
+	if (!extractedPackage) {
+		return { ok: true, value: [] }
+	}
+
+	return hashExtractedSkills(extractedPackage)
+}
+
+export function diffSkills(before: LockedSkill[], after: LockedSkill[]): SkillChanges {
+	const previous = new Map(before.map((skill) => [skill.name, skill.hash]))
+	const next = new Map(after.map((skill) => [skill.name, skill.hash]))
+	const changes: SkillChanges = { added: [], changed: [], removed: [] }
+
+	for (const [name, hash] of next) {
+		const previousHash = previous.get(name)
+		if (previousHash === undefined) {
+			changes.added.push(name)
+		} else if (previousHash !== hash) {
+			changes.changed.push(name)
+		}
+	}
+
+	for (const name of previous.keys()) {
+		if (!next.has(name)) {
+			changes.removed.push(name)
+		}
+	}
+
+	changes.added.sort()
+	changes.changed.sort()
+	changes.removed.sort()
+	return changes
+}
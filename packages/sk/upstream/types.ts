@@ -0,0 +1,57 @@
+import type { Alias, ValidatedDeclaration } from "@skills-supply/core"
+import type { GithubPackage, GitPackage } from "@/packages/types"
+
+export type GitBackedPackage = GithubPackage | GitPackage
+
+/**
+ * How a dependency moves when updated:
+ * - tag: the manifest tag is bumped to a newer semver tag
+ * - rev: the manifest rev is bumped to the remote HEAD commit (--latest only)
+ * - commit: a floating branch/default ref moved; only agents.lock changes
+ */
+export type DependencyUpdateKind = "tag" | "rev" | "commit"
+
+export interface DependencyUpdate {
+	alias: Alias
+	kind: DependencyUpdateKind
+	/** Current ref label (tag name, rev, or locked commit) */
+	from: string
+	/** New ref label */
+	to: string
+	current: GitBackedPackage
+	/** The package with its new ref; equal to current for commit updates */
+	next: GitBackedPackage
+	/** Commit the new ref resolves to */
+	nextCommit: string
+}
+
+export interface SkillChanges {
+	added: string[]
+	removed: string[]
+	changed: string[]
+}
+
+/**
+ * What kind of change separates the current ref from the latest upstream:
+ * semver levels for tags, a new commit for branches/revs, a new marketplace
+ * version for claude plugins.
+ */
+export type OutdatedChange =
+	| "major"
+	| "minor"
+	| "patch"
+	| "prerelease"
+	| "commit"
+	| "version"
+	| "none"
+	| "unknown"
+	| "unsupported"
+
+export interface OutdatedEntry {
+	alias: Alias
+	type: ValidatedDeclaration["type"]
+	current: string | null
+	latest: string | null
+	change: OutdatedChange
+	outdated: boolean
+}
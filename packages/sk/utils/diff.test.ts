@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest"
+import { diffLines } from "@/utils/diff"
+
+describe("diffLines", () => {
+	it("marks lines removed, added and kept", () => {
+		expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual(["  a", "- b", "  c", "+ d"])
+	})
+
+	it("treats an empty text as no lines", () => {
+		expect(diffLines("", "a\nb")).toEqual(["+ a", "+ b"])
+		expect(diffLines("a", "")).toEqual(["- a"])
+	})
+
+	it("lists removals before additions for a changed line", () => {
+		expect(diffLines("use tabs\nend", "use spaces\nend")).toEqual([
+			"- use tabs",
+			"+ use spaces",
+			"  end",
+		])
+	})
+})
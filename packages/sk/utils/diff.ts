@@ -0,0 +1,46 @@
+/**
+ * Line diff of two texts: lines only in before are prefixed with "- ", lines
+ * only in after with "+ ", and lines in both with two spaces.
+ */
+export function diffLines(before: string, after: string): string[] {
+	const left = before ? before.split("\n") : []
+	const right = after ? after.split("\n") : []
+
+	// common[i][j]: length of the longest common subsequence of left[i..] and right[j..]
+	const common = Array.from({ length: left.length + 1 }, () =>
+		new Array<number>(right.length + 1).fill(0),
+	)
+	const at = (i: number, j: number): number => common[i]?.[j] ?? 0
+	for (let i = left.length - 1; i >= 0; i -= 1) {
+		for (let j = right.length - 1; j >= 0; j -= 1) {
+			const row = common[i]
+			if (row) {
+				row[j] =
+					left[i] === right[j]
+						? at(i + 1, j + 1) + 1
+						: Math.max(at(i + 1, j), at(i, j + 1))
+			}
+		}
+	}
+
+	const lines: string[] = []
+	let i = 0
+	let j = 0
+	while (i < left.length || j < right.length) {
+		if (i < left.length && j < right.length && left[i] === right[j]) {
+			lines.push(`  ${left[i]}`)
+			i += 1
+			j += 1
+		} else if (
+			i < left.length &&
+			(j === right.length || at(i + 1, j) >= at(i, j + 1))
+		) {
+			lines.push(`- ${left[i]}`)
+			i += 1
+		} else {
+			lines.push(`+ ${right[j]}`)
+			j += 1
+		}
+	}
+	return lines
+}
@@ -0,0 +1,68 @@
+import type { BaseError, Result } from "@skills-supply/core"
+import { describe, expect, it } from "vitest"
+import { mapWithConcurrency } from "@/utils/pool"
+import { sleep } from "@/utils/sleep"
+
+function failure(message: string): BaseError {
+	return { message, type: "unexpected" }
+}
+
+describe("mapWithConcurrency", () => {
+	it("keeps input order and never exceeds the limit", async () => {
+		let running = 0
+		let peak = 0
+
+		const result = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms) => {
+			running += 1
+			peak = Math.max(peak, running)
+			await sleep(ms)
+			running -= 1
+			return { ok: true, value: ms * 2 }
+		})
+
+		expect(result).toEqual({ ok: true, value: [60, 20, 40, 10, 30] })
+		expect(peak).toBe(2)
+	})
+
+	it("reports the lowest-index failure regardless of completion order", async () => {
+		const result = await mapWithConcurrency(
+			["slow-fail", "fast-fail", "ok"],
+			3,
+			async (item): Promise<Result<string, BaseError>> => {
+				await sleep(item === "slow-fail" ? 30 : 1)
+				return item.endsWith("fail")
+					? { error: failure(item), ok: false }
+					: { ok: true, value: item }
+			},
+		)
+
+		expect(result).toEqual({ error: failure("slow-fail"), ok: false })
+	})
+
+	it("stops starting new items after a failure", async () => {
+		const started: number[] = []
+
+		const result = await mapWithConcurrency(
+			[0, 1, 2, 3],
+			1,
+			async (item): Promise<Result<number, BaseError>> => {
+				started.push(item)
+				return item === 1
+					? { error: failure("boom"), ok: false }
+					: { ok: true, value: item }
+			},
+		)
+
+		expect(result).toEqual({ error: failure("boom"), ok: false })
+		expect(started).toEqual([0, 1])
+	})
+
+	it("returns an empty list for no items", async () => {
+		const result = await mapWithConcurrency([], 4, async () => ({
+			ok: true,
+			value: 1,
+		}))
+
+		expect(result).toEqual({ ok: true, value: [] })
+	})
+})
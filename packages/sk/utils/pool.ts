@@ -0,0 +1,45 @@
+import type { BaseError, Result } from "@skills-supply/core"
+
+/**
+ * Run task over items with at most `limit` calls in flight, keeping results in
+ * input order. After the first failure no new items are started; once running
+ * tasks settle, the failure with the lowest index is returned. Items start in
+ * order, so that failure is the same no matter which task finishes first.
+ */
+export async function mapWithConcurrency<T, R, E extends BaseError>(
+	items: readonly T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<Result<R, E>>,
+): Promise<Result<R[], E>> {
+	const results: Result<R, E>[] = new Array(items.length)
+	let next = 0
+	let failed = false
+
+	const worker = async (): Promise<void> => {
+		while (!failed && next < items.length) {
+			const index = next
+			next += 1
+			const result = await task(items[index] as T, index)
+			results[index] = result
+			if (!result.ok) {
+				failed = true
+			}
+		}
+	}
+
+	const workers = Math.max(1, Math.min(limit, items.length))
+	await Promise.all(Array.from({ length: workers }, () => worker()))
+
+	const values: R[] = []
+	for (const result of results) {
+		if (!result) {
+			continue
+		}
+		if (!result.ok) {
+			return result
+		}
+		values.push(result.value)
+	}
+
+	return { ok: true, value: values }
+}
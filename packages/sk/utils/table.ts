@@ -0,0 +1,16 @@
+/**
+ * Render rows as a plain-text table with left-aligned, space-padded columns.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+	const widths = headers.map((header, index) =>
+		Math.max(header.length, ...rows.map((row) => (row[index] ?? "").length)),
+	)
+
+	const formatRow = (row: string[]): string =>
+		widths
+			.map((width, index) => (row[index] ?? "").padEnd(width))
+			.join("  ")
+			.trimEnd()
+
+	return [formatRow(headers), ...rows.map(formatRow)].join("\n")
+}